@@ -10,6 +10,9 @@ import type {
   BinaryOperator,
   UpdateOperation,
   HttpMethod,
+  FetchCredentials,
+  FetchResponseType,
+  FetchConcurrency,
   NavigateTarget,
   // Expressions
   Expression,
@@ -32,6 +35,7 @@ import type {
   SetStep,
   UpdateStep,
   FetchStep,
+  FetchRetryConfig,
   NavigateStep,
   // Action Definition
   ActionDefinition,
@@ -59,6 +63,9 @@ export type {
   BinaryOperator,
   UpdateOperation,
   HttpMethod,
+  FetchCredentials,
+  FetchResponseType,
+  FetchConcurrency,
   NavigateTarget,
   // Expressions
   Expression,
@@ -81,6 +88,7 @@ export type {
   SetStep,
   UpdateStep,
   FetchStep,
+  FetchRetryConfig,
   NavigateStep,
   // Action Definition
   ActionDefinition,
@@ -265,6 +273,13 @@ export const toggle = (target: string): UpdateStep =>
 export interface FetchOptions {
   method?: HttpMethod;
   body?: Expression;
+  headers?: Record<string, Expression>;
+  credentials?: FetchCredentials;
+  timeout?: number;
+  responseType?: FetchResponseType;
+  concurrency?: FetchConcurrency;
+  abortKey?: string;
+  retry?: FetchRetryConfig;
   result?: string;
   onSuccess?: ActionStep[];
   onError?: ActionStep[];
@@ -278,6 +293,13 @@ export function fetch(url: Expression, options?: FetchOptions): FetchStep {
   if (options) {
     if (options.method !== undefined) result.method = options.method;
     if (options.body !== undefined) result.body = options.body;
+    if (options.headers !== undefined) result.headers = options.headers;
+    if (options.credentials !== undefined) result.credentials = options.credentials;
+    if (options.timeout !== undefined) result.timeout = options.timeout;
+    if (options.responseType !== undefined) result.responseType = options.responseType;
+    if (options.concurrency !== undefined) result.concurrency = options.concurrency;
+    if (options.abortKey !== undefined) result.abortKey = options.abortKey;
+    if (options.retry !== undefined) result.retry = options.retry;
     if (options.result !== undefined) result.result = options.result;
     if (options.onSuccess !== undefined) result.onSuccess = options.onSuccess;
     if (options.onError !== undefined) result.onError = options.onError;
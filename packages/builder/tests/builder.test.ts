@@ -720,6 +720,38 @@ describe('Action Builders', () => {
       });
       expect(result).toEqual(expected);
     });
+
+    it('should handle fetch with request options', () => {
+      const expected: FetchStep = {
+        do: 'fetch',
+        url: { expr: 'lit', value: '/api/data' },
+        method: 'PATCH',
+        headers: { Authorization: { expr: 'state', name: 'token' } },
+        credentials: 'include',
+        timeout: 5000,
+        responseType: 'text',
+      };
+      const result = fetch(lit('/api/data'), {
+        method: 'PATCH',
+        headers: { Authorization: state('token') },
+        credentials: 'include',
+        timeout: 5000,
+        responseType: 'text',
+      });
+      expect(result).toEqual(expected);
+    });
+
+    it('should handle fetch with retry configuration', () => {
+      const expected: FetchStep = {
+        do: 'fetch',
+        url: { expr: 'lit', value: '/api/data' },
+        retry: { maxRetries: 2, strategy: 'linear', baseDelay: 100, retryOn: [503] },
+      };
+      const result = fetch(lit('/api/data'), {
+        retry: { maxRetries: 2, strategy: 'linear', baseDelay: 100, retryOn: [503] },
+      });
+      expect(result).toEqual(expected);
+    });
   });
 
   // -------------------- Test 22: navigate(url) --------------------
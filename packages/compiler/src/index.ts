@@ -19,15 +19,27 @@ export { analyzePass } from './passes/analyze.js';
 export { createUndefinedVarError } from '@constela/core';
 export type { AnalyzePassResult, AnalyzePassSuccess, AnalyzePassFailure, AnalysisContext } from './passes/analyze.js';
 
+export { lowerModelBindings, getModelActionName } from './passes/lower-model.js';
+export type { ModelLoweringInput } from './passes/lower-model.js';
+
 export { transformPass } from './passes/transform.js';
 export type {
   CompiledProgram,
+  CompiledStateField,
+  CompiledWatch,
+  CompiledResource,
+  CompiledResourceSnapshot,
+  CompiledForm,
+  CompiledI18n,
+  CompiledFormField,
+  CompiledFormRule,
   CompiledRouteDefinition,
   CompiledLifecycleHooks,
   CompiledNode,
   CompiledElementNode,
   CompiledTextNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
   CompiledMarkdownNode,
   CompiledCodeNode,
@@ -56,6 +68,11 @@ export type {
   CompiledUpdateStep,
   CompiledSetPathStep,
   CompiledFetchStep,
+  CompiledAbortStep,
+  CompiledInvalidateStep,
+  CompiledValidateFormStep,
+  CompiledResetFormStep,
+  CompiledSubmitFormStep,
   CompiledStorageStep,
   CompiledClipboardStep,
   CompiledNavigateStep,
@@ -65,12 +82,18 @@ export type {
   CompiledDisposeStep,
   CompiledDomStep,
   CompiledIfStep,
+  CompiledRunStep,
+  CompiledTryStep,
+  CompiledThrowStep,
+  CompiledParallelStep,
+  CompiledForEachStep,
   CompiledRefExpr,
   CompiledParamExpr,
   CompiledStyleExpr,
   CompiledConcatExpr,
   CompiledEventHandler,
   CompiledEventHandlerOptions,
+  CompiledGlobalEventHandler,
   CompiledSendStep,
   CompiledCloseStep,
   CompiledDelayStep,
@@ -82,6 +105,13 @@ export type {
   CompiledCallExpr,
   CompiledLambdaExpr,
   CompiledArrayExpr,
+  CompiledComputedExpr,
+  CompiledResourceExpr,
+  CompiledFormExpr,
+  CompiledTranslateExpr,
+  CompiledContextExpr,
+  CompiledWSConnectStep,
+  CompiledRPCStep,
   CompiledSSEConnectStep,
   CompiledSSECloseStep,
   CompiledOptimisticStep,
@@ -89,6 +119,7 @@ export type {
   CompiledRejectStep,
   CompiledBindStep,
   CompiledUnbindStep,
+  CompiledEmitStep,
 } from './passes/transform.js';
 
 // Layout passes
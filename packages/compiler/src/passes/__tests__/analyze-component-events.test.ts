@@ -0,0 +1,127 @@
+/**
+ * Test module for component event analysis.
+ *
+ * Coverage:
+ * - emit steps are allowed in local actions and must name a declared event
+ * - on handlers must name a declared event and an action in scope
+ * - emit payloads and handler payloads are validated
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with component events', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a Program rendering a Dialog that emits close with a reason
+   */
+  function createProgram(overrides: { emitStep?: unknown; on?: unknown } = {}): Program {
+    return {
+      version: '1.0',
+      state: { open: { type: 'boolean', initial: true } },
+      actions: [{ name: 'close', steps: [{ do: 'set', target: 'open', value: { expr: 'lit', value: false } }] }],
+      components: {
+        Dialog: {
+          params: { title: { type: 'string' } },
+          emits: ['close'],
+          localActions: [
+            {
+              name: 'dismiss',
+              steps: [
+                overrides.emitStep ?? { do: 'emit', event: 'close', payload: { expr: 'param', name: 'title' } },
+              ],
+            },
+          ],
+          view: {
+            kind: 'element',
+            tag: 'button',
+            props: { onClick: { event: 'click', action: 'dismiss' } },
+          },
+        },
+      },
+      view: {
+        kind: 'component',
+        name: 'Dialog',
+        props: { title: { expr: 'lit', value: 'Hello' } },
+        on: overrides.on ?? { close: { event: 'close', action: 'close' } },
+      },
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept emit steps and handlers for declared events', () => {
+    // Arrange
+    const program = createProgram();
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report emit steps for undeclared events', () => {
+    // Arrange
+    const program = createProgram({ emitStep: { do: 'emit', event: 'closed' } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('COMPONENT_EVENT_UNDECLARED');
+      expect(result.errors[0]?.path).toBe('/components/Dialog/localActions/0/steps/0/event');
+      expect(result.errors[0]?.suggestion).toContain('close');
+    }
+  });
+
+  it('should report undefined params in emit payloads', () => {
+    // Arrange
+    const program = createProgram({
+      emitStep: { do: 'emit', event: 'close', payload: { expr: 'param', name: 'label' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.path).toBe('/components/Dialog/localActions/0/steps/0/payload');
+    }
+  });
+
+  it('should report handlers for undeclared events', () => {
+    // Arrange
+    const program = createProgram({ on: { dismissed: { event: 'dismissed', action: 'close' } } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('COMPONENT_EVENT_UNDECLARED');
+      expect(result.errors[0]?.path).toBe('/view/on/dismissed');
+    }
+  });
+
+  it('should report handlers referencing undefined actions', () => {
+    // Arrange
+    const program = createProgram({ on: { close: { event: 'close', action: 'hide' } } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('UNDEFINED_ACTION');
+      expect(result.errors[0]?.path).toBe('/view/on/close');
+    }
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Test module for component lifecycle analysis.
+ *
+ * Coverage:
+ * - onMount and onUnmount may name local or global actions
+ * - Undefined hook actions are reported under the component path
+ * - Local actions may start and clear timers, subscribe, and use dom and focus steps
+ * - Interval actions must name a local or global action
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with component lifecycle', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a Program rendering a Ticker with the given lifecycle hooks
+   */
+  function createProgram(lifecycle: Record<string, string>, steps: unknown[] = []): Program {
+    return {
+      version: '1.0',
+      state: { log: { type: 'list', initial: [] } },
+      actions: [{ name: 'record', steps: [] }],
+      components: {
+        Ticker: {
+          localState: { ticks: { type: 'number', initial: 0 } },
+          localActions: [
+            { name: 'start', steps: [{ do: 'update', target: 'ticks', operation: 'increment' }] },
+            { name: 'run', steps },
+          ],
+          lifecycle,
+          view: { kind: 'text', value: { expr: 'local', name: 'ticks' } },
+        },
+      },
+      view: { kind: 'component', name: 'Ticker' },
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept hooks naming local and global actions', () => {
+    // Arrange
+    const program = createProgram({ onMount: 'start', onUnmount: 'record' });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report hooks naming undefined actions', () => {
+    // Arrange
+    const program = createProgram({ onMount: 'starts' });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('UNDEFINED_ACTION');
+      expect(result.errors[0]?.path).toBe('/components/Ticker/lifecycle/onMount');
+      expect(result.errors[0]?.suggestion).toContain('start');
+    }
+  });
+
+  it('should accept timer, subscribe, dom and focus steps in local actions', () => {
+    // Arrange
+    const program = createProgram({ onMount: 'run' }, [
+      { do: 'interval', ms: { expr: 'lit', value: 100 }, action: 'start', result: 'timer' },
+      { do: 'clearTimer', target: { expr: 'var', name: 'timer' } },
+      { do: 'subscribe', target: { expr: 'var', name: 'source' }, event: 'onChange', action: 'record' },
+      { do: 'dom', operation: 'addClass', selector: { expr: 'lit', value: 'body' }, value: { expr: 'lit', value: 'busy' } },
+      {
+        do: 'focus',
+        target: { expr: 'lit', value: 'input' },
+        operation: 'focus',
+        onError: [{ do: 'set', target: 'ticks', value: { expr: 'lit', value: 0 } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report interval steps naming undefined actions', () => {
+    // Arrange
+    const program = createProgram({ onMount: 'run' }, [
+      { do: 'interval', ms: { expr: 'lit', value: 100 }, action: 'starts' },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('UNDEFINED_ACTION');
+      expect(result.errors[0]?.path).toBe('/components/Ticker/localActions/1/steps/0/action');
+    }
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Test module for Computed analysis.
+ *
+ * Coverage:
+ * - Computed expressions reference declared computed names
+ * - Computed definitions are validated like view expressions
+ * - Circular computed dependencies are detected
+ * - Component-level computed is scoped to the component
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with Computed', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program for testing computed analysis
+   */
+  function createProgramWithComputed(
+    computed: Record<string, unknown> | undefined,
+    view: unknown = { kind: 'element', tag: 'div' },
+    extra: Record<string, unknown> = {}
+  ): Program {
+    return {
+      version: '1.0',
+      state: {
+        count: { type: 'number', initial: 0 },
+        items: { type: 'list', initial: [] },
+      },
+      computed,
+      actions: [],
+      view,
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Valid Computed ====================
+
+  describe('valid computed', () => {
+    it('should accept computed referenced from the view', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        {
+          doubled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'state', name: 'count' },
+            right: { expr: 'lit', value: 2 },
+          },
+        },
+        { kind: 'text', value: { expr: 'computed', name: 'doubled' } }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.context.computedNames.has('doubled')).toBe(true);
+      }
+    });
+
+    it('should accept computed depending on another computed', () => {
+      // Arrange
+      const program = createProgramWithComputed({
+        doubled: {
+          expr: 'bin',
+          op: '*',
+          left: { expr: 'state', name: 'count' },
+          right: { expr: 'lit', value: 2 },
+        },
+        quadrupled: {
+          expr: 'bin',
+          op: '*',
+          left: { expr: 'computed', name: 'doubled' },
+          right: { expr: 'lit', value: 2 },
+        },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+
+    it('should accept computed referenced from action steps', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        { total: { expr: 'get', base: { expr: 'state', name: 'items' }, path: 'length' } },
+        { kind: 'element', tag: 'div' },
+        {
+          actions: [
+            {
+              name: 'snapshot',
+              steps: [{ do: 'set', target: 'count', value: { expr: 'computed', name: 'total' } }],
+            },
+          ],
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+  });
+
+  // ==================== Undefined References ====================
+
+  describe('undefined computed references', () => {
+    it('should reject undefined computed in view', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        { doubled: { expr: 'state', name: 'count' } },
+        { kind: 'text', value: { expr: 'computed', name: 'doubeld' } }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_COMPUTED');
+        expect(result.errors[0]?.path).toBe('/view/value');
+        expect(result.errors[0]?.suggestion).toBe("Did you mean 'doubled'?");
+      }
+    });
+
+    it('should reject undefined state inside a computed definition', () => {
+      // Arrange
+      const program = createProgramWithComputed({
+        broken: { expr: 'state', name: 'missing' },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+        expect(result.errors[0]?.path).toBe('/computed/broken');
+      }
+    });
+
+    it('should reject undefined computed in action steps', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        undefined,
+        { kind: 'element', tag: 'div' },
+        {
+          actions: [
+            {
+              name: 'snapshot',
+              steps: [{ do: 'set', target: 'count', value: { expr: 'computed', name: 'total' } }],
+            },
+          ],
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_COMPUTED');
+        expect(result.errors[0]?.path).toBe('/actions/0/steps/0/value');
+      }
+    });
+  });
+
+  // ==================== Cycle Detection ====================
+
+  describe('computed cycles', () => {
+    it('should detect a self-referencing computed', () => {
+      // Arrange
+      const program = createProgramWithComputed({
+        loop: { expr: 'computed', name: 'loop' },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('COMPUTED_CYCLE');
+        expect(result.errors[0]?.message).toContain('loop -> loop');
+      }
+    });
+
+    it('should detect an indirect computed cycle', () => {
+      // Arrange
+      const program = createProgramWithComputed({
+        a: { expr: 'computed', name: 'b' },
+        b: {
+          expr: 'bin',
+          op: '+',
+          left: { expr: 'computed', name: 'c' },
+          right: { expr: 'lit', value: 1 },
+        },
+        c: { expr: 'computed', name: 'a' },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        const cycleError = result.errors.find((e) => e.code === 'COMPUTED_CYCLE');
+        expect(cycleError?.message).toContain('a -> b -> c -> a');
+        expect(cycleError?.path).toBe('/computed/a');
+      }
+    });
+  });
+
+  // ==================== Component Computed ====================
+
+  describe('component computed', () => {
+    it('should accept component computed using params and local state', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        undefined,
+        { kind: 'component', name: 'Price', props: { amount: { expr: 'lit', value: 10 } } },
+        {
+          components: {
+            Price: {
+              params: { amount: { type: 'number' } },
+              localState: { qty: { type: 'number', initial: 1 } },
+              computed: {
+                total: {
+                  expr: 'bin',
+                  op: '*',
+                  left: { expr: 'param', name: 'amount' },
+                  right: { expr: 'state', name: 'qty' },
+                },
+              },
+              view: { kind: 'text', value: { expr: 'computed', name: 'total' } },
+            },
+          },
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject component computed referenced outside the component', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        undefined,
+        { kind: 'text', value: { expr: 'computed', name: 'total' } },
+        {
+          components: {
+            Price: {
+              computed: { total: { expr: 'lit', value: 1 } },
+              view: { kind: 'text', value: { expr: 'computed', name: 'total' } },
+            },
+          },
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]?.code).toBe('UNDEFINED_COMPUTED');
+        expect(result.errors[0]?.path).toBe('/view/value');
+      }
+    });
+
+    it('should detect cycles in component computed', () => {
+      // Arrange
+      const program = createProgramWithComputed(
+        undefined,
+        { kind: 'element', tag: 'div' },
+        {
+          components: {
+            Loop: {
+              computed: {
+                a: { expr: 'computed', name: 'b' },
+                b: { expr: 'computed', name: 'a' },
+              },
+              view: { kind: 'element', tag: 'span' },
+            },
+          },
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('COMPUTED_CYCLE');
+        expect(result.errors[0]?.path).toBe('/components/Loop/computed/a');
+      }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Test module for context analysis.
+ *
+ * Coverage:
+ * - context expressions are accepted below a providing element or component
+ * - reads inside a component without a providing ancestor are reported at the usage
+ * - provided values are validated in the caller's scope
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with context', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a Program rendering a Label that reads the theme context
+   */
+  function createProgram(view: unknown): Program {
+    return {
+      version: '1.0',
+      state: { theme: { type: 'string', initial: 'dark' } },
+      actions: [],
+      components: {
+        Label: {
+          view: {
+            kind: 'element',
+            tag: 'span',
+            props: { class: { expr: 'context', name: 'theme' } },
+          },
+        },
+      },
+      view,
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept context provided by an ancestor element', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'element',
+      tag: 'div',
+      provide: { theme: { expr: 'state', name: 'theme' } },
+      children: [{ kind: 'element', tag: 'p', children: [{ kind: 'component', name: 'Label' }] }],
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should accept context provided by the component node itself', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'component',
+      name: 'Label',
+      provide: { theme: { expr: 'lit', value: 'light' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report component reads of context no ancestor provides', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'element',
+      tag: 'div',
+      provide: { themes: { expr: 'state', name: 'theme' } },
+      children: [{ kind: 'component', name: 'Label' }],
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('CONTEXT_NOT_PROVIDED');
+      expect(result.errors[0]?.path).toBe('/view/children/0');
+      expect(result.errors[0]?.suggestion).toContain('themes');
+    }
+  });
+
+  it('should not make context visible to the providing element props', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'element',
+      tag: 'div',
+      props: { class: { expr: 'context', name: 'theme' } },
+      provide: { theme: { expr: 'state', name: 'theme' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('CONTEXT_NOT_PROVIDED');
+      expect(result.errors[0]?.path).toBe('/view/props/class');
+    }
+  });
+
+  it('should report undefined state in provided values', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'component',
+      name: 'Label',
+      provide: { theme: { expr: 'state', name: 'color' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+      expect(result.errors[0]?.path).toBe('/view/provide/theme');
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Test module for forEach step analysis.
+ *
+ * Coverage:
+ * - Items expressions are validated for state references
+ * - Steps nested in the loop body are validated
+ * - Loop variables are accepted in nested steps
+ * - Runtime locals such as payload are accepted in nested steps
+ * - Variables not in scope are reported in nested steps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with forEach step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program whose `completeAll` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { todos: { type: 'list', initial: [] } },
+      actions: [{ name: 'completeAll', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should accept loop variables in nested steps', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'forEach',
+        items: { expr: 'state', name: 'todos' },
+        as: 'todo',
+        index: 'i',
+        steps: [
+          {
+            do: 'setPath',
+            target: 'todos',
+            path: { expr: 'var', name: 'i' },
+            value: { expr: 'var', name: 'todo' },
+          },
+        ],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined state in items and nested steps', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'forEach',
+        items: { expr: 'state', name: 'todoz' },
+        as: 'todo',
+        steps: [{ do: 'set', target: 'done', value: { expr: 'var', name: 'todo' } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_STATE', '/actions/0/steps/0/items'],
+        ['UNDEFINED_STATE', '/actions/0/steps/0/steps/0/target'],
+      ]);
+    }
+  });
+
+  it('should accept runtime locals alongside loop variables', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'forEach',
+        items: { expr: 'var', name: 'payload' },
+        as: 'it',
+        steps: [
+          {
+            do: 'update',
+            target: 'todos',
+            operation: 'push',
+            value: { expr: 'get', base: { expr: 'var', name: 'it' }, path: 'id' },
+          },
+        ],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report a variable that is not in scope in nested steps', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'forEach',
+        items: { expr: 'state', name: 'todos' },
+        as: 'it',
+        steps: [
+          {
+            do: 'update',
+            target: 'todos',
+            operation: 'push',
+            value: { expr: 'var', name: 'itt' },
+          },
+        ],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['VAR_UNDEFINED', '/actions/0/steps/0/steps/0/value'],
+      ]);
+    }
+  });
+});
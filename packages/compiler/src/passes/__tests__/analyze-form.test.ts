@@ -0,0 +1,146 @@
+/**
+ * Test module for Form analysis.
+ *
+ * Coverage:
+ * - Form expressions and form steps reference declared forms and fields
+ * - Form fields target declared state
+ * - Equals rules reference fields of the same form
+ * - Pattern rules hold valid regular expressions
+ * - Custom rule expressions can use the value and values vars
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with Forms', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with a `signup` form over `password` and `confirm`
+   */
+  function createProgramWithForm(
+    confirmRules: unknown[] = [{ type: 'equals', field: 'password' }],
+    extra: Record<string, unknown> = {}
+  ): Program {
+    return {
+      version: '1.0',
+      state: {
+        password: { type: 'string', initial: '' },
+        confirm: { type: 'string', initial: '' },
+      },
+      forms: {
+        signup: {
+          fields: {
+            password: { target: 'password', rules: [{ type: 'required' }] },
+            confirm: { target: 'confirm', rules: confirmRules },
+          },
+        },
+      },
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept valid form references', () => {
+    // Arrange
+    const program = createProgramWithForm(
+      [
+        { type: 'equals', field: 'password' },
+        {
+          type: 'custom',
+          expr: { expr: 'bin', op: '!=', left: { expr: 'var', name: 'value' }, right: { expr: 'lit', value: 'x' } },
+        },
+      ],
+      {
+        actions: [
+          {
+            name: 'submit',
+            steps: [
+              { do: 'validateForm', form: 'signup', field: 'confirm' },
+              { do: 'submitForm', form: 'signup', onSuccess: [{ do: 'resetForm', form: 'signup' }] },
+            ],
+          },
+        ],
+        view: { kind: 'text', value: { expr: 'form', name: 'signup', field: 'confirm', prop: 'error' } },
+      }
+    );
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined forms and fields', () => {
+    // Arrange
+    const program = createProgramWithForm(undefined, {
+      actions: [
+        {
+          name: 'submit',
+          steps: [
+            { do: 'submitForm', form: 'singup' },
+            { do: 'validateForm', form: 'signup', field: 'pasword' },
+          ],
+        },
+      ],
+      view: { kind: 'text', value: { expr: 'form', name: 'signup', field: 'email', prop: 'error' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_FORM', '/actions/0/steps/0/form'],
+        ['UNDEFINED_FORM_FIELD', '/actions/0/steps/1/field'],
+        ['UNDEFINED_FORM_FIELD', '/view/value'],
+      ]);
+      expect(result.errors[0]?.suggestion).toContain('signup');
+    }
+  });
+
+  it('should report undefined targets and equals fields', () => {
+    // Arrange
+    const program = createProgramWithForm([{ type: 'equals', field: 'passwrd' }], {
+      state: { password: { type: 'string', initial: '' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_STATE', '/forms/signup/fields/confirm/target'],
+        ['UNDEFINED_FORM_FIELD', '/forms/signup/fields/confirm/rules/0/field'],
+      ]);
+    }
+  });
+
+  it('should report pattern rules that are not valid regular expressions', () => {
+    // Arrange
+    const program = createProgramWithForm([
+      { type: 'pattern', value: '^[a-z]+$' },
+      { type: 'pattern', value: '([a-z' },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['SCHEMA_INVALID', '/forms/signup/fields/confirm/rules/1/value'],
+      ]);
+    }
+  });
+});
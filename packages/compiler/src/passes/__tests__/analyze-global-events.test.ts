@@ -0,0 +1,84 @@
+/**
+ * Test module for global event analysis.
+ *
+ * Coverage:
+ * - Program globalEvents reference declared actions
+ * - Undefined actions are reported for programs and layouts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import { analyzeLayoutPass } from '../analyze-layout.js';
+import type { Program, LayoutProgram } from '@constela/core';
+
+describe('analyzePass with globalEvents', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with a close action
+   */
+  function createProgram(extra: Record<string, unknown>): Program {
+    return {
+      version: '1.0',
+      state: {},
+      actions: [{ name: 'close', steps: [] }],
+      view: { kind: 'element', tag: 'div' },
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Program Global Events ====================
+
+  it('should accept globalEvents referencing declared actions', () => {
+    // Arrange
+    const program = createProgram({
+      globalEvents: [{ target: 'document', event: 'keydown', action: 'close', keys: ['esc'] }],
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined global event action', () => {
+    // Arrange
+    const program = createProgram({
+      globalEvents: [{ target: 'window', event: 'resize', action: 'clsoe' }],
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_ACTION', '/globalEvents/0/action'],
+      ]);
+    }
+  });
+
+  // ==================== Layout Global Events ====================
+
+  it('should report undefined global event action in layouts', () => {
+    // Arrange
+    const layout = {
+      version: '1.0',
+      type: 'layout',
+      actions: [{ name: 'close', steps: [] }],
+      globalEvents: [{ target: 'document', event: 'keydown', action: 'missing' }],
+      view: { kind: 'slot' },
+    } as unknown as LayoutProgram;
+
+    // Act
+    const result = analyzeLayoutPass(layout);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.path).toBe('/globalEvents/0/action');
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Test module for I18n analysis.
+ *
+ * Coverage:
+ * - The locale state is available to expressions when i18n is configured
+ * - t expression params are validated
+ * - Keys missing in an inline catalog produce warnings, imported catalogs are skipped
+ * - A declared locale state must be a string field
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with I18n', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with English and Japanese catalogs
+   */
+  function createProgramWithI18n(extra: Record<string, unknown> = {}): Program {
+    return {
+      version: '1.0',
+      imports: { fr: './messages/fr.json' },
+      i18n: {
+        defaultLocale: 'en',
+        messages: {
+          en: { title: 'Shop', items: '{count} items' },
+          ja: { title: 'ショップ' },
+          fr: { expr: 'import', name: 'fr' },
+        },
+      },
+      state: { count: { type: 'number', initial: 0 } },
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept t expressions and references to the locale state', () => {
+    // Arrange
+    const program = createProgramWithI18n({
+      view: {
+        kind: 'element',
+        tag: 'div',
+        props: { lang: { expr: 'state', name: 'locale' } },
+        children: [
+          { kind: 'text', value: { expr: 't', key: 'title' } },
+          { kind: 'text', value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'count' } } } },
+        ],
+      },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined state in t expression params', () => {
+    // Arrange
+    const program = createProgramWithI18n({
+      view: { kind: 'text', value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'total' } } } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+      expect(result.errors[0]?.path).toBe('/view/value/params/count');
+    }
+  });
+
+  it('should warn about keys missing in inline catalogs', () => {
+    // Arrange
+    const program = createProgramWithI18n({
+      view: { kind: 'text', value: { expr: 't', key: 'checkout' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const warnings = result.warnings
+        .filter((warning) => warning.code === 'I18N_MISSING_KEY')
+        .map((warning) => [warning.message, warning.path, warning.severity]);
+      expect(warnings).toEqual([
+        ["Message 'checkout' is missing in locale 'en'", '/view/value', 'warning'],
+        ["Message 'checkout' is missing in locale 'ja'", '/view/value', 'warning'],
+        ["Message 'items' is missing in locale 'ja'", '/i18n/messages/en/items', 'warning'],
+      ]);
+    }
+  });
+
+  it('should reject a non-string locale state', () => {
+    // Arrange
+    const program = createProgramWithI18n({
+      state: { locale: { type: 'number', initial: 0 } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.path).toBe('/state/locale/type');
+    }
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Test module for Match node analysis.
+ *
+ * Coverage:
+ * - Match value and case branches are validated
+ * - Duplicate match cases are detected
+ * - Refs inside match branches are collected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with Match', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with the given view
+   */
+  function createProgram(view: unknown): Program {
+    return {
+      version: '1.0',
+      state: {
+        status: { type: 'string', initial: 'idle' },
+      },
+      actions: [],
+      view,
+    } as unknown as Program;
+  }
+
+  // ==================== Valid Match ====================
+
+  describe('valid match', () => {
+    it('should accept match with cases and default', () => {
+      // Arrange
+      const program = createProgram({
+        kind: 'match',
+        value: { expr: 'state', name: 'status' },
+        cases: {
+          loading: { kind: 'text', value: { expr: 'lit', value: 'Loading' } },
+          done: { kind: 'element', tag: 'div', ref: 'doneBox' },
+        },
+        default: { kind: 'text', value: { expr: 'state', name: 'status' } },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.context.refNames.has('doneBox')).toBe(true);
+      }
+    });
+  });
+
+  // ==================== Invalid Match ====================
+
+  describe('invalid match', () => {
+    it('should reject undefined state in match value', () => {
+      // Arrange
+      const program = createProgram({
+        kind: 'match',
+        value: { expr: 'state', name: 'statuz' },
+        cases: {},
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+        expect(result.errors[0]?.path).toBe('/view/value');
+      }
+    });
+
+    it('should reject undefined state inside a case branch', () => {
+      // Arrange
+      const program = createProgram({
+        kind: 'match',
+        value: { expr: 'state', name: 'status' },
+        cases: {
+          error: { kind: 'text', value: { expr: 'state', name: 'message' } },
+        },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.path).toBe('/view/cases/error/value');
+      }
+    });
+
+    it('should detect duplicate cases selecting the same literal', () => {
+      // Arrange
+      const program = createProgram({
+        kind: 'match',
+        value: { expr: 'lit', value: 1 },
+        cases: {
+          '1': { kind: 'text', value: { expr: 'lit', value: 'one' } },
+          '1.0': { kind: 'text', value: { expr: 'lit', value: 'also one' } },
+        },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]?.code).toBe('DUPLICATE_MATCH_CASE');
+        expect(result.errors[0]?.path).toBe('/view/cases/1.0');
+      }
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Test module for model binding analysis.
+ *
+ * Coverage:
+ * - Model targets must be declared in state or component localState
+ * - Paths are rejected on local state targets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with model bindings', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with a 'name' state and a 'Field' component
+   */
+  function createProgram(view: unknown, componentModel?: unknown): Program {
+    return {
+      version: '1.0',
+      state: { name: { type: 'string', initial: '' } },
+      actions: [],
+      components: {
+        Field: {
+          localState: { draft: { type: 'object', initial: {} } },
+          view: { kind: 'element', tag: 'input', model: componentModel ?? { target: 'draft' } },
+        },
+      },
+      view,
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept models targeting state and local state', () => {
+    // Arrange
+    const program = createProgram({
+      kind: 'element',
+      tag: 'div',
+      children: [
+        { kind: 'element', tag: 'input', model: { target: 'name' } },
+        { kind: 'component', name: 'Field' },
+      ],
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined model targets', () => {
+    // Arrange
+    const program = createProgram({ kind: 'element', tag: 'input', model: { target: 'nmae' } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([['UNDEFINED_STATE', '/view/model/target']]);
+      expect(result.errors[0]?.suggestion).toContain('name');
+    }
+  });
+
+  it('should reject paths on local state targets', () => {
+    // Arrange
+    const program = createProgram(
+      { kind: 'component', name: 'Field' },
+      { target: 'draft', path: 'title' }
+    );
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['SCHEMA_INVALID', '/components/Field/view/model/path'],
+      ]);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test module for parallel step analysis.
+ *
+ * Coverage:
+ * - Steps nested in branches, onSuccess and onError are validated
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with parallel step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program whose `load` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: {
+        users: { type: 'list', initial: [] },
+        status: { type: 'string', initial: '' },
+      },
+      actions: [{ name: 'load', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should accept parallel step referencing declared state', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'parallel',
+        branches: [
+          [{ do: 'fetch', url: { expr: 'lit', value: '/api/users' }, result: 'users' }],
+          [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'loading' } }],
+        ],
+        onSuccess: [{ do: 'set', target: 'users', value: { expr: 'var', name: 'users' } }],
+        onError: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined state in nested steps with their paths', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'parallel',
+        branches: [
+          [],
+          [{ do: 'set', target: 'userz', value: { expr: 'lit', value: [] } }],
+        ],
+        onSuccess: [{ do: 'set', target: 'stats', value: { expr: 'lit', value: 'ok' } }],
+        onError: [{ do: 'set', target: 'stauts', value: { expr: 'lit', value: 'failed' } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_STATE', '/actions/0/steps/0/branches/1/0/target'],
+        ['UNDEFINED_STATE', '/actions/0/steps/0/onSuccess/0/target'],
+        ['UNDEFINED_STATE', '/actions/0/steps/0/onError/0/target'],
+      ]);
+    }
+  });
+});
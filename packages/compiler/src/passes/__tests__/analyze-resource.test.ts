@@ -0,0 +1,147 @@
+/**
+ * Test module for Resource analysis.
+ *
+ * Coverage:
+ * - Resource expressions reference declared resource names
+ * - Resource URL expressions are validated like view expressions
+ * - Invalidate steps reference declared resource names
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with Resources', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with a `user` resource depending on `userId`
+   */
+  function createProgramWithResources(
+    view: unknown = { kind: 'element', tag: 'div' },
+    extra: Record<string, unknown> = {}
+  ): Program {
+    return {
+      version: '1.0',
+      state: { userId: { type: 'string', initial: '1' } },
+      resources: {
+        user: {
+          url: {
+            expr: 'concat',
+            items: [{ expr: 'lit', value: '/api/users/' }, { expr: 'state', name: 'userId' }],
+          },
+        },
+      },
+      actions: [],
+      view,
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Valid Resources ====================
+
+  describe('valid resources', () => {
+    it('should accept resources referenced from the view and invalidate steps', () => {
+      // Arrange
+      const program = createProgramWithResources(
+        { kind: 'text', value: { expr: 'resource', name: 'user', field: 'data' } },
+        { actions: [{ name: 'reload', steps: [{ do: 'invalidate', resource: 'user' }] }] }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.context.resourceNames.has('user')).toBe(true);
+      }
+    });
+
+    it('should accept resource expressions in action steps', () => {
+      // Arrange
+      const program = createProgramWithResources(
+        { kind: 'element', tag: 'div' },
+        {
+          actions: [
+            {
+              name: 'copyId',
+              steps: [
+                {
+                  do: 'set',
+                  target: 'userId',
+                  value: { expr: 'resource', name: 'user', field: 'error' },
+                },
+              ],
+            },
+          ],
+        }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+  });
+
+  // ==================== Undefined References ====================
+
+  describe('undefined resource references', () => {
+    it('should reject undefined resource in view', () => {
+      // Arrange
+      const program = createProgramWithResources({
+        kind: 'text',
+        value: { expr: 'resource', name: 'usr', field: 'data' },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_RESOURCE');
+        expect(result.errors[0]?.path).toBe('/view/value');
+        expect(result.errors[0]?.suggestion).toBe("Did you mean 'user'?");
+      }
+    });
+
+    it('should reject undefined state in a resource url', () => {
+      // Arrange
+      const program = {
+        ...createProgramWithResources(),
+        resources: { user: { url: { expr: 'state', name: 'missing' } } },
+      } as unknown as Program;
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+        expect(result.errors[0]?.path).toBe('/resources/user/url');
+      }
+    });
+
+    it('should reject invalidate steps for undefined resources', () => {
+      // Arrange
+      const program = createProgramWithResources(
+        { kind: 'element', tag: 'div' },
+        { actions: [{ name: 'reload', steps: [{ do: 'invalidate', resource: 'users' }] }] }
+      );
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_RESOURCE');
+        expect(result.errors[0]?.path).toBe('/actions/0/steps/0/resource');
+      }
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Test module for run step analysis.
+ *
+ * Coverage:
+ * - Run steps referencing declared actions are accepted
+ * - Undefined run targets are reported with suggestions
+ * - Payload expressions are validated for state references
+ * - Direct and indirect action run cycles are detected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with run step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with the given actions
+   */
+  function createProgram(actions: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { draft: { type: 'string', initial: '' } },
+      actions,
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  // ==================== Action References ====================
+
+  describe('action references', () => {
+    it('should accept run step referencing a declared action', () => {
+      // Arrange
+      const program = createProgram([
+        {
+          name: 'save',
+          steps: [
+            {
+              do: 'run',
+              action: 'validate',
+              payload: { expr: 'state', name: 'draft' },
+              result: 'validation',
+            },
+          ],
+        },
+        { name: 'validate', steps: [] },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+
+    it('should report undefined run action', () => {
+      // Arrange
+      const program = createProgram([
+        { name: 'save', steps: [{ do: 'run', action: 'validat' }] },
+        { name: 'validate', steps: [] },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]?.code).toBe('UNDEFINED_ACTION');
+        expect(result.errors[0]?.path).toBe('/actions/0/steps/0/action');
+        expect(result.errors[0]?.suggestion).toContain('validate');
+      }
+    });
+
+    it('should report undefined state in payload', () => {
+      // Arrange
+      const program = createProgram([
+        {
+          name: 'save',
+          steps: [{ do: 'run', action: 'validate', payload: { expr: 'state', name: 'drfat' } }],
+        },
+        { name: 'validate', steps: [] },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('UNDEFINED_STATE');
+        expect(result.errors[0]?.path).toBe('/actions/0/steps/0/payload');
+      }
+    });
+  });
+
+  // ==================== Cycle Detection ====================
+
+  describe('cycle detection', () => {
+    it('should detect an action running itself', () => {
+      // Arrange
+      const program = createProgram([
+        { name: 'loop', steps: [{ do: 'run', action: 'loop' }] },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.code).toBe('ACTION_CYCLE');
+        expect(result.errors[0]?.path).toBe('/actions/0');
+      }
+    });
+
+    it('should detect indirect cycles through nested steps', () => {
+      // Arrange
+      const program = createProgram([
+        { name: 'a', steps: [{ do: 'run', action: 'b' }] },
+        {
+          name: 'b',
+          steps: [
+            {
+              do: 'if',
+              condition: { expr: 'lit', value: true },
+              then: [{ do: 'run', action: 'a' }],
+            },
+          ],
+        },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]?.code).toBe('ACTION_CYCLE');
+        expect(result.errors[0]?.message).toContain('a -> b -> a');
+      }
+    });
+
+    it('should accept actions shared by multiple callers', () => {
+      // Arrange
+      const program = createProgram([
+        { name: 'a', steps: [{ do: 'run', action: 'c' }] },
+        { name: 'b', steps: [{ do: 'run', action: 'c' }, { do: 'run', action: 'a' }] },
+        { name: 'c', steps: [] },
+      ]);
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+  });
+});
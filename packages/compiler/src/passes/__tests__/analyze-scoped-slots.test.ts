@@ -0,0 +1,122 @@
+/**
+ * Test module for scoped slot analysis.
+ *
+ * Coverage:
+ * - slot content can reference the slotProps variable
+ * - slot props are validated in the component's scope
+ * - named slot content must target a slot of the component
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with scoped slots', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a Program rendering a List that passes each item to its default slot
+   */
+  function createProgram(
+    overrides: { slotProps?: unknown; usage?: Record<string, unknown> } = {}
+  ): Program {
+    return {
+      version: '1.0',
+      state: { items: { type: 'list', initial: ['a', 'b'] } },
+      actions: [],
+      components: {
+        List: {
+          params: { items: { type: 'json' } },
+          view: {
+            kind: 'element',
+            tag: 'ul',
+            children: [
+              { kind: 'slot', name: 'header' },
+              {
+                kind: 'each',
+                items: { expr: 'param', name: 'items' },
+                as: 'item',
+                index: 'i',
+                body: {
+                  kind: 'slot',
+                  props: overrides.slotProps ?? { item: { expr: 'var', name: 'item' }, index: { expr: 'var', name: 'i' } },
+                },
+              },
+            ],
+          },
+        },
+      },
+      view: {
+        kind: 'component',
+        name: 'List',
+        props: { items: { expr: 'state', name: 'items' } },
+        slotProps: 'row',
+        children: [
+          { kind: 'element', tag: 'h2', slot: 'header' },
+          { kind: 'text', value: { expr: 'var', name: 'row', path: 'item' } },
+        ],
+        ...overrides.usage,
+      },
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should accept slot content referencing the slotProps variable', () => {
+    // Arrange
+    const program = createProgram();
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report slot content variables without a slotProps binding', () => {
+    // Arrange
+    const program = createProgram({ usage: { slotProps: 'entry' } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('VAR_UNDEFINED');
+      expect(result.errors[0]?.path).toBe('/view/children/1/value');
+    }
+  });
+
+  it('should report undefined variables in slot props', () => {
+    // Arrange
+    const program = createProgram({ slotProps: { item: { expr: 'var', name: 'entry' } } });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('VAR_UNDEFINED');
+      expect(result.errors[0]?.path).toBe('/components/List/view/children/1/body/props/item');
+    }
+  });
+
+  it('should report content for slots the component does not have', () => {
+    // Arrange
+    const program = createProgram({
+      usage: { children: [{ kind: 'element', tag: 'footer', slot: 'footer' }] },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]?.code).toBe('SCHEMA_INVALID');
+      expect(result.errors[0]?.path).toBe('/view/children/0/slot');
+    }
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Test module for syncQuery analysis.
+ *
+ * Coverage:
+ * - String, number and boolean fields may sync to the URL query
+ * - List and object fields are rejected as non-serializable
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with syncQuery', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with the given state fields
+   */
+  function createProgramWithState(state: Record<string, unknown>): Program {
+    return {
+      version: '1.0',
+      state,
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  // ==================== Serializable Fields ====================
+
+  it('should accept syncQuery on primitive fields', () => {
+    // Arrange
+    const program = createProgramWithState({
+      q: { type: 'string', initial: '', syncQuery: { param: 'q', mode: 'replace' } },
+      page: { type: 'number', initial: 1, syncQuery: { param: 'page', mode: 'push' } },
+      archived: { type: 'boolean', initial: false, syncQuery: { param: 'archived', mode: 'push' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  // ==================== Non-serializable Fields ====================
+
+  it('should reject syncQuery on list and object fields', () => {
+    // Arrange
+    const program = createProgramWithState({
+      tags: { type: 'list', initial: [], syncQuery: { param: 'tags', mode: 'push' } },
+      filter: { type: 'object', initial: {}, syncQuery: { param: 'filter', mode: 'push' } },
+    });
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.code)).toEqual([
+        'INVALID_SYNC_QUERY_TYPE',
+        'INVALID_SYNC_QUERY_TYPE',
+      ]);
+      expect(result.errors[0]?.path).toBe('/state/tags/syncQuery');
+    }
+  });
+});
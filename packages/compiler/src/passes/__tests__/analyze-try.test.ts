@@ -0,0 +1,70 @@
+/**
+ * Test module for try / throw step analysis.
+ *
+ * Coverage:
+ * - Steps nested in try, catch and finally are validated
+ * - Throw message expressions are validated for state references
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with try / throw steps', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program whose `save` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { status: { type: 'string', initial: '' } },
+      actions: [{ name: 'save', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should accept try step referencing declared state', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'try',
+        steps: [{ do: 'throw', message: { expr: 'state', name: 'status' } }],
+        catch: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } }],
+        finally: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'done' } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report undefined state in nested steps with their paths', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'try',
+        steps: [{ do: 'set', target: 'stauts', value: { expr: 'lit', value: 'saving' } }],
+        catch: [{ do: 'set', target: 'errr', value: { expr: 'lit', value: 'failed' } }],
+        finally: [{ do: 'throw', message: { expr: 'state', name: 'missing' } }],
+      },
+    ]);
+
+    // Act
+    const result = analyzePass(program);
+
+    // Assert
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+        ['UNDEFINED_STATE', '/actions/0/steps/0/steps/0/target'],
+        ['UNDEFINED_STATE', '/actions/0/steps/0/catch/0/target'],
+        ['UNDEFINED_STATE', '/actions/0/steps/0/finally/0/message'],
+      ]);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Test module for watch analysis.
+ *
+ * Coverage:
+ * - Program watch references declared state and actions
+ * - Undefined targets and actions are reported
+ * - Component watch may reference local state and local actions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePass } from '../analyze.js';
+import type { Program } from '@constela/core';
+
+describe('analyzePass with watch', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal Program with a query field and a search action
+   */
+  function createProgram(extra: Record<string, unknown>): Program {
+    return {
+      version: '1.0',
+      state: { query: { type: 'string', initial: '' } },
+      actions: [{ name: 'search', steps: [] }],
+      view: { kind: 'element', tag: 'div' },
+      ...extra,
+    } as unknown as Program;
+  }
+
+  // ==================== Program Watch ====================
+
+  describe('program watch', () => {
+    it('should accept watch referencing declared state and actions', () => {
+      // Arrange
+      const program = createProgram({
+        watch: [{ target: 'query', action: 'search', debounce: 300 }],
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+
+    it('should report undefined watch target and action', () => {
+      // Arrange
+      const program = createProgram({
+        watch: [{ target: 'qeury', action: 'serch' }],
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+          ['UNDEFINED_STATE', '/watch/0/target'],
+          ['UNDEFINED_ACTION', '/watch/0/action'],
+        ]);
+      }
+    });
+  });
+
+  // ==================== Component Watch ====================
+
+  describe('component watch', () => {
+    it('should accept watch referencing local state and local actions', () => {
+      // Arrange
+      const program = createProgram({
+        components: {
+          Counter: {
+            localState: { count: { type: 'number', initial: 0 } },
+            localActions: [{ name: 'reset', steps: [] }],
+            watch: [
+              { target: 'count', action: 'reset' },
+              { target: 'query', action: 'search' },
+            ],
+            view: { kind: 'element', tag: 'div' },
+          },
+        },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(true);
+    });
+
+    it('should report undefined component watch target', () => {
+      // Arrange
+      const program = createProgram({
+        components: {
+          Counter: {
+            watch: [{ target: 'missing', action: 'search' }],
+            view: { kind: 'element', tag: 'div' },
+          },
+        },
+      });
+
+      // Act
+      const result = analyzePass(program);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors[0]?.path).toBe('/components/Counter/watch/0/target');
+      }
+    });
+  });
+});
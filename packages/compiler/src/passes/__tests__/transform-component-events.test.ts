@@ -0,0 +1,109 @@
+/**
+ * Test module for component event transformation.
+ *
+ * Coverage:
+ * - Components declaring emits are wrapped in a localState node
+ * - on handlers are transformed in the caller's context
+ * - emit payloads are transformed in the component's context
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with component events', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['selected']),
+      actionNames: new Set<string>(['select']),
+      componentNames: new Set<string>(['Option', 'List']),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should wrap an emitting component with its parent handlers', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { selected: { type: 'string', initial: '' } },
+      actions: [{ name: 'select', steps: [{ do: 'set', target: 'selected', value: { expr: 'var', name: 'payload' } }] }],
+      components: {
+        Option: {
+          params: { value: { type: 'string' } },
+          emits: ['pick'],
+          localActions: [{ name: 'choose', steps: [{ do: 'emit', event: 'pick', payload: { expr: 'param', name: 'value' } }] }],
+          view: { kind: 'element', tag: 'li', props: { onClick: { event: 'click', action: 'choose' } } },
+        },
+        List: {
+          params: { prefix: { type: 'string' } },
+          view: {
+            kind: 'component',
+            name: 'Option',
+            props: { value: { expr: 'lit', value: 'a' } },
+            on: {
+              pick: {
+                event: 'pick',
+                action: 'select',
+                payload: {
+                  expr: 'bin',
+                  op: '+',
+                  left: { expr: 'param', name: 'prefix' },
+                  right: { expr: 'var', name: 'detail' },
+                },
+              },
+            },
+          },
+        },
+      },
+      view: { kind: 'component', name: 'List', props: { prefix: { expr: 'lit', value: 'item-' } } },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'localState',
+      state: {},
+      actions: {
+        choose: {
+          name: 'choose',
+          steps: [{ do: 'emit', event: 'pick', payload: { expr: 'lit', value: 'a' } }],
+        },
+      },
+      on: {
+        pick: {
+          event: 'pick',
+          action: 'select',
+          payload: {
+            expr: 'bin',
+            op: '+',
+            left: { expr: 'lit', value: 'item-' },
+            right: { expr: 'var', name: 'detail' },
+          },
+        },
+      },
+      child: {
+        kind: 'element',
+        tag: 'li',
+        props: { onClick: { event: 'click', action: 'choose' } },
+      },
+    });
+  });
+});
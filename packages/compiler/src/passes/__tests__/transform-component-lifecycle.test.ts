@@ -0,0 +1,66 @@
+/**
+ * Test module for component lifecycle transformation.
+ *
+ * Coverage:
+ * - Components with lifecycle hooks are wrapped in a localState node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with component lifecycle', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(['Observer']),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(['root']),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should wrap a component with lifecycle hooks without local state', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      components: {
+        Observer: {
+          localActions: [{ name: 'observe', steps: [] }],
+          lifecycle: { onMount: 'observe' },
+          view: { kind: 'element', tag: 'div', ref: 'root' },
+        },
+      },
+      view: { kind: 'component', name: 'Observer' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'localState',
+      state: {},
+      actions: { observe: { name: 'observe', steps: [] } },
+      lifecycle: { onMount: 'observe' },
+      child: { kind: 'element', tag: 'div', ref: 'root' },
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Test module for Computed transformation.
+ *
+ * Coverage:
+ * - Program computed is transformed into CompiledProgram.computed
+ * - Computed expressions are preserved as references
+ * - Component computed is lowered onto the instance with params substituted
+ * - Component computed does not leak into nested components
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { CompiledElementNode, CompiledLocalStateNode, CompiledTextNode } from '../../index.js';
+
+describe('transformPass with Computed', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Program Computed ====================
+
+  describe('program computed', () => {
+    it('should transform computed section into CompiledProgram.computed', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: { count: { type: 'number', initial: 1 } },
+        computed: {
+          doubled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'state', name: 'count' },
+            right: { expr: 'lit', value: 2 },
+          },
+        },
+        actions: [],
+        view: { kind: 'text', value: { expr: 'computed', name: 'doubled' } },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      expect(result.computed).toEqual({
+        doubled: {
+          expr: 'bin',
+          op: '*',
+          left: { expr: 'state', name: 'count' },
+          right: { expr: 'lit', value: 2 },
+        },
+      });
+      expect((result.view as CompiledTextNode).value).toEqual({
+        expr: 'computed',
+        name: 'doubled',
+      });
+    });
+
+    it('should omit computed when not defined', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      expect(result.computed).toBeUndefined();
+    });
+  });
+
+  // ==================== Component Computed ====================
+
+  describe('component computed', () => {
+    it('should lower component computed onto the instance with params substituted', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'component',
+          name: 'Label',
+          props: { first: { expr: 'lit', value: 'Ada' } },
+        },
+        components: {
+          Label: {
+            params: { first: { type: 'string' } },
+            computed: {
+              greeting: {
+                expr: 'concat',
+                items: [{ expr: 'lit', value: 'Hi ' }, { expr: 'param', name: 'first' }],
+              },
+              shout: {
+                expr: 'call',
+                target: { expr: 'computed', name: 'greeting' },
+                method: 'toUpperCase',
+              },
+            },
+            view: { kind: 'text', value: { expr: 'computed', name: 'shout' } },
+          },
+        },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      const node = result.view as CompiledLocalStateNode;
+      expect(node.kind).toBe('localState');
+      expect(node.computed).toEqual({
+        'Label:greeting': {
+          expr: 'concat',
+          items: [{ expr: 'lit', value: 'Hi ' }, { expr: 'lit', value: 'Ada' }],
+        },
+        'Label:shout': {
+          expr: 'call',
+          target: { expr: 'computed', name: 'Label:greeting' },
+          method: 'toUpperCase',
+        },
+      });
+      expect((node.child as CompiledTextNode).value).toEqual({ expr: 'computed', name: 'Label:shout' });
+    });
+
+    it('should keep program computed references inside components', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: {},
+        computed: { total: { expr: 'lit', value: 3 } },
+        actions: [],
+        view: { kind: 'component', name: 'Outer' },
+        components: {
+          Outer: {
+            computed: { total: { expr: 'lit', value: 1 } },
+            view: {
+              kind: 'element',
+              tag: 'div',
+              children: [
+                { kind: 'text', value: { expr: 'computed', name: 'total' } },
+                { kind: 'component', name: 'Inner' },
+              ],
+            },
+          },
+          Inner: {
+            view: { kind: 'text', value: { expr: 'computed', name: 'total' } },
+          },
+        },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      const outer = result.view as CompiledLocalStateNode;
+      const children = (outer.child as CompiledElementNode).children ?? [];
+      expect(outer.computed).toEqual({ 'Outer:total': { expr: 'lit', value: 1 } });
+      expect((children[0] as CompiledTextNode).value).toEqual({ expr: 'computed', name: 'Outer:total' });
+      expect((children[1] as CompiledTextNode).value).toEqual({ expr: 'computed', name: 'total' });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test module for context transformation.
+ *
+ * Coverage:
+ * - Element provide values are transformed alongside props
+ * - Components given provide values are wrapped in a localState node
+ * - Provided values are transformed in the caller's context
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with context', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['theme']),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(['Label', 'Panel']),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should transform element provide values and context reads', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { theme: { type: 'string', initial: 'dark' } },
+      actions: [],
+      view: {
+        kind: 'element',
+        tag: 'div',
+        provide: { theme: { expr: 'state', name: 'theme' } },
+        children: [{ kind: 'text', value: { expr: 'context', name: 'theme', path: 'name' } }],
+      },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'element',
+      tag: 'div',
+      provide: { theme: { expr: 'state', name: 'theme' } },
+      children: [{ kind: 'text', value: { expr: 'context', name: 'theme', path: 'name' } }],
+    });
+  });
+
+  it('should wrap a component given provide values in the caller context', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { theme: { type: 'string', initial: 'dark' } },
+      actions: [],
+      components: {
+        Label: {
+          view: { kind: 'text', value: { expr: 'context', name: 'theme' } },
+        },
+        Panel: {
+          params: { theme: { type: 'string' } },
+          view: {
+            kind: 'component',
+            name: 'Label',
+            provide: { theme: { expr: 'param', name: 'theme' } },
+          },
+        },
+      },
+      view: { kind: 'component', name: 'Panel', props: { theme: { expr: 'lit', value: 'light' } } },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'localState',
+      state: {},
+      actions: {},
+      provide: { theme: { expr: 'lit', value: 'light' } },
+      child: { kind: 'text', value: { expr: 'context', name: 'theme' } },
+    });
+  });
+});
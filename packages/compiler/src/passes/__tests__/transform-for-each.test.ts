@@ -0,0 +1,96 @@
+/**
+ * Test module for forEach step transformation.
+ *
+ * Coverage:
+ * - Items, loop variables, nested steps and concurrency are transformed
+ * - Optional index and concurrency are omitted when not defined
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with forEach step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['files']),
+      actionNames: new Set<string>(['uploadAll']),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  /**
+   * Creates a Program whose `uploadAll` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { files: { type: 'list', initial: [] } },
+      actions: [{ name: 'uploadAll', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should transform forEach step with index and concurrency', () => {
+    // Arrange
+    const upload = {
+      do: 'fetch',
+      url: { expr: 'lit', value: '/api/upload' },
+      method: 'POST',
+      body: { expr: 'var', name: 'file' },
+    };
+    const program = createProgram([
+      {
+        do: 'forEach',
+        items: { expr: 'state', name: 'files' },
+        as: 'file',
+        index: 'i',
+        steps: [upload],
+        concurrency: 2,
+      },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['uploadAll']?.steps[0]).toMatchObject({
+      do: 'forEach',
+      items: { expr: 'state', name: 'files' },
+      as: 'file',
+      index: 'i',
+      steps: [{ do: 'fetch', method: 'POST' }],
+      concurrency: 2,
+    });
+  });
+
+  it('should omit index and concurrency when not defined', () => {
+    // Arrange
+    const program = createProgram([
+      { do: 'forEach', items: { expr: 'state', name: 'files' }, as: 'file', steps: [] },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['uploadAll']?.steps).toEqual([
+      { do: 'forEach', items: { expr: 'state', name: 'files' }, as: 'file', steps: [] },
+    ]);
+  });
+});
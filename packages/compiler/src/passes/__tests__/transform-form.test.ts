@@ -0,0 +1,122 @@
+/**
+ * Test module for Form transformation.
+ *
+ * Coverage:
+ * - Forms are transformed with compiled custom and async rule expressions
+ * - Form expressions and form steps are transformed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with Forms', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['username']),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map([['signup', new Set(['username'])]]),
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should transform forms, form expressions and form steps', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { username: { type: 'string', initial: '' } },
+      forms: {
+        signup: {
+          fields: {
+            username: {
+              target: 'username',
+              rules: [
+                { type: 'required', message: 'Pick a username' },
+                {
+                  type: 'async',
+                  url: {
+                    expr: 'concat',
+                    items: [{ expr: 'lit', value: '/api/available?name=' }, { expr: 'var', name: 'value' }],
+                  },
+                },
+              ],
+            },
+          },
+          messages: { async: 'Already taken' },
+        },
+      },
+      actions: [
+        {
+          name: 'submit',
+          steps: [
+            { do: 'validateForm', form: 'signup', field: 'username' },
+            { do: 'submitForm', form: 'signup', onError: [{ do: 'resetForm', form: 'signup' }] },
+          ],
+        },
+      ],
+      view: { kind: 'text', value: { expr: 'form', name: 'signup', prop: 'valid' } },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.forms).toEqual({
+      signup: {
+        fields: {
+          username: {
+            target: 'username',
+            rules: [
+              { type: 'required', message: 'Pick a username' },
+              {
+                type: 'async',
+                url: {
+                  expr: 'concat',
+                  items: [{ expr: 'lit', value: '/api/available?name=' }, { expr: 'var', name: 'value' }],
+                },
+              },
+            ],
+          },
+        },
+        messages: { async: 'Already taken' },
+      },
+    });
+    expect(result.actions['submit']?.steps).toEqual([
+      { do: 'validateForm', form: 'signup', field: 'username' },
+      { do: 'submitForm', form: 'signup', onError: [{ do: 'resetForm', form: 'signup' }] },
+    ]);
+    expect(result.view).toEqual({ kind: 'text', value: { expr: 'form', name: 'signup', prop: 'valid' } });
+  });
+
+  it('should omit forms when none are declared', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result).not.toHaveProperty('forms');
+  });
+});
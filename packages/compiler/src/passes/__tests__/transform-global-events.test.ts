@@ -0,0 +1,152 @@
+/**
+ * Test module for global event transformation.
+ *
+ * Coverage:
+ * - Program globalEvents are transformed into CompiledProgram.globalEvents
+ * - Layout globalEvents are compiled and merged into the composed program
+ * - Layout global events follow layout actions renamed on conflict
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import { transformLayoutPass, composeLayoutWithPage } from '../transform-layout.js';
+import type { Program, LayoutProgram } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { LayoutAnalysisContext } from '../analyze-layout.js';
+import type { CompiledProgram } from '../transform.js';
+
+describe('transformPass with globalEvents', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Program Global Events ====================
+
+  it('should transform program globalEvents into CompiledProgram.globalEvents', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      globalEvents: [
+        { target: 'document', event: 'keydown', action: 'openSearch', keys: ['ctrl+k'], modifiers: ['prevent'] },
+        { target: 'window', event: 'online', action: 'sync' },
+      ],
+      actions: [
+        { name: 'openSearch', steps: [] },
+        { name: 'sync', steps: [] },
+      ],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.globalEvents).toEqual([
+      { target: 'document', event: 'keydown', action: 'openSearch', keys: ['ctrl+k'], modifiers: ['prevent'] },
+      { target: 'window', event: 'online', action: 'sync' },
+    ]);
+  });
+
+  it('should omit globalEvents when not defined', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.globalEvents).toBeUndefined();
+  });
+});
+
+describe('layouts with globalEvents', () => {
+  // ==================== Helper Functions ====================
+
+  function createLayoutContext(): LayoutAnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      slotNames: new Set<string>(),
+      hasDefaultSlot: true,
+    };
+  }
+
+  function compileLayout(): CompiledProgram {
+    const layout = {
+      version: '1.0',
+      type: 'layout',
+      state: {},
+      actions: [
+        { name: 'toggleMenu', steps: [] },
+        { name: 'close', steps: [] },
+      ],
+      globalEvents: [
+        { target: 'document', event: 'keydown', action: 'toggleMenu', keys: ['m'] },
+        { target: 'document', event: 'keydown', action: 'close', keys: ['esc'] },
+      ],
+      view: { kind: 'slot' },
+    } as unknown as LayoutProgram;
+    return transformLayoutPass(layout, createLayoutContext()) as unknown as CompiledProgram;
+  }
+
+  // ==================== Composition ====================
+
+  it('should compile layout globalEvents', () => {
+    // Act
+    const layout = compileLayout();
+
+    // Assert
+    expect(layout.globalEvents).toEqual([
+      { target: 'document', event: 'keydown', action: 'toggleMenu', keys: ['m'] },
+      { target: 'document', event: 'keydown', action: 'close', keys: ['esc'] },
+    ]);
+  });
+
+  it('should merge layout and page globalEvents, following renamed layout actions', () => {
+    // Arrange
+    const page: CompiledProgram = {
+      version: '1.0',
+      state: {},
+      actions: { close: { name: 'close', steps: [] } },
+      globalEvents: [{ target: 'window', event: 'beforeunload', action: 'close' }],
+      view: { kind: 'element', tag: 'main' },
+    };
+
+    // Act
+    const result = composeLayoutWithPage(compileLayout(), page);
+
+    // Assert
+    expect(result.globalEvents).toEqual([
+      { target: 'document', event: 'keydown', action: 'toggleMenu', keys: ['m'] },
+      { target: 'document', event: 'keydown', action: '$layout.close', keys: ['esc'] },
+      { target: 'window', event: 'beforeunload', action: 'close' },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test module for I18n transformation.
+ *
+ * Coverage:
+ * - The i18n configuration is passed through with imported catalogs kept as import expressions
+ * - The locale state is added unless the program declares it
+ * - t expressions are transformed with compiled params
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with I18n', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['count', 'locale']),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(['ja']),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  function createProgram(state: Record<string, unknown>): Program {
+    return {
+      version: '1.0',
+      imports: { ja: './messages/ja.json' },
+      i18n: {
+        defaultLocale: 'en',
+        localeCookie: 'lang',
+        messages: {
+          en: { items: '{count, plural, one {# item} other {# items}}' },
+          ja: { expr: 'import', name: 'ja' },
+        },
+      },
+      state,
+      actions: [],
+      view: {
+        kind: 'text',
+        value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'count' } } },
+      },
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should transform the i18n configuration, t expressions and add the locale state', () => {
+    // Arrange
+    const program = createProgram({ count: { type: 'number', initial: 0 } });
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.i18n).toEqual({
+      defaultLocale: 'en',
+      localeCookie: 'lang',
+      messages: {
+        en: { items: '{count, plural, one {# item} other {# items}}' },
+        ja: { expr: 'import', name: 'ja' },
+      },
+    });
+    expect(result.state['locale']).toEqual({
+      type: 'string',
+      initial: { expr: 'cookie', key: 'lang', default: 'en' },
+    });
+    expect(result.view).toEqual({
+      kind: 'text',
+      value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'count' } } },
+    });
+  });
+
+  it('should keep a declared locale state', () => {
+    // Arrange
+    const program = createProgram({
+      count: { type: 'number', initial: 0 },
+      locale: { type: 'string', initial: 'ja' },
+    });
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.state['locale']).toEqual({ type: 'string', initial: 'ja' });
+  });
+});
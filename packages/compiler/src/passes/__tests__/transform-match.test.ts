@@ -0,0 +1,112 @@
+/**
+ * Test module for Match node transformation.
+ *
+ * Coverage:
+ * - Match value, cases and default are transformed
+ * - Transition directive is preserved
+ * - Component params inside case branches are substituted
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { CompiledMatchNode, CompiledTextNode } from '../../index.js';
+
+describe('transformPass with Match', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['status']),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Match Node ====================
+
+  it('should transform match value, cases, default and transition', () => {
+    // Arrange
+    const transition = {
+      enter: 'fade-enter',
+      enterActive: 'fade-enter-active',
+      exit: 'fade-exit',
+      exitActive: 'fade-exit-active',
+    };
+    const program = {
+      version: '1.0',
+      state: { status: { type: 'string', initial: 'idle' } },
+      actions: [],
+      view: {
+        kind: 'match',
+        value: { expr: 'state', name: 'status' },
+        cases: {
+          loading: { kind: 'text', value: { expr: 'lit', value: 'Loading' } },
+        },
+        default: { kind: 'text', value: { expr: 'lit', value: 'Idle' } },
+        transition,
+      },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'match',
+      value: { expr: 'state', name: 'status' },
+      cases: {
+        loading: { kind: 'text', value: { expr: 'lit', value: 'Loading' } },
+      },
+      default: { kind: 'text', value: { expr: 'lit', value: 'Idle' } },
+      transition,
+    });
+  });
+
+  it('should substitute component params inside case branches', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      view: {
+        kind: 'component',
+        name: 'Status',
+        props: { label: { expr: 'lit', value: 'Done!' } },
+      },
+      components: {
+        Status: {
+          params: { label: { type: 'string' } },
+          view: {
+            kind: 'match',
+            value: { expr: 'lit', value: 'done' },
+            cases: {
+              done: { kind: 'text', value: { expr: 'param', name: 'label' } },
+            },
+          },
+        },
+      },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    const match = result.view as CompiledMatchNode;
+    expect((match.cases['done'] as CompiledTextNode).value).toEqual({ expr: 'lit', value: 'Done!' });
+    expect(match.default).toBeUndefined();
+  });
+});
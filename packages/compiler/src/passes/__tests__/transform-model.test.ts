@@ -0,0 +1,166 @@
+/**
+ * Test module for model binding lowering.
+ *
+ * Coverage:
+ * - Text inputs bind value with an input handler
+ * - Number inputs store valueAsNumber, checkboxes store checked
+ * - Radios compare the state with their value
+ * - Multi-selects store the selected values
+ * - Paths lower into setPath actions
+ * - Local state targets generate component local actions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { CompiledElementNode, CompiledLocalStateNode } from '../transform.js';
+
+describe('transformPass with model bindings', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  function transformView(view: unknown, extra: Record<string, unknown> = {}) {
+    const program = {
+      version: '1.0',
+      state: {
+        name: { type: 'string', initial: '' },
+        form: { type: 'object', initial: {} },
+      },
+      actions: [],
+      view,
+      ...extra,
+    } as unknown as Program;
+    return transformPass(program, createContext());
+  }
+
+  // ==================== Controls ====================
+
+  it('should lower a text input into value and input handler', () => {
+    // Act
+    const result = transformView({ kind: 'element', tag: 'input', model: { target: 'name' } });
+
+    // Assert
+    const view = result.view as CompiledElementNode;
+    expect(view).not.toHaveProperty('model');
+    expect(view.props).toEqual({
+      value: { expr: 'state', name: 'name' },
+      $model: { event: 'input', action: '$model.name', payload: { expr: 'var', name: 'value' } },
+    });
+    expect(result.actions['$model.name']).toEqual({
+      name: '$model.name',
+      steps: [{ do: 'set', target: 'name', value: { expr: 'var', name: 'payload' } }],
+    });
+  });
+
+  it('should store valueAsNumber for number inputs and checked for checkboxes', () => {
+    // Act
+    const result = transformView({
+      kind: 'element',
+      tag: 'div',
+      children: [
+        { kind: 'element', tag: 'input', props: { type: { expr: 'lit', value: 'number' } }, model: { target: 'name' } },
+        { kind: 'element', tag: 'input', props: { type: { expr: 'lit', value: 'checkbox' } }, model: { target: 'name' } },
+      ],
+    });
+
+    // Assert
+    const [numberInput, checkbox] = (result.view as CompiledElementNode).children as CompiledElementNode[];
+    expect(numberInput?.props?.['$model']).toMatchObject({ event: 'input', payload: { name: 'valueAsNumber' } });
+    expect(checkbox?.props?.['checked']).toEqual({ expr: 'state', name: 'name' });
+    expect(checkbox?.props?.['$model']).toMatchObject({ event: 'change', payload: { name: 'checked' } });
+  });
+
+  it('should compare radios with their value', () => {
+    // Act
+    const result = transformView({
+      kind: 'element',
+      tag: 'input',
+      props: { type: { expr: 'lit', value: 'radio' }, value: { expr: 'lit', value: 'a' } },
+      model: { target: 'name' },
+    });
+
+    // Assert
+    const props = (result.view as CompiledElementNode).props;
+    expect(props?.['checked']).toEqual({
+      expr: 'bin',
+      op: '==',
+      left: { expr: 'state', name: 'name' },
+      right: { expr: 'lit', value: 'a' },
+    });
+    expect(props?.['$model']).toMatchObject({ event: 'change', payload: { expr: 'lit', value: 'a' } });
+  });
+
+  it('should store selected values for multi-selects', () => {
+    // Act
+    const result = transformView({
+      kind: 'element',
+      tag: 'select',
+      props: { multiple: { expr: 'lit', value: true } },
+      model: { target: 'name' },
+    });
+
+    // Assert
+    const props = (result.view as CompiledElementNode).props;
+    expect(props?.['$model']).toMatchObject({ event: 'change', payload: { name: 'selectedValues' } });
+  });
+
+  // ==================== Targets ====================
+
+  it('should lower paths into setPath actions', () => {
+    // Act
+    const result = transformView({ kind: 'element', tag: 'textarea', model: { target: 'form', path: 'bio' } });
+
+    // Assert
+    const props = (result.view as CompiledElementNode).props;
+    expect(props?.['value']).toEqual({ expr: 'state', name: 'form', path: 'bio' });
+    expect(result.actions['$model.form.bio']?.steps).toEqual([
+      {
+        do: 'setPath',
+        target: 'form',
+        path: { expr: 'lit', value: 'bio' },
+        value: { expr: 'var', name: 'payload' },
+      },
+    ]);
+  });
+
+  it('should generate local actions for local state targets', () => {
+    // Act
+    const result = transformView(
+      { kind: 'component', name: 'Search' },
+      {
+        components: {
+          Search: {
+            localState: { query: { type: 'string', initial: '' } },
+            view: { kind: 'element', tag: 'input', model: { target: 'query' } },
+          },
+        },
+      }
+    );
+
+    // Assert
+    const view = result.view as CompiledLocalStateNode;
+    expect(view.kind).toBe('localState');
+    expect(view.actions['$model.query']).toBeDefined();
+    expect(result.actions['$model.query']).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Test module for parallel step transformation.
+ *
+ * Coverage:
+ * - Each branch is transformed into a list of compiled steps
+ * - onSuccess and onError are transformed when defined
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with parallel step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['status']),
+      actionNames: new Set<string>(['load']),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  /**
+   * Creates a Program whose `load` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { status: { type: 'string', initial: '' } },
+      actions: [{ name: 'load', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should transform branches and handlers', () => {
+    // Arrange
+    const setReady = { do: 'set', target: 'status', value: { expr: 'lit', value: 'ready' } };
+    const setFailed = { do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } };
+    const program = createProgram([
+      {
+        do: 'parallel',
+        branches: [[setReady], [], [setFailed, setReady]],
+        onSuccess: [setReady],
+        onError: [setFailed],
+      },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['load']?.steps).toEqual([
+      {
+        do: 'parallel',
+        branches: [[setReady], [], [setFailed, setReady]],
+        onSuccess: [setReady],
+        onError: [setFailed],
+      },
+    ]);
+  });
+
+  it('should omit handlers when not defined', () => {
+    // Arrange
+    const program = createProgram([{ do: 'parallel', branches: [] }]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['load']?.steps).toEqual([{ do: 'parallel', branches: [] }]);
+  });
+});
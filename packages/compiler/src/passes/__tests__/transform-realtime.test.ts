@@ -2,6 +2,8 @@
  * Test module for Realtime ActionStep transformation.
  *
  * Coverage:
+ * - WSConnectStep transforms to CompiledWSConnectStep
+ * - RPCStep transforms to CompiledRPCStep
  * - SSEConnectStep transforms to CompiledSSEConnectStep
  * - SSECloseStep transforms to CompiledSSECloseStep
  * - OptimisticStep transforms to CompiledOptimisticStep
@@ -61,6 +63,99 @@ describe('transformPass with Realtime ActionSteps', () => {
     } as unknown as Program;
   }
 
+  // ==================== WebSocket Connect Step Transformation ====================
+
+  describe('WSConnectStep transformation', () => {
+    it('should transform wsConnect step with protocols and reconnect configuration', () => {
+      // Arrange
+      const program = createProgramWithAction([
+        {
+          do: 'wsConnect',
+          connection: 'chat',
+          url: { expr: 'lit', value: 'wss://example.com/chat' },
+          protocols: ['v1.chat'],
+          reconnect: { enabled: true, strategy: 'linear', maxRetries: 3, baseDelay: 500 },
+        },
+      ]);
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      expect(result.actions['testAction']?.steps[0]).toEqual({
+        do: 'wsConnect',
+        connection: 'chat',
+        url: { expr: 'lit', value: 'wss://example.com/chat' },
+        protocols: ['v1.chat'],
+        reconnect: { enabled: true, strategy: 'linear', maxRetries: 3, baseDelay: 500 },
+      });
+    });
+
+    it('should transform wsConnect handler steps', () => {
+      // Arrange
+      const program = createProgramWithAction(
+        [
+          {
+            do: 'wsConnect',
+            connection: 'chat',
+            url: { expr: 'state', name: 'url' },
+            onMessage: [{ do: 'set', target: 'last', value: { expr: 'var', name: 'event', path: 'data' } }],
+            onClose: [{ do: 'set', target: 'last', value: { expr: 'var', name: 'event', path: 'reason' } }],
+          },
+        ],
+        { url: { type: 'string', initial: '' }, last: { type: 'string', initial: '' } }
+      );
+
+      // Act
+      const result = transformPass(program, createContext({ stateNames: ['url', 'last'] }));
+
+      // Assert
+      expect(result.actions['testAction']?.steps[0]).toMatchObject({
+        url: { expr: 'state', name: 'url' },
+        onMessage: [{ do: 'set', target: 'last', value: { expr: 'var', name: 'event', path: 'data' } }],
+        onClose: [{ do: 'set', target: 'last', value: { expr: 'var', name: 'event', path: 'reason' } }],
+      });
+    });
+  });
+
+  // ==================== RPC Step Transformation ====================
+
+  describe('RPCStep transformation', () => {
+    it('should transform rpc step with params, result, timeout and callbacks', () => {
+      // Arrange
+      const program = createProgramWithAction(
+        [
+          {
+            do: 'rpc',
+            connection: 'api',
+            method: 'users.get',
+            params: { expr: 'state', name: 'userId' },
+            result: 'user',
+            timeout: 5000,
+            onSuccess: [{ do: 'set', target: 'name', value: { expr: 'var', name: 'user', path: 'name' } }],
+            onError: [],
+          },
+        ],
+        { userId: { type: 'number', initial: 1 }, name: { type: 'string', initial: '' } }
+      );
+
+      // Act
+      const result = transformPass(program, createContext({ stateNames: ['userId', 'name'] }));
+
+      // Assert
+      expect(result.actions['testAction']?.steps[0]).toEqual({
+        do: 'rpc',
+        connection: 'api',
+        method: 'users.get',
+        params: { expr: 'state', name: 'userId' },
+        result: 'user',
+        timeout: 5000,
+        onSuccess: [{ do: 'set', target: 'name', value: { expr: 'var', name: 'user', path: 'name' } }],
+        onError: [],
+      });
+    });
+  });
+
   // ==================== SSE Connect Step Transformation ====================
 
   describe('SSEConnectStep transformation', () => {
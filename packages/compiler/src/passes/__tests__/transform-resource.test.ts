@@ -0,0 +1,101 @@
+/**
+ * Test module for Resource transformation.
+ *
+ * Coverage:
+ * - Program resources are transformed into CompiledProgram.resources
+ * - Resource expressions are preserved as references
+ * - Invalidate steps are transformed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { CompiledTextNode } from '../../index.js';
+
+describe('transformPass with Resources', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['userId']),
+      actionNames: new Set<string>(['reload']),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(['user']),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Program Resources ====================
+
+  describe('program resources', () => {
+    it('should transform resources, resource expressions and invalidate steps', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: { userId: { type: 'string', initial: '1' } },
+        resources: {
+          user: {
+            url: {
+              expr: 'concat',
+              items: [{ expr: 'lit', value: '/api/users/' }, { expr: 'state', name: 'userId' }],
+            },
+            refreshInterval: 10000,
+            staleTime: 2000,
+            dedupe: false,
+          },
+        },
+        actions: [{ name: 'reload', steps: [{ do: 'invalidate', resource: 'user' }] }],
+        view: { kind: 'text', value: { expr: 'resource', name: 'user', field: 'loading' } },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      expect(result.resources).toEqual({
+        user: {
+          url: {
+            expr: 'concat',
+            items: [{ expr: 'lit', value: '/api/users/' }, { expr: 'state', name: 'userId' }],
+          },
+          refreshInterval: 10000,
+          staleTime: 2000,
+          dedupe: false,
+        },
+      });
+      expect((result.view as CompiledTextNode).value).toEqual({
+        expr: 'resource',
+        name: 'user',
+        field: 'loading',
+      });
+      expect(result.actions['reload']?.steps).toEqual([{ do: 'invalidate', resource: 'user' }]);
+    });
+
+    it('should omit resources when not defined', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      } as unknown as Program;
+
+      // Act
+      const result = transformPass(program, createContext());
+
+      // Assert
+      expect(result.resources).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Test module for run step transformation.
+ *
+ * Coverage:
+ * - Run steps keep the action name and result variable
+ * - Payload expressions are compiled
+ * - Optional fields are omitted when not defined
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with run step', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['draft']),
+      actionNames: new Set<string>(['save', 'validate']),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  /**
+   * Creates a Program whose `save` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { draft: { type: 'string', initial: '' } },
+      actions: [
+        { name: 'save', steps },
+        { name: 'validate', steps: [] },
+      ],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should transform run step with payload and result', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'run',
+        action: 'validate',
+        payload: { expr: 'state', name: 'draft' },
+        result: 'validation',
+      },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['save']?.steps).toEqual([
+      {
+        do: 'run',
+        action: 'validate',
+        payload: { expr: 'state', name: 'draft' },
+        result: 'validation',
+      },
+    ]);
+  });
+
+  it('should omit payload and result when not defined', () => {
+    // Arrange
+    const program = createProgram([{ do: 'run', action: 'validate' }]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['save']?.steps).toEqual([{ do: 'run', action: 'validate' }]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Test module for scoped slot transformation.
+ *
+ * Coverage:
+ * - Named slot content fills the slot with the matching name only
+ * - Without named slot content, every slot receives all children
+ * - References to the slotProps variable are replaced with the slot props
+ * - Slot props are transformed in the component's context
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with scoped slots', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['rows']),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(['Table']),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  /**
+   * Creates a Program rendering a Table that passes each row to its default slot
+   */
+  function createProgram(children: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { rows: { type: 'list', initial: [] } },
+      actions: [],
+      components: {
+        Table: {
+          params: { rows: { type: 'json' }, label: { type: 'string' } },
+          view: {
+            kind: 'element',
+            tag: 'table',
+            children: [
+              { kind: 'element', tag: 'caption', children: [{ kind: 'slot', name: 'caption' }] },
+              {
+                kind: 'each',
+                items: { expr: 'param', name: 'rows' },
+                as: 'row',
+                body: {
+                  kind: 'element',
+                  tag: 'tr',
+                  children: [
+                    {
+                      kind: 'slot',
+                      props: { row: { expr: 'var', name: 'row' }, label: { expr: 'param', name: 'label' } },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      },
+      view: {
+        kind: 'component',
+        name: 'Table',
+        props: { rows: { expr: 'state', name: 'rows' }, label: { expr: 'lit', value: 'Row' } },
+        slotProps: 'cell',
+        children,
+      },
+    } as unknown as Program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should fill named and default slots with the matching content', () => {
+    // Arrange
+    const program = createProgram([
+      { kind: 'element', tag: 'td' },
+      { kind: 'element', tag: 'strong', slot: 'caption' },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toMatchObject({
+      kind: 'element',
+      tag: 'table',
+      children: [
+        { kind: 'element', tag: 'caption', children: [{ kind: 'element', tag: 'strong' }] },
+        { kind: 'each', body: { kind: 'element', tag: 'tr', children: [{ kind: 'element', tag: 'td' }] } },
+      ],
+    });
+  });
+
+  it('should fill a named slot with untagged children when no child names a slot', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      components: {
+        Card: {
+          view: { kind: 'element', tag: 'section', children: [{ kind: 'slot', name: 'body' }] },
+        },
+      },
+      view: {
+        kind: 'component',
+        name: 'Card',
+        children: [{ kind: 'element', tag: 'p' }],
+      },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.view).toEqual({
+      kind: 'element',
+      tag: 'section',
+      children: [{ kind: 'element', tag: 'p' }],
+    });
+  });
+
+  it('should replace slotProps references with the slot props', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        kind: 'element',
+        tag: 'td',
+        props: { title: { expr: 'var', name: 'cell' } },
+        children: [
+          { kind: 'text', value: { expr: 'var', name: 'cell', path: 'label' } },
+          { kind: 'text', value: { expr: 'var', name: 'cell', path: 'row.name' } },
+        ],
+      },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    const rowBody = (result.view as { children: { body?: { children: unknown[] } }[] }).children[1]?.body;
+    expect(rowBody?.children[0]).toEqual({
+      kind: 'element',
+      tag: 'td',
+      props: {
+        title: {
+          expr: 'obj',
+          props: { row: { expr: 'var', name: 'row' }, label: { expr: 'lit', value: 'Row' } },
+        },
+      },
+      children: [
+        { kind: 'text', value: { expr: 'lit', value: 'Row' } },
+        { kind: 'text', value: { expr: 'get', base: { expr: 'var', name: 'row' }, path: 'name' } },
+      ],
+    });
+  });
+});
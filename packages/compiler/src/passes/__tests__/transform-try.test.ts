@@ -0,0 +1,85 @@
+/**
+ * Test module for try / throw step transformation.
+ *
+ * Coverage:
+ * - Try steps transform steps, catch and finally recursively
+ * - Optional catch and finally are omitted when not defined
+ * - Throw message expressions are compiled
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+
+describe('transformPass with try / throw steps', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(['status']),
+      actionNames: new Set<string>(['save']),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  /**
+   * Creates a Program whose `save` action has the given steps
+   */
+  function createProgram(steps: unknown[]): Program {
+    return {
+      version: '1.0',
+      state: { status: { type: 'string', initial: '' } },
+      actions: [{ name: 'save', steps }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+  }
+
+  it('should transform try step with catch and finally', () => {
+    // Arrange
+    const program = createProgram([
+      {
+        do: 'try',
+        steps: [{ do: 'throw', message: { expr: 'lit', value: 'invalid' } }],
+        catch: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } }],
+        finally: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'done' } }],
+      },
+    ]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['save']?.steps).toEqual([
+      {
+        do: 'try',
+        steps: [{ do: 'throw', message: { expr: 'lit', value: 'invalid' } }],
+        catch: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } }],
+        finally: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'done' } }],
+      },
+    ]);
+  });
+
+  it('should omit catch and finally when not defined', () => {
+    // Arrange
+    const program = createProgram([{ do: 'try', steps: [] }]);
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.actions['save']?.steps).toEqual([{ do: 'try', steps: [] }]);
+  });
+});
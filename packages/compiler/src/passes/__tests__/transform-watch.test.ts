@@ -0,0 +1,102 @@
+/**
+ * Test module for watch transformation.
+ *
+ * Coverage:
+ * - Program watch is transformed into CompiledProgram.watch
+ * - Component watch is attached to the component's localState node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../analyze.js';
+import type { CompiledLocalStateNode } from '../../index.js';
+
+describe('transformPass with watch', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a minimal AnalysisContext for testing
+   */
+  function createContext(): AnalysisContext {
+    return {
+      stateNames: new Set<string>(),
+      actionNames: new Set<string>(),
+      componentNames: new Set<string>(),
+      routeParams: new Set<string>(),
+      importNames: new Set<string>(),
+      dataNames: new Set<string>(),
+      refNames: new Set<string>(),
+      styleNames: new Set<string>(),
+      islandIds: new Set<string>(),
+      computedNames: new Set<string>(),
+      resourceNames: new Set<string>(),
+      formFields: new Map<string, Set<string>>(),
+    };
+  }
+
+  // ==================== Program Watch ====================
+
+  it('should transform program watch into CompiledProgram.watch', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { filters: { type: 'object', initial: { q: '' } } },
+      watch: [{ target: 'filters', path: 'q', action: 'search', debounce: 300, immediate: true }],
+      actions: [{ name: 'search', steps: [] }],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.watch).toEqual([
+      { target: 'filters', path: 'q', action: 'search', debounce: 300, immediate: true },
+    ]);
+  });
+
+  it('should omit watch when not defined', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    expect(result.watch).toBeUndefined();
+  });
+
+  // ==================== Component Watch ====================
+
+  it('should wrap components with watch in a localState node', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { query: { type: 'string', initial: '' } },
+      actions: [{ name: 'search', steps: [] }],
+      components: {
+        Search: {
+          watch: [{ target: 'query', action: 'search' }],
+          view: { kind: 'element', tag: 'input' },
+        },
+      },
+      view: { kind: 'component', name: 'Search' },
+    } as unknown as Program;
+
+    // Act
+    const result = transformPass(program, createContext());
+
+    // Assert
+    const node = result.view as CompiledLocalStateNode;
+    expect(node.kind).toBe('localState');
+    expect(node.state).toEqual({});
+    expect(node.watch).toEqual([{ target: 'query', action: 'search' }]);
+    expect(node.child).toEqual({ kind: 'element', tag: 'input' });
+  });
+});
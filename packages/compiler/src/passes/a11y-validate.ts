@@ -183,6 +183,15 @@ function validateNode(
       }
       break;
 
+    case 'match':
+      for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+        validateNode(caseNode, `${path}/cases/${caseKey}`, ctx);
+      }
+      if (node.default) {
+        validateNode(node.default, `${path}/default`, ctx);
+      }
+      break;
+
     case 'each':
       validateNode(node.body, `${path}/body`, ctx);
       break;
@@ -115,6 +115,16 @@ function findSlotNodes(
     }
   }
 
+  // Check match branches
+  if (node.kind === 'match') {
+    for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+      findSlotNodes(caseNode, buildPath(path, 'cases', caseKey), slots, inLoop);
+    }
+    if (node.default) {
+      findSlotNodes(node.default, buildPath(path, 'default'), slots, inLoop);
+    }
+  }
+
   // Check each body - mark as in loop
   if (node.kind === 'each') {
     findSlotNodes(node.body, buildPath(path, 'body'), slots, true);
@@ -223,6 +233,12 @@ function validateExpression(
       errors.push(...validateExpression(expr.base, buildPath(path, 'base'), stateNames));
       break;
 
+    case 't':
+      for (const [name, paramExpr] of Object.entries(expr.params ?? {})) {
+        errors.push(...validateExpression(paramExpr, buildPath(path, 'params', name), stateNames));
+      }
+      break;
+
     case 'lit':
     case 'var':
     case 'param':
@@ -296,6 +312,16 @@ function validateViewNode(
       }
       break;
 
+    case 'match':
+      errors.push(...validateExpression(node.value, buildPath(path, 'value'), stateNames));
+      for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+        errors.push(...validateViewNode(caseNode, buildPath(path, 'cases', caseKey), stateNames, actionNames));
+      }
+      if (node.default) {
+        errors.push(...validateViewNode(node.default, buildPath(path, 'default'), stateNames, actionNames));
+      }
+      break;
+
     case 'each':
       errors.push(...validateExpression(node.items, buildPath(path, 'items'), stateNames));
       errors.push(...validateViewNode(node.body, buildPath(path, 'body'), stateNames, actionNames));
@@ -349,6 +375,13 @@ export function analyzeLayoutPass(layout: LayoutProgram): LayoutAnalysisResult {
     )
   );
 
+  // Validate global event action references
+  for (const [i, entry] of (layout.globalEvents ?? []).entries()) {
+    if (!baseContext.actionNames.has(entry.action)) {
+      errors.push(createUndefinedActionError(entry.action, buildPath('/globalEvents', i, 'action')));
+    }
+  }
+
   if (errors.length > 0) {
     return {
       ok: false,
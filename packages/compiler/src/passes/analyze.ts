@@ -7,6 +7,17 @@
  * - Validates action references
  * - Validates variable scopes in each loops
  * - Detects duplicate action names
+ * - Validates computed references and detects computed cycles
+ * - Validates resource references and invalidate steps
+ * - Validates form references, form field targets and form steps
+ * - Validates syncQuery state field types
+ * - Validates watch state and action references
+ * - Validates global event action references
+ * - Validates run step action references and detects action run cycles
+ * - Detects duplicate match cases
+ * - Validates that context expressions are provided by an ancestor
+ * - Validates scoped slot props and named slot content of components
+ * - Validates program and component lifecycle hook actions
  */
 
 import type {
@@ -20,11 +31,26 @@ import type {
   DataSource,
   StaticPathsDefinition,
   LifecycleHooks,
+  WatchDefinition,
+  EventHandler,
+  GlobalEventHandler,
+  ModelBinding,
   LocalActionDefinition,
+  LocalActionStep,
   CallExpr,
   LambdaExpr,
   ArrayExpr,
   IslandNode,
+  RunStep,
+  InvalidateStep,
+  ValidateFormStep,
+  SubmitFormStep,
+  WSConnectStep,
+  RPCStep,
+  TryStep,
+  ThrowStep,
+  ParallelStep,
+  ForEachStep,
 } from '@constela/core';
 import { validateA11y } from './a11y-validate.js';
 import {
@@ -34,6 +60,8 @@ import {
   createDuplicateActionError,
   createComponentNotFoundError,
   createComponentPropMissingError,
+  createComponentEventUndeclaredError,
+  createContextNotProvidedError,
   createComponentCycleError,
   createUndefinedParamError,
   createSchemaError,
@@ -59,10 +87,23 @@ import {
   createUndefinedLocalStateError,
   createLocalActionInvalidStepError,
   createDuplicateIslandIdError,
+  createUndefinedComputedError,
+  createUndefinedResourceError,
+  createUndefinedFormError,
+  createUndefinedFormFieldError,
+  createI18nMissingKeyError,
+  createComputedCycleError,
+  createActionCycleError,
+  createDuplicateMatchCaseError,
+  createInvalidSyncQueryTypeError,
+  normalizeMatchKey,
+  isQuerySerializableType,
   findSimilarNames,
   isEventHandler,
   isDataSource,
   isStyleExpr,
+  isImportExpr,
+  LOCALE_STATE,
   DATA_SOURCE_TYPES,
   DATA_TRANSFORMS,
   STORAGE_OPERATIONS,
@@ -88,6 +129,9 @@ export interface AnalysisContext {
   refNames: Set<string>;
   styleNames: Set<string>;
   islandIds: Set<string>;
+  computedNames: Set<string>;
+  resourceNames: Set<string>;
+  formFields: Map<string, Set<string>>;  // Field names keyed by form name
 }
 
 /**
@@ -98,6 +142,7 @@ interface ParamScope {
   componentName: string;
   localStateNames?: Set<string>;
   localActionNames?: Set<string>;
+  computedNames?: Set<string>;
 }
 
 export interface AnalyzePassSuccess {
@@ -188,6 +233,18 @@ function collectRefs(node: ViewNode): Set<string> {
         }
       }
       break;
+    case 'match':
+      for (const caseNode of Object.values(node.cases)) {
+        for (const ref of collectRefs(caseNode)) {
+          refs.add(ref);
+        }
+      }
+      if (node.default) {
+        for (const ref of collectRefs(node.default)) {
+          refs.add(ref);
+        }
+      }
+      break;
     case 'each':
       for (const ref of collectRefs(node.body)) {
         refs.add(ref);
@@ -213,10 +270,13 @@ function collectRefs(node: ViewNode): Set<string> {
 }
 
 /**
- * Collects state, action, component names, route params, import names, data names, ref names, and style names from the AST
+ * Collects state, action, component names, route params, import names, data names, ref names, style names, computed names, resource names, and form fields from the AST
  */
 function collectContext(programAst: Program): AnalysisContext {
   const stateNames = new Set<string>(Object.keys(programAst.state));
+  if (programAst.i18n) {
+    stateNames.add(LOCALE_STATE);
+  }
   const actionNames = new Set<string>(programAst.actions.map((a) => a.name));
   const componentNames = new Set<string>(
     programAst.components ? Object.keys(programAst.components) : []
@@ -235,8 +295,18 @@ function collectContext(programAst: Program): AnalysisContext {
     programAst.styles ? Object.keys(programAst.styles) : []
   );
   const islandIds = new Set<string>();
+  const computedNames = new Set<string>(
+    programAst.computed ? Object.keys(programAst.computed) : []
+  );
+  const resourceNames = new Set<string>(
+    programAst.resources ? Object.keys(programAst.resources) : []
+  );
+
+  const formFields = new Map<string, Set<string>>(
+    Object.entries(programAst.forms ?? {}).map(([name, form]) => [name, new Set(Object.keys(form.fields))])
+  );
 
-  return { stateNames, actionNames, componentNames, routeParams, importNames, dataNames, refNames, styleNames, islandIds };
+  return { stateNames, actionNames, componentNames, routeParams, importNames, dataNames, refNames, styleNames, islandIds, computedNames, resourceNames, formFields };
 }
 
 // ==================== Duplicate Action Detection ====================
@@ -347,6 +417,38 @@ function validateExpression(
       break;
     }
 
+    case 'computed': {
+      // Check both program-level and component-level computed
+      const isGlobalComputed = context.computedNames.has(expr.name);
+      const isLocalComputed = paramScope?.computedNames?.has(expr.name) ?? false;
+      if (!isGlobalComputed && !isLocalComputed) {
+        const availableNames = new Set([
+          ...context.computedNames,
+          ...(paramScope?.computedNames ?? []),
+        ]);
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, availableNames);
+        errors.push(createUndefinedComputedError(expr.name, path, errorOptions));
+      }
+      break;
+    }
+
+    case 'resource':
+      if (!context.resourceNames.has(expr.name)) {
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, context.resourceNames);
+        errors.push(createUndefinedResourceError(expr.name, path, errorOptions));
+      }
+      break;
+
+    case 'form':
+      errors.push(...validateFormReference(expr.name, expr.field, path, path, context));
+      break;
+
+    case 't':
+      for (const [name, paramExpr] of Object.entries(expr.params ?? {})) {
+        errors.push(...validateExpression(paramExpr, buildPath(path, 'params', name), context, scope, paramScope));
+      }
+      break;
+
     case 'bin':
       errors.push(...validateExpression(expr.left, buildPath(path, 'left'), context, scope, paramScope));
       errors.push(...validateExpression(expr.right, buildPath(path, 'right'), context, scope, paramScope));
@@ -485,11 +587,13 @@ function validateStyleExpression(
  *
  * Note: Variable references (expr: 'var') in action steps are NOT validated
  * because they are runtime-provided (from event payloads or action invocation context).
+ * Inside forEach steps, `scope` holds the known locals and variables are checked against it.
  */
 function validateActionStep(
   step: ActionStep,
   path: string,
-  context: AnalysisContext
+  context: AnalysisContext,
+  scope?: Set<string>
 ): ConstelaError[] {
   const errors: ConstelaError[] = [];
 
@@ -501,7 +605,7 @@ function validateActionStep(
       }
       // Validate state references only (skip var validation - runtime provided)
       errors.push(
-        ...validateExpressionStateOnly(step.value, buildPath(path, 'value'), context)
+        ...validateExpressionStateOnly(step.value, buildPath(path, 'value'), context, scope)
       );
       break;
 
@@ -547,33 +651,40 @@ function validateActionStep(
 
       // Validate expressions
       if (step.value) {
-        errors.push(...validateExpressionStateOnly(step.value, buildPath(path, 'value'), context));
+        errors.push(...validateExpressionStateOnly(step.value, buildPath(path, 'value'), context, scope));
       }
       if (step.index) {
-        errors.push(...validateExpressionStateOnly(step.index, buildPath(path, 'index'), context));
+        errors.push(...validateExpressionStateOnly(step.index, buildPath(path, 'index'), context, scope));
       }
       if (step.deleteCount) {
-        errors.push(...validateExpressionStateOnly(step.deleteCount, buildPath(path, 'deleteCount'), context));
+        errors.push(...validateExpressionStateOnly(step.deleteCount, buildPath(path, 'deleteCount'), context, scope));
       }
       break;
     }
 
     case 'fetch':
       errors.push(
-        ...validateExpressionStateOnly(step.url, buildPath(path, 'url'), context)
+        ...validateExpressionStateOnly(step.url, buildPath(path, 'url'), context, scope)
       );
       if (step.body) {
         errors.push(
-          ...validateExpressionStateOnly(step.body, buildPath(path, 'body'), context)
+          ...validateExpressionStateOnly(step.body, buildPath(path, 'body'), context, scope)
         );
       }
+      if (step.headers) {
+        for (const [name, value] of Object.entries(step.headers)) {
+          errors.push(
+            ...validateExpressionStateOnly(value, buildPath(path, 'headers', name), context, scope)
+          );
+        }
+      }
       // Validate onSuccess and onError callbacks
       if (step.onSuccess) {
         for (let i = 0; i < step.onSuccess.length; i++) {
           const successStep = step.onSuccess[i];
           if (successStep === undefined) continue;
           errors.push(
-            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context)
+            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context, scope)
           );
         }
       }
@@ -582,7 +693,7 @@ function validateActionStep(
           const errorStep = step.onError[i];
           if (errorStep === undefined) continue;
           errors.push(
-            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context)
+            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context, scope)
           );
         }
       }
@@ -600,7 +711,7 @@ function validateActionStep(
       }
       // Validate key expression
       errors.push(
-        ...validateExpressionStateOnly(storageStep.key, buildPath(path, 'key'), context)
+        ...validateExpressionStateOnly(storageStep.key, buildPath(path, 'key'), context, scope)
       );
       // set operation requires value
       if (storageStep.operation === 'set' && !storageStep.value) {
@@ -609,7 +720,7 @@ function validateActionStep(
       // Validate value expression if present
       if (storageStep.value) {
         errors.push(
-          ...validateExpressionStateOnly(storageStep.value, buildPath(path, 'value'), context)
+          ...validateExpressionStateOnly(storageStep.value, buildPath(path, 'value'), context, scope)
         );
       }
       // Validate onSuccess and onError callbacks
@@ -618,7 +729,7 @@ function validateActionStep(
           const successStep = storageStep.onSuccess[i];
           if (successStep === undefined) continue;
           errors.push(
-            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context)
+            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context, scope)
           );
         }
       }
@@ -627,7 +738,7 @@ function validateActionStep(
           const errorStep = storageStep.onError[i];
           if (errorStep === undefined) continue;
           errors.push(
-            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context)
+            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context, scope)
           );
         }
       }
@@ -647,7 +758,7 @@ function validateActionStep(
       // Validate value expression if present
       if (clipboardStep.value) {
         errors.push(
-          ...validateExpressionStateOnly(clipboardStep.value, buildPath(path, 'value'), context)
+          ...validateExpressionStateOnly(clipboardStep.value, buildPath(path, 'value'), context, scope)
         );
       }
       // Validate onSuccess and onError callbacks
@@ -656,7 +767,7 @@ function validateActionStep(
           const successStep = clipboardStep.onSuccess[i];
           if (successStep === undefined) continue;
           errors.push(
-            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context)
+            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context, scope)
           );
         }
       }
@@ -665,7 +776,7 @@ function validateActionStep(
           const errorStep = clipboardStep.onError[i];
           if (errorStep === undefined) continue;
           errors.push(
-            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context)
+            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context, scope)
           );
         }
       }
@@ -676,7 +787,7 @@ function validateActionStep(
       const navigateStep = step as import('@constela/core').NavigateStep;
       // Validate url expression
       errors.push(
-        ...validateExpressionStateOnly(navigateStep.url, buildPath(path, 'url'), context)
+        ...validateExpressionStateOnly(navigateStep.url, buildPath(path, 'url'), context, scope)
       );
       // Validate target if present
       if (navigateStep.target !== undefined && !NAVIGATE_TARGETS.includes(navigateStep.target as typeof NAVIGATE_TARGETS[number])) {
@@ -693,7 +804,7 @@ function validateActionStep(
           const successStep = importStep.onSuccess[i];
           if (successStep === undefined) continue;
           errors.push(
-            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context)
+            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context, scope)
           );
         }
       }
@@ -702,7 +813,7 @@ function validateActionStep(
           const errorStep = importStep.onError[i];
           if (errorStep === undefined) continue;
           errors.push(
-            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context)
+            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context, scope)
           );
         }
       }
@@ -713,7 +824,7 @@ function validateActionStep(
       const callStep = step as CallStep;
       // Validate target expression
       errors.push(
-        ...validateExpressionStateOnly(callStep.target, buildPath(path, 'target'), context)
+        ...validateExpressionStateOnly(callStep.target, buildPath(path, 'target'), context, scope)
       );
       // Validate args expressions
       if (callStep.args) {
@@ -721,7 +832,7 @@ function validateActionStep(
           const arg = callStep.args[i];
           if (arg === undefined) continue;
           errors.push(
-            ...validateExpressionStateOnly(arg, buildPath(path, 'args', i), context)
+            ...validateExpressionStateOnly(arg, buildPath(path, 'args', i), context, scope)
           );
         }
       }
@@ -731,7 +842,7 @@ function validateActionStep(
           const successStep = callStep.onSuccess[i];
           if (successStep === undefined) continue;
           errors.push(
-            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context)
+            ...validateActionStep(successStep, buildPath(path, 'onSuccess', i), context, scope)
           );
         }
       }
@@ -740,7 +851,7 @@ function validateActionStep(
           const errorStep = callStep.onError[i];
           if (errorStep === undefined) continue;
           errors.push(
-            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context)
+            ...validateActionStep(errorStep, buildPath(path, 'onError', i), context, scope)
           );
         }
       }
@@ -751,7 +862,7 @@ function validateActionStep(
       const subscribeStep = step as SubscribeStep;
       // Validate target expression
       errors.push(
-        ...validateExpressionStateOnly(subscribeStep.target, buildPath(path, 'target'), context)
+        ...validateExpressionStateOnly(subscribeStep.target, buildPath(path, 'target'), context, scope)
       );
       // Validate action reference
       if (!context.actionNames.has(subscribeStep.action)) {
@@ -765,8 +876,181 @@ function validateActionStep(
       const disposeStep = step as DisposeStep;
       // Validate target expression
       errors.push(
-        ...validateExpressionStateOnly(disposeStep.target, buildPath(path, 'target'), context)
+        ...validateExpressionStateOnly(disposeStep.target, buildPath(path, 'target'), context, scope)
+      );
+      break;
+    }
+
+    case 'run': {
+      const runStep = step as RunStep;
+      // Validate action reference
+      if (!context.actionNames.has(runStep.action)) {
+        const errorOptions = createErrorOptionsWithSuggestion(runStep.action, context.actionNames);
+        errors.push(createUndefinedActionError(runStep.action, buildPath(path, 'action'), errorOptions));
+      }
+      if (runStep.payload) {
+        errors.push(
+          ...validateExpressionStateOnly(runStep.payload, buildPath(path, 'payload'), context, scope)
+        );
+      }
+      break;
+    }
+
+    case 'invalidate': {
+      const invalidateStep = step as InvalidateStep;
+      if (!context.resourceNames.has(invalidateStep.resource)) {
+        const errorOptions = createErrorOptionsWithSuggestion(
+          invalidateStep.resource,
+          context.resourceNames
+        );
+        errors.push(
+          createUndefinedResourceError(
+            invalidateStep.resource,
+            buildPath(path, 'resource'),
+            errorOptions
+          )
+        );
+      }
+      break;
+    }
+
+    case 'validateForm':
+    case 'resetForm': {
+      const formStep = step as ValidateFormStep;
+      errors.push(
+        ...validateFormReference(
+          formStep.form,
+          formStep.field,
+          buildPath(path, 'form'),
+          buildPath(path, 'field'),
+          context
+        )
+      );
+      break;
+    }
+
+    case 'submitForm': {
+      const submitStep = step as SubmitFormStep;
+      errors.push(
+        ...validateFormReference(submitStep.form, undefined, buildPath(path, 'form'), path, context)
+      );
+      for (const key of ['onSuccess', 'onError'] as const) {
+        const nestedSteps = submitStep[key];
+        if (!nestedSteps) continue;
+        for (let i = 0; i < nestedSteps.length; i++) {
+          const nestedStep = nestedSteps[i];
+          if (nestedStep === undefined) continue;
+          errors.push(...validateActionStep(nestedStep, buildPath(path, key, i), context, scope));
+        }
+      }
+      break;
+    }
+
+    case 'wsConnect': {
+      const wsStep = step as WSConnectStep;
+      errors.push(
+        ...validateExpressionStateOnly(wsStep.url, buildPath(path, 'url'), context, scope)
+      );
+      for (const key of ['onOpen', 'onMessage', 'onClose', 'onError'] as const) {
+        const handlerSteps = wsStep[key];
+        if (!handlerSteps) continue;
+        for (let i = 0; i < handlerSteps.length; i++) {
+          const handlerStep = handlerSteps[i];
+          if (handlerStep === undefined) continue;
+          errors.push(...validateActionStep(handlerStep, buildPath(path, key, i), context, scope));
+        }
+      }
+      break;
+    }
+
+    case 'rpc': {
+      const rpcStep = step as RPCStep;
+      if (rpcStep.params) {
+        errors.push(
+          ...validateExpressionStateOnly(rpcStep.params, buildPath(path, 'params'), context, scope)
+        );
+      }
+      for (const key of ['onSuccess', 'onError'] as const) {
+        const handlerSteps = rpcStep[key];
+        if (!handlerSteps) continue;
+        for (let i = 0; i < handlerSteps.length; i++) {
+          const handlerStep = handlerSteps[i];
+          if (handlerStep === undefined) continue;
+          errors.push(...validateActionStep(handlerStep, buildPath(path, key, i), context, scope));
+        }
+      }
+      break;
+    }
+
+    case 'try': {
+      const tryStep = step as TryStep;
+      for (const key of ['steps', 'catch', 'finally'] as const) {
+        const nestedSteps = tryStep[key];
+        if (!nestedSteps) continue;
+        for (let i = 0; i < nestedSteps.length; i++) {
+          const nestedStep = nestedSteps[i];
+          if (nestedStep === undefined) continue;
+          errors.push(
+            ...validateActionStep(nestedStep, buildPath(path, key, i), context, scope)
+          );
+        }
+      }
+      break;
+    }
+
+    case 'throw': {
+      const throwStep = step as ThrowStep;
+      errors.push(
+        ...validateExpressionStateOnly(throwStep.message, buildPath(path, 'message'), context, scope)
+      );
+      break;
+    }
+
+    case 'parallel': {
+      const parallelStep = step as ParallelStep;
+      for (let i = 0; i < parallelStep.branches.length; i++) {
+        const branch = parallelStep.branches[i];
+        if (branch === undefined) continue;
+        for (let j = 0; j < branch.length; j++) {
+          const branchStep = branch[j];
+          if (branchStep === undefined) continue;
+          errors.push(
+            ...validateActionStep(branchStep, buildPath(path, 'branches', i, j), context, scope)
+          );
+        }
+      }
+      for (const key of ['onSuccess', 'onError'] as const) {
+        const nestedSteps = parallelStep[key];
+        if (!nestedSteps) continue;
+        for (let i = 0; i < nestedSteps.length; i++) {
+          const nestedStep = nestedSteps[i];
+          if (nestedStep === undefined) continue;
+          errors.push(
+            ...validateActionStep(nestedStep, buildPath(path, key, i), context, scope)
+          );
+        }
+      }
+      break;
+    }
+
+    case 'forEach': {
+      const forEachStep = step as ForEachStep;
+      errors.push(
+        ...validateExpressionStateOnly(forEachStep.items, buildPath(path, 'items'), context, scope)
       );
+      // Loop variables are scoped to the body, like each node variables
+      const bodyScope = new Set(scope ?? actionLocalNames);
+      bodyScope.add(forEachStep.as);
+      if (forEachStep.index) {
+        bodyScope.add(forEachStep.index);
+      }
+      for (let i = 0; i < forEachStep.steps.length; i++) {
+        const nestedStep = forEachStep.steps[i];
+        if (nestedStep === undefined) continue;
+        errors.push(
+          ...validateActionStep(nestedStep, buildPath(path, 'steps', i), context, bodyScope)
+        );
+      }
       break;
     }
   }
@@ -776,12 +1060,14 @@ function validateActionStep(
 
 /**
  * Validates an expression for state references only (ignores var references)
- * Used in action steps where var references are runtime-provided
+ * Used in action steps where var references are runtime-provided; with a
+ * `scope` (forEach bodies), var references must name a known local
  */
 function validateExpressionStateOnly(
   expr: Expression,
   path: string,
-  context: AnalysisContext
+  context: AnalysisContext,
+  scope?: Set<string>
 ): ConstelaError[] {
   const errors: ConstelaError[] = [];
 
@@ -794,7 +1080,10 @@ function validateExpressionStateOnly(
       break;
 
     case 'var':
-      // Skip var validation - these are runtime-provided in actions
+      // Outside forEach bodies, vars are runtime-provided in actions
+      if (scope && !scope.has(expr.name)) {
+        errors.push(createUndefinedVarError(expr.name, path));
+      }
       break;
 
     case 'route': {
@@ -837,14 +1126,38 @@ function validateExpressionStateOnly(
       break;
     }
 
+    case 'computed':
+      if (!context.computedNames.has(expr.name)) {
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, context.computedNames);
+        errors.push(createUndefinedComputedError(expr.name, path, errorOptions));
+      }
+      break;
+
+    case 'resource':
+      if (!context.resourceNames.has(expr.name)) {
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, context.resourceNames);
+        errors.push(createUndefinedResourceError(expr.name, path, errorOptions));
+      }
+      break;
+
+    case 'form':
+      errors.push(...validateFormReference(expr.name, expr.field, path, path, context));
+      break;
+
+    case 't':
+      for (const [name, paramExpr] of Object.entries(expr.params ?? {})) {
+        errors.push(...validateExpressionStateOnly(paramExpr, buildPath(path, 'params', name), context, scope));
+      }
+      break;
+
     case 'bin':
-      errors.push(...validateExpressionStateOnly(expr.left, buildPath(path, 'left'), context));
-      errors.push(...validateExpressionStateOnly(expr.right, buildPath(path, 'right'), context));
+      errors.push(...validateExpressionStateOnly(expr.left, buildPath(path, 'left'), context, scope));
+      errors.push(...validateExpressionStateOnly(expr.right, buildPath(path, 'right'), context, scope));
       break;
 
     case 'not':
       errors.push(
-        ...validateExpressionStateOnly(expr.operand, buildPath(path, 'operand'), context)
+        ...validateExpressionStateOnly(expr.operand, buildPath(path, 'operand'), context, scope)
       );
       break;
 
@@ -853,34 +1166,34 @@ function validateExpressionStateOnly(
       break;
 
     case 'cond':
-      errors.push(...validateExpressionStateOnly(expr.if, buildPath(path, 'if'), context));
-      errors.push(...validateExpressionStateOnly(expr.then, buildPath(path, 'then'), context));
-      errors.push(...validateExpressionStateOnly(expr.else, buildPath(path, 'else'), context));
+      errors.push(...validateExpressionStateOnly(expr.if, buildPath(path, 'if'), context, scope));
+      errors.push(...validateExpressionStateOnly(expr.then, buildPath(path, 'then'), context, scope));
+      errors.push(...validateExpressionStateOnly(expr.else, buildPath(path, 'else'), context, scope));
       break;
 
     case 'get':
-      errors.push(...validateExpressionStateOnly(expr.base, buildPath(path, 'base'), context));
+      errors.push(...validateExpressionStateOnly(expr.base, buildPath(path, 'base'), context, scope));
       break;
 
     case 'style':
-      errors.push(...validateStyleExpressionStateOnly(expr, path, context));
+      errors.push(...validateStyleExpressionStateOnly(expr, path, context, scope));
       break;
 
     case 'index':
-      errors.push(...validateExpressionStateOnly(expr.base, buildPath(path, 'base'), context));
-      errors.push(...validateExpressionStateOnly(expr.key, buildPath(path, 'key'), context));
+      errors.push(...validateExpressionStateOnly(expr.base, buildPath(path, 'base'), context, scope));
+      errors.push(...validateExpressionStateOnly(expr.key, buildPath(path, 'key'), context, scope));
       break;
 
     case 'call': {
       const callExpr = expr as CallExpr;
       if (callExpr.target !== null) {
-        errors.push(...validateExpressionStateOnly(callExpr.target, buildPath(path, 'target'), context));
+        errors.push(...validateExpressionStateOnly(callExpr.target, buildPath(path, 'target'), context, scope));
       }
       if (callExpr.args) {
         for (let i = 0; i < callExpr.args.length; i++) {
           const arg = callExpr.args[i];
           if (arg) {
-            errors.push(...validateExpressionStateOnly(arg, buildPath(path, 'args', i), context));
+            errors.push(...validateExpressionStateOnly(arg, buildPath(path, 'args', i), context, scope));
           }
         }
       }
@@ -889,8 +1202,16 @@ function validateExpressionStateOnly(
 
     case 'lambda': {
       const lambdaExpr = expr as LambdaExpr;
-      // lambda 内の body を検証 (var はスキップされるので、スコープ追加は不要)
-      errors.push(...validateExpressionStateOnly(lambdaExpr.body, buildPath(path, 'body'), context));
+      // lambda 内の body を検証 (スコープがある場合は param と index を追加)
+      let lambdaScope: Set<string> | undefined;
+      if (scope) {
+        lambdaScope = new Set(scope);
+        lambdaScope.add(lambdaExpr.param);
+        if (lambdaExpr.index) {
+          lambdaScope.add(lambdaExpr.index);
+        }
+      }
+      errors.push(...validateExpressionStateOnly(lambdaExpr.body, buildPath(path, 'body'), context, lambdaScope));
       break;
     }
 
@@ -899,7 +1220,7 @@ function validateExpressionStateOnly(
       for (let i = 0; i < arrayExpr.elements.length; i++) {
         const elem = arrayExpr.elements[i];
         if (elem) {
-          errors.push(...validateExpressionStateOnly(elem, buildPath(path, 'elements', i), context));
+          errors.push(...validateExpressionStateOnly(elem, buildPath(path, 'elements', i), context, scope));
         }
       }
       break;
@@ -910,7 +1231,7 @@ function validateExpressionStateOnly(
       for (let i = 0; i < concatExpr.items.length; i++) {
         const item = concatExpr.items[i];
         if (item) {
-          errors.push(...validateExpressionStateOnly(item, buildPath(path, 'items', i), context));
+          errors.push(...validateExpressionStateOnly(item, buildPath(path, 'items', i), context, scope));
         }
       }
       break;
@@ -927,7 +1248,8 @@ function validateExpressionStateOnly(
 function validateStyleExpressionStateOnly(
   expr: { expr: 'style'; name: string; variants?: Record<string, Expression> },
   path: string,
-  context: AnalysisContext
+  context: AnalysisContext,
+  scope?: Set<string>
 ): ConstelaError[] {
   const errors: ConstelaError[] = [];
 
@@ -956,7 +1278,7 @@ function validateStyleExpressionStateOnly(
       }
 
       // Validate the variant value expression (state refs only)
-      errors.push(...validateExpressionStateOnly(variantValue, variantPath, context));
+      errors.push(...validateExpressionStateOnly(variantValue, variantPath, context, scope));
     }
   }
 
@@ -1035,6 +1357,32 @@ function validateExpressionInEventPayload(
       break;
     }
 
+    case 'computed':
+      if (!context.computedNames.has(expr.name)) {
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, context.computedNames);
+        errors.push(createUndefinedComputedError(expr.name, path, errorOptions));
+      }
+      break;
+
+    case 'resource':
+      if (!context.resourceNames.has(expr.name)) {
+        const errorOptions = createErrorOptionsWithSuggestion(expr.name, context.resourceNames);
+        errors.push(createUndefinedResourceError(expr.name, path, errorOptions));
+      }
+      break;
+
+    case 'form':
+      errors.push(...validateFormReference(expr.name, expr.field, path, path, context));
+      break;
+
+    case 't':
+      for (const [name, paramExpr] of Object.entries(expr.params ?? {})) {
+        errors.push(
+          ...validateExpressionInEventPayload(paramExpr, buildPath(path, 'params', name), context, scope)
+        );
+      }
+      break;
+
     case 'bin':
       errors.push(
         ...validateExpressionInEventPayload(expr.left, buildPath(path, 'left'), context, scope)
@@ -1194,6 +1542,38 @@ interface ViewNodeValidationOptions {
   paramScope?: ParamScope;
 }
 
+/**
+ * Validates that a model binding targets declared state.
+ * Paths are only supported on global state, as local actions cannot set paths.
+ */
+function validateModelBinding(
+  model: ModelBinding,
+  path: string,
+  context: AnalysisContext,
+  paramScope?: ParamScope
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+  const isLocalState = paramScope?.localStateNames?.has(model.target) ?? false;
+
+  if (!isLocalState && !context.stateNames.has(model.target)) {
+    const availableNames = new Set([
+      ...context.stateNames,
+      ...(paramScope?.localStateNames ?? []),
+    ]);
+    const errorOptions = createErrorOptionsWithSuggestion(model.target, availableNames);
+    errors.push(createUndefinedStateError(model.target, buildPath(path, 'target'), errorOptions));
+  } else if (isLocalState && model.path) {
+    errors.push(
+      createSchemaError(
+        `Model path '${model.path}' is not supported on local state '${model.target}'`,
+        buildPath(path, 'path')
+      )
+    );
+  }
+
+  return errors;
+}
+
 /**
  * Validates a view node for state, action, and variable references
  */
@@ -1245,6 +1625,14 @@ function validateViewNode(
           }
         }
       }
+      // Validate provided context values
+      if (node.provide) {
+        errors.push(...validateProvide(node.provide, buildPath(path, 'provide'), context, scope, paramScope));
+      }
+      // Validate model binding target
+      if (node.model) {
+        errors.push(...validateModelBinding(node.model, buildPath(path, 'model'), context, paramScope));
+      }
       // Validate children
       if (node.children) {
         for (let i = 0; i < node.children.length; i++) {
@@ -1271,6 +1659,28 @@ function validateViewNode(
       }
       break;
 
+    case 'match': {
+      errors.push(...validateExpression(node.value, buildPath(path, 'value'), context, scope, paramScope));
+
+      // Detect case keys that select the same literal (e.g. "1" and "1.0")
+      const seenCases = new Map<string, string>();
+      for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+        const casePath = buildPath(path, 'cases', caseKey);
+        const normalizedKey = normalizeMatchKey(caseKey);
+        const existingKey = seenCases.get(normalizedKey);
+        if (existingKey !== undefined) {
+          errors.push(createDuplicateMatchCaseError(caseKey, existingKey, casePath));
+        } else {
+          seenCases.set(normalizedKey, caseKey);
+        }
+        errors.push(...validateViewNode(caseNode, casePath, context, scope, options));
+      }
+      if (node.default) {
+        errors.push(...validateViewNode(node.default, buildPath(path, 'default'), context, scope, options));
+      }
+      break;
+    }
+
     case 'each': {
       // Validate items expression with current scope
       errors.push(...validateExpression(node.items, buildPath(path, 'items'), context, scope, paramScope));
@@ -1306,14 +1716,29 @@ function validateViewNode(
           );
         }
       }
-      // Validate children (slot content) - these are in the caller's context
+      // Validate provided context values - evaluated in the caller's context
+      if (node.provide) {
+        errors.push(...validateProvide(node.provide, buildPath(path, 'provide'), context, scope, paramScope));
+      }
+      // Validate children (slot content) - these are in the caller's context,
+      // with the slot props bound to the slotProps variable
       if (node.children) {
+        const slotNames = collectSlotNames(ast.components?.[node.name]?.view);
+        const slotScope = node.slotProps ? new Set([...scope, node.slotProps]) : scope;
         for (let i = 0; i < node.children.length; i++) {
           const child = node.children[i];
           if (child === undefined) continue;
-          errors.push(
-            ...validateViewNode(child, buildPath(path, 'children', i), context, scope, options)
-          );
+          const childPath = buildPath(path, 'children', i);
+          const slotName = 'slot' in child ? child.slot : undefined;
+          if (slotName !== undefined && context.componentNames.has(node.name) && !slotNames.has(slotName)) {
+            errors.push(
+              createSchemaError(
+                `Component '${node.name}' has no slot named '${slotName}'`,
+                buildPath(childPath, 'slot')
+              )
+            );
+          }
+          errors.push(...validateViewNode(child, childPath, context, slotScope, options));
         }
       }
       break;
@@ -1326,6 +1751,14 @@ function validateViewNode(
           createSchemaError(`Slot can only be used inside component definitions or layouts`, path)
         );
       }
+      // Validate slot props - evaluated in the component's context
+      if (node.props) {
+        for (const [propName, propValue] of Object.entries(node.props)) {
+          errors.push(
+            ...validateExpression(propValue, buildPath(path, 'props', propName), context, scope, paramScope)
+          );
+        }
+      }
       break;
 
     case 'island': {
@@ -1397,10 +1830,50 @@ function validateViewNode(
 }
 
 /**
- * Validates component props against the component definition
+ * Validates that an event handler passed to a component references an action
+ * in scope and that its payload is valid
+ */
+function validateComponentEventHandler(
+  handler: EventHandler,
+  path: string,
+  context: AnalysisContext,
+  scope: Set<string>,
+  paramScope?: ParamScope
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  // Check action reference - check both global and local actions
+  const isGlobalAction = context.actionNames.has(handler.action);
+  const isLocalAction = paramScope?.localActionNames?.has(handler.action) ?? false;
+  if (!isGlobalAction && !isLocalAction) {
+    // Combine available names for suggestion
+    const availableNames = new Set([
+      ...context.actionNames,
+      ...(paramScope?.localActionNames ?? []),
+    ]);
+    const errorOptions = createErrorOptionsWithSuggestion(handler.action, availableNames);
+    errors.push(createUndefinedActionError(handler.action, path, errorOptions));
+  }
+  // Check payload expression if present
+  if (handler.payload) {
+    errors.push(
+      ...validateExpressionInEventPayload(
+        handler.payload as Expression,
+        buildPath(path, 'payload'),
+        context,
+        scope
+      )
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Validates component props and event handlers against the component definition
  */
 function validateComponentProps(
-  node: { name: string; props?: Record<string, Expression> },
+  node: { name: string; props?: Record<string, Expression>; on?: Record<string, EventHandler> },
   componentDef: ComponentDef,
   path: string,
   context: AnalysisContext,
@@ -1425,35 +1898,24 @@ function validateComponentProps(
   for (const [propName, propValue] of Object.entries(providedProps)) {
     const propPath = buildPath(path, 'props', propName);
     if (isEventHandler(propValue)) {
-      // Check action reference - check both global and local actions
-      const isGlobalAction = context.actionNames.has(propValue.action);
-      const isLocalAction = paramScope?.localActionNames?.has(propValue.action) ?? false;
-      if (!isGlobalAction && !isLocalAction) {
-        // Combine available names for suggestion
-        const availableNames = new Set([
-          ...context.actionNames,
-          ...(paramScope?.localActionNames ?? []),
-        ]);
-        const errorOptions = createErrorOptionsWithSuggestion(propValue.action, availableNames);
-        errors.push(createUndefinedActionError(propValue.action, propPath, errorOptions));
-      }
-      // Check payload expression if present
-      if (propValue.payload) {
-        errors.push(
-          ...validateExpressionInEventPayload(
-            propValue.payload as Expression,
-            buildPath(propPath, 'payload'),
-            context,
-            scope
-          )
-        );
-      }
+      errors.push(...validateComponentEventHandler(propValue, propPath, context, scope, paramScope));
     } else {
       // It's an expression
       errors.push(...validateExpression(propValue as Expression, propPath, context, scope, paramScope));
     }
   }
 
+  // Validate handlers for emitted events
+  const emits = new Set(componentDef.emits ?? []);
+  for (const [eventName, handler] of Object.entries(node.on ?? {})) {
+    const handlerPath = buildPath(path, 'on', eventName);
+    if (!emits.has(eventName)) {
+      const errorOptions = createErrorOptionsWithSuggestion(eventName, emits);
+      errors.push(createComponentEventUndeclaredError(node.name, eventName, handlerPath, errorOptions));
+    }
+    errors.push(...validateComponentEventHandler(handler, handlerPath, context, scope, paramScope));
+  }
+
   return errors;
 }
 
@@ -1469,6 +1931,9 @@ let hasImports: boolean;
 // Flag indicating whether data is defined (set in analyzePass)
 let hasData: boolean;
 
+// Locals the runtime may provide to actions, known inside forEach bodies (set in analyzePass)
+let actionLocalNames: Set<string>;
+
 // ==================== Route Definition Validation ====================
 
 /**
@@ -1500,6 +1965,44 @@ function validateRouteDefinition(
   return errors;
 }
 
+/**
+ * Validates the context value expressions provided by an element or component node
+ */
+function validateProvide(
+  provide: Record<string, Expression>,
+  path: string,
+  context: AnalysisContext,
+  scope: Set<string>,
+  paramScope?: ParamScope
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+  for (const [name, expr] of Object.entries(provide)) {
+    errors.push(...validateExpression(expr, buildPath(path, name), context, scope, paramScope));
+  }
+  return errors;
+}
+
+/**
+ * Collects the names of the named slots in a component view
+ */
+function collectSlotNames(value: unknown, names: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectSlotNames(item, names);
+    }
+    return names;
+  }
+  if (typeof value !== 'object' || value === null) return names;
+  const record = value as Record<string, unknown>;
+  if (record['kind'] === 'slot' && typeof record['name'] === 'string') {
+    names.add(record['name']);
+  }
+  for (const child of Object.values(record)) {
+    collectSlotNames(child, names);
+  }
+  return names;
+}
+
 // ==================== Component Cycle Detection ====================
 
 /**
@@ -1542,6 +2045,19 @@ function collectComponentCalls(node: ViewNode): Set<string> {
       }
       break;
 
+    case 'match':
+      for (const caseNode of Object.values(node.cases)) {
+        for (const call of collectComponentCalls(caseNode)) {
+          calls.add(call);
+        }
+      }
+      if (node.default) {
+        for (const call of collectComponentCalls(node.default)) {
+          calls.add(call);
+        }
+      }
+      break;
+
     case 'each':
       for (const call of collectComponentCalls(node.body)) {
         calls.add(call);
@@ -1612,32 +2128,427 @@ function detectComponentCycles(
   return errors;
 }
 
-// ==================== Local Action Validation ====================
+// ==================== Computed Validation ====================
 
 /**
- * Validates local actions in a component definition
+ * Collects all computed references from an expression tree
  */
-function validateLocalActions(
-  localActions: LocalActionDefinition[],
-  localStateNames: Set<string>,
-  componentPath: string
+function collectComputedRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectComputedRefs(item, refs);
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const obj = value as Record<string, unknown>;
+    if (obj['expr'] === 'computed' && typeof obj['name'] === 'string') {
+      refs.add(obj['name']);
+    }
+    for (const child of Object.values(obj)) {
+      collectComputedRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Detects cycles in computed dependency graph using DFS
+ */
+function detectComputedCycles(
+  computed: Record<string, Expression>,
+  basePath: string
 ): ConstelaError[] {
   const errors: ConstelaError[] = [];
 
-  for (let i = 0; i < localActions.length; i++) {
-    const action = localActions[i];
-    if (!action) continue;
-    const actionPath = buildPath(componentPath, 'localActions', i);
-
-    for (let j = 0; j < action.steps.length; j++) {
-      const step = action.steps[j];
+  // Build dependency graph (only edges within the same computed section)
+  const dependencyGraph = new Map<string, Set<string>>();
+  for (const [name, expr] of Object.entries(computed)) {
+    const deps = new Set<string>();
+    for (const ref of collectComputedRefs(expr)) {
+      if (ref in computed) {
+        deps.add(ref);
+      }
+    }
+    dependencyGraph.set(name, deps);
+  }
+
+  // DFS with recursion stack
+  const visited = new Set<string>();
+  const recStack = new Set<string>();
+
+  function dfs(name: string, path: string[]): boolean {
+    visited.add(name);
+    recStack.add(name);
+
+    const deps = dependencyGraph.get(name) || new Set();
+    for (const dep of deps) {
+      if (!visited.has(dep)) {
+        if (dfs(dep, [...path, dep])) return true;
+      } else if (recStack.has(dep)) {
+        // Found cycle
+        const cycleStart = path.indexOf(dep);
+        const cycle =
+          cycleStart >= 0
+            ? [...path.slice(cycleStart), dep]
+            : [...path, dep];
+        errors.push(createComputedCycleError(cycle, buildPath(basePath, path[0] ?? name)));
+        return true;
+      }
+    }
+
+    recStack.delete(name);
+    return false;
+  }
+
+  for (const name of dependencyGraph.keys()) {
+    if (!visited.has(name)) {
+      dfs(name, [name]);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates program-level computed definitions
+ */
+function validateComputed(programAst: Program, context: AnalysisContext): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  if (!programAst.computed) return errors;
+
+  for (const [name, expr] of Object.entries(programAst.computed)) {
+    errors.push(
+      ...validateExpression(expr, buildPath('', 'computed', name), context, new Set<string>())
+    );
+  }
+
+  errors.push(...detectComputedCycles(programAst.computed, '/computed'));
+
+  return errors;
+}
+
+/**
+ * Validates that syncQuery is only declared on URL-serializable state fields
+ */
+function validateSyncQueryFields(programAst: Program): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  for (const [name, field] of Object.entries(programAst.state)) {
+    if (field.syncQuery && !isQuerySerializableType(field.type)) {
+      errors.push(
+        createInvalidSyncQueryTypeError(name, field.type, buildPath('', 'state', name, 'syncQuery'))
+      );
+    }
+  }
+
+  return errors;
+}
+
+// ==================== Resource Validation ====================
+
+/**
+ * Validates the URL expressions of program-level resources
+ */
+function validateResources(programAst: Program, context: AnalysisContext): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  if (!programAst.resources) return errors;
+
+  for (const [name, resource] of Object.entries(programAst.resources)) {
+    errors.push(
+      ...validateExpression(
+        resource.url,
+        buildPath('', 'resources', name, 'url'),
+        context,
+        new Set<string>()
+      )
+    );
+  }
+
+  return errors;
+}
+
+// ==================== Form Validation ====================
+
+/**
+ * Checks whether a pattern rule value compiles as a regular expression
+ */
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a reference to a form and, when given, one of its fields
+ */
+function validateFormReference(
+  formName: string,
+  fieldName: string | undefined,
+  formPath: string,
+  fieldPath: string,
+  context: AnalysisContext
+): ConstelaError[] {
+  const fields = context.formFields.get(formName);
+  if (!fields) {
+    const errorOptions = createErrorOptionsWithSuggestion(formName, new Set(context.formFields.keys()));
+    return [createUndefinedFormError(formName, formPath, errorOptions)];
+  }
+  if (fieldName !== undefined && !fields.has(fieldName)) {
+    const errorOptions = createErrorOptionsWithSuggestion(fieldName, fields);
+    return [createUndefinedFormFieldError(fieldName, formName, fieldPath, errorOptions)];
+  }
+  return [];
+}
+
+/**
+ * Validates form field targets, pattern rule regexes, equals rule fields, and custom and
+ * async rule expressions. Rule expressions can reference the `value` and `values` vars.
+ */
+function validateForms(programAst: Program, context: AnalysisContext): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  if (!programAst.forms) return errors;
+
+  const ruleScope = new Set<string>(['value', 'values']);
+  for (const [formName, form] of Object.entries(programAst.forms)) {
+    for (const [fieldName, field] of Object.entries(form.fields)) {
+      const fieldPath = buildPath('', 'forms', formName, 'fields', fieldName);
+      if (!context.stateNames.has(field.target)) {
+        const errorOptions = createErrorOptionsWithSuggestion(field.target, context.stateNames);
+        errors.push(createUndefinedStateError(field.target, buildPath(fieldPath, 'target'), errorOptions));
+      }
+      for (let i = 0; i < (field.rules ?? []).length; i++) {
+        const rule = field.rules?.[i];
+        const rulePath = buildPath(fieldPath, 'rules', i);
+        if (rule?.type === 'pattern') {
+          if (!isValidRegExp(rule.value)) {
+            errors.push(
+              createSchemaError(
+                `Pattern '${rule.value}' is not a valid regular expression`,
+                buildPath(rulePath, 'value')
+              )
+            );
+          }
+        } else if (rule?.type === 'equals') {
+          errors.push(
+            ...validateFormReference(formName, rule.field, rulePath, buildPath(rulePath, 'field'), context)
+          );
+        } else if (rule?.type === 'custom') {
+          errors.push(...validateExpression(rule.expr, buildPath(rulePath, 'expr'), context, ruleScope));
+        } else if (rule?.type === 'async') {
+          errors.push(...validateExpression(rule.url, buildPath(rulePath, 'url'), context, ruleScope));
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ==================== I18n Validation ====================
+
+/**
+ * Validates that a declared locale state field is a string field
+ */
+function validateI18nLocaleState(programAst: Program): ConstelaError[] {
+  const field = programAst.state[LOCALE_STATE];
+  if (!programAst.i18n || !field || field.type === 'string') return [];
+  return [
+    createSchemaError(
+      `State '${LOCALE_STATE}' holds the i18n locale and must be a string field`,
+      buildPath('', 'state', LOCALE_STATE, 'type')
+    ),
+  ];
+}
+
+/**
+ * Collects the keys of all t expressions with the path of their first use
+ */
+function collectTranslationKeys(value: unknown, path: string, keys: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => collectTranslationKeys(item, buildPath(path, index), keys));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+  const record = value as Record<string, unknown>;
+  if (record['expr'] === 't' && typeof record['key'] === 'string' && !keys.has(record['key'])) {
+    keys.set(record['key'], path);
+  }
+  for (const [key, child] of Object.entries(record)) {
+    collectTranslationKeys(child, buildPath(path, key), keys);
+  }
+}
+
+/**
+ * Warns about message keys missing in any inline catalog: keys used by
+ * t expressions and keys defined by another locale. Imported catalogs are
+ * only known at runtime and are not checked.
+ */
+function validateI18nMessages(programAst: Program): ConstelaError[] {
+  const warnings: ConstelaError[] = [];
+  if (!programAst.i18n) return warnings;
+
+  const { i18n: _i18n, ...rest } = programAst;
+  const keys = new Map<string, string>();
+  collectTranslationKeys(rest, '', keys);
+
+  const catalogs = Object.entries(programAst.i18n.messages).filter(
+    (entry): entry is [string, Record<string, string>] => !isImportExpr(entry[1])
+  );
+  for (const [locale, catalog] of catalogs) {
+    for (const key of Object.keys(catalog)) {
+      if (!keys.has(key)) keys.set(key, buildPath('', 'i18n', 'messages', locale, key));
+    }
+  }
+
+  for (const [key, keyPath] of keys) {
+    for (const [locale, catalog] of catalogs) {
+      if (!(key in catalog)) {
+        warnings.push(createI18nMissingKeyError(key, locale, keyPath));
+      }
+    }
+  }
+
+  return warnings;
+}
+
+// ==================== Context Validation ====================
+
+/**
+ * Walks a view tree, expanding component definitions at their usage sites,
+ * and reports context expressions not provided by an enclosing node.
+ * Reads inside a component definition are reported at the component usage.
+ */
+function checkContextReads(
+  value: unknown,
+  path: string,
+  provided: Set<string>,
+  components: Record<string, ComponentDef>,
+  errors: ConstelaError[],
+  reportPath?: string,
+  expanding: Set<string> = new Set()
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      checkContextReads(item, buildPath(path, index), provided, components, errors, reportPath, expanding)
+    );
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+  const record = value as Record<string, unknown>;
+
+  if (record['expr'] === 'context' && typeof record['name'] === 'string') {
+    if (!provided.has(record['name'])) {
+      const errorOptions = createErrorOptionsWithSuggestion(record['name'], provided);
+      errors.push(createContextNotProvidedError(record['name'], reportPath ?? path, errorOptions));
+    }
+    return;
+  }
+
+  // Context provided by an element or component is visible to its children only
+  const provide = record['provide'];
+  const isProvider =
+    (record['kind'] === 'element' || record['kind'] === 'component') &&
+    typeof provide === 'object' &&
+    provide !== null;
+  const inner = isProvider ? new Set([...provided, ...Object.keys(provide)]) : provided;
+
+  for (const [key, child] of Object.entries(record)) {
+    const childProvided = isProvider && key === 'children' ? inner : provided;
+    checkContextReads(child, buildPath(path, key), childProvided, components, errors, reportPath, expanding);
+  }
+
+  if (record['kind'] === 'component' && typeof record['name'] === 'string') {
+    const name = record['name'];
+    const def = components[name];
+    if (!def || expanding.has(name)) return;
+    expanding.add(name);
+    const viewPath = buildPath('', 'components', name, 'view');
+    checkContextReads(def.view, viewPath, inner, components, errors, reportPath ?? path, expanding);
+    expanding.delete(name);
+  }
+}
+
+/**
+ * Validates that every context expression reachable from the view has a provider.
+ * Pages rendered inside a layout are skipped, as the layout may provide the context.
+ */
+function validateContextProviders(programAst: Program): ConstelaError[] {
+  if (programAst.route?.layout) return [];
+  const errors: ConstelaError[] = [];
+  checkContextReads(programAst.view, '/view', new Set(), programAst.components ?? {}, errors);
+  return errors;
+}
+
+// ==================== Local Action Validation ====================
+
+/**
+ * Validates local actions in a component definition
+ * Interval and subscribe steps may run local or global actions
+ */
+function validateLocalActions(
+  localActions: LocalActionDefinition[],
+  localStateNames: Set<string>,
+  componentPath: string,
+  context: AnalysisContext,
+  paramScope: ParamScope,
+  emits: Set<string>
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+  const actionNames = new Set([...(paramScope.localActionNames ?? []), ...context.actionNames]);
+
+  const validateSteps = (steps: LocalActionStep[], stepsPath: string): void => {
+    for (let j = 0; j < steps.length; j++) {
+      const step = steps[j];
       if (!step) continue;
-      const stepPath = buildPath(actionPath, 'steps', j);
+      const stepPath = buildPath(stepsPath, j);
 
       // Cast to unknown to check step type at runtime (schema might allow invalid types)
       const stepDo = (step as { do: string }).do;
 
-      // Check step type is valid for local actions (set, update, setPath only)
+      // Emit steps must name a declared event
+      if (step.do === 'emit') {
+        if (!emits.has(step.event)) {
+          const errorOptions = createErrorOptionsWithSuggestion(step.event, emits);
+          errors.push(
+            createComponentEventUndeclaredError(paramScope.componentName, step.event, buildPath(stepPath, 'event'), errorOptions)
+          );
+        }
+        if (step.payload) {
+          errors.push(
+            ...validateExpression(step.payload, buildPath(stepPath, 'payload'), context, new Set<string>(), paramScope)
+          );
+        }
+        continue;
+      }
+
+      // Timers and subscriptions run a local or global action
+      if (step.do === 'interval' || step.do === 'subscribe') {
+        if (!actionNames.has(step.action)) {
+          const errorOptions = createErrorOptionsWithSuggestion(step.action, actionNames);
+          errors.push(createUndefinedActionError(step.action, buildPath(stepPath, 'action'), errorOptions));
+        }
+        continue;
+      }
+
+      // Focus callbacks follow the local action rules
+      if (step.do === 'focus') {
+        for (const key of ['onSuccess', 'onError'] as const) {
+          const callbackSteps = step[key];
+          if (callbackSteps) {
+            validateSteps(callbackSteps as LocalActionStep[], buildPath(stepPath, key));
+          }
+        }
+        continue;
+      }
+
+      if (step.do === 'dom' || step.do === 'clearTimer') continue;
+
+      // Check step type is valid for local actions
       if (stepDo !== 'set' && stepDo !== 'update' && stepDo !== 'setPath') {
         errors.push(createLocalActionInvalidStepError(stepDo, stepPath));
         continue;
@@ -1649,6 +2560,12 @@ function validateLocalActions(
         errors.push(createUndefinedLocalStateError(step.target, buildPath(stepPath, 'target'), errorOptions));
       }
     }
+  };
+
+  for (let i = 0; i < localActions.length; i++) {
+    const action = localActions[i];
+    if (!action) continue;
+    validateSteps(action.steps, buildPath(componentPath, 'localActions', i, 'steps'));
   }
 
   return errors;
@@ -1688,14 +2605,59 @@ function validateComponents(
       localStateNames,
       localActionNames,
     };
+    if (def.computed) {
+      paramScope.computedNames = new Set<string>(Object.keys(def.computed));
+    }
 
     // Validate localActions if present
     if (def.localActions && def.localActions.length > 0) {
       errors.push(
-        ...validateLocalActions(def.localActions, localStateNames, componentPath)
+        ...validateLocalActions(
+          def.localActions,
+          localStateNames,
+          componentPath,
+          context,
+          paramScope,
+          new Set(def.emits ?? [])
+        )
       );
     }
 
+    // Validate component computed definitions and their dependency cycles
+    if (def.computed) {
+      for (const [computedName, expr] of Object.entries(def.computed)) {
+        errors.push(
+          ...validateExpression(
+            expr,
+            buildPath(componentPath, 'computed', computedName),
+            context,
+            new Set<string>(),
+            paramScope
+          )
+        );
+      }
+      errors.push(...detectComputedCycles(def.computed, buildPath(componentPath, 'computed')));
+    }
+
+    // Validate component watch against local and global state/actions
+    errors.push(
+      ...validateWatch(
+        def.watch,
+        componentPath,
+        new Set([...localStateNames, ...context.stateNames]),
+        new Set([...localActionNames, ...context.actionNames])
+      )
+    );
+
+    // Validate component lifecycle hooks against local and global actions
+    errors.push(
+      ...validateLifecycleHooks(
+        def.lifecycle,
+        componentPath,
+        new Set([...localActionNames, ...context.actionNames])
+      )
+    );
+
     // Validate component view with insideComponent = true
     errors.push(
       ...validateViewNode(
@@ -1715,10 +2677,12 @@ function validateComponents(
 
 /**
  * Validates lifecycle hooks reference valid actions
+ * (program hooks or component hooks under basePath)
  */
 function validateLifecycleHooks(
   lifecycle: LifecycleHooks | undefined,
-  context: AnalysisContext
+  basePath: string,
+  actionNames: Set<string>
 ): ConstelaError[] {
   const errors: ConstelaError[] = [];
 
@@ -1727,9 +2691,65 @@ function validateLifecycleHooks(
   const hooks = ['onMount', 'onUnmount', 'onRouteEnter', 'onRouteLeave'] as const;
   for (const hook of hooks) {
     const actionName = lifecycle[hook];
-    if (actionName && !context.actionNames.has(actionName)) {
-      const errorOptions = createErrorOptionsWithSuggestion(actionName, context.actionNames);
-      errors.push(createUndefinedActionError(actionName, `/lifecycle/${hook}`, errorOptions));
+    if (actionName && !actionNames.has(actionName)) {
+      const errorOptions = createErrorOptionsWithSuggestion(actionName, actionNames);
+      errors.push(createUndefinedActionError(actionName, buildPath(basePath, 'lifecycle', hook), errorOptions));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates watch definitions reference declared state and actions
+ */
+function validateWatch(
+  watch: WatchDefinition[] | undefined,
+  basePath: string,
+  stateNames: Set<string>,
+  actionNames: Set<string>
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  if (!watch) return errors;
+
+  for (let i = 0; i < watch.length; i++) {
+    const entry = watch[i];
+    if (!entry) continue;
+    const entryPath = buildPath(basePath, 'watch', i);
+
+    if (!stateNames.has(entry.target)) {
+      const errorOptions = createErrorOptionsWithSuggestion(entry.target, stateNames);
+      errors.push(createUndefinedStateError(entry.target, buildPath(entryPath, 'target'), errorOptions));
+    }
+    if (!actionNames.has(entry.action)) {
+      const errorOptions = createErrorOptionsWithSuggestion(entry.action, actionNames);
+      errors.push(createUndefinedActionError(entry.action, buildPath(entryPath, 'action'), errorOptions));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates global event handlers reference declared actions
+ */
+function validateGlobalEvents(
+  globalEvents: GlobalEventHandler[] | undefined,
+  actionNames: Set<string>
+): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  if (!globalEvents) return errors;
+
+  for (let i = 0; i < globalEvents.length; i++) {
+    const entry = globalEvents[i];
+    if (!entry) continue;
+    if (!actionNames.has(entry.action)) {
+      const errorOptions = createErrorOptionsWithSuggestion(entry.action, actionNames);
+      errors.push(
+        createUndefinedActionError(entry.action, buildPath('', 'globalEvents', i, 'action'), errorOptions)
+      );
     }
   }
 
@@ -1759,6 +2779,130 @@ function validateActions(programAst: Program, context: AnalysisContext): Constel
   return errors;
 }
 
+/**
+ * Locals set by the runtime: event data, handler payloads and step outputs
+ */
+const RUNTIME_ACTION_LOCALS = [
+  'payload', 'event', 'detail', 'error', 'errors', 'attempt', 'response', 'result',
+  'value', 'checked', 'files', 'scrollTop', 'scrollLeft', 'isIntersecting', 'intersectionRatio',
+  'key', 'code', 'ctrlKey', 'shiftKey', 'altKey', 'metaKey',
+  'clientX', 'clientY', 'pageX', 'pageY', 'button', 'touches', 'changedTouches',
+];
+
+/**
+ * Collects the locals an action may read: runtime locals, the `result`
+ * names of steps, and the variables of each loops and component local
+ * state that event handlers pass on
+ */
+function collectActionLocals(programAst: Program): Set<string> {
+  const locals = new Set<string>(RUNTIME_ACTION_LOCALS);
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        visit(item);
+      }
+    } else if (typeof value === 'object' && value !== null) {
+      const obj = value as Record<string, unknown>;
+      if (obj['kind'] === 'each' && typeof obj['as'] === 'string') {
+        locals.add(obj['as']);
+        if (typeof obj['index'] === 'string') {
+          locals.add(obj['index']);
+        }
+      }
+      if (typeof obj['do'] === 'string' && typeof obj['result'] === 'string') {
+        locals.add(obj['result']);
+      }
+      for (const child of Object.values(obj)) {
+        visit(child);
+      }
+    }
+  };
+  visit(programAst.view);
+  visit(programAst.actions);
+  for (const def of Object.values(programAst.components ?? {})) {
+    for (const name of Object.keys(def.localState ?? {})) {
+      locals.add(name);
+    }
+    visit(def.view);
+    visit(def.localActions);
+  }
+  return locals;
+}
+
+/**
+ * Collects names of actions run by `run` steps, including steps nested
+ * in branches and callbacks
+ */
+function collectRunActions(value: unknown, runs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectRunActions(item, runs);
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const obj = value as Record<string, unknown>;
+    if (obj['do'] === 'run' && typeof obj['action'] === 'string') {
+      runs.add(obj['action']);
+    }
+    for (const child of Object.values(obj)) {
+      collectRunActions(child, runs);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Detects cycles in the action run graph using DFS
+ */
+function detectActionCycles(programAst: Program): ConstelaError[] {
+  const errors: ConstelaError[] = [];
+
+  // Build run graph
+  const runGraph = new Map<string, Set<string>>();
+  const actionIndex = new Map<string, number>();
+  programAst.actions.forEach((action, index) => {
+    runGraph.set(action.name, collectRunActions(action.steps));
+    actionIndex.set(action.name, index);
+  });
+
+  // DFS with recursion stack
+  const visited = new Set<string>();
+  const recStack = new Set<string>();
+
+  function dfs(name: string, path: string[]): boolean {
+    visited.add(name);
+    recStack.add(name);
+
+    const runs = runGraph.get(name) || new Set();
+    for (const callee of runs) {
+      if (!runGraph.has(callee)) continue;
+      if (!visited.has(callee)) {
+        if (dfs(callee, [...path, callee])) return true;
+      } else if (recStack.has(callee)) {
+        // Found cycle
+        const cycleStart = path.indexOf(callee);
+        const cycle =
+          cycleStart >= 0
+            ? [...path.slice(cycleStart), callee]
+            : [...path, callee];
+        const start = cycle[0] ?? name;
+        errors.push(createActionCycleError(cycle, buildPath('', 'actions', actionIndex.get(start) ?? 0)));
+        return true;
+      }
+    }
+
+    recStack.delete(name);
+    return false;
+  }
+
+  for (const name of runGraph.keys()) {
+    if (!visited.has(name)) {
+      dfs(name, [name]);
+    }
+  }
+
+  return errors;
+}
+
 // ==================== Main Analyze Function ====================
 
 // ==================== Data Source Validation ====================
@@ -1856,8 +3000,12 @@ function validateGetStaticPaths(
  * - Validates variable scopes
  * - Validates component references and props
  * - Detects component cycles
+ * - Detects action run cycles
  * - Validates param references in component definitions
  * - Validates data sources and getStaticPaths
+ * - Validates computed references and detects computed cycles
+ * - Validates resource references
+ * - Validates form references and form field targets
  *
  * @param programAst - Validated AST from validate pass
  * @returns AnalyzePassResult
@@ -1875,6 +3023,9 @@ export function analyzePass(programAst: Program): AnalyzePassResult {
   // Set module-level hasData flag for data expression validation
   hasData = !!programAst.data;
 
+  // Set module-level action locals for forEach variable validation
+  actionLocalNames = collectActionLocals(programAst);
+
   // Check if this is a layout program (has type: 'layout')
   const isLayout = (programAst as unknown as { type?: string }).type === 'layout';
 
@@ -1893,8 +3044,32 @@ export function analyzePass(programAst: Program): AnalyzePassResult {
   // Validate actions
   errors.push(...validateActions(programAst, context));
 
+  // Detect action run cycles
+  errors.push(...detectActionCycles(programAst));
+
   // Validate lifecycle hooks
-  errors.push(...validateLifecycleHooks(programAst.lifecycle, context));
+  errors.push(...validateLifecycleHooks(programAst.lifecycle, '', context.actionNames));
+
+  // Validate watch definitions
+  errors.push(...validateWatch(programAst.watch, '', context.stateNames, context.actionNames));
+
+  // Validate global event handlers
+  errors.push(...validateGlobalEvents(programAst.globalEvents, context.actionNames));
+
+  // Validate computed definitions and detect computed cycles
+  errors.push(...validateComputed(programAst, context));
+
+  // Validate resource definitions
+  errors.push(...validateResources(programAst, context));
+
+  // Validate form definitions
+  errors.push(...validateForms(programAst, context));
+
+  // Validate the locale state used by i18n
+  errors.push(...validateI18nLocaleState(programAst));
+
+  // Validate state fields synced to the URL query
+  errors.push(...validateSyncQueryFields(programAst));
 
   // Detect component cycles
   errors.push(...detectComponentCycles(programAst, context));
@@ -1902,6 +3077,9 @@ export function analyzePass(programAst: Program): AnalyzePassResult {
   // Validate component definitions (params, slot usage inside components)
   errors.push(...validateComponents(programAst, context));
 
+  // Validate that context expressions have a providing ancestor
+  errors.push(...validateContextProviders(programAst));
+
   // Validate route definition expressions (title, meta)
   if (programAst.route) {
     errors.push(...validateRouteDefinition(programAst.route, context));
@@ -1916,8 +3094,9 @@ export function analyzePass(programAst: Program): AnalyzePassResult {
     })
   );
 
-  // Run a11y validation (warnings don't block compilation)
+  // Run a11y validation and check i18n catalogs (warnings don't block compilation)
   const a11yWarnings = validateA11y(programAst);
+  const i18nWarnings = validateI18nMessages(programAst);
 
   if (errors.length > 0) {
     return {
@@ -1930,6 +3109,6 @@ export function analyzePass(programAst: Program): AnalyzePassResult {
     ok: true,
     ast: programAst,
     context,
-    warnings: a11yWarnings,
+    warnings: [...a11yWarnings, ...i18nWarnings],
   };
 }
@@ -0,0 +1,257 @@
+/**
+ * Model Lowering - Expands `model` bindings on form controls
+ *
+ * A `model: { target, path? }` on an input, textarea or select is lowered into
+ * a value (or checked) prop plus an event handler, so later passes and the
+ * runtime only ever see plain props and handlers:
+ *
+ * - text inputs and textareas: `value` + `input`, storing the value
+ * - number and range inputs: `value` + `input`, storing valueAsNumber
+ * - checkboxes: `checked` + `change`, storing checked
+ * - radios: `checked` when the state equals the radio's value + `change`, storing that value
+ * - selects: `value` + `change`; multi-selects store the array of selected values
+ *
+ * The handler passes the new value as payload to a generated
+ * `$model.<target>[.<path>]` action, added to the scope declaring the target:
+ * component localActions, island actions or the program actions.
+ */
+
+import type {
+  ActionDefinition,
+  ComponentDef,
+  ElementNode,
+  EventHandler,
+  Expression,
+  ModelBinding,
+  SetPathStep,
+  SetStep,
+  StateField,
+  ViewNode,
+} from '@constela/core';
+
+/**
+ * The parts of a program (or layout) the lowering reads and extends
+ */
+export interface ModelLoweringInput {
+  view: ViewNode;
+  state?: Record<string, StateField>;
+  actions?: ActionDefinition[];
+  components?: Record<string, ComponentDef>;
+}
+
+/**
+ * Prop key the generated event handler is stored under
+ */
+export const MODEL_HANDLER_PROP = '$model';
+
+/**
+ * An action generated for a model binding, valid as both a global and a local action
+ */
+interface ModelAction {
+  name: string;
+  steps: (SetStep | SetPathStep)[];
+}
+
+/**
+ * A scope declaring state, collecting the model actions targeting it
+ */
+interface ModelScope {
+  stateNames: Set<string>;
+  actions: Map<string, ModelAction>;
+}
+
+/**
+ * Returns the name of the action generated for a model binding
+ */
+export function getModelActionName(model: ModelBinding): string {
+  return model.path ? `$model.${model.target}.${model.path}` : `$model.${model.target}`;
+}
+
+function createScope(state: Record<string, StateField> | undefined): ModelScope {
+  return { stateNames: new Set(Object.keys(state ?? {})), actions: new Map() };
+}
+
+/**
+ * Resolves the innermost scope declaring the target, falling back to the program scope
+ */
+function resolveScope(target: string, scopes: ModelScope[]): ModelScope {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope?.stateNames.has(target)) return scope;
+  }
+  return scopes[0] as ModelScope;
+}
+
+function createModelAction(model: ModelBinding): ModelAction {
+  const value: Expression = { expr: 'var', name: 'payload' };
+  const step: SetStep | SetPathStep = model.path
+    ? { do: 'setPath', target: model.target, path: { expr: 'lit', value: model.path }, value }
+    : { do: 'set', target: model.target, value };
+  return { name: getModelActionName(model), steps: [step] };
+}
+
+function getLiteralProp(node: ElementNode, name: string): unknown {
+  const prop = node.props?.[name];
+  if (prop && 'expr' in prop && prop.expr === 'lit') {
+    return prop.value;
+  }
+  return undefined;
+}
+
+/**
+ * Builds the bound prop and handler for the element's kind of control
+ */
+function createModelProps(
+  node: ElementNode,
+  model: ModelBinding,
+  action: string
+): Record<string, Expression | EventHandler> {
+  const stateExpr: Expression = {
+    expr: 'state',
+    name: model.target,
+    ...(model.path && { path: model.path }),
+  };
+  const type = node.tag === 'input' ? getLiteralProp(node, 'type') : undefined;
+
+  if (type === 'checkbox') {
+    return {
+      checked: stateExpr,
+      [MODEL_HANDLER_PROP]: { event: 'change', action, payload: { expr: 'var', name: 'checked' } },
+    };
+  }
+
+  if (type === 'radio') {
+    const valueProp = node.props?.['value'];
+    const valueExpr: Expression =
+      valueProp && 'expr' in valueProp ? valueProp : { expr: 'var', name: 'value' };
+    return {
+      checked: { expr: 'bin', op: '==', left: stateExpr, right: valueExpr },
+      [MODEL_HANDLER_PROP]: { event: 'change', action, payload: valueExpr },
+    };
+  }
+
+  if (type === 'number' || type === 'range') {
+    return {
+      value: stateExpr,
+      [MODEL_HANDLER_PROP]: { event: 'input', action, payload: { expr: 'var', name: 'valueAsNumber' } },
+    };
+  }
+
+  if (node.tag === 'select') {
+    const multiple = getLiteralProp(node, 'multiple') === true;
+    return {
+      value: stateExpr,
+      [MODEL_HANDLER_PROP]: {
+        event: 'change',
+        action,
+        payload: { expr: 'var', name: multiple ? 'selectedValues' : 'value' },
+      },
+    };
+  }
+
+  return {
+    value: stateExpr,
+    [MODEL_HANDLER_PROP]: { event: 'input', action, payload: { expr: 'var', name: 'value' } },
+  };
+}
+
+function lowerElement(node: ElementNode, scopes: ModelScope[]): ElementNode {
+  const { model, ...rest } = node;
+  const children = node.children?.map((child) => lowerNode(child, scopes));
+  if (!model) {
+    return { ...node, ...(children && { children }) };
+  }
+
+  const action = getModelActionName(model);
+  const scope = resolveScope(model.target, scopes);
+  if (!scope.actions.has(action)) {
+    scope.actions.set(action, createModelAction(model));
+  }
+
+  return {
+    ...rest,
+    props: { ...node.props, ...createModelProps(node, model, action) },
+    ...(children && { children }),
+  };
+}
+
+function lowerNode(node: ViewNode, scopes: ModelScope[]): ViewNode {
+  switch (node.kind) {
+    case 'element':
+      return lowerElement(node, scopes);
+    case 'if':
+      return {
+        ...node,
+        then: lowerNode(node.then, scopes),
+        ...(node.else && { else: lowerNode(node.else, scopes) }),
+      };
+    case 'match': {
+      const cases: Record<string, ViewNode> = {};
+      for (const [key, caseNode] of Object.entries(node.cases)) {
+        cases[key] = lowerNode(caseNode, scopes);
+      }
+      return {
+        ...node,
+        cases,
+        ...(node.default && { default: lowerNode(node.default, scopes) }),
+      };
+    }
+    case 'each':
+      return { ...node, body: lowerNode(node.body, scopes) };
+    case 'component':
+      return node.children
+        ? { ...node, children: node.children.map((child) => lowerNode(child, scopes)) }
+        : node;
+    case 'portal':
+      return { ...node, children: node.children.map((child) => lowerNode(child, scopes)) };
+    case 'island': {
+      const islandScope = createScope(node.state);
+      const content = lowerNode(node.content, [...scopes, islandScope]);
+      const actions = [...(node.actions ?? []), ...islandScope.actions.values()];
+      return { ...node, content, ...(actions.length > 0 && { actions }) };
+    }
+    case 'suspense':
+    case 'errorBoundary':
+      return {
+        ...node,
+        fallback: lowerNode(node.fallback, scopes),
+        content: lowerNode(node.content, scopes),
+      };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Lowers all `model` bindings in the view and component views.
+ *
+ * @param input - The program or layout to lower
+ * @returns A copy without model bindings, with the generated actions appended
+ */
+export function lowerModelBindings<T extends ModelLoweringInput>(input: T): T {
+  const programScope = createScope(input.state);
+  const view = lowerNode(input.view, [programScope]);
+
+  let components = input.components;
+  if (components) {
+    components = {};
+    for (const [name, def] of Object.entries(input.components ?? {})) {
+      const localScope = createScope(def.localState);
+      const componentView = lowerNode(def.view, [programScope, localScope]);
+      const localActions = [...(def.localActions ?? []), ...localScope.actions.values()];
+      components[name] = {
+        ...def,
+        view: componentView,
+        ...(localActions.length > 0 && { localActions }),
+      };
+    }
+  }
+
+  const generated = [...programScope.actions.values()];
+  return {
+    ...input,
+    view,
+    ...(components && { components }),
+    ...((input.actions || generated.length > 0) && { actions: [...(input.actions ?? []), ...generated] }),
+  };
+}
@@ -13,6 +13,7 @@ import type {
   ComponentDef,
   Expression,
   ComponentNode,
+  EventHandler,
   LocalActionDefinition,
   IslandNode,
   SuspenseNode,
@@ -20,6 +21,7 @@ import type {
 } from '@constela/core';
 import type {
   CompiledProgram,
+  CompiledStateField,
   CompiledNode,
   CompiledAction,
   CompiledActionStep,
@@ -28,6 +30,10 @@ import type {
   CompiledSetStep,
   CompiledUpdateStep,
   CompiledFetchStep,
+  CompiledAbortStep,
+  CompiledInvalidateStep,
+  CompiledWSConnectStep,
+  CompiledRPCStep,
   CompiledStorageStep,
   CompiledClipboardStep,
   CompiledNavigateStep,
@@ -36,16 +42,26 @@ import type {
   CompiledSubscribeStep,
   CompiledDisposeStep,
   CompiledDomStep,
+  CompiledRunStep,
+  CompiledTryStep,
+  CompiledThrowStep,
+  CompiledParallelStep,
+  CompiledForEachStep,
   CompiledLocalAction,
   CompiledLocalStateNode,
+  CompiledEmitStep,
+  CompiledEventHandler,
   CompiledVarExpr,
   CompiledStateExpr,
   CompiledImportExpr,
   CompiledIslandNode,
   CompiledSuspenseNode,
   CompiledErrorBoundaryNode,
+  CompiledGlobalEventHandler,
 } from './transform.js';
+import { transformWatch, transformGlobalEvents, transformLifecycleHooks, qualifyComputedNames } from './transform.js';
 import type { LayoutAnalysisContext } from './analyze-layout.js';
+import { lowerModelBindings } from './lower-model.js';
 
 // ==================== Compiled Layout Program Type ====================
 
@@ -54,6 +70,7 @@ export interface CompiledLayoutProgram {
   type: 'layout';
   state: Record<string, { type: string; initial: unknown }>;
   actions: CompiledAction[];
+  globalEvents?: CompiledGlobalEventHandler[];
   view: CompiledNode;
   components?: Record<string, ComponentDef> | undefined;
   importData?: Record<string, unknown>;
@@ -65,20 +82,27 @@ interface TransformContext {
   components: Record<string, ComponentDef>;
   currentParams?: Record<string, CompiledExpression>;
   currentChildren?: CompiledNode[];
+  computedNames?: Record<string, string>;  // Current component's computed names, qualified with the component name
 }
 
 // ==================== State Transformation ====================
 
 function transformState(
   state?: Record<string, StateField>
-): Record<string, { type: string; initial: unknown }> {
+): Record<string, CompiledStateField> {
   if (!state) return {};
-  const result: Record<string, { type: string; initial: unknown }> = {};
+  const result: Record<string, CompiledStateField> = {};
   for (const [name, field] of Object.entries(state)) {
     result[name] = {
       type: field.type,
       initial: field.initial,
     };
+    if (field.persist) {
+      result[name].persist = field.persist;
+    }
+    if (field.syncQuery) {
+      result[name].syncQuery = field.syncQuery;
+    }
   }
   return result;
 }
@@ -232,6 +256,10 @@ function transformExpression(expr: Expression, ctx?: TransformContext): Compiled
     }
     case 'ref':
       return { expr: 'ref', name: expr.name };
+    case 'computed':
+      return { expr: 'computed', name: ctx?.computedNames?.[expr.name] ?? expr.name };
+    case 'resource':
+      return { expr: 'resource', name: expr.name, field: expr.field };
     case 'call': {
       const callExpr = expr as { expr: 'call'; target: Expression | null; method: string; args?: Expression[] };
       const result: CompiledExpression = {
@@ -270,6 +298,23 @@ function transformExpression(expr: Expression, ctx?: TransformContext): Compiled
         items: concatExpr.items.map(item => transformExpression(item, ctx)),
       } as CompiledExpression;
     }
+    case 't': {
+      // Translated with the page's i18n messages once composed
+      if (!expr.params) {
+        return { expr: 't', key: expr.key };
+      }
+      const params: Record<string, CompiledExpression> = {};
+      for (const [name, value] of Object.entries(expr.params)) {
+        params[name] = transformExpression(value, ctx);
+      }
+      return { expr: 't', key: expr.key, params };
+    }
+    case 'context':
+      return {
+        expr: 'context',
+        name: expr.name,
+        ...(expr.path !== undefined && { path: expr.path }),
+      };
     default:
       return { expr: 'lit', value: null };
   }
@@ -318,6 +363,31 @@ function transformActionStep(step: ActionStep, ctx?: TransformContext): Compiled
       if (step.body) {
         fetchStep.body = transformExpression(step.body, ctx);
       }
+      if (step.headers) {
+        const headers: Record<string, CompiledExpression> = {};
+        for (const [name, value] of Object.entries(step.headers)) {
+          headers[name] = transformExpression(value, ctx);
+        }
+        fetchStep.headers = headers;
+      }
+      if (step.credentials) {
+        fetchStep.credentials = step.credentials;
+      }
+      if (step.timeout !== undefined) {
+        fetchStep.timeout = step.timeout;
+      }
+      if (step.responseType) {
+        fetchStep.responseType = step.responseType;
+      }
+      if (step.concurrency) {
+        fetchStep.concurrency = step.concurrency;
+      }
+      if (step.abortKey) {
+        fetchStep.abortKey = step.abortKey;
+      }
+      if (step.retry) {
+        fetchStep.retry = step.retry;
+      }
       if (step.result) {
         fetchStep.result = step.result;
       }
@@ -455,6 +525,83 @@ function transformActionStep(step: ActionStep, ctx?: TransformContext): Compiled
       } as CompiledDomStep;
     }
 
+    case 'abort':
+      return {
+        do: 'abort',
+        key: step.key,
+      } as CompiledAbortStep;
+
+    case 'invalidate':
+      return {
+        do: 'invalidate',
+        resource: step.resource,
+      } as CompiledInvalidateStep;
+
+    case 'run':
+      return {
+        do: 'run',
+        action: step.action,
+        ...(step.payload && { payload: transformExpression(step.payload, ctx) }),
+        ...(step.result && { result: step.result }),
+      } as CompiledRunStep;
+
+    case 'try':
+      return {
+        do: 'try',
+        steps: step.steps.map(s => transformActionStep(s, ctx)),
+        ...(step.catch && { catch: step.catch.map(s => transformActionStep(s, ctx)) }),
+        ...(step.finally && { finally: step.finally.map(s => transformActionStep(s, ctx)) }),
+      } as CompiledTryStep;
+
+    case 'throw':
+      return {
+        do: 'throw',
+        message: transformExpression(step.message, ctx),
+      } as CompiledThrowStep;
+
+    case 'parallel':
+      return {
+        do: 'parallel',
+        branches: step.branches.map(branch => branch.map(s => transformActionStep(s, ctx))),
+        ...(step.onSuccess && { onSuccess: step.onSuccess.map(s => transformActionStep(s, ctx)) }),
+        ...(step.onError && { onError: step.onError.map(s => transformActionStep(s, ctx)) }),
+      } as CompiledParallelStep;
+
+    case 'forEach':
+      return {
+        do: 'forEach',
+        items: transformExpression(step.items, ctx),
+        as: step.as,
+        ...(step.index && { index: step.index }),
+        steps: step.steps.map(s => transformActionStep(s, ctx)),
+        ...(step.concurrency !== undefined && { concurrency: step.concurrency }),
+      } as CompiledForEachStep;
+
+    case 'wsConnect':
+      return {
+        do: 'wsConnect',
+        connection: step.connection,
+        url: transformExpression(step.url, ctx),
+        ...(step.protocols && { protocols: step.protocols }),
+        ...(step.reconnect && { reconnect: step.reconnect }),
+        ...(step.onOpen && { onOpen: step.onOpen.map(s => transformActionStep(s, ctx)) }),
+        ...(step.onMessage && { onMessage: step.onMessage.map(s => transformActionStep(s, ctx)) }),
+        ...(step.onClose && { onClose: step.onClose.map(s => transformActionStep(s, ctx)) }),
+        ...(step.onError && { onError: step.onError.map(s => transformActionStep(s, ctx)) }),
+      } as CompiledWSConnectStep;
+
+    case 'rpc':
+      return {
+        do: 'rpc',
+        connection: step.connection,
+        method: step.method,
+        ...(step.params && { params: transformExpression(step.params, ctx) }),
+        ...(step.result && { result: step.result }),
+        ...(step.timeout !== undefined && { timeout: step.timeout }),
+        ...(step.onSuccess && { onSuccess: step.onSuccess.map(s => transformActionStep(s, ctx)) }),
+        ...(step.onError && { onError: step.onError.map(s => transformActionStep(s, ctx)) }),
+      } as CompiledRPCStep;
+
     default:
       // Fallback for unknown action types - return a minimal set step
       return {
@@ -496,12 +643,51 @@ function transformLocalActions(
   for (const action of localActions) {
     result[action.name] = {
       name: action.name,
-      steps: action.steps.map(s => transformActionStep(s, ctx)),
+      steps: action.steps.map((s): CompiledActionStep => {
+        if (s.do !== 'emit') return transformActionStep(s, ctx);
+        const emitStep: CompiledEmitStep = { do: 'emit', event: s.event };
+        if (s.payload) {
+          emitStep.payload = transformExpression(s.payload, ctx);
+        }
+        return emitStep;
+      }),
+    };
+  }
+  return result;
+}
+
+/**
+ * Transforms the parent's handlers for events emitted by a component
+ */
+function transformComponentEventHandlers(
+  on: Record<string, EventHandler>,
+  ctx?: TransformContext
+): Record<string, CompiledEventHandler> {
+  const result: Record<string, CompiledEventHandler> = {};
+  for (const [event, handler] of Object.entries(on)) {
+    result[event] = {
+      event: handler.event,
+      action: handler.action,
+      ...(handler.payload && { payload: transformExpression(handler.payload as Expression, ctx) }),
     };
   }
   return result;
 }
 
+/**
+ * Transforms the context values provided by an element or component node
+ */
+function transformProvide(
+  provide: Record<string, Expression>,
+  ctx?: TransformContext
+): Record<string, CompiledExpression> {
+  const result: Record<string, CompiledExpression> = {};
+  for (const [name, expr] of Object.entries(provide)) {
+    result[name] = transformExpression(expr, ctx);
+  }
+  return result;
+}
+
 // ==================== Actions Transformation ====================
 
 function transformActions(actions?: ActionDefinition[]): CompiledAction[] {
@@ -529,6 +715,9 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
             (result as { props: Record<string, unknown> }).props[key] = {
               event: value.event,
               action: value.action,
+              ...(value.payload && { payload: transformExpression(value.payload as Expression, ctx) }),
+              ...(value.modifiers && { modifiers: value.modifiers }),
+              ...(value.keys && { keys: value.keys }),
             };
           } else {
             // Expression - transform to handle params
@@ -536,6 +725,9 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
           }
         }
       }
+      if (node.provide) {
+        (result as { provide?: Record<string, CompiledExpression> }).provide = transformProvide(node.provide, ctx);
+      }
       if (node.children && node.children.length > 0) {
         (result as { children?: CompiledNode[] }).children = node.children.map(
           child => transformViewNode(child, ctx)
@@ -562,6 +754,25 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
       return result;
     }
 
+    case 'match': {
+      const cases: Record<string, CompiledNode> = {};
+      for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+        cases[caseKey] = transformViewNode(caseNode, ctx);
+      }
+      const result: CompiledNode = {
+        kind: 'match',
+        value: transformExpression(node.value as Expression, ctx),
+        cases,
+      } as CompiledNode;
+      if (node.default) {
+        (result as { default?: CompiledNode }).default = transformViewNode(node.default, ctx);
+      }
+      if (node.transition) {
+        (result as { transition?: typeof node.transition }).transition = node.transition;
+      }
+      return result;
+    }
+
     case 'each':
       return {
         kind: 'each',
@@ -608,18 +819,49 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
         currentParams: params,
         currentChildren: children,
       };
+      // Computed values are scoped to the component being expanded
+      if (def.computed) {
+        newCtx.computedNames = qualifyComputedNames(componentNode.name, def.computed);
+      } else {
+        delete newCtx.computedNames;
+      }
 
       // Expand component view with the new context
       const expandedView = transformViewNode(def.view, newCtx);
 
-      // Wrap with localState if present
-      if (def.localState && Object.keys(def.localState).length > 0) {
-        return {
+      // Wrap with localState if present (computed, watch, lifecycle, emitted events and provided context are scoped to the component instance)
+      const hasLocalState = !!def.localState && Object.keys(def.localState).length > 0;
+      const hasComputed = !!def.computed && Object.keys(def.computed).length > 0;
+      const hasWatch = !!def.watch && def.watch.length > 0;
+      const lifecycle = transformLifecycleHooks(def.lifecycle);
+      const hasEmits = !!def.emits && def.emits.length > 0;
+      const hasProvide = !!componentNode.provide && Object.keys(componentNode.provide).length > 0;
+      if (hasLocalState || hasComputed || hasWatch || lifecycle || hasEmits || hasProvide) {
+        const localStateNode = {
           kind: 'localState',
-          state: transformLocalState(def.localState, newCtx),
+          state: transformLocalState(def.localState ?? {}, newCtx),
           actions: transformLocalActions(def.localActions ?? [], newCtx),
           child: expandedView,
         } as CompiledLocalStateNode;
+        if (def.computed && hasComputed) {
+          localStateNode.computed = {};
+          for (const [name, expr] of Object.entries(def.computed)) {
+            localStateNode.computed[newCtx.computedNames?.[name] ?? name] = transformExpression(expr, newCtx);
+          }
+        }
+        if (def.watch && def.watch.length > 0) {
+          localStateNode.watch = transformWatch(def.watch);
+        }
+        if (lifecycle) {
+          localStateNode.lifecycle = lifecycle;
+        }
+        if (componentNode.on && Object.keys(componentNode.on).length > 0) {
+          localStateNode.on = transformComponentEventHandlers(componentNode.on, ctx);
+        }
+        if (componentNode.provide && hasProvide) {
+          localStateNode.provide = transformProvide(componentNode.provide, ctx);
+        }
+        return localStateNode;
       }
 
       return expandedView;
@@ -712,6 +954,7 @@ export function transformLayoutPass(
   layout: LayoutProgram,
   _context: LayoutAnalysisContext
 ): CompiledLayoutProgram {
+  layout = lowerModelBindings(layout);
   const ctx: TransformContext = {
     components: layout.components || {},
   };
@@ -725,6 +968,10 @@ export function transformLayoutPass(
     components: layout.components,
   };
 
+  if (layout.globalEvents && layout.globalEvents.length > 0) {
+    result.globalEvents = transformGlobalEvents(layout.globalEvents);
+  }
+
   // Preserve importData if present
   if (layout.importData && Object.keys(layout.importData).length > 0) {
     result.importData = layout.importData;
@@ -842,6 +1089,7 @@ function resolveParamExpressions(
         kind: 'element';
         tag: string;
         props?: Record<string, unknown>;
+        provide?: Record<string, unknown>;
         children?: CompiledNode[];
       };
 
@@ -857,6 +1105,13 @@ function resolveParamExpressions(
         );
       }
 
+      if (elementNode.provide) {
+        (result as { provide?: Record<string, unknown> }).provide = resolvePropsParams(
+          elementNode.provide,
+          layoutParams
+        );
+      }
+
       if (elementNode.children && elementNode.children.length > 0) {
         (result as { children?: CompiledNode[] }).children = elementNode.children.map(
           child => resolveParamExpressions(child, layoutParams)
@@ -898,6 +1153,35 @@ function resolveParamExpressions(
       return result;
     }
 
+    case 'match': {
+      const matchNode = node as {
+        kind: 'match';
+        value: unknown;
+        cases: Record<string, CompiledNode>;
+        default?: CompiledNode;
+      };
+
+      const cases: Record<string, CompiledNode> = {};
+      for (const [caseKey, caseNode] of Object.entries(matchNode.cases)) {
+        cases[caseKey] = resolveParamExpressions(caseNode, layoutParams);
+      }
+
+      const result = {
+        ...node,
+        value: resolveExpressionValue(matchNode.value, layoutParams),
+        cases,
+      } as CompiledNode;
+
+      if (matchNode.default) {
+        (result as { default?: CompiledNode }).default = resolveParamExpressions(
+          matchNode.default,
+          layoutParams
+        );
+      }
+
+      return result;
+    }
+
     case 'each': {
       const eachNode = node as {
         kind: 'each';
@@ -967,6 +1251,20 @@ function processNamedSlotsOnly(
     return result as CompiledNode;
   }
 
+  // Handle match nodes
+  if (node.kind === 'match') {
+    const matchNode = node as { cases: Record<string, CompiledNode>; default?: CompiledNode };
+    const cases: Record<string, CompiledNode> = {};
+    for (const [caseKey, caseNode] of Object.entries(matchNode.cases)) {
+      cases[caseKey] = processNamedSlotsOnly(caseNode, namedContent);
+    }
+    const result = { ...node, cases };
+    if (matchNode.default) {
+      (result as { default?: CompiledNode }).default = processNamedSlotsOnly(matchNode.default, namedContent);
+    }
+    return result as CompiledNode;
+  }
+
   // Handle each nodes
   if (node.kind === 'each') {
     const eachNode = node as { body: CompiledNode };
@@ -1023,6 +1321,7 @@ function expandComponentNode(
     components,
     currentParams: params,
     currentChildren: children,
+    ...(def.computed && { computedNames: qualifyComputedNames(componentNode.name, def.computed) }),
   };
 
   // Expand component view with the new context
@@ -1031,14 +1330,39 @@ function expandComponentNode(
   // Recursively process the expanded view to handle nested components
   const processedView = replaceSlots(expandedView, defaultContent, namedContent, components);
 
-  // Wrap with localState if present
-  if (def.localState && Object.keys(def.localState).length > 0) {
-    return {
+  // Wrap with localState if present (computed, watch, lifecycle, emitted events and provided context are scoped to the component instance)
+  const hasLocalState = !!def.localState && Object.keys(def.localState).length > 0;
+  const hasComputed = !!def.computed && Object.keys(def.computed).length > 0;
+  const hasWatch = !!def.watch && def.watch.length > 0;
+  const lifecycle = transformLifecycleHooks(def.lifecycle);
+  const hasEmits = !!def.emits && def.emits.length > 0;
+  const hasProvide = !!componentNode.provide && Object.keys(componentNode.provide).length > 0;
+  if (hasLocalState || hasComputed || hasWatch || lifecycle || hasEmits || hasProvide) {
+    const localStateNode = {
       kind: 'localState',
-      state: transformLocalState(def.localState, newCtx),
+      state: transformLocalState(def.localState ?? {}, newCtx),
       actions: transformLocalActions(def.localActions ?? [], newCtx),
       child: processedView,
     } as CompiledLocalStateNode;
+    if (def.computed && hasComputed) {
+      localStateNode.computed = {};
+      for (const [name, expr] of Object.entries(def.computed)) {
+        localStateNode.computed[newCtx.computedNames?.[name] ?? name] = transformExpression(expr, newCtx);
+      }
+    }
+    if (def.watch && def.watch.length > 0) {
+      localStateNode.watch = transformWatch(def.watch);
+    }
+    if (lifecycle) {
+      localStateNode.lifecycle = lifecycle;
+    }
+    if (componentNode.on && Object.keys(componentNode.on).length > 0) {
+      localStateNode.on = transformComponentEventHandlers(componentNode.on, baseCtx);
+    }
+    if (componentNode.provide && hasProvide) {
+      localStateNode.provide = transformProvide(componentNode.provide, baseCtx);
+    }
+    return localStateNode;
   }
 
   return processedView;
@@ -1099,6 +1423,20 @@ function replaceSlots(
     return result as CompiledNode;
   }
 
+  // Handle match nodes
+  if (node.kind === 'match') {
+    const matchNode = node as { cases: Record<string, CompiledNode>; default?: CompiledNode };
+    const cases: Record<string, CompiledNode> = {};
+    for (const [caseKey, caseNode] of Object.entries(matchNode.cases)) {
+      cases[caseKey] = replaceSlots(caseNode, defaultContent, namedContent, components);
+    }
+    const result = { ...node, cases };
+    if (matchNode.default) {
+      (result as { default?: CompiledNode }).default = replaceSlots(matchNode.default, defaultContent, namedContent, components);
+    }
+    return result as CompiledNode;
+  }
+
   // Handle each nodes
   if (node.kind === 'each') {
     const eachNode = node as { body: CompiledNode };
@@ -1257,5 +1595,26 @@ export function composeLayoutWithPage(
     result.lifecycle = page.lifecycle;
   }
 
+  // Preserve page computed
+  if (page.computed) {
+    result.computed = page.computed;
+  }
+
+  // Preserve page resources
+  if (page.resources) {
+    result.resources = page.resources;
+  }
+
+  // Merge global events, following layout actions renamed on conflict
+  const mergedGlobalEvents = [
+    ...(layout.globalEvents ?? []).map((entry) =>
+      pageActionNames.has(entry.action) ? { ...entry, action: `$layout.${entry.action}` } : entry
+    ),
+    ...(page.globalEvents ?? []),
+  ];
+  if (mergedGlobalEvents.length > 0) {
+    result.globalEvents = mergedGlobalEvents;
+  }
+
   return result;
 }
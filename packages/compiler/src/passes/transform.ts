@@ -9,12 +9,20 @@ import type {
   Program,
   Expression,
   ViewNode,
+  SlotNode,
   ActionDefinition,
   ActionStep,
   StateField,
   EventHandler,
+  EventModifier,
+  GlobalEventHandler,
+  FormDefinition,
+  FormRuleType,
+  I18nConfig,
+  MessageCatalog,
   ComponentDef,
   LifecycleHooks,
+  WatchDefinition,
   LocalActionDefinition,
   CallExpr,
   LambdaExpr,
@@ -27,16 +35,30 @@ import type {
   ErrorBoundaryNode,
   StylePreset,
   TransitionDirective,
+  StatePersist,
+  StateSyncQuery,
 } from '@constela/core';
-import { isEventHandler } from '@constela/core';
+import { isEventHandler, LOCALE_STATE, createLocaleStateField } from '@constela/core';
 import type { AnalysisContext } from './analyze.js';
+import { lowerModelBindings } from './lower-model.js';
 
 // ==================== Transform Context ====================
 
 interface TransformContext {
   components: Record<string, ComponentDef>;
   currentParams?: Record<string, CompiledExpression | CompiledEventHandler>; // Current component's param values
-  currentChildren?: CompiledNode[]; // Current component's children for slot
+  currentSlot?: SlotContent; // Current component's children for slot
+  slotScopes?: Record<string, Record<string, CompiledExpression>>; // Slot props by slotProps binding (inlined on var reference)
+  computedNames?: Record<string, string>; // Current component's computed names, qualified with the component name
+}
+
+/**
+ * Slot content of a component usage, transformed at each slot in the caller's context
+ */
+interface SlotContent {
+  children: ViewNode[];
+  ctx: TransformContext;
+  slotProps?: string;
 }
 
 // ==================== Compiled Program Types ====================
@@ -71,14 +93,80 @@ export interface CompiledLifecycleHooks {
   onRouteLeave?: string;
 }
 
+export interface CompiledWatch {
+  target: string;
+  path?: string;
+  action: string;
+  debounce?: number;
+  immediate?: boolean;
+}
+
+export interface CompiledResource {
+  url: CompiledExpression;
+  refreshInterval?: number;
+  staleTime?: number;
+  dedupe?: boolean;
+}
+
+/**
+ * Resource data fetched during SSR, keyed by resource name
+ */
+export interface CompiledResourceSnapshot {
+  key: string;    // The resolved URL the data was fetched from
+  data: unknown;
+}
+
+/**
+ * Compiled form rule - custom and async rule expressions are compiled
+ */
+export type CompiledFormRule =
+  | { type: 'required'; message?: string }
+  | { type: 'min' | 'max'; value: number; message?: string }
+  | { type: 'pattern'; value: string; message?: string }
+  | { type: 'equals'; field: string; message?: string }
+  | { type: 'custom'; expr: CompiledExpression; message?: string }
+  | { type: 'async'; url: CompiledExpression; message?: string };
+
+export interface CompiledFormField {
+  target: string;
+  path?: string;
+  rules: CompiledFormRule[];
+}
+
+export interface CompiledForm {
+  fields: Record<string, CompiledFormField>;
+  messages?: Partial<Record<FormRuleType, string>>;
+}
+
+export interface CompiledI18n {
+  defaultLocale: string;
+  messages: Record<string, MessageCatalog | CompiledImportExpr>;
+  localeParam?: string;
+  localeCookie?: string;
+}
+
+export interface CompiledStateField {
+  type: string;
+  initial: unknown;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
+}
+
 export interface CompiledProgram {
   version: '1.0';
   route?: CompiledRouteDefinition;
   lifecycle?: CompiledLifecycleHooks;
-  state: Record<string, { type: string; initial: unknown }>;
+  watch?: CompiledWatch[];
+  globalEvents?: CompiledGlobalEventHandler[];  // Window/document event listeners
+  state: Record<string, CompiledStateField>;
+  computed?: Record<string, CompiledExpression>;  // Memoized derived values
+  resources?: Record<string, CompiledResource>;  // Cached remote data
+  forms?: Record<string, CompiledForm>;  // Validated forms
+  i18n?: CompiledI18n;  // Message catalogs for t expressions
   actions: Record<string, CompiledAction>;
   view: CompiledNode;
   importData?: Record<string, unknown>;  // Resolved import data
+  resourceData?: Record<string, CompiledResourceSnapshot>;  // Resource data prefetched during SSR
   styles?: Record<string, StylePreset>;  // Style presets for style expressions
 }
 
@@ -92,6 +180,11 @@ export type CompiledActionStep =
   | CompiledUpdateStep
   | CompiledSetPathStep
   | CompiledFetchStep
+  | CompiledAbortStep
+  | CompiledInvalidateStep
+  | CompiledValidateFormStep
+  | CompiledResetFormStep
+  | CompiledSubmitFormStep
   | CompiledStorageStep
   | CompiledClipboardStep
   | CompiledNavigateStep
@@ -101,6 +194,11 @@ export type CompiledActionStep =
   | CompiledDisposeStep
   | CompiledDomStep
   | CompiledIfStep
+  | CompiledRunStep
+  | CompiledTryStep
+  | CompiledThrowStep
+  | CompiledParallelStep
+  | CompiledForEachStep
   | CompiledSendStep
   | CompiledCloseStep
   | CompiledDelayStep
@@ -108,13 +206,16 @@ export type CompiledActionStep =
   | CompiledClearTimerStep
   | CompiledFocusStep
   | CompiledGenerateStep
+  | CompiledWSConnectStep
+  | CompiledRPCStep
   | CompiledSSEConnectStep
   | CompiledSSECloseStep
   | CompiledOptimisticStep
   | CompiledConfirmStep
   | CompiledRejectStep
   | CompiledBindStep
-  | CompiledUnbindStep;
+  | CompiledUnbindStep
+  | CompiledEmitStep;
 
 export interface CompiledSetStep {
   do: 'set';
@@ -143,11 +244,67 @@ export interface CompiledFetchStep {
   url: CompiledExpression;
   method?: string;
   body?: CompiledExpression;
+  headers?: Record<string, CompiledExpression>;
+  credentials?: 'omit' | 'same-origin' | 'include';
+  timeout?: number;
+  responseType?: 'json' | 'text' | 'blob' | 'none';
+  concurrency?: 'takeLatest' | 'takeFirst' | 'queue';
+  abortKey?: string;
+  retry?: {
+    strategy: 'exponential' | 'linear' | 'none';
+    maxRetries: number;
+    baseDelay: number;
+    maxDelay?: number;
+    retryOn?: number[];
+  };
   result?: string;
   onSuccess?: CompiledActionStep[];
   onError?: CompiledActionStep[];
 }
 
+/**
+ * Compiled abort step - cancels in-flight fetch requests by abortKey
+ */
+export interface CompiledAbortStep {
+  do: 'abort';
+  key: string;
+}
+
+/**
+ * Compiled invalidate step - refetches a declared resource
+ */
+export interface CompiledInvalidateStep {
+  do: 'invalidate';
+  resource: string;
+}
+
+/**
+ * Compiled validate form step - validates a form or one of its fields
+ */
+export interface CompiledValidateFormStep {
+  do: 'validateForm';
+  form: string;
+  field?: string;
+}
+
+/**
+ * Compiled reset form step - restores the initial field values
+ */
+export interface CompiledResetFormStep {
+  do: 'resetForm';
+  form: string;
+}
+
+/**
+ * Compiled submit form step - validates a form and branches on the result
+ */
+export interface CompiledSubmitFormStep {
+  do: 'submitForm';
+  form: string;
+  onSuccess?: CompiledActionStep[];
+  onError?: CompiledActionStep[];
+}
+
 export interface CompiledStorageStep {
   do: 'storage';
   operation: 'get' | 'set' | 'remove';
@@ -242,6 +399,56 @@ export interface CompiledIfStep {
   else?: CompiledActionStep[];
 }
 
+/**
+ * Compiled run step - runs another action with its own payload
+ */
+export interface CompiledRunStep {
+  do: 'run';
+  action: string;
+  payload?: CompiledExpression;
+  result?: string;
+}
+
+/**
+ * Compiled try step - runs steps with catch/finally handling
+ */
+export interface CompiledTryStep {
+  do: 'try';
+  steps: CompiledActionStep[];
+  catch?: CompiledActionStep[];
+  finally?: CompiledActionStep[];
+}
+
+/**
+ * Compiled throw step - raises an error with the evaluated message
+ */
+export interface CompiledThrowStep {
+  do: 'throw';
+  message: CompiledExpression;
+}
+
+/**
+ * Compiled parallel step - runs branches concurrently
+ */
+export interface CompiledParallelStep {
+  do: 'parallel';
+  branches: CompiledActionStep[][];
+  onSuccess?: CompiledActionStep[];
+  onError?: CompiledActionStep[];
+}
+
+/**
+ * Compiled forEach step - runs steps once per item
+ */
+export interface CompiledForEachStep {
+  do: 'forEach';
+  items: CompiledExpression;
+  as: string;
+  index?: string;
+  steps: CompiledActionStep[];
+  concurrency?: number;
+}
+
 /**
  * Compiled send step - sends data through a named WebSocket connection
  */
@@ -314,6 +521,35 @@ export interface CompiledGenerateStep {
 
 // ==================== Compiled Realtime Steps ====================
 
+/**
+ * Compiled WebSocket connect step
+ */
+export interface CompiledWSConnectStep {
+  do: 'wsConnect';
+  connection: string;
+  url: CompiledExpression;
+  protocols?: string[];
+  reconnect?: { enabled: boolean; strategy: string; maxRetries: number; baseDelay: number; maxDelay?: number };
+  onOpen?: CompiledActionStep[];
+  onMessage?: CompiledActionStep[];
+  onClose?: CompiledActionStep[];
+  onError?: CompiledActionStep[];
+}
+
+/**
+ * Compiled RPC step
+ */
+export interface CompiledRPCStep {
+  do: 'rpc';
+  connection: string;
+  method: string;
+  params?: CompiledExpression;
+  result?: string;
+  timeout?: number;
+  onSuccess?: CompiledActionStep[];
+  onError?: CompiledActionStep[];
+}
+
 /**
  * Compiled SSE connect step
  */
@@ -386,6 +622,15 @@ export interface CompiledUnbindStep {
   target: string;
 }
 
+/**
+ * Compiled emit step - runs the parent's handler for a component event
+ */
+export interface CompiledEmitStep {
+  do: 'emit';
+  event: string;
+  payload?: CompiledExpression;
+}
+
 // ==================== Compiled Local State Types ====================
 
 /**
@@ -403,6 +648,11 @@ export interface CompiledLocalStateNode {
   kind: 'localState';
   state: Record<string, { type: string; initial: unknown }>;
   actions: Record<string, CompiledLocalAction>;
+  watch?: CompiledWatch[];
+  on?: Record<string, CompiledEventHandler>;  // Parent handlers for emitted events
+  provide?: Record<string, CompiledExpression>;  // Context values provided by the parent, evaluated in its scope
+  computed?: Record<string, CompiledExpression>;  // Component computed values memoized per instance
+  lifecycle?: CompiledLifecycleHooks;  // onMount/onUnmount actions run per instance
   child: CompiledNode;
 }
 
@@ -444,6 +694,7 @@ export type CompiledNode =
   | CompiledElementNode
   | CompiledTextNode
   | CompiledIfNode
+  | CompiledMatchNode
   | CompiledEachNode
   | CompiledMarkdownNode
   | CompiledCodeNode
@@ -459,6 +710,7 @@ export interface CompiledElementNode {
   tag: string;
   ref?: string;
   props?: Record<string, CompiledExpression | CompiledEventHandler>;
+  provide?: Record<string, CompiledExpression>;
   children?: CompiledNode[];
 }
 
@@ -475,6 +727,14 @@ export interface CompiledIfNode {
   else?: CompiledNode;
 }
 
+export interface CompiledMatchNode {
+  kind: 'match';
+  value: CompiledExpression;
+  cases: Record<string, CompiledNode>;
+  default?: CompiledNode;
+  transition?: TransitionDirective;
+}
+
 export interface CompiledEachNode {
   kind: 'each';
   items: CompiledExpression;
@@ -530,7 +790,12 @@ export type CompiledExpression =
   | CompiledCallExpr
   | CompiledLambdaExpr
   | CompiledArrayExpr
-  | CompiledObjExpr;
+  | CompiledObjExpr
+  | CompiledComputedExpr
+  | CompiledResourceExpr
+  | CompiledFormExpr
+  | CompiledTranslateExpr
+  | CompiledContextExpr;
 
 export interface CompiledLitExpr {
   expr: 'lit';
@@ -650,6 +915,36 @@ export interface CompiledObjExpr {
   props: Record<string, CompiledExpression>;
 }
 
+export interface CompiledComputedExpr {
+  expr: 'computed';
+  name: string;
+}
+
+export interface CompiledResourceExpr {
+  expr: 'resource';
+  name: string;
+  field: 'data' | 'error' | 'loading';
+}
+
+export interface CompiledFormExpr {
+  expr: 'form';
+  name: string;
+  field?: string;
+  prop: 'error' | 'touched' | 'dirty' | 'valid';
+}
+
+export interface CompiledTranslateExpr {
+  expr: 't';
+  key: string;
+  params?: Record<string, CompiledExpression>;
+}
+
+export interface CompiledContextExpr {
+  expr: 'context';
+  name: string;
+  path?: string;
+}
+
 // ==================== Compiled Event Handler ====================
 
 /**
@@ -668,6 +963,16 @@ export interface CompiledEventHandler {
   debounce?: number;
   throttle?: number;
   options?: CompiledEventHandlerOptions;
+  modifiers?: EventModifier[];
+  keys?: string[];
+}
+
+export interface CompiledGlobalEventHandler {
+  target: 'window' | 'document';
+  event: string;
+  action: string;
+  modifiers?: EventModifier[];
+  keys?: string[];
 }
 
 // ==================== Transform Pass Result ====================
@@ -710,6 +1015,11 @@ function transformExpression(expr: Expression, ctx: TransformContext): CompiledE
     }
 
     case 'var': {
+      // Slot props are inlined where scoped slot content references them
+      const slotScope = ctx.slotScopes?.[expr.name];
+      if (slotScope) {
+        return resolveSlotPropReference(slotScope, expr.path);
+      }
       const varExpr: CompiledVarExpr = {
         expr: 'var',
         name: expr.name,
@@ -826,6 +1136,38 @@ function transformExpression(expr: Expression, ctx: TransformContext): CompiledE
     case 'ref':
       return { expr: 'ref', name: expr.name };
 
+    case 'computed':
+      return { expr: 'computed', name: ctx.computedNames?.[expr.name] ?? expr.name };
+
+    case 'resource':
+      return { expr: 'resource', name: expr.name, field: expr.field };
+
+    case 'form':
+      return {
+        expr: 'form',
+        name: expr.name,
+        ...(expr.field !== undefined && { field: expr.field }),
+        prop: expr.prop,
+      };
+
+    case 't': {
+      if (!expr.params) {
+        return { expr: 't', key: expr.key };
+      }
+      const params: Record<string, CompiledExpression> = {};
+      for (const [name, value] of Object.entries(expr.params)) {
+        params[name] = transformExpression(value, ctx);
+      }
+      return { expr: 't', key: expr.key, params };
+    }
+
+    case 'context':
+      return {
+        expr: 'context',
+        name: expr.name,
+        ...(expr.path !== undefined && { path: expr.path }),
+      };
+
     case 'index':
       return {
         expr: 'index',
@@ -958,6 +1300,14 @@ function transformEventHandler(handler: EventHandler, ctx: TransformContext): Co
     }
   }
 
+  if (handler.modifiers && handler.modifiers.length > 0) {
+    result.modifiers = [...handler.modifiers];
+  }
+
+  if (handler.keys && handler.keys.length > 0) {
+    result.keys = [...handler.keys];
+  }
+
   return result;
 }
 
@@ -1016,6 +1366,31 @@ function transformActionStep(step: ActionStep): CompiledActionStep {
       if (step.body) {
         fetchStep.body = transformExpression(step.body, emptyContext);
       }
+      if (step.headers) {
+        const headers: Record<string, CompiledExpression> = {};
+        for (const [name, value] of Object.entries(step.headers)) {
+          headers[name] = transformExpression(value, emptyContext);
+        }
+        fetchStep.headers = headers;
+      }
+      if (step.credentials) {
+        fetchStep.credentials = step.credentials;
+      }
+      if (step.timeout !== undefined) {
+        fetchStep.timeout = step.timeout;
+      }
+      if (step.responseType) {
+        fetchStep.responseType = step.responseType;
+      }
+      if (step.concurrency) {
+        fetchStep.concurrency = step.concurrency;
+      }
+      if (step.abortKey) {
+        fetchStep.abortKey = step.abortKey;
+      }
+      if (step.retry) {
+        fetchStep.retry = step.retry;
+      }
       if (step.result) {
         fetchStep.result = step.result;
       }
@@ -1028,6 +1403,49 @@ function transformActionStep(step: ActionStep): CompiledActionStep {
       return fetchStep;
     }
 
+    case 'abort': {
+      const abortStep: CompiledAbortStep = {
+        do: 'abort',
+        key: step.key,
+      };
+      return abortStep;
+    }
+
+    case 'invalidate': {
+      const invalidateStep: CompiledInvalidateStep = {
+        do: 'invalidate',
+        resource: step.resource,
+      };
+      return invalidateStep;
+    }
+
+    case 'validateForm': {
+      const validateFormStep: CompiledValidateFormStep = {
+        do: 'validateForm',
+        form: step.form,
+        ...(step.field !== undefined && { field: step.field }),
+      };
+      return validateFormStep;
+    }
+
+    case 'resetForm': {
+      const resetFormStep: CompiledResetFormStep = {
+        do: 'resetForm',
+        form: step.form,
+      };
+      return resetFormStep;
+    }
+
+    case 'submitForm': {
+      const submitFormStep: CompiledSubmitFormStep = {
+        do: 'submitForm',
+        form: step.form,
+        ...(step.onSuccess && { onSuccess: step.onSuccess.map(transformActionStep) }),
+        ...(step.onError && { onError: step.onError.map(transformActionStep) }),
+      };
+      return submitFormStep;
+    }
+
     case 'storage': {
       const storageStep = step as import('@constela/core').StorageStep;
       const compiledStorageStep: CompiledStorageStep = {
@@ -1233,6 +1651,77 @@ function transformActionStep(step: ActionStep): CompiledActionStep {
       return compiledIfStep;
     }
 
+    case 'run': {
+      const runStep = step as import('@constela/core').RunStep;
+      const compiledRunStep: CompiledRunStep = {
+        do: 'run',
+        action: runStep.action,
+      };
+      if (runStep.payload) {
+        compiledRunStep.payload = transformExpression(runStep.payload, emptyContext);
+      }
+      if (runStep.result) {
+        compiledRunStep.result = runStep.result;
+      }
+      return compiledRunStep;
+    }
+
+    case 'try': {
+      const tryStep = step as import('@constela/core').TryStep;
+      const compiledTryStep: CompiledTryStep = {
+        do: 'try',
+        steps: tryStep.steps.map(transformActionStep),
+      };
+      if (tryStep.catch) {
+        compiledTryStep.catch = tryStep.catch.map(transformActionStep);
+      }
+      if (tryStep.finally) {
+        compiledTryStep.finally = tryStep.finally.map(transformActionStep);
+      }
+      return compiledTryStep;
+    }
+
+    case 'throw': {
+      const throwStep = step as import('@constela/core').ThrowStep;
+      const compiledThrowStep: CompiledThrowStep = {
+        do: 'throw',
+        message: transformExpression(throwStep.message, emptyContext),
+      };
+      return compiledThrowStep;
+    }
+
+    case 'parallel': {
+      const parallelStep = step as import('@constela/core').ParallelStep;
+      const compiledParallelStep: CompiledParallelStep = {
+        do: 'parallel',
+        branches: parallelStep.branches.map((branch) => branch.map(transformActionStep)),
+      };
+      if (parallelStep.onSuccess) {
+        compiledParallelStep.onSuccess = parallelStep.onSuccess.map(transformActionStep);
+      }
+      if (parallelStep.onError) {
+        compiledParallelStep.onError = parallelStep.onError.map(transformActionStep);
+      }
+      return compiledParallelStep;
+    }
+
+    case 'forEach': {
+      const forEachStep = step as import('@constela/core').ForEachStep;
+      const compiledForEachStep: CompiledForEachStep = {
+        do: 'forEach',
+        items: transformExpression(forEachStep.items, emptyContext),
+        as: forEachStep.as,
+        steps: forEachStep.steps.map(transformActionStep),
+      };
+      if (forEachStep.index) {
+        compiledForEachStep.index = forEachStep.index;
+      }
+      if (forEachStep.concurrency !== undefined) {
+        compiledForEachStep.concurrency = forEachStep.concurrency;
+      }
+      return compiledForEachStep;
+    }
+
     case 'generate': {
       const generateStep = step as import('@constela/core').GenerateStep;
       const compiledGenerateStep: CompiledGenerateStep = {
@@ -1256,6 +1745,37 @@ function transformActionStep(step: ActionStep): CompiledActionStep {
 
     // ==================== Realtime Steps ====================
 
+    case 'wsConnect': {
+      const wsStep = step as import('@constela/core').WSConnectStep;
+      const compiled: CompiledWSConnectStep = {
+        do: 'wsConnect',
+        connection: wsStep.connection,
+        url: transformExpression(wsStep.url, emptyContext),
+      };
+      if (wsStep.protocols) compiled.protocols = wsStep.protocols;
+      if (wsStep.reconnect) compiled.reconnect = wsStep.reconnect;
+      if (wsStep.onOpen) compiled.onOpen = wsStep.onOpen.map(transformActionStep);
+      if (wsStep.onMessage) compiled.onMessage = wsStep.onMessage.map(transformActionStep);
+      if (wsStep.onClose) compiled.onClose = wsStep.onClose.map(transformActionStep);
+      if (wsStep.onError) compiled.onError = wsStep.onError.map(transformActionStep);
+      return compiled;
+    }
+
+    case 'rpc': {
+      const rpcStep = step as import('@constela/core').RPCStep;
+      const compiled: CompiledRPCStep = {
+        do: 'rpc',
+        connection: rpcStep.connection,
+        method: rpcStep.method,
+      };
+      if (rpcStep.params) compiled.params = transformExpression(rpcStep.params, emptyContext);
+      if (rpcStep.result) compiled.result = rpcStep.result;
+      if (rpcStep.timeout !== undefined) compiled.timeout = rpcStep.timeout;
+      if (rpcStep.onSuccess) compiled.onSuccess = rpcStep.onSuccess.map(transformActionStep);
+      if (rpcStep.onError) compiled.onError = rpcStep.onError.map(transformActionStep);
+      return compiled;
+    }
+
     case 'sseConnect': {
       const sseStep = step as import('@constela/core').SSEConnectStep;
       const compiled: CompiledSSEConnectStep = {
@@ -1322,6 +1842,56 @@ function transformActionStep(step: ActionStep): CompiledActionStep {
 
 // ==================== View Node Transformation ====================
 
+/**
+ * Resolves a reference to scoped slot props: the binding itself is an object
+ * of all props, and the first path segment selects a single prop
+ */
+function resolveSlotPropReference(
+  props: Record<string, CompiledExpression>,
+  path: string | undefined
+): CompiledExpression {
+  if (!path) {
+    return { expr: 'obj', props };
+  }
+  const [name = '', ...rest] = path.split('.');
+  const prop = props[name];
+  if (!prop) {
+    return { expr: 'lit', value: null };
+  }
+  return rest.length > 0 ? { expr: 'get', base: prop, path: rest.join('.') } : prop;
+}
+
+/**
+ * Transforms the slot content filling a slot: children whose `slot` matches
+ * the slot name, in the caller's context with the slot props bound.
+ * When no child names a slot, every slot receives all children, as before
+ * named slot content existed.
+ */
+function transformSlotContent(node: SlotNode, ctx: TransformContext): CompiledNode[] {
+  const slot = ctx.currentSlot;
+  if (!slot) return [];
+
+  const slotNameOf = (child: ViewNode): string | undefined => ('slot' in child ? child.slot : undefined);
+  const content = slot.children.some(child => slotNameOf(child) !== undefined)
+    ? slot.children.filter(child => slotNameOf(child) === node.name)
+    : slot.children;
+  if (content.length === 0) return [];
+
+  let slotCtx = slot.ctx;
+  if (slot.slotProps) {
+    // Slot props are evaluated in the component's context
+    const props: Record<string, CompiledExpression> = {};
+    for (const [name, expr] of Object.entries(node.props ?? {})) {
+      props[name] = transformExpression(expr, ctx);
+    }
+    slotCtx = {
+      ...slot.ctx,
+      slotScopes: { ...slot.ctx.slotScopes, [slot.slotProps]: props },
+    };
+  }
+  return content.map(child => transformViewNode(child, slotCtx));
+}
+
 /**
  * Helper to flatten children when slot expands to multiple nodes
  */
@@ -1332,11 +1902,8 @@ function flattenSlotChildren(
   const result: CompiledNode[] = [];
   for (const child of children) {
     if (child.kind === 'slot') {
-      // Slot should be replaced with currentChildren
-      if (ctx.currentChildren && ctx.currentChildren.length > 0) {
-        result.push(...ctx.currentChildren);
-      }
-      // If no children, slot produces nothing
+      // Slot is replaced with the matching slot content (nothing if none)
+      result.push(...transformSlotContent(child, ctx));
     } else {
       result.push(transformViewNode(child, ctx));
     }
@@ -1370,6 +1937,10 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
         }
       }
 
+      if (node.provide) {
+        compiledElement.provide = transformProvide(node.provide, ctx);
+      }
+
       if (node.children && node.children.length > 0) {
         const flattenedChildren = flattenSlotChildren(node.children, ctx);
         if (flattenedChildren.length > 0) {
@@ -1404,6 +1975,29 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
       return compiledIf;
     }
 
+    case 'match': {
+      const cases: Record<string, CompiledNode> = {};
+      for (const [caseKey, caseNode] of Object.entries(node.cases)) {
+        cases[caseKey] = transformViewNode(caseNode, ctx);
+      }
+
+      const compiledMatch: CompiledMatchNode = {
+        kind: 'match',
+        value: transformExpression(node.value, ctx),
+        cases,
+      };
+
+      if (node.transition) {
+        compiledMatch.transition = node.transition;
+      }
+
+      if (node.default) {
+        compiledMatch.default = transformViewNode(node.default, ctx);
+      }
+
+      return compiledMatch;
+    }
+
     case 'each': {
       const compiledEach: CompiledEachNode = {
         kind: 'each',
@@ -1447,32 +2041,65 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
         }
       }
 
-      // Transform children for slot content
-      const children: CompiledNode[] = [];
-      if (node.children && node.children.length > 0) {
-        for (const child of node.children) {
-          children.push(transformViewNode(child, ctx));
-        }
-      }
+      // Slot content is transformed at each slot in the caller's context
+      const currentSlot: SlotContent = {
+        children: node.children ?? [],
+        ctx,
+        ...(node.slotProps && { slotProps: node.slotProps }),
+      };
 
-      // Create new context with currentParams and currentChildren
+      // Create new context with currentParams and currentSlot
       const newCtx: TransformContext = {
         ...ctx,
         currentParams: params,
-        currentChildren: children,
+        currentSlot,
       };
+      // Slot props bound by the caller are not visible in the component's view
+      delete newCtx.slotScopes;
+      // Computed values are scoped to the component being expanded
+      if (def.computed) {
+        newCtx.computedNames = qualifyComputedNames(node.name, def.computed);
+      } else {
+        delete newCtx.computedNames;
+      }
 
       // Expand component view with the new context
       const expandedView = transformViewNode(def.view, newCtx);
 
-      // Wrap with localState if present
-      if (def.localState && Object.keys(def.localState).length > 0) {
-        return {
+      // Wrap with localState if present (computed, watch, lifecycle, emitted events and provided context are scoped to the component instance)
+      const hasLocalState = !!def.localState && Object.keys(def.localState).length > 0;
+      const hasComputed = !!def.computed && Object.keys(def.computed).length > 0;
+      const hasWatch = !!def.watch && def.watch.length > 0;
+      const lifecycle = transformLifecycleHooks(def.lifecycle);
+      const hasEmits = !!def.emits && def.emits.length > 0;
+      const hasProvide = !!node.provide && Object.keys(node.provide).length > 0;
+      if (hasLocalState || hasComputed || hasWatch || lifecycle || hasEmits || hasProvide) {
+        const localStateNode: CompiledLocalStateNode = {
           kind: 'localState',
-          state: transformLocalState(def.localState, newCtx),
-          actions: transformLocalActions(def.localActions ?? []),
+          state: transformLocalState(def.localState ?? {}, newCtx),
+          actions: transformLocalActions(def.localActions ?? [], newCtx),
           child: expandedView,
         };
+        if (def.computed && hasComputed) {
+          localStateNode.computed = transformComputed(def.computed, newCtx);
+        }
+        if (def.watch && def.watch.length > 0) {
+          localStateNode.watch = transformWatch(def.watch);
+        }
+        if (lifecycle) {
+          localStateNode.lifecycle = lifecycle;
+        }
+        // Event handlers belong to the parent, so they are transformed in the caller's context
+        if (node.on && Object.keys(node.on).length > 0) {
+          localStateNode.on = {};
+          for (const [event, handler] of Object.entries(node.on)) {
+            localStateNode.on[event] = transformEventHandler(handler, ctx);
+          }
+        }
+        if (node.provide && hasProvide) {
+          localStateNode.provide = transformProvide(node.provide, ctx);
+        }
+        return localStateNode;
       }
 
       return expandedView;
@@ -1492,18 +2119,19 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
       };
 
     case 'slot': {
-      // If currentChildren exists and has items, return them
-      if (ctx.currentChildren && ctx.currentChildren.length > 0) {
-        if (ctx.currentChildren.length === 1) {
+      // If the slot has content, return it
+      const content = transformSlotContent(node, ctx);
+      if (content.length > 0) {
+        if (content.length === 1) {
           // Single child, return it directly
-          const child = ctx.currentChildren[0];
+          const child = content[0];
           if (child) return child;
         }
         // Multiple children - wrap in a span element
         return {
           kind: 'element',
           tag: 'span',
-          children: ctx.currentChildren,
+          children: content,
         };
       }
       // No children - return an empty text node
@@ -1580,14 +2208,20 @@ function transformViewNode(node: ViewNode, ctx: TransformContext): CompiledNode
  */
 function transformState(
   state: Record<string, StateField>
-): Record<string, { type: string; initial: unknown }> {
-  const compiledState: Record<string, { type: string; initial: unknown }> = {};
+): Record<string, CompiledStateField> {
+  const compiledState: Record<string, CompiledStateField> = {};
 
   for (const [name, field] of Object.entries(state)) {
     compiledState[name] = {
       type: field.type,
       initial: field.initial,
     };
+    if (field.persist) {
+      compiledState[name].persist = field.persist;
+    }
+    if (field.syncQuery) {
+      compiledState[name].syncQuery = field.syncQuery;
+    }
   }
 
   return compiledState;
@@ -1595,6 +2229,20 @@ function transformState(
 
 // ==================== Local State Transformation ====================
 
+/**
+ * Transforms the context values provided by an element or component node
+ */
+function transformProvide(
+  provide: Record<string, Expression>,
+  ctx: TransformContext
+): Record<string, CompiledExpression> {
+  const result: Record<string, CompiledExpression> = {};
+  for (const [name, expr] of Object.entries(provide)) {
+    result[name] = transformExpression(expr, ctx);
+  }
+  return result;
+}
+
 /**
  * Transforms local state definitions
  */
@@ -1615,15 +2263,24 @@ function transformLocalState(
 
 /**
  * Transforms local actions
+ * Emit payloads are transformed in the component's context so they can reference params
  */
 function transformLocalActions(
-  localActions: LocalActionDefinition[]
+  localActions: LocalActionDefinition[],
+  ctx: TransformContext
 ): Record<string, CompiledLocalAction> {
   const result: Record<string, CompiledLocalAction> = {};
   for (const action of localActions) {
     result[action.name] = {
       name: action.name,
-      steps: action.steps.map(transformActionStep),
+      steps: action.steps.map((step): CompiledActionStep => {
+        if (step.do !== 'emit') return transformActionStep(step);
+        const emitStep: CompiledEmitStep = { do: 'emit', event: step.event };
+        if (step.payload) {
+          emitStep.payload = transformExpression(step.payload, ctx);
+        }
+        return emitStep;
+      }),
     };
   }
   return result;
@@ -1715,12 +2372,43 @@ function transformRouteDefinition(
   return compiled;
 }
 
+// ==================== Computed Transformation ====================
+
+/**
+ * Qualifies a component's computed names with the component name, so that they
+ * never shadow program computed values or those of enclosing components at runtime
+ */
+export function qualifyComputedNames(
+  componentName: string,
+  computed: Record<string, Expression>
+): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const name of Object.keys(computed)) {
+    names[name] = `${componentName}:${name}`;
+  }
+  return names;
+}
+
+/**
+ * Transforms computed definitions into CompiledExpressions keyed by their compiled names
+ */
+function transformComputed(
+  computed: Record<string, Expression>,
+  ctx: TransformContext
+): Record<string, CompiledExpression> {
+  const result: Record<string, CompiledExpression> = {};
+  for (const [name, expr] of Object.entries(computed)) {
+    result[ctx.computedNames?.[name] ?? name] = transformExpression(expr, ctx);
+  }
+  return result;
+}
+
 // ==================== Lifecycle Hooks Transformation ====================
 
 /**
  * Transforms AST LifecycleHooks into CompiledLifecycleHooks
  */
-function transformLifecycleHooks(
+export function transformLifecycleHooks(
   lifecycle: LifecycleHooks | undefined
 ): CompiledLifecycleHooks | undefined {
   if (!lifecycle) return undefined;
@@ -1748,6 +2436,74 @@ function transformLifecycleHooks(
   return result;
 }
 
+/**
+ * Transforms form definitions, compiling custom and async rule expressions
+ */
+function transformForms(forms: Record<string, FormDefinition>, ctx: TransformContext): Record<string, CompiledForm> {
+  const result: Record<string, CompiledForm> = {};
+  for (const [name, form] of Object.entries(forms)) {
+    const fields: Record<string, CompiledFormField> = {};
+    for (const [fieldName, field] of Object.entries(form.fields)) {
+      fields[fieldName] = {
+        target: field.target,
+        ...(field.path !== undefined && { path: field.path }),
+        rules: (field.rules ?? []).map((rule): CompiledFormRule => {
+          if (rule.type === 'custom') {
+            return { ...rule, expr: transformExpression(rule.expr, ctx) };
+          }
+          if (rule.type === 'async') {
+            return { ...rule, url: transformExpression(rule.url, ctx) };
+          }
+          return { ...rule };
+        }),
+      };
+    }
+    result[name] = {
+      fields,
+      ...(form.messages && { messages: { ...form.messages } }),
+    };
+  }
+  return result;
+}
+
+/**
+ * Transforms global event handlers to compiled format
+ */
+export function transformGlobalEvents(globalEvents: GlobalEventHandler[]): CompiledGlobalEventHandler[] {
+  return globalEvents.map((entry) => ({
+    target: entry.target,
+    event: entry.event,
+    action: entry.action,
+    ...(entry.modifiers && entry.modifiers.length > 0 && { modifiers: [...entry.modifiers] }),
+    ...(entry.keys && entry.keys.length > 0 && { keys: [...entry.keys] }),
+  }));
+}
+
+/**
+ * Transforms watch definitions to compiled format
+ */
+export function transformWatch(watch: WatchDefinition[]): CompiledWatch[] {
+  return watch.map((entry) => {
+    const compiled: CompiledWatch = { target: entry.target, action: entry.action };
+    if (entry.path !== undefined) compiled.path = entry.path;
+    if (entry.debounce !== undefined) compiled.debounce = entry.debounce;
+    if (entry.immediate !== undefined) compiled.immediate = entry.immediate;
+    return compiled;
+  });
+}
+
+/**
+ * Transforms the i18n configuration; imported catalogs are resolved at runtime
+ */
+function transformI18n(i18n: I18nConfig): CompiledI18n {
+  return {
+    defaultLocale: i18n.defaultLocale,
+    messages: i18n.messages,
+    ...(i18n.localeParam && { localeParam: i18n.localeParam }),
+    ...(i18n.localeCookie && { localeCookie: i18n.localeCookie }),
+  };
+}
+
 // ==================== Main Transform Function ====================
 
 /**
@@ -1763,17 +2519,48 @@ export function transformPass(
   _context: AnalysisContext,
   importData?: Record<string, unknown>
 ): CompiledProgram {
+  ast = lowerModelBindings(ast);
   const ctx: TransformContext = {
     components: ast.components || {},
   };
 
+  // The locale state is added for i18n unless the program declares it
+  const state =
+    ast.i18n && !(LOCALE_STATE in ast.state)
+      ? { ...ast.state, [LOCALE_STATE]: createLocaleStateField(ast.i18n) }
+      : ast.state;
+
   const result: CompiledProgram = {
     version: '1.0',
-    state: transformState(ast.state),
+    state: transformState(state),
     actions: transformActions(ast.actions),
     view: transformViewNode(ast.view, ctx),
   };
 
+  if (ast.computed && Object.keys(ast.computed).length > 0) {
+    result.computed = transformComputed(ast.computed, ctx);
+  }
+
+  if (ast.resources && Object.keys(ast.resources).length > 0) {
+    result.resources = {};
+    for (const [name, resource] of Object.entries(ast.resources)) {
+      result.resources[name] = {
+        url: transformExpression(resource.url, ctx),
+        ...(resource.refreshInterval !== undefined && { refreshInterval: resource.refreshInterval }),
+        ...(resource.staleTime !== undefined && { staleTime: resource.staleTime }),
+        ...(resource.dedupe !== undefined && { dedupe: resource.dedupe }),
+      };
+    }
+  }
+
+  if (ast.forms && Object.keys(ast.forms).length > 0) {
+    result.forms = transformForms(ast.forms, ctx);
+  }
+
+  if (ast.i18n) {
+    result.i18n = transformI18n(ast.i18n);
+  }
+
   if (ast.route) {
     result.route = transformRouteDefinition(ast.route, ctx);
   }
@@ -1784,6 +2571,14 @@ export function transformPass(
     result.lifecycle = lifecycle;
   }
 
+  if (ast.watch && ast.watch.length > 0) {
+    result.watch = transformWatch(ast.watch);
+  }
+
+  if (ast.globalEvents && ast.globalEvents.length > 0) {
+    result.globalEvents = transformGlobalEvents(ast.globalEvents);
+  }
+
   // Include import data if provided and non-empty
   if (importData && Object.keys(importData).length > 0) {
     result.importData = importData;
@@ -213,6 +213,32 @@ describe('analyzePass - State Reference Validation', () => {
         expect(result.errors.some((e) => e.message.includes('missingList'))).toBe(true);
       }
     });
+
+    it('should return UNDEFINED_STATE error for undefined state in fetch header', () => {
+      const ast = createAst({
+        state: { token: { type: 'string', initial: '' } },
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api/data' },
+                headers: { Authorization: { expr: 'state', name: 'tokn' } },
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = analyzePass(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        const stateError = result.errors.find((e) => e.code === 'UNDEFINED_STATE');
+        expect(stateError?.path).toBe('/actions/0/steps/0/headers/Authorization');
+      }
+    });
   });
 });
 
@@ -0,0 +1,82 @@
+/**
+ * Test module for transform pass - State Persistence
+ *
+ * Coverage:
+ * - persist config on state fields is preserved in CompiledProgram
+ * - State fields without persist are unchanged
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../../src/passes/transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../../src/passes/analyze.js';
+
+// ==================== Test Fixtures ====================
+
+/**
+ * Creates a minimal AST Program for testing
+ */
+function createAst(overrides: Partial<Program> = {}): Program {
+  return {
+    version: '1.0',
+    state: {},
+    actions: [],
+    view: { kind: 'element', tag: 'div' },
+    ...overrides,
+  } as Program;
+}
+
+/**
+ * Creates a minimal AnalysisContext for testing
+ */
+function createContext(overrides: Partial<AnalysisContext> = {}): AnalysisContext {
+  return {
+    stateNames: new Set(),
+    actionNames: new Set(),
+    ...overrides,
+  } as AnalysisContext;
+}
+
+// ==================== State Persistence Tests ====================
+
+describe('transformPass - State Persistence', () => {
+  it('should preserve persist config in compiled state', () => {
+    // Arrange
+    const ast = createAst({
+      state: {
+        todos: {
+          type: 'list',
+          initial: [],
+          persist: { storage: 'local', key: 'app:todos', version: 2 },
+        },
+      },
+    });
+    const context = createContext({ stateNames: new Set(['todos']) });
+
+    // Act
+    const result = transformPass(ast, context);
+
+    // Assert
+    expect(result.state['todos']).toEqual({
+      type: 'list',
+      initial: [],
+      persist: { storage: 'local', key: 'app:todos', version: 2 },
+    });
+  });
+
+  it('should omit persist when not configured', () => {
+    // Arrange
+    const ast = createAst({
+      state: { count: { type: 'number', initial: 0 } },
+    });
+    const context = createContext({ stateNames: new Set(['count']) });
+
+    // Act
+    const result = transformPass(ast, context);
+
+    // Assert
+    expect(result.state['count']).toEqual({ type: 'number', initial: 0 });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Test module for transform pass - State Query Sync
+ *
+ * Coverage:
+ * - syncQuery config on state fields is preserved in CompiledProgram
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformPass } from '../../src/passes/transform.js';
+import type { Program } from '@constela/core';
+import type { AnalysisContext } from '../../src/passes/analyze.js';
+
+// ==================== Test Fixtures ====================
+
+/**
+ * Creates a minimal AST Program for testing
+ */
+function createAst(overrides: Partial<Program> = {}): Program {
+  return {
+    version: '1.0',
+    state: {},
+    actions: [],
+    view: { kind: 'element', tag: 'div' },
+    ...overrides,
+  } as Program;
+}
+
+/**
+ * Creates a minimal AnalysisContext for testing
+ */
+function createContext(overrides: Partial<AnalysisContext> = {}): AnalysisContext {
+  return {
+    stateNames: new Set(),
+    actionNames: new Set(),
+    ...overrides,
+  } as AnalysisContext;
+}
+
+// ==================== State Query Sync Tests ====================
+
+describe('transformPass - State Query Sync', () => {
+  it('should preserve syncQuery config in compiled state', () => {
+    // Arrange
+    const ast = createAst({
+      state: {
+        page: { type: 'number', initial: 1, syncQuery: { param: 'p', mode: 'push' } },
+      },
+    });
+    const context = createContext({ stateNames: new Set(['page']) });
+
+    // Act
+    const result = transformPass(ast, context);
+
+    // Assert
+    expect(result.state['page']).toEqual({
+      type: 'number',
+      initial: 1,
+      syncQuery: { param: 'p', mode: 'push' },
+    });
+  });
+});
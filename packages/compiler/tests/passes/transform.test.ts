@@ -11,6 +11,7 @@
  * - Code node transformation
  * - Expression transformation
  * - Action transformation to Map/Record
+ * - Event handler payloads, modifiers and keys
  *
  * TDD Red Phase: These tests will FAIL because implementation does not exist.
  */
@@ -28,6 +29,7 @@ import {
   type CompiledIfNode,
   type CompiledEachNode,
   type CompiledExpression,
+  type CompiledEventHandler,
 } from '../../src/passes/transform.js';
 import type { Program, AnalysisContext } from '../../src/passes/analyze.js';
 
@@ -883,6 +885,100 @@ describe('transformPass - Action Transformation', () => {
     expect(action?.steps[0].onSuccess).toHaveLength(1);
   });
 
+  it('should transform fetch step with headers and request options', () => {
+    const ast = createAst({
+      state: { token: { type: 'string', initial: '' } },
+      actions: [
+        {
+          name: 'patchItem',
+          steps: [
+            {
+              do: 'fetch',
+              url: { expr: 'lit', value: '/api/items/1' },
+              method: 'PATCH',
+              headers: { Authorization: { expr: 'state', name: 'token' } },
+              credentials: 'include',
+              timeout: 3000,
+              responseType: 'text',
+            },
+          ],
+        },
+      ],
+    });
+    const context = createContext({
+      stateNames: new Set(['token']),
+      actionNames: new Set(['patchItem']),
+    });
+
+    const result = transformPass(ast, context);
+    const action =
+      result.actions instanceof Map
+        ? result.actions.get('patchItem')
+        : result.actions['patchItem'];
+
+    expect(action?.steps[0]).toEqual({
+      do: 'fetch',
+      url: { expr: 'lit', value: '/api/items/1' },
+      method: 'PATCH',
+      headers: { Authorization: { expr: 'state', name: 'token' } },
+      credentials: 'include',
+      timeout: 3000,
+      responseType: 'text',
+    });
+  });
+
+  it('should transform fetch concurrency policy and abort step', () => {
+    const ast = createAst({
+      actions: [
+        {
+          name: 'search',
+          steps: [
+            {
+              do: 'fetch',
+              url: { expr: 'lit', value: '/api/search' },
+              concurrency: 'takeLatest',
+              abortKey: 'search',
+            },
+          ],
+        },
+        { name: 'cancel', steps: [{ do: 'abort', key: 'search' }] },
+      ],
+    });
+    const context = createContext({ actionNames: new Set(['search', 'cancel']) });
+
+    const result = transformPass(ast, context);
+
+    expect(result.actions['search']?.steps[0]).toMatchObject({
+      concurrency: 'takeLatest',
+      abortKey: 'search',
+    });
+    expect(result.actions['cancel']?.steps).toEqual([{ do: 'abort', key: 'search' }]);
+  });
+
+  it('should transform fetch retry configuration', () => {
+    const ast = createAst({
+      actions: [
+        {
+          name: 'load',
+          steps: [
+            {
+              do: 'fetch',
+              url: { expr: 'lit', value: '/api/items' },
+              retry: { maxRetries: 3, strategy: 'exponential', baseDelay: 200, retryOn: [503] },
+            },
+          ],
+        },
+      ],
+    });
+    const context = createContext({ actionNames: new Set(['load']) });
+
+    const result = transformPass(ast, context);
+
+    expect(result.actions['load']?.steps[0]).toMatchObject({
+      retry: { maxRetries: 3, strategy: 'exponential', baseDelay: 200, retryOn: [503] },
+    });
+  });
+
   it('should transform multiple action steps', () => {
     const ast = createAst({
       state: {
@@ -1179,3 +1275,34 @@ describe('transformPass - Event Handler Payload', () => {
     expect(onClick.payload).toEqual({ expr: 'lit', value: 42 });
   });
 });
+
+describe('transformPass - Event Handler Modifiers', () => {
+  it('should preserve modifiers and keys in event handler', () => {
+    const ast = createAst({
+      actions: [{ name: 'search', steps: [] }],
+      view: {
+        kind: 'element',
+        tag: 'input',
+        props: {
+          onKeydown: {
+            event: 'keydown',
+            action: 'search',
+            modifiers: ['prevent', 'stop'],
+            keys: ['Enter', 'ctrl+k'],
+          },
+        },
+      },
+    });
+    const context = createContext({
+      actionNames: new Set(['search']),
+    });
+
+    const result = transformPass(ast, context);
+
+    const input = result.view as CompiledElementNode;
+    const onKeydown = input.props?.['onKeydown'] as CompiledEventHandler;
+
+    expect(onKeydown.modifiers).toEqual(['prevent', 'stop']);
+    expect(onKeydown.keys).toEqual(['Enter', 'ctrl+k']);
+  });
+});
@@ -14,6 +14,10 @@
  * - import: basic and with path
  * - data: basic and with path
  * - ref: delegates to env.resolveRef
+ * - computed: reads from the computed reader
+ * - resource: reads a field from the resource reader
+ * - form: reads a form or field prop from the form reader
+ * - context: reads provided values with optional path, inner providers shadowing outer ones
  * - index: dynamic property access, prototype pollution prevention
  * - param: always returns undefined
  * - style: delegates to evaluateStyle
@@ -30,6 +34,7 @@
 import { describe, it, expect, vi } from 'vitest';
 
 import type { CoreEvaluationContext, EnvironmentAdapter, StateReader } from '../index.js';
+import { createContextValues, CONTEXT_LOCAL } from '../../helpers/context.js';
 import { evaluate, SAFE_ARRAY_METHODS, SAFE_STRING_METHODS, SAFE_MATH_METHODS, SAFE_DATE_STATIC_METHODS, SAFE_DATE_INSTANCE_METHODS, FORBIDDEN_KEYS } from '../index.js';
 
 // ==================== Test Helpers ====================
@@ -560,6 +565,96 @@ describe('evaluate - ref', () => {
   });
 });
 
+// ==================== computed ====================
+
+describe('evaluate - computed', () => {
+  it('should read the value from the computed reader', () => {
+    const ctx = makeCtx({ computed: makeStateReader({ total: 42 }) });
+    expect(evaluate({ expr: 'computed', name: 'total' }, ctx)).toBe(42);
+  });
+
+  it('should return undefined when no computed reader is provided', () => {
+    const ctx = makeCtx();
+    expect(evaluate({ expr: 'computed', name: 'total' }, ctx)).toBeUndefined();
+  });
+});
+
+// ==================== resource ====================
+
+describe('evaluate - resource', () => {
+  it('should read the field from the resource reader', () => {
+    const ctx = makeCtx({
+      resources: makeStateReader({ user: { data: { name: 'Ada' }, error: null, loading: false } }),
+    });
+    expect(evaluate({ expr: 'resource', name: 'user', field: 'data' }, ctx)).toEqual({ name: 'Ada' });
+    expect(evaluate({ expr: 'resource', name: 'user', field: 'loading' }, ctx)).toBe(false);
+  });
+
+  it('should return undefined when no resource reader is provided', () => {
+    const ctx = makeCtx();
+    expect(evaluate({ expr: 'resource', name: 'user', field: 'data' }, ctx)).toBeUndefined();
+  });
+});
+
+// ==================== form ====================
+
+describe('evaluate - form', () => {
+  it('should read form and field props from the form reader', () => {
+    const ctx = makeCtx({
+      forms: makeStateReader({
+        signup: { valid: false, fields: { email: { error: 'Required', touched: true } } },
+      }),
+    });
+    expect(evaluate({ expr: 'form', name: 'signup', field: 'email', prop: 'error' }, ctx)).toBe('Required');
+    expect(evaluate({ expr: 'form', name: 'signup', prop: 'valid' }, ctx)).toBe(false);
+    expect(evaluate({ expr: 'form', name: 'signup', field: 'name', prop: 'error' }, ctx)).toBeUndefined();
+  });
+});
+
+// ==================== t ====================
+
+describe('evaluate - t', () => {
+  it('should pass the key and evaluated params to the translator', () => {
+    const ctx = makeCtx({
+      state: makeStateReader({ count: 3 }),
+      i18n: { translate: (key, params) => `${key}:${JSON.stringify(params)}` },
+    });
+    expect(
+      evaluate({ expr: 't', key: 'cart.items', params: { count: { expr: 'state', name: 'count' } } }, ctx)
+    ).toBe('cart.items:{"count":3}');
+  });
+
+  it('should return the key when no translator is provided', () => {
+    const ctx = makeCtx();
+    expect(evaluate({ expr: 't', key: 'greeting' }, ctx)).toBe('greeting');
+  });
+});
+
+// ==================== context ====================
+
+describe('evaluate - context', () => {
+  it('should read provided values with an optional path', () => {
+    const values = createContextValues({}, { user: () => ({ name: 'Ada' }) });
+    const ctx = makeCtx({ locals: { [CONTEXT_LOCAL]: values } });
+    expect(evaluate({ expr: 'context', name: 'user', path: 'name' }, ctx)).toBe('Ada');
+    expect(evaluate({ expr: 'context', name: 'user', path: '__proto__' }, ctx)).toBeUndefined();
+  });
+
+  it('should let inner providers shadow outer ones', () => {
+    const outer = createContextValues({}, { theme: () => 'light', lang: () => 'en' });
+    const inner = createContextValues({ [CONTEXT_LOCAL]: outer }, { theme: () => 'dark' });
+    const ctx = makeCtx({ locals: { [CONTEXT_LOCAL]: inner } });
+    expect(evaluate({ expr: 'context', name: 'theme' }, ctx)).toBe('dark');
+    expect(evaluate({ expr: 'context', name: 'lang' }, ctx)).toBe('en');
+  });
+
+  it('should return undefined when nothing is provided', () => {
+    const ctx = makeCtx();
+    expect(evaluate({ expr: 'context', name: 'theme' }, ctx)).toBeUndefined();
+    expect(evaluate({ expr: 'context', name: 'toString' }, makeCtx({ locals: { [CONTEXT_LOCAL]: createContextValues({}, {}) } }))).toBeUndefined();
+  });
+});
+
 // ==================== index ====================
 
 describe('evaluate - index', () => {
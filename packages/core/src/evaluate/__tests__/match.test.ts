@@ -0,0 +1,71 @@
+/**
+ * Test module for match case resolution.
+ *
+ * Coverage:
+ * - Exact string keys select their case
+ * - Numbers and booleans match their literal keys
+ * - Equivalent numeric keys are normalized
+ * - Nullish and object values fall back to the default branch
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { findMatchCase, normalizeMatchKey } from '../index.js';
+
+// ==================== findMatchCase ====================
+
+describe('findMatchCase', () => {
+  const cases = { idle: 1, loading: 2, '1': 3, true: 4 };
+
+  it('should return the key for an exact string match', () => {
+    // Arrange & Act
+    const result = findMatchCase('loading', cases);
+
+    // Assert
+    expect(result).toBe('loading');
+  });
+
+  it('should match number and boolean values against literal keys', () => {
+    // Arrange & Act & Assert
+    expect(findMatchCase(1, cases)).toBe('1');
+    expect(findMatchCase(true, cases)).toBe('true');
+  });
+
+  it('should match numeric values against equivalent numeric keys', () => {
+    // Arrange & Act
+    const result = findMatchCase(2, { '2.0': 'two' });
+
+    // Assert
+    expect(result).toBe('2.0');
+  });
+
+  it('should return undefined when no case matches', () => {
+    // Arrange & Act & Assert
+    expect(findMatchCase('done', cases)).toBeUndefined();
+    expect(findMatchCase(null, cases)).toBeUndefined();
+    expect(findMatchCase(undefined, cases)).toBeUndefined();
+    expect(findMatchCase({ idle: true }, cases)).toBeUndefined();
+  });
+
+  it('should not match inherited object keys', () => {
+    // Arrange & Act
+    const result = findMatchCase('toString', {});
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+});
+
+// ==================== normalizeMatchKey ====================
+
+describe('normalizeMatchKey', () => {
+  it('should normalize numeric keys to their canonical form', () => {
+    expect(normalizeMatchKey('01')).toBe('1');
+    expect(normalizeMatchKey('1.50')).toBe('1.5');
+  });
+
+  it('should leave non-numeric keys untouched', () => {
+    expect(normalizeMatchKey('idle')).toBe('idle');
+    expect(normalizeMatchKey(' ')).toBe(' ');
+  });
+});
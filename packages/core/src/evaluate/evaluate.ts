@@ -18,6 +18,7 @@ import {
   FORBIDDEN_KEYS,
 } from './constants.js';
 import { callGlobalFunction } from '../helpers/global-functions.js';
+import { CONTEXT_LOCAL } from '../helpers/context.js';
 
 // ==================== Internal structural types ====================
 // We use structural typing to avoid depending on @constela/compiler
@@ -96,6 +97,36 @@ interface RefExpr extends ExprBase {
   name: string;
 }
 
+interface ComputedExpr extends ExprBase {
+  expr: 'computed';
+  name: string;
+}
+
+interface ResourceExpr extends ExprBase {
+  expr: 'resource';
+  name: string;
+  field: string;
+}
+
+interface FormExpr extends ExprBase {
+  expr: 'form';
+  name: string;
+  field?: string;
+  prop: string;
+}
+
+interface TranslateExpr extends ExprBase {
+  expr: 't';
+  key: string;
+  params?: Record<string, ExprBase>;
+}
+
+interface ContextExpr extends ExprBase {
+  expr: 'context';
+  name: string;
+  path?: string;
+}
+
 interface IndexExpr extends ExprBase {
   expr: 'index';
   base: ExprBase;
@@ -152,7 +183,7 @@ type AnyExpr =
   | LitExpr | StateExpr | LocalExpr | VarExpr | BinExpr | NotExpr
   | CondExpr | GetExpr | RouteExpr | ImportExpr | DataExpr | RefExpr
   | IndexExpr | ParamExpr | StyleExpr | ConcatExpr | ValidityExpr
-  | CallExpr | LambdaExpr | ArrayExpr | ObjExpr;
+  | CallExpr | LambdaExpr | ArrayExpr | ObjExpr | ComputedExpr | ResourceExpr | FormExpr | TranslateExpr | ContextExpr;
 
 // ==================== Main evaluate ====================
 
@@ -288,6 +319,42 @@ export function evaluate(expr: unknown, ctx: CoreEvaluationContext): unknown {
     case 'ref':
       return ctx.env.resolveRef(e.name);
 
+    case 'computed':
+      return ctx.computed?.get(e.name);
+
+    case 'resource': {
+      const resource = ctx.resources?.get(e.name) as Record<string, unknown> | undefined;
+      return resource?.[e.field];
+    }
+
+    case 'form': {
+      const form = ctx.forms?.get(e.name) as Record<string, unknown> | undefined;
+      const fields = form?.['fields'] as Record<string, Record<string, unknown> | undefined> | undefined;
+      const target = e.field !== undefined ? fields?.[e.field] : form;
+      return target?.[e.prop];
+    }
+
+    case 'context': {
+      const values = ctx.locals[CONTEXT_LOCAL];
+      if (typeof values !== 'object' || values === null || FORBIDDEN_KEYS.has(e.name)) {
+        return undefined;
+      }
+      let value = (values as Record<string, unknown>)[e.name];
+      for (const part of e.path ? e.path.split('.') : []) {
+        if (value == null || FORBIDDEN_KEYS.has(part)) return undefined;
+        value = (value as Record<string, unknown>)[part];
+      }
+      return value;
+    }
+
+    case 't': {
+      const params: Record<string, unknown> = {};
+      for (const [name, paramExpr] of Object.entries(e.params ?? {})) {
+        params[name] = evaluate(paramExpr, ctx);
+      }
+      return ctx.i18n ? ctx.i18n.translate(e.key, params) : e.key;
+    }
+
     case 'index': {
       const base = evaluate(e.base, ctx);
       const key = evaluate(e.key, ctx);
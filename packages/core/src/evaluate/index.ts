@@ -2,8 +2,9 @@
  * Unified evaluate module - barrel export
  */
 
-export type { StateReader, EnvironmentAdapter, CoreEvaluationContext } from './types.js';
+export type { StateReader, Translator, EnvironmentAdapter, CoreEvaluationContext } from './types.js';
 export { evaluate, evaluateStyle } from './evaluate.js';
+export { findMatchCase, normalizeMatchKey } from './match.js';
 export {
   SAFE_ARRAY_METHODS,
   SAFE_STRING_METHODS,
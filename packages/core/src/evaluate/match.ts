@@ -0,0 +1,32 @@
+/**
+ * Match case resolution shared by SSR and CSR rendering.
+ *
+ * Case keys are literal strings. Numeric keys are compared by numeric value,
+ * so `"1"` and `"1.0"` both select the same case.
+ */
+
+/**
+ * Normalizes a match case key so that equivalent literals compare equal
+ */
+export function normalizeMatchKey(key: string): string {
+  if (key.trim() !== '') {
+    const num = Number(key);
+    if (Number.isFinite(num)) return String(num);
+  }
+  return key;
+}
+
+/**
+ * Finds the case key selected by a match value.
+ *
+ * @param value - The evaluated match value
+ * @param cases - The match node cases keyed by literal
+ * @returns The matching case key, or undefined when the default branch applies
+ */
+export function findMatchCase(value: unknown, cases: Record<string, unknown>): string | undefined {
+  if (value === null || value === undefined || typeof value === 'object') return undefined;
+  const key = String(value);
+  if (Object.prototype.hasOwnProperty.call(cases, key)) return key;
+  const normalized = normalizeMatchKey(key);
+  return Object.keys(cases).find((caseKey) => normalizeMatchKey(caseKey) === normalized);
+}
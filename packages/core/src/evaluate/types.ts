@@ -1,8 +1,9 @@
 /**
  * Types for the unified evaluate module.
  *
- * StateReader: abstracts Map.get() and StateStore.get()
+ * StateReader: abstracts Map.get() and StateStore.get() (also used for computed values, resources and forms)
  * EnvironmentAdapter: abstracts SSR/CSR differences
+ * Translator: formats messages for the t expression
  * CoreEvaluationContext: the evaluation context consumed by evaluate()
  */
 
@@ -12,6 +13,10 @@ export interface StateReader {
   get(name: string): unknown;
 }
 
+export interface Translator {
+  translate(key: string, params: Record<string, unknown>): string;
+}
+
 export interface EnvironmentAdapter {
   resolveRef(name: string): unknown;
   resolveValidity(ref: string, property?: string): unknown;
@@ -30,5 +35,9 @@ export interface CoreEvaluationContext {
   } | undefined;
   imports?: Record<string, unknown> | undefined;
   styles?: Record<string, StylePreset> | undefined;
+  computed?: StateReader | undefined;
+  resources?: StateReader | undefined;
+  forms?: StateReader | undefined;
+  i18n?: Translator | undefined;
   env: EnvironmentAdapter;
 }
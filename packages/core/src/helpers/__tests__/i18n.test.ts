@@ -0,0 +1,116 @@
+/**
+ * Test module for internationalization helpers.
+ *
+ * Coverage:
+ * - formatMessage: arguments, plural, selectordinal, select and quoting
+ * - createTranslator: locale lookup and fallbacks
+ * - resolveMessageCatalogs: imported catalogs
+ * - createLocaleStateField / getRouteLocale
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatMessage,
+  createTranslator,
+  resolveMessageCatalogs,
+  createLocaleStateField,
+  getRouteLocale,
+} from '../i18n.js';
+
+describe('i18n helpers', () => {
+  // ==================== formatMessage ====================
+
+  describe('formatMessage', () => {
+    it('should insert params and keep unknown arguments', () => {
+      expect(formatMessage('Hello, {name}! {missing}', { name: 'Ada' }, 'en')).toBe('Hello, Ada! {missing}');
+    });
+
+    it('should format numbers for the locale', () => {
+      expect(formatMessage('{n} views', { n: 1234567 }, 'en')).toBe('1,234,567 views');
+    });
+
+    it('should pick plural branches by exact value and category', () => {
+      const message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+
+      expect(formatMessage(message, { count: 0 }, 'en')).toBe('No items');
+      expect(formatMessage(message, { count: 1 }, 'en')).toBe('1 item');
+      expect(formatMessage(message, { count: 1200 }, 'en')).toBe('1,200 items');
+      expect(formatMessage(message, { count: 1 }, 'ja')).toBe('1 items');
+    });
+
+    it('should support selectordinal and nested select', () => {
+      const ordinal = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+      const nested = '{gender, select, female {She has {n, plural, one {# cat} other {# cats}}} other {They have # cats}}';
+
+      expect(formatMessage(ordinal, { n: 2 }, 'en')).toBe('2nd');
+      expect(formatMessage(ordinal, { n: 11 }, 'en')).toBe('11th');
+      expect(formatMessage(nested, { gender: 'female', n: 2 }, 'en')).toBe('She has 2 cats');
+      expect(formatMessage(nested, { gender: 'x', n: 2 }, 'en')).toBe('They have # cats');
+    });
+
+    it('should unescape quotes', () => {
+      expect(formatMessage("It''s '{literal}' {x}", { x: 1 }, 'en')).toBe("It's {literal} 1");
+    });
+  });
+
+  // ==================== createTranslator ====================
+
+  describe('createTranslator', () => {
+    it('should translate with the current locale and fall back to the default locale and key', () => {
+      // Arrange
+      let locale = 'ja';
+      const translator = createTranslator(
+        'en',
+        { en: { hello: 'Hello, {name}', bye: 'Bye' }, ja: { hello: 'こんにちは、{name}' } },
+        () => locale
+      );
+
+      // Assert
+      expect(translator.translate('hello', { name: 'Ada' })).toBe('こんにちは、Ada');
+      expect(translator.translate('bye', {})).toBe('Bye');
+      expect(translator.translate('unknown', {})).toBe('unknown');
+      locale = 'fr';
+      expect(translator.translate('hello', { name: 'Ada' })).toBe('Hello, Ada');
+    });
+  });
+
+  // ==================== resolveMessageCatalogs ====================
+
+  describe('resolveMessageCatalogs', () => {
+    it('should resolve imported catalogs and keep inline ones', () => {
+      const catalogs = resolveMessageCatalogs(
+        {
+          en: { hello: 'Hello' },
+          ja: { expr: 'import', name: 'messages', path: 'ja' },
+          fr: { expr: 'import', name: 'missing' },
+        },
+        { messages: { ja: { hello: 'こんにちは' } } }
+      );
+
+      expect(catalogs).toEqual({ en: { hello: 'Hello' }, ja: { hello: 'こんにちは' }, fr: {} });
+    });
+  });
+
+  // ==================== Locale State ====================
+
+  describe('locale state', () => {
+    it('should read the initial locale from the cookie when configured', () => {
+      expect(createLocaleStateField({ defaultLocale: 'en', messages: {} })).toEqual({
+        type: 'string',
+        initial: 'en',
+      });
+      expect(createLocaleStateField({ defaultLocale: 'en', messages: {}, localeCookie: 'lang' })).toEqual({
+        type: 'string',
+        initial: { expr: 'cookie', key: 'lang', default: 'en' },
+      });
+    });
+
+    it('should only accept known locales from the route', () => {
+      const config = { localeParam: 'lang', messages: { en: {}, ja: {} } };
+
+      expect(getRouteLocale(config, { lang: 'ja' })).toBe('ja');
+      expect(getRouteLocale(config, { lang: 'de' })).toBeUndefined();
+      expect(getRouteLocale({ messages: {} }, { lang: 'ja' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Test module for Intl formatting helper functions.
+ *
+ * Coverage:
+ * - formatNumber: grouping, digit options, compact notation
+ * - formatCurrency: currency symbols, codes and invalid currencies
+ * - formatPercent: ratios as percentages
+ * - formatRelativeTime: explicit units and automatic unit selection
+ * - formatList: conjunction and disjunction lists
+ * - formatBytes: decimal and binary byte units
+ * - pluralRules: cardinal and ordinal categories
+ * - Locale handling: en-US default and fallback for invalid locales
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { callGlobalFunction } from '../global-functions.js';
+
+describe('formatNumber', () => {
+  it('should group digits for the locale', () => {
+    expect(callGlobalFunction('formatNumber', [1234567.891])).toBe('1,234,567.891');
+    expect(callGlobalFunction('formatNumber', [1234567.891, 'de-DE'])).toBe('1.234.567,891');
+  });
+
+  it('should apply digit options', () => {
+    expect(callGlobalFunction('formatNumber', [3.14159, 'en-US', { maximumFractionDigits: 2 }])).toBe('3.14');
+    expect(callGlobalFunction('formatNumber', [5, 'en-US', { minimumFractionDigits: 2 }])).toBe('5.00');
+  });
+
+  it('should support compact notation', () => {
+    expect(callGlobalFunction('formatNumber', [1200, 'en-US', { notation: 'compact' }])).toBe('1.2K');
+    expect(callGlobalFunction('formatNumber', [3400000, 'en-US', { notation: 'compact' }])).toBe('3.4M');
+  });
+
+  it('should ignore unsupported options', () => {
+    expect(callGlobalFunction('formatNumber', [0.5, 'en-US', { style: 'percent' }])).toBe('0.5');
+  });
+
+  it('should return undefined for invalid input', () => {
+    expect(callGlobalFunction('formatNumber', ['12'])).toBeUndefined();
+    expect(callGlobalFunction('formatNumber', [NaN])).toBeUndefined();
+    expect(callGlobalFunction('formatNumber', [1, 'en-US', { maximumFractionDigits: 500 }])).toBeUndefined();
+  });
+
+  it('should fall back to en-US for an invalid locale', () => {
+    expect(callGlobalFunction('formatNumber', [1234.5, 'not a locale!'])).toBe('1,234.5');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('should format with the currency symbol', () => {
+    expect(callGlobalFunction('formatCurrency', [1234.5, 'USD'])).toBe('$1,234.50');
+    expect(callGlobalFunction('formatCurrency', [1234, 'JPY', 'ja-JP'])).toBe('￥1,234');
+  });
+
+  it('should support currency display', () => {
+    expect(callGlobalFunction('formatCurrency', [10, 'EUR', 'en-US', 'code'])).toBe('EUR 10.00');
+  });
+
+  it('should return undefined for an invalid currency', () => {
+    expect(callGlobalFunction('formatCurrency', [10, 'DOLLARS'])).toBeUndefined();
+    expect(callGlobalFunction('formatCurrency', [10])).toBeUndefined();
+  });
+});
+
+describe('formatPercent', () => {
+  it('should format ratios as percentages', () => {
+    expect(callGlobalFunction('formatPercent', [0.25])).toBe('25%');
+    expect(callGlobalFunction('formatPercent', [0.1234, 'en-US', 1])).toBe('12.3%');
+  });
+
+  it('should return undefined for invalid input', () => {
+    expect(callGlobalFunction('formatPercent', [null])).toBeUndefined();
+  });
+});
+
+describe('formatRelativeTime', () => {
+  it('should format an amount of an explicit unit', () => {
+    expect(callGlobalFunction('formatRelativeTime', [-3, 'minute'])).toBe('3 minutes ago');
+    expect(callGlobalFunction('formatRelativeTime', [2, 'day'])).toBe('in 2 days');
+  });
+
+  it('should use words when numeric is auto', () => {
+    expect(callGlobalFunction('formatRelativeTime', [-1, 'day', 'en-US', 'auto'])).toBe('yesterday');
+  });
+
+  it('should pick the unit for a duration in milliseconds', () => {
+    expect(callGlobalFunction('formatRelativeTime', [-3 * 60 * 1000])).toBe('3 minutes ago');
+    expect(callGlobalFunction('formatRelativeTime', [36 * 60 * 60 * 1000, 'auto'])).toBe('in 1 day');
+    expect(callGlobalFunction('formatRelativeTime', [-500])).toBe('0 seconds ago');
+  });
+
+  it('should return undefined for an unknown unit', () => {
+    expect(callGlobalFunction('formatRelativeTime', [1, 'fortnight'])).toBeUndefined();
+  });
+});
+
+describe('formatList', () => {
+  it('should format conjunctions and disjunctions', () => {
+    expect(callGlobalFunction('formatList', [['a', 'b', 'c']])).toBe('a, b, and c');
+    expect(callGlobalFunction('formatList', [['a', 'b'], 'en-US', 'disjunction'])).toBe('a or b');
+  });
+
+  it('should convert items to strings', () => {
+    expect(callGlobalFunction('formatList', [[1, 2]])).toBe('1 and 2');
+  });
+
+  it('should return undefined for non-array input', () => {
+    expect(callGlobalFunction('formatList', ['a, b'])).toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('should use decimal units by default', () => {
+    expect(callGlobalFunction('formatBytes', [512])).toBe('512 byte');
+    expect(callGlobalFunction('formatBytes', [1500000])).toBe('1.5 MB');
+  });
+
+  it('should use binary units when requested', () => {
+    expect(callGlobalFunction('formatBytes', [1536, 'en-US', 1, true])).toBe('1.5 KiB');
+    expect(callGlobalFunction('formatBytes', [1024 ** 3, 'en-US', 2, true])).toBe('1 GiB');
+  });
+
+  it('should return undefined for negative sizes', () => {
+    expect(callGlobalFunction('formatBytes', [-1])).toBeUndefined();
+  });
+});
+
+describe('pluralRules', () => {
+  it('should return cardinal categories', () => {
+    expect(callGlobalFunction('pluralRules', [1])).toBe('one');
+    expect(callGlobalFunction('pluralRules', [2])).toBe('other');
+  });
+
+  it('should return ordinal categories', () => {
+    expect(callGlobalFunction('pluralRules', [2, 'en-US', 'ordinal'])).toBe('two');
+    expect(callGlobalFunction('pluralRules', [3, 'en-US', 'ordinal'])).toBe('few');
+  });
+});
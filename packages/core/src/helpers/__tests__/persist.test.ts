@@ -0,0 +1,69 @@
+/**
+ * Test module for state persistence helpers.
+ *
+ * Coverage:
+ * - getPersistKey defaults to the state field name
+ * - serializePersistedValue / parsePersistedValue round-trip values
+ * - Version mismatches and malformed data are discarded
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPersistKey, serializePersistedValue, parsePersistedValue } from '../persist.js';
+
+describe('state persistence helpers', () => {
+  // ==================== getPersistKey ====================
+
+  describe('getPersistKey', () => {
+    it('should use the explicit key when provided', () => {
+      expect(getPersistKey('todos', { storage: 'local', key: 'app:todos' })).toBe('app:todos');
+    });
+
+    it('should default to the state field name', () => {
+      expect(getPersistKey('todos', { storage: 'local' })).toBe('todos');
+    });
+  });
+
+  // ==================== Round Trip ====================
+
+  describe('serialize and parse', () => {
+    it('should round-trip values with the same version', () => {
+      // Arrange
+      const persist = { storage: 'local' as const, version: 2 };
+      const raw = serializePersistedValue([{ id: 1 }], persist);
+
+      // Act
+      const result = parsePersistedValue(raw, persist);
+
+      // Assert
+      expect(result).toEqual({ value: [{ id: 1 }] });
+    });
+
+    it('should preserve falsy values', () => {
+      // Arrange
+      const persist = { storage: 'session' as const };
+      const raw = serializePersistedValue(0, persist);
+
+      // Act
+      const result = parsePersistedValue(raw, persist);
+
+      // Assert
+      expect(result).toEqual({ value: 0 });
+    });
+
+    it('should discard values written with a different version', () => {
+      // Arrange
+      const raw = serializePersistedValue('old', { storage: 'local', version: 1 });
+
+      // Act
+      const result = parsePersistedValue(raw, { storage: 'local', version: 2 });
+
+      // Assert
+      expect(result).toBeUndefined();
+    });
+
+    it('should discard malformed data', () => {
+      expect(parsePersistedValue('not json', { storage: 'local' })).toBeUndefined();
+      expect(parsePersistedValue('"plain"', { storage: 'local' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Test module for URL query sync helpers.
+ *
+ * Coverage:
+ * - isQuerySerializableType accepts primitive field types only
+ * - parseQueryValue converts raw params by field type
+ * - Invalid raw values are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isQuerySerializableType, parseQueryValue, serializeQueryValue } from '../query-sync.js';
+
+describe('query sync helpers', () => {
+  // ==================== isQuerySerializableType ====================
+
+  describe('isQuerySerializableType', () => {
+    it('should accept primitive field types', () => {
+      expect(isQuerySerializableType('string')).toBe(true);
+      expect(isQuerySerializableType('number')).toBe(true);
+      expect(isQuerySerializableType('boolean')).toBe(true);
+    });
+
+    it('should reject list and object field types', () => {
+      expect(isQuerySerializableType('list')).toBe(false);
+      expect(isQuerySerializableType('object')).toBe(false);
+    });
+  });
+
+  // ==================== parseQueryValue ====================
+
+  describe('parseQueryValue', () => {
+    it('should parse values by field type', () => {
+      expect(parseQueryValue('string', 'name')).toEqual({ value: 'name' });
+      expect(parseQueryValue('number', '3')).toEqual({ value: 3 });
+      expect(parseQueryValue('boolean', 'false')).toEqual({ value: false });
+    });
+
+    it('should reject values that do not fit the field type', () => {
+      expect(parseQueryValue('number', 'abc')).toBeUndefined();
+      expect(parseQueryValue('number', '')).toBeUndefined();
+      expect(parseQueryValue('boolean', 'yes')).toBeUndefined();
+    });
+
+    it('should round-trip serialized values', () => {
+      // Arrange
+      const raw = serializeQueryValue(2.5);
+
+      // Act
+      const result = parseQueryValue('number', raw);
+
+      // Assert
+      expect(result).toEqual({ value: 2.5 });
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Context helpers shared by the client runtime and SSR.
+ *
+ * Element and component nodes can provide named values to their subtree.
+ * The values travel with the render locals under CONTEXT_LOCAL, so every
+ * expression evaluated in the subtree (including event payloads and
+ * actions) can read them with a context expression.
+ */
+
+/**
+ * Name of the local holding the context values provided by ancestor nodes
+ */
+export const CONTEXT_LOCAL = '$context';
+
+/**
+ * Creates the context values seen by a provider's descendants.
+ * Provided values are read through their getters on every access, so reads
+ * inside reactive effects track the provider's dependencies; other names
+ * fall back to the values of enclosing providers.
+ *
+ * @param locals - The provider's locals, holding the enclosing context values
+ * @param provided - Getters for the provided values keyed by context name
+ * @returns The context values to store under CONTEXT_LOCAL for the subtree
+ */
+export function createContextValues(
+  locals: Record<string, unknown>,
+  provided: Record<string, () => unknown>
+): Record<string, unknown> {
+  const parent = locals[CONTEXT_LOCAL];
+  const values = Object.create(typeof parent === 'object' && parent !== null ? parent : null) as Record<string, unknown>;
+  for (const [name, get] of Object.entries(provided)) {
+    Object.defineProperty(values, name, { get, enumerable: true });
+  }
+  return values;
+}
@@ -5,7 +5,9 @@
  * These functions are callable as global helpers in Constela expressions.
  *
  * All functions are pure (no DOM, no browser APIs).
- * They use only: Math, Date, Intl.DateTimeFormat, Array methods.
+ * They use only: Math, Date, Intl formatters, Array methods.
+ * Intl helpers default to the en-US locale rather than the host's, so SSR
+ * and the client produce the same output.
  */
 
 // ==================== Date Helper Functions ====================
@@ -524,6 +526,250 @@ function formatDate(dateStr: unknown, format?: unknown, locale?: unknown): strin
   }
 }
 
+// ==================== Intl Formatting Helper Functions ====================
+
+// Locale used when none (or an invalid one) is given. Never the host default,
+// so SSR and the client format identically.
+const DEFAULT_LOCALE = 'en-US';
+
+const NUMBER_FORMAT_OPTIONS = [
+  'minimumIntegerDigits',
+  'minimumFractionDigits',
+  'maximumFractionDigits',
+  'minimumSignificantDigits',
+  'maximumSignificantDigits',
+  'useGrouping',
+  'notation',
+  'compactDisplay',
+  'signDisplay',
+] as const;
+
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+const BYTE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte', 'petabyte'] as const;
+const BINARY_BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'] as const;
+
+/**
+ * Returns the locale to format with, falling back to en-US for missing or invalid locales
+ */
+function resolveLocale(locale: unknown): string {
+  if (typeof locale !== 'string' || !locale) return DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * Picks the supported Intl.NumberFormat options from an options object
+ */
+function pickNumberFormatOptions(options: unknown): Intl.NumberFormatOptions {
+  const picked: Record<string, unknown> = {};
+  if (typeof options !== 'object' || options === null) return picked;
+  for (const key of NUMBER_FORMAT_OPTIONS) {
+    const value = (options as Record<string, unknown>)[key];
+    if (value !== undefined) picked[key] = value;
+  }
+  return picked as Intl.NumberFormatOptions;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Formats a number
+ *
+ * @param value - The number to format
+ * @param locale - The locale (default: 'en-US')
+ * @param options - Digit, grouping, sign and notation options (e.g. { notation: 'compact' })
+ * @returns Formatted number, or undefined for invalid input or options
+ */
+function formatNumber(value: unknown, locale?: unknown, options?: unknown): string | undefined {
+  if (!isFiniteNumber(value)) return undefined;
+  try {
+    return new Intl.NumberFormat(resolveLocale(locale), pickNumberFormatOptions(options)).format(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats an amount of money
+ *
+ * @param value - The amount
+ * @param currency - ISO 4217 currency code (e.g. 'USD', 'JPY')
+ * @param locale - The locale (default: 'en-US')
+ * @param display - Currency display: 'symbol' (default), 'narrowSymbol', 'code' or 'name'
+ * @returns Formatted amount, or undefined for invalid input
+ */
+function formatCurrency(value: unknown, currency: unknown, locale?: unknown, display?: unknown): string | undefined {
+  if (!isFiniteNumber(value) || typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency)) {
+    return undefined;
+  }
+  const currencyDisplay = typeof display === 'string' ? display : 'symbol';
+  try {
+    return new Intl.NumberFormat(resolveLocale(locale), {
+      style: 'currency',
+      currency,
+      currencyDisplay: currencyDisplay as Intl.NumberFormatOptions['currencyDisplay'],
+    }).format(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a ratio as a percentage (0.25 -> "25%")
+ *
+ * @param value - The ratio
+ * @param locale - The locale (default: 'en-US')
+ * @param maximumFractionDigits - Maximum fraction digits of the percentage (default: 0)
+ * @returns Formatted percentage, or undefined for invalid input
+ */
+function formatPercent(value: unknown, locale?: unknown, maximumFractionDigits?: unknown): string | undefined {
+  if (!isFiniteNumber(value)) return undefined;
+  const digits = typeof maximumFractionDigits === 'number' ? maximumFractionDigits : 0;
+  try {
+    return new Intl.NumberFormat(resolveLocale(locale), {
+      style: 'percent',
+      maximumFractionDigits: digits,
+    }).format(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a relative time ("3 minutes ago", "in 2 days")
+ *
+ * @param value - The amount of units, negative for the past; a duration in
+ *   milliseconds when unit is omitted or 'auto'
+ * @param unit - 'second', 'minute', 'hour', 'day', 'week', 'month', 'year' or 'auto'
+ *   (picks the largest unit the duration reaches)
+ * @param locale - The locale (default: 'en-US')
+ * @param numeric - 'always' (default, "1 day ago") or 'auto' ("yesterday")
+ * @returns Formatted relative time, or undefined for invalid input
+ */
+function formatRelativeTime(
+  value: unknown,
+  unit?: unknown,
+  locale?: unknown,
+  numeric?: unknown
+): string | undefined {
+  if (!isFiniteNumber(value)) return undefined;
+
+  let amount = value;
+  let effectiveUnit: Intl.RelativeTimeFormatUnit;
+  if (unit === undefined || unit === null || unit === 'auto') {
+    const [autoUnit, size] =
+      RELATIVE_TIME_UNITS.find(([, ms]) => Math.abs(value) >= ms) ?? RELATIVE_TIME_UNITS[RELATIVE_TIME_UNITS.length - 1]!;
+    effectiveUnit = autoUnit;
+    amount = Math.trunc(value / size);
+  } else if (typeof unit === 'string' && RELATIVE_TIME_UNITS.some(([name]) => name === unit)) {
+    effectiveUnit = unit as Intl.RelativeTimeFormatUnit;
+  } else {
+    return undefined;
+  }
+
+  try {
+    return new Intl.RelativeTimeFormat(resolveLocale(locale), {
+      numeric: numeric === 'auto' ? 'auto' : 'always',
+    }).format(amount, effectiveUnit);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a list of items ("a, b, and c")
+ *
+ * @param items - The items (non-string items are converted with String())
+ * @param locale - The locale (default: 'en-US')
+ * @param type - 'conjunction' (default, "and"), 'disjunction' ("or") or 'unit'
+ * @param style - 'long' (default), 'short' or 'narrow'
+ * @returns Formatted list, or undefined for invalid input
+ */
+function formatList(items: unknown, locale?: unknown, type?: unknown, style?: unknown): string | undefined {
+  if (!Array.isArray(items)) return undefined;
+  try {
+    return new Intl.ListFormat(resolveLocale(locale), {
+      type: (typeof type === 'string' ? type : 'conjunction') as Intl.ListFormatType,
+      style: (typeof style === 'string' ? style : 'long') as Intl.ListFormatStyle,
+    }).format(items.map((item) => String(item)));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a byte size with the largest fitting unit ("1.5 MB")
+ *
+ * @param bytes - The size in bytes
+ * @param locale - The locale (default: 'en-US')
+ * @param maximumFractionDigits - Maximum fraction digits (default: 1)
+ * @param binary - Use powers of 1024 with KiB, MiB, ... instead of powers of 1000
+ * @returns Formatted size, or undefined for invalid input
+ */
+function formatBytes(
+  bytes: unknown,
+  locale?: unknown,
+  maximumFractionDigits?: unknown,
+  binary?: unknown
+): string | undefined {
+  if (!isFiniteNumber(bytes) || bytes < 0) return undefined;
+  const base = binary === true ? 1024 : 1000;
+  const digits = typeof maximumFractionDigits === 'number' ? maximumFractionDigits : 1;
+  let exponent = 0;
+  while (exponent < BYTE_UNITS.length - 1 && bytes >= base ** (exponent + 1)) {
+    exponent++;
+  }
+  const amount = bytes / base ** exponent;
+
+  try {
+    const effectiveLocale = resolveLocale(locale);
+    if (binary === true) {
+      const number = new Intl.NumberFormat(effectiveLocale, { maximumFractionDigits: digits }).format(amount);
+      return `${number} ${BINARY_BYTE_UNITS[exponent]}`;
+    }
+    return new Intl.NumberFormat(effectiveLocale, {
+      style: 'unit',
+      unit: BYTE_UNITS[exponent],
+      maximumFractionDigits: digits,
+    }).format(amount);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the plural category of a number ('zero', 'one', 'two', 'few', 'many' or 'other')
+ *
+ * @param value - The number
+ * @param locale - The locale (default: 'en-US')
+ * @param type - 'cardinal' (default, "1 item") or 'ordinal' ("1st")
+ * @returns The plural category, or undefined for invalid input
+ */
+function pluralRules(value: unknown, locale?: unknown, type?: unknown): string | undefined {
+  if (!isFiniteNumber(value)) return undefined;
+  try {
+    return new Intl.PluralRules(resolveLocale(locale), {
+      type: type === 'ordinal' ? 'ordinal' : 'cardinal',
+    }).select(value);
+  } catch {
+    return undefined;
+  }
+}
+
 // ==================== Chart Helper Functions ====================
 
 /**
@@ -1965,6 +2211,14 @@ export const GLOBAL_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> =
   getMonthName: (month, locale) => getMonthName(month, locale),
   formatDate: (dateStr, format, locale) => formatDate(dateStr, format, locale),
   formatDateISO: (year, month, date) => formatDateISO(year, month, date),
+  // Intl formatting helpers
+  formatNumber: (value, locale, options) => formatNumber(value, locale, options),
+  formatCurrency: (value, currency, locale, display) => formatCurrency(value, currency, locale, display),
+  formatPercent: (value, locale, maximumFractionDigits) => formatPercent(value, locale, maximumFractionDigits),
+  formatRelativeTime: (value, unit, locale, numeric) => formatRelativeTime(value, unit, locale, numeric),
+  formatList: (items, locale, type, style) => formatList(items, locale, type, style),
+  formatBytes: (bytes, locale, maximumFractionDigits, binary) => formatBytes(bytes, locale, maximumFractionDigits, binary),
+  pluralRules: (value, locale, type) => pluralRules(value, locale, type),
   // DataTable helpers
   sortBy: (items, key, direction) => sortBy(items, key, direction),
   getPaginatedItems: (items, page, pageSize) => getPaginatedItems(items, page, pageSize),
@@ -0,0 +1,257 @@
+/**
+ * Internationalization helpers shared by the client runtime and SSR.
+ *
+ * Messages use a subset of the ICU MessageFormat syntax:
+ * - `{name}` inserts a param (numbers are formatted for the locale)
+ * - `{n, plural, =0 {none} one {# item} other {# items}}` picks a branch by
+ *   exact value or plural category; `#` is the formatted number
+ * - `{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}`
+ * - `{v, select, a {...} other {...}}` picks a branch by value
+ * - `''` is a literal quote and `'{...}'` a quoted literal
+ */
+
+import type { I18nConfig, MessageCatalog, StringField } from '../types/ast.js';
+import { isImportExpr } from '../types/guards.js';
+import type { Translator } from '../evaluate/types.js';
+
+/**
+ * Name of the state field holding the current locale
+ */
+export const LOCALE_STATE = 'locale';
+
+type MessagePart =
+  | string
+  | { kind: 'arg'; name: string }
+  | { kind: 'pound' }
+  | {
+      kind: 'plural' | 'selectordinal' | 'select';
+      name: string;
+      options: Record<string, MessagePart[]>;
+    };
+
+const parsedMessages = new Map<string, MessagePart[]>();
+
+/**
+ * Parses message parts until the end of input or an unmatched closing brace
+ */
+function parseParts(message: string, start: number, inPlural: boolean): { parts: MessagePart[]; end: number } {
+  const parts: MessagePart[] = [];
+  let text = '';
+  let i = start;
+
+  while (i < message.length) {
+    const char = message[i] as string;
+    if (char === "'") {
+      const next = message[i + 1];
+      if (next === "'") {
+        text += "'";
+        i += 2;
+        continue;
+      }
+      if (next === '{' || next === '}' || (inPlural && next === '#')) {
+        const close = message.indexOf("'", i + 1);
+        const endQuote = close === -1 ? message.length : close;
+        text += message.slice(i + 1, endQuote);
+        i = endQuote + 1;
+        continue;
+      }
+    }
+    if (char === '}') break;
+    if (char === '#' && inPlural) {
+      if (text) parts.push(text);
+      text = '';
+      parts.push({ kind: 'pound' });
+      i++;
+      continue;
+    }
+    if (char === '{') {
+      if (text) parts.push(text);
+      text = '';
+      const arg = parseArgument(message, i + 1, inPlural);
+      parts.push(arg.part);
+      i = arg.end + 1;
+      continue;
+    }
+    text += char;
+    i++;
+  }
+
+  if (text) parts.push(text);
+  return { parts, end: i };
+}
+
+/**
+ * Parses an argument after its opening brace, returning the index of its closing brace
+ */
+function parseArgument(message: string, start: number, inPlural: boolean): { part: MessagePart; end: number } {
+  const close = message.indexOf('}', start);
+  const comma = message.indexOf(',', start);
+  if (comma === -1 || (close !== -1 && close < comma)) {
+    const end = close === -1 ? message.length : close;
+    return { part: { kind: 'arg', name: message.slice(start, end).trim() }, end };
+  }
+
+  const name = message.slice(start, comma).trim();
+  const typeEnd = message.indexOf(',', comma + 1);
+  const type = message.slice(comma + 1, typeEnd === -1 ? message.length : typeEnd).trim();
+  if (typeEnd === -1 || (type !== 'plural' && type !== 'selectordinal' && type !== 'select')) {
+    const end = close === -1 ? message.length : close;
+    return { part: { kind: 'arg', name }, end };
+  }
+
+  const options: Record<string, MessagePart[]> = {};
+  let i = typeEnd + 1;
+  while (i < message.length) {
+    while (i < message.length && /\s/.test(message[i] as string)) i++;
+    if (i >= message.length || message[i] === '}') break;
+    const open = message.indexOf('{', i);
+    if (open === -1) break;
+    const selector = message.slice(i, open).trim();
+    const branch = parseParts(message, open + 1, type !== 'select' || inPlural);
+    options[selector] = branch.parts;
+    i = branch.end + 1;
+  }
+  return { part: { kind: type, name, options }, end: i };
+}
+
+function parseMessage(message: string): MessagePart[] {
+  let parts = parsedMessages.get(message);
+  if (!parts) {
+    parts = parseParts(message, 0, false).parts;
+    parsedMessages.set(message, parts);
+  }
+  return parts;
+}
+
+function formatValue(value: unknown, locale: string): string {
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function formatParts(
+  parts: MessagePart[],
+  params: Record<string, unknown>,
+  locale: string,
+  pound: number | undefined
+): string {
+  let result = '';
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      result += part;
+      continue;
+    }
+    switch (part.kind) {
+      case 'arg':
+        result += part.name in params ? formatValue(params[part.name], locale) : `{${part.name}}`;
+        break;
+      case 'pound':
+        result += pound === undefined ? '#' : formatValue(pound, locale);
+        break;
+      case 'select': {
+        const branch = part.options[String(params[part.name])] ?? part.options['other'] ?? [];
+        result += formatParts(branch, params, locale, pound);
+        break;
+      }
+      case 'plural':
+      case 'selectordinal': {
+        const count = Number(params[part.name]);
+        const category = new Intl.PluralRules(locale, {
+          type: part.kind === 'plural' ? 'cardinal' : 'ordinal',
+        }).select(count);
+        const branch = part.options[`=${count}`] ?? part.options[category] ?? part.options['other'] ?? [];
+        result += formatParts(branch, params, locale, count);
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Formats an ICU-style message with the given params.
+ *
+ * @param message - The message pattern
+ * @param params - Values for the message arguments
+ * @param locale - Locale used for plural rules and number formatting
+ * @returns The formatted message; unknown arguments are left as `{name}`
+ */
+export function formatMessage(message: string, params: Record<string, unknown>, locale: string): string {
+  return formatParts(parseMessage(message), params, locale, undefined);
+}
+
+/**
+ * Returns the state field the compiler adds for the locale:
+ * initialized from the locale cookie when configured, else the default locale
+ */
+export function createLocaleStateField(config: I18nConfig): StringField {
+  return {
+    type: 'string',
+    initial: config.localeCookie
+      ? { expr: 'cookie', key: config.localeCookie, default: config.defaultLocale }
+      : config.defaultLocale,
+  };
+}
+
+/**
+ * Returns the locale selected by the route, or undefined when the route
+ * param is not configured or names an unknown locale
+ */
+export function getRouteLocale(
+  config: Pick<I18nConfig, 'localeParam' | 'messages'>,
+  params: Record<string, string> | undefined
+): string | undefined {
+  if (!config.localeParam) return undefined;
+  const locale = params?.[config.localeParam];
+  return locale !== undefined && locale in config.messages ? locale : undefined;
+}
+
+/**
+ * Resolves imported catalogs against the program's import data.
+ * Catalogs whose import cannot be resolved are left empty.
+ */
+export function resolveMessageCatalogs(
+  messages: I18nConfig['messages'],
+  imports: Record<string, unknown> | undefined
+): Record<string, MessageCatalog> {
+  const catalogs: Record<string, MessageCatalog> = {};
+  for (const [locale, catalog] of Object.entries(messages)) {
+    if (!isImportExpr(catalog)) {
+      catalogs[locale] = catalog;
+      continue;
+    }
+    let value: unknown = imports?.[catalog.name];
+    for (const segment of catalog.path ? catalog.path.split('.') : []) {
+      value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    catalogs[locale] = typeof value === 'object' && value !== null ? (value as MessageCatalog) : {};
+  }
+  return catalogs;
+}
+
+/**
+ * Creates a translator reading the current locale on every call.
+ * Missing keys fall back to the default locale, then to the key itself.
+ *
+ * @param defaultLocale - The fallback locale
+ * @param catalogs - Resolved catalogs keyed by locale
+ * @param getLocale - Returns the current locale (e.g. from the locale state)
+ */
+export function createTranslator(
+  defaultLocale: string,
+  catalogs: Record<string, MessageCatalog>,
+  getLocale: () => unknown
+): Translator {
+  return {
+    translate(key: string, params: Record<string, unknown>): string {
+      const current = getLocale();
+      const locale = typeof current === 'string' && current in catalogs ? current : defaultLocale;
+      const message = catalogs[locale]?.[key] ?? catalogs[defaultLocale]?.[key];
+      if (message === undefined) return key;
+      try {
+        return formatMessage(message, params, locale);
+      } catch {
+        return message;
+      }
+    },
+  };
+}
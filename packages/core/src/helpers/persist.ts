@@ -0,0 +1,48 @@
+/**
+ * State persistence helpers shared by the client state store and SSR.
+ *
+ * Persisted values are stored as a JSON envelope `{ v, value }` so that
+ * bumping `persist.version` discards data written by an older version.
+ */
+
+import type { StatePersist } from '../types/ast.js';
+
+/**
+ * Returns the storage key for a persisted state field
+ */
+export function getPersistKey(name: string, persist: StatePersist): string {
+  return persist.key ?? name;
+}
+
+/**
+ * Serializes a state value into a persisted envelope string
+ */
+export function serializePersistedValue(value: unknown, persist: StatePersist): string {
+  return JSON.stringify({ v: persist.version ?? 0, value });
+}
+
+/**
+ * Parses a persisted envelope string.
+ *
+ * @returns The stored value wrapped in an object, or undefined when the data
+ * is malformed or was written with a different version
+ */
+export function parsePersistedValue(
+  raw: string,
+  persist: StatePersist
+): { value: unknown } | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || !('value' in parsed)) {
+    return undefined;
+  }
+  const envelope = parsed as { v?: unknown; value: unknown };
+  if (envelope.v !== (persist.version ?? 0)) {
+    return undefined;
+  }
+  return { value: envelope.value };
+}
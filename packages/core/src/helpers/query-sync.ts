@@ -0,0 +1,46 @@
+/**
+ * URL query sync helpers shared by the client state store and SSR.
+ *
+ * Only primitive fields can round-trip through a query parameter, so
+ * syncQuery is limited to string, number and boolean state fields.
+ */
+
+export const QUERY_SERIALIZABLE_TYPES = ['string', 'number', 'boolean'] as const;
+
+/**
+ * Checks whether a state field type can be synced to the URL query
+ */
+export function isQuerySerializableType(type: string): boolean {
+  return (QUERY_SERIALIZABLE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Serializes a state value into a query parameter value
+ */
+export function serializeQueryValue(value: unknown): string {
+  return String(value);
+}
+
+/**
+ * Parses a query parameter value according to the state field type.
+ *
+ * @returns The parsed value wrapped in an object, or undefined when the raw
+ * value does not fit the field type
+ */
+export function parseQueryValue(type: string, raw: string): { value: unknown } | undefined {
+  switch (type) {
+    case 'string':
+      return { value: raw };
+    case 'number': {
+      if (raw.trim() === '') return undefined;
+      const num = Number(raw);
+      return Number.isFinite(num) ? { value: num } : undefined;
+    }
+    case 'boolean':
+      if (raw === 'true') return { value: true };
+      if (raw === 'false') return { value: false };
+      return undefined;
+    default:
+      return undefined;
+  }
+}
@@ -10,11 +10,19 @@ export type {
   BinaryOperator,
   UpdateOperation,
   HttpMethod,
+  FetchCredentials,
+  FetchResponseType,
+  FetchConcurrency,
+  ResourceField,
+  FormRuleType,
+  FormProp,
   ParamType,
   DataTransform,
   DataSourceType,
   StorageOperation,
   StorageType,
+  PersistStorageType,
+  SyncQueryMode,
   ClipboardOperation,
   NavigateTarget,
   FocusOperation,
@@ -34,6 +42,11 @@ export type {
   ImportExpr,
   DataExpr,
   RefExpr,
+  ComputedExpr,
+  ResourceExpr,
+  FormExpr,
+  TranslateExpr,
+  ContextExpr,
   StyleExpr,
   ConcatExpr,
   ValidityExpr,
@@ -50,6 +63,8 @@ export type {
   BooleanField,
   ObjectField,
   CookieInitialExpr,
+  StatePersist,
+  StateSyncQuery,
   // Action Steps
   ActionStep,
   SetStep,
@@ -71,7 +86,20 @@ export type {
   ClearTimerStep,
   FocusStep,
   IfStep,
+  RunStep,
+  TryStep,
+  ThrowStep,
+  ParallelStep,
+  ForEachStep,
+  AbortStep,
+  FetchRetryConfig,
+  InvalidateStep,
+  ValidateFormStep,
+  ResetFormStep,
+  SubmitFormStep,
   // Realtime Steps
+  WSConnectStep,
+  RPCStep,
   SSEConnectStep,
   SSECloseStep,
   OptimisticStep,
@@ -79,10 +107,14 @@ export type {
   RejectStep,
   BindStep,
   UnbindStep,
+  EmitStep,
   ReconnectConfig,
   // Event Handler
   EventHandler,
   EventHandlerOptions,
+  EventModifier,
+  GlobalEventHandler,
+  GlobalEventTarget,
   // Action Definition
   ActionDefinition,
   // Local Action Types
@@ -93,8 +125,10 @@ export type {
   // View Nodes
   ViewNode,
   ElementNode,
+  ModelBinding,
   TextNode,
   IfNode,
+  MatchNode,
   EachNode,
   ComponentNode,
   SlotNode,
@@ -127,6 +161,17 @@ export type {
   RouteDefinition,
   // Lifecycle Hooks
   LifecycleHooks,
+  ComponentLifecycleHooks,
+  WatchDefinition,
+  // Resource
+  ResourceDefinition,
+  // Form
+  FormRule,
+  FormFieldDefinition,
+  FormDefinition,
+  // Internationalization
+  MessageCatalog,
+  I18nConfig,
   // Program
   Program,
   ConstelaAst,
@@ -149,11 +194,21 @@ export {
   BINARY_OPERATORS,
   UPDATE_OPERATIONS,
   HTTP_METHODS,
+  FETCH_CREDENTIALS,
+  FETCH_RESPONSE_TYPES,
+  FETCH_CONCURRENCY_POLICIES,
+  RESOURCE_FIELDS,
+  FORM_RULE_TYPES,
+  FORM_PROPS,
+  EVENT_MODIFIERS,
+  GLOBAL_EVENT_TARGETS,
   PARAM_TYPES,
   DATA_TRANSFORMS,
   DATA_SOURCE_TYPES,
   STORAGE_OPERATIONS,
   STORAGE_TYPES,
+  PERSIST_STORAGE_TYPES,
+  SYNC_QUERY_MODES,
   CLIPBOARD_OPERATIONS,
   NAVIGATE_TARGETS,
   FOCUS_OPERATIONS,
@@ -178,6 +233,11 @@ export {
   isImportExpr,
   isDataExpr,
   isRefExpr,
+  isComputedExpr,
+  isResourceExpr,
+  isFormExpr,
+  isTranslateExpr,
+  isContextExpr,
   isStyleExpr,
   isConcatExpr,
   isValidityExpr,
@@ -195,6 +255,7 @@ export {
   isElementNode,
   isTextNode,
   isIfNode,
+  isMatchNode,
   isEachNode,
   isComponentNode,
   isSlotNode,
@@ -221,9 +282,11 @@ export {
   isCallStep,
   isSubscribeStep,
   isDisposeStep,
+  isDomStep,
   isFocusStep,
   isActionStep,
   // LocalAction type guards
+  isEmitStep,
   isLocalActionStep,
   isLocalActionDefinition,
   // StateField type guards
@@ -268,7 +331,10 @@ export {
   createComponentNotFoundError,
   createComponentPropMissingError,
   createComponentCycleError,
+  createActionCycleError,
   createComponentPropTypeError,
+  createComponentEventUndeclaredError,
+  createContextNotProvidedError,
   createUndefinedParamError,
   createOperationInvalidForTypeError,
   createOperationMissingFieldError,
@@ -307,6 +373,17 @@ export {
   createLocalActionInvalidStepError,
   // Island error factories
   createDuplicateIslandIdError,
+  // Computed error factories
+  createUndefinedComputedError,
+  createComputedCycleError,
+  // Resource error factories
+  createUndefinedResourceError,
+  // Form error factories
+  createUndefinedFormError,
+  createUndefinedFormFieldError,
+  createI18nMissingKeyError,
+  createDuplicateMatchCaseError,
+  createInvalidSyncQueryTypeError,
   // Accessibility error factories
   createA11yImgNoAltError,
   createA11yButtonNoLabelError,
@@ -343,16 +420,34 @@ export {
 // ==================== Global Helper Functions ====================
 export type { CalendarDay } from './helpers/global-functions.js';
 export { callGlobalFunction, GLOBAL_FUNCTIONS, registerGlobalFunction, unregisterGlobalFunction } from './helpers/global-functions.js';
+export { getPersistKey, serializePersistedValue, parsePersistedValue } from './helpers/persist.js';
+export {
+  QUERY_SERIALIZABLE_TYPES,
+  isQuerySerializableType,
+  serializeQueryValue,
+  parseQueryValue,
+} from './helpers/query-sync.js';
+export {
+  LOCALE_STATE,
+  formatMessage,
+  createLocaleStateField,
+  getRouteLocale,
+  resolveMessageCatalogs,
+  createTranslator,
+} from './helpers/i18n.js';
+export { CONTEXT_LOCAL, createContextValues } from './helpers/context.js';
 
 // ==================== Plugin System ====================
 export type { ConstelaPlugin } from './plugin/index.js';
 export { registerPlugin, getRegisteredPlugins, clearPlugins } from './plugin/index.js';
 
 // ==================== Unified Evaluate ====================
-export type { StateReader, EnvironmentAdapter, CoreEvaluationContext } from './evaluate/index.js';
+export type { StateReader, Translator, EnvironmentAdapter, CoreEvaluationContext } from './evaluate/index.js';
 export {
   evaluate,
   evaluateStyle,
+  findMatchCase,
+  normalizeMatchKey,
   SAFE_ARRAY_METHODS,
   SAFE_STRING_METHODS,
   SAFE_MATH_METHODS,
@@ -24,6 +24,19 @@ export const astSchema = {
         $ref: '#/$defs/StateField',
       },
     },
+    computed: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/Expression' },
+    },
+    resources: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/ResourceDefinition' },
+    },
+    forms: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/FormDefinition' },
+    },
+    i18n: { $ref: '#/$defs/I18nConfig' },
     actions: {
       type: 'array',
       items: {
@@ -41,6 +54,14 @@ export const astSchema = {
       type: 'object',
       additionalProperties: { $ref: '#/$defs/ComponentDef' },
     },
+    watch: {
+      type: 'array',
+      items: { $ref: '#/$defs/WatchDefinition' },
+    },
+    globalEvents: {
+      type: 'array',
+      items: { $ref: '#/$defs/GlobalEventHandler' },
+    },
   },
   $defs: {
     // ==================== Expressions ====================
@@ -57,6 +78,11 @@ export const astSchema = {
         { $ref: '#/$defs/IndexExpr' },
         { $ref: '#/$defs/StyleExpr' },
         { $ref: '#/$defs/ValidityExpr' },
+        { $ref: '#/$defs/ComputedExpr' },
+        { $ref: '#/$defs/ResourceExpr' },
+        { $ref: '#/$defs/FormExpr' },
+        { $ref: '#/$defs/TranslateExpr' },
+        { $ref: '#/$defs/ContextExpr' },
       ],
     },
     LitExpr: {
@@ -187,6 +213,60 @@ export const astSchema = {
       },
     },
 
+    ComputedExpr: {
+      type: 'object',
+      required: ['expr', 'name'],
+      additionalProperties: false,
+      properties: {
+        expr: { type: 'string', const: 'computed' },
+        name: { type: 'string' },
+      },
+    },
+    ResourceExpr: {
+      type: 'object',
+      required: ['expr', 'name', 'field'],
+      additionalProperties: false,
+      properties: {
+        expr: { type: 'string', const: 'resource' },
+        name: { type: 'string' },
+        field: { type: 'string', enum: ['data', 'error', 'loading'] },
+      },
+    },
+    FormExpr: {
+      type: 'object',
+      required: ['expr', 'name', 'prop'],
+      additionalProperties: false,
+      properties: {
+        expr: { type: 'string', const: 'form' },
+        name: { type: 'string' },
+        field: { type: 'string' },
+        prop: { type: 'string', enum: ['error', 'touched', 'dirty', 'valid'] },
+      },
+    },
+    TranslateExpr: {
+      type: 'object',
+      required: ['expr', 'key'],
+      additionalProperties: false,
+      properties: {
+        expr: { type: 'string', const: 't' },
+        key: { type: 'string' },
+        params: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
+      },
+    },
+    ContextExpr: {
+      type: 'object',
+      required: ['expr', 'name'],
+      additionalProperties: false,
+      properties: {
+        expr: { type: 'string', const: 'context' },
+        name: { type: 'string' },
+        path: { type: 'string' },
+      },
+    },
+
     // ==================== Style Presets ====================
     StylePreset: {
       type: 'object',
@@ -237,6 +317,8 @@ export const astSchema = {
       properties: {
         type: { type: 'string', const: 'number' },
         initial: { type: 'number' },
+        persist: { $ref: '#/$defs/StatePersist' },
+        syncQuery: { $ref: '#/$defs/StateSyncQuery' },
       },
     },
     StringField: {
@@ -251,6 +333,8 @@ export const astSchema = {
             { $ref: '#/$defs/CookieInitialExpr' },
           ],
         },
+        persist: { $ref: '#/$defs/StatePersist' },
+        syncQuery: { $ref: '#/$defs/StateSyncQuery' },
       },
     },
     CookieInitialExpr: {
@@ -270,6 +354,8 @@ export const astSchema = {
       properties: {
         type: { type: 'string', const: 'list' },
         initial: { type: 'array' },
+        persist: { $ref: '#/$defs/StatePersist' },
+        syncQuery: { $ref: '#/$defs/StateSyncQuery' },
       },
     },
     BooleanField: {
@@ -279,6 +365,8 @@ export const astSchema = {
       properties: {
         type: { type: 'string', const: 'boolean' },
         initial: { type: 'boolean' },
+        persist: { $ref: '#/$defs/StatePersist' },
+        syncQuery: { $ref: '#/$defs/StateSyncQuery' },
       },
     },
     ObjectField: {
@@ -288,6 +376,27 @@ export const astSchema = {
       properties: {
         type: { type: 'string', const: 'object' },
         initial: { type: 'object' },
+        persist: { $ref: '#/$defs/StatePersist' },
+        syncQuery: { $ref: '#/$defs/StateSyncQuery' },
+      },
+    },
+    StatePersist: {
+      type: 'object',
+      required: ['storage'],
+      additionalProperties: false,
+      properties: {
+        storage: { type: 'string', enum: ['local', 'session', 'cookie'] },
+        key: { type: 'string' },
+        version: { type: 'number' },
+      },
+    },
+    StateSyncQuery: {
+      type: 'object',
+      required: ['param', 'mode'],
+      additionalProperties: false,
+      properties: {
+        param: { type: 'string' },
+        mode: { type: 'string', enum: ['push', 'replace'] },
       },
     },
 
@@ -302,6 +411,19 @@ export const astSchema = {
         { $ref: '#/$defs/ClearTimerStep' },
         { $ref: '#/$defs/FocusStep' },
         { $ref: '#/$defs/IfStep' },
+        { $ref: '#/$defs/RunStep' },
+        { $ref: '#/$defs/TryStep' },
+        { $ref: '#/$defs/ThrowStep' },
+        { $ref: '#/$defs/ParallelStep' },
+        { $ref: '#/$defs/ForEachStep' },
+        { $ref: '#/$defs/AbortStep' },
+        { $ref: '#/$defs/InvalidateStep' },
+        { $ref: '#/$defs/WSConnectStep' },
+        { $ref: '#/$defs/RPCStep' },
+        { $ref: '#/$defs/ValidateFormStep' },
+        { $ref: '#/$defs/ResetFormStep' },
+        { $ref: '#/$defs/SubmitFormStep' },
+        { $ref: '#/$defs/EmitStep' },
       ],
     },
     SetStep: {
@@ -339,9 +461,39 @@ export const astSchema = {
         url: { $ref: '#/$defs/Expression' },
         method: {
           type: 'string',
-          enum: ['GET', 'POST', 'PUT', 'DELETE'],
+          enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
         },
         body: { $ref: '#/$defs/Expression' },
+        headers: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
+        credentials: {
+          type: 'string',
+          enum: ['omit', 'same-origin', 'include'],
+        },
+        timeout: { type: 'number', exclusiveMinimum: 0 },
+        responseType: {
+          type: 'string',
+          enum: ['json', 'text', 'blob', 'none'],
+        },
+        concurrency: {
+          type: 'string',
+          enum: ['takeLatest', 'takeFirst', 'queue'],
+        },
+        abortKey: { type: 'string' },
+        retry: {
+          type: 'object',
+          required: ['strategy', 'maxRetries', 'baseDelay'],
+          additionalProperties: false,
+          properties: {
+            strategy: { type: 'string', enum: ['exponential', 'linear', 'none'] },
+            maxRetries: { type: 'number', minimum: 0 },
+            baseDelay: { type: 'number', minimum: 0 },
+            maxDelay: { type: 'number', minimum: 0 },
+            retryOn: { type: 'array', items: { type: 'number' } },
+          },
+        },
         result: { type: 'string' },
         onSuccess: {
           type: 'array',
@@ -425,6 +577,212 @@ export const astSchema = {
         },
       },
     },
+    RunStep: {
+      type: 'object',
+      required: ['do', 'action'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'run' },
+        action: { type: 'string' },
+        payload: { $ref: '#/$defs/Expression' },
+        result: { type: 'string' },
+      },
+    },
+    TryStep: {
+      type: 'object',
+      required: ['do', 'steps'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'try' },
+        steps: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        catch: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        finally: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+      },
+    },
+    ThrowStep: {
+      type: 'object',
+      required: ['do', 'message'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'throw' },
+        message: { $ref: '#/$defs/Expression' },
+      },
+    },
+    ParallelStep: {
+      type: 'object',
+      required: ['do', 'branches'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'parallel' },
+        branches: {
+          type: 'array',
+          items: {
+            type: 'array',
+            items: { $ref: '#/$defs/ActionStep' },
+          },
+        },
+        onSuccess: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onError: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+      },
+    },
+    ForEachStep: {
+      type: 'object',
+      required: ['do', 'items', 'as', 'steps'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'forEach' },
+        items: { $ref: '#/$defs/Expression' },
+        as: { type: 'string' },
+        index: { type: 'string' },
+        steps: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        concurrency: { type: 'integer', minimum: 1 },
+      },
+    },
+    AbortStep: {
+      type: 'object',
+      required: ['do', 'key'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'abort' },
+        key: { type: 'string' },
+      },
+    },
+    InvalidateStep: {
+      type: 'object',
+      required: ['do', 'resource'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'invalidate' },
+        resource: { type: 'string' },
+      },
+    },
+    WSConnectStep: {
+      type: 'object',
+      required: ['do', 'connection', 'url'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'wsConnect' },
+        connection: { type: 'string' },
+        url: { $ref: '#/$defs/Expression' },
+        protocols: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+        reconnect: {
+          type: 'object',
+          required: ['enabled', 'strategy', 'maxRetries', 'baseDelay'],
+          additionalProperties: false,
+          properties: {
+            enabled: { type: 'boolean' },
+            strategy: { type: 'string', enum: ['exponential', 'linear', 'none'] },
+            maxRetries: { type: 'number', minimum: 0 },
+            baseDelay: { type: 'number', minimum: 0 },
+            maxDelay: { type: 'number', minimum: 0 },
+          },
+        },
+        onOpen: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onMessage: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onClose: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onError: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+      },
+    },
+    RPCStep: {
+      type: 'object',
+      required: ['do', 'connection', 'method'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'rpc' },
+        connection: { type: 'string' },
+        method: { type: 'string' },
+        params: { $ref: '#/$defs/Expression' },
+        result: { type: 'string' },
+        timeout: { type: 'number', exclusiveMinimum: 0 },
+        onSuccess: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onError: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+      },
+    },
+    ValidateFormStep: {
+      type: 'object',
+      required: ['do', 'form'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'validateForm' },
+        form: { type: 'string' },
+        field: { type: 'string' },
+      },
+    },
+    ResetFormStep: {
+      type: 'object',
+      required: ['do', 'form'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'resetForm' },
+        form: { type: 'string' },
+      },
+    },
+    SubmitFormStep: {
+      type: 'object',
+      required: ['do', 'form'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'submitForm' },
+        form: { type: 'string' },
+        onSuccess: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+        onError: {
+          type: 'array',
+          items: { $ref: '#/$defs/ActionStep' },
+        },
+      },
+    },
+    EmitStep: {
+      type: 'object',
+      required: ['do', 'event'],
+      additionalProperties: false,
+      properties: {
+        do: { type: 'string', const: 'emit' },
+        event: { type: 'string' },
+        payload: { $ref: '#/$defs/Expression' },
+      },
+    },
 
     // ==================== Event Handler ====================
     EventHandler: {
@@ -438,6 +796,32 @@ export const astSchema = {
         debounce: { type: 'number' },
         throttle: { type: 'number' },
         options: { $ref: '#/$defs/EventHandlerOptions' },
+        modifiers: {
+          type: 'array',
+          items: { type: 'string', enum: ['prevent', 'stop', 'self', 'capture', 'passive', 'once'] },
+        },
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+      },
+    },
+    GlobalEventHandler: {
+      type: 'object',
+      required: ['target', 'event', 'action'],
+      additionalProperties: false,
+      properties: {
+        target: { type: 'string', enum: ['window', 'document'] },
+        event: { type: 'string' },
+        action: { type: 'string' },
+        modifiers: {
+          type: 'array',
+          items: { type: 'string', enum: ['prevent', 'stop', 'self', 'capture', 'passive', 'once'] },
+        },
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+        },
       },
     },
     EventHandlerOptions: {
@@ -464,12 +848,133 @@ export const astSchema = {
       },
     },
 
+    // ==================== Resources ====================
+    ResourceDefinition: {
+      type: 'object',
+      required: ['url'],
+      additionalProperties: false,
+      properties: {
+        url: { $ref: '#/$defs/Expression' },
+        refreshInterval: { type: 'number', minimum: 0 },
+        staleTime: { type: 'number', minimum: 0 },
+        dedupe: { type: 'boolean' },
+      },
+    },
+
+    // ==================== Forms ====================
+    FormDefinition: {
+      type: 'object',
+      required: ['fields'],
+      additionalProperties: false,
+      properties: {
+        fields: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/FormFieldDefinition' },
+        },
+        messages: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            required: { type: 'string' },
+            min: { type: 'string' },
+            max: { type: 'string' },
+            pattern: { type: 'string' },
+            equals: { type: 'string' },
+            custom: { type: 'string' },
+            async: { type: 'string' },
+          },
+        },
+      },
+    },
+    FormFieldDefinition: {
+      type: 'object',
+      required: ['target'],
+      additionalProperties: false,
+      properties: {
+        target: { type: 'string' },
+        path: { type: 'string' },
+        rules: {
+          type: 'array',
+          items: { $ref: '#/$defs/FormRule' },
+        },
+      },
+    },
+    FormRule: {
+      type: 'object',
+      required: ['type'],
+      additionalProperties: false,
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['required', 'min', 'max', 'pattern', 'equals', 'custom', 'async'],
+        },
+        value: {
+          oneOf: [
+            { type: 'number' },
+            { type: 'string' },
+          ],
+        },
+        field: { type: 'string' },
+        expr: { $ref: '#/$defs/Expression' },
+        url: { $ref: '#/$defs/Expression' },
+        message: { type: 'string' },
+      },
+    },
+
+    // ==================== Internationalization ====================
+    I18nConfig: {
+      type: 'object',
+      required: ['defaultLocale', 'messages'],
+      additionalProperties: false,
+      properties: {
+        defaultLocale: { type: 'string' },
+        messages: {
+          type: 'object',
+          additionalProperties: {
+            anyOf: [
+              {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+              },
+              {
+                type: 'object',
+                required: ['expr', 'name'],
+                additionalProperties: false,
+                properties: {
+                  expr: { type: 'string', const: 'import' },
+                  name: { type: 'string' },
+                  path: { type: 'string' },
+                },
+              },
+            ],
+          },
+        },
+        localeParam: { type: 'string' },
+        localeCookie: { type: 'string' },
+      },
+    },
+
+    // ==================== Watch ====================
+    WatchDefinition: {
+      type: 'object',
+      required: ['target', 'action'],
+      additionalProperties: false,
+      properties: {
+        target: { type: 'string' },
+        path: { type: 'string' },
+        action: { type: 'string' },
+        debounce: { type: 'number', minimum: 0 },
+        immediate: { type: 'boolean' },
+      },
+    },
+
     // ==================== View Nodes ====================
     ViewNode: {
       oneOf: [
         { $ref: '#/$defs/ElementNode' },
         { $ref: '#/$defs/TextNode' },
         { $ref: '#/$defs/IfNode' },
+        { $ref: '#/$defs/MatchNode' },
         { $ref: '#/$defs/EachNode' },
         { $ref: '#/$defs/ComponentNode' },
         { $ref: '#/$defs/SlotNode' },
@@ -494,12 +999,27 @@ export const astSchema = {
             ],
           },
         },
+        model: { $ref: '#/$defs/ModelBinding' },
+        provide: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
+        slot: { type: 'string' },
         children: {
           type: 'array',
           items: { $ref: '#/$defs/ViewNode' },
         },
       },
     },
+    ModelBinding: {
+      type: 'object',
+      required: ['target'],
+      additionalProperties: false,
+      properties: {
+        target: { type: 'string' },
+        path: { type: 'string' },
+      },
+    },
     TextNode: {
       type: 'object',
       required: ['kind', 'value'],
@@ -520,6 +1040,20 @@ export const astSchema = {
         else: { $ref: '#/$defs/ViewNode' },
       },
     },
+    MatchNode: {
+      type: 'object',
+      required: ['kind', 'value', 'cases'],
+      additionalProperties: false,
+      properties: {
+        kind: { type: 'string', const: 'match' },
+        value: { $ref: '#/$defs/Expression' },
+        cases: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/ViewNode' },
+        },
+        default: { $ref: '#/$defs/ViewNode' },
+      },
+    },
     EachNode: {
       type: 'object',
       required: ['kind', 'items', 'as', 'body'],
@@ -544,6 +1078,16 @@ export const astSchema = {
           type: 'object',
           additionalProperties: { $ref: '#/$defs/Expression' },
         },
+        on: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/EventHandler' },
+        },
+        provide: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
+        slotProps: { type: 'string' },
+        slot: { type: 'string' },
         children: {
           type: 'array',
           items: { $ref: '#/$defs/ViewNode' },
@@ -556,6 +1100,11 @@ export const astSchema = {
       additionalProperties: false,
       properties: {
         kind: { type: 'string', const: 'slot' },
+        name: { type: 'string' },
+        props: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
       },
     },
     MarkdownNode: {
@@ -613,6 +1162,26 @@ export const astSchema = {
           type: 'object',
           additionalProperties: { $ref: '#/$defs/ParamDef' },
         },
+        emits: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+        computed: {
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/Expression' },
+        },
+        watch: {
+          type: 'array',
+          items: { $ref: '#/$defs/WatchDefinition' },
+        },
+        lifecycle: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            onMount: { type: 'string' },
+            onUnmount: { type: 'string' },
+          },
+        },
         view: { $ref: '#/$defs/ViewNode' },
       },
     },
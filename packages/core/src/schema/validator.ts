@@ -14,8 +14,8 @@ import {
   createUnsupportedVersionError,
   findSimilarNames,
 } from '../types/error.js';
-import type { Program } from '../types/ast.js';
-import { BINARY_OPERATORS, UPDATE_OPERATIONS, HTTP_METHODS, ISLAND_STRATEGIES } from '../types/ast.js';
+import type { Program, PersistStorageType, SyncQueryMode } from '../types/ast.js';
+import { BINARY_OPERATORS, UPDATE_OPERATIONS, HTTP_METHODS, FETCH_CREDENTIALS, FETCH_RESPONSE_TYPES, FETCH_CONCURRENCY_POLICIES, RESOURCE_FIELDS, FORM_RULE_TYPES, FORM_PROPS, EVENT_MODIFIERS, GLOBAL_EVENT_TARGETS, ISLAND_STRATEGIES, PERSIST_STORAGE_TYPES, SYNC_QUERY_MODES } from '../types/ast.js';
 
 // ==================== Result Types ====================
 
@@ -39,15 +39,24 @@ function isObject(value: unknown): value is Record<string, unknown> {
 
 // ==================== Recursive Validation ====================
 
-const VALID_VIEW_KINDS = ['element', 'text', 'if', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island'];
-const VALID_EXPR_TYPES = ['lit', 'state', 'local', 'var', 'bin', 'not', 'param', 'cond', 'get', 'style', 'validity', 'index', 'call', 'lambda', 'array', 'concat', 'obj'];
+const VALID_VIEW_KINDS = ['element', 'text', 'if', 'match', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island'];
+const VALID_EXPR_TYPES = ['lit', 'state', 'local', 'var', 'bin', 'not', 'param', 'cond', 'get', 'style', 'validity', 'index', 'call', 'lambda', 'array', 'concat', 'obj', 'computed', 'resource', 'form', 't', 'context'];
 const VALID_PARAM_TYPES = ['string', 'number', 'boolean', 'json'];
-const VALID_ACTION_TYPES = ['set', 'update', 'setPath', 'fetch', 'delay', 'interval', 'clearTimer', 'focus', 'if', 'storage', 'dom', 'sseConnect', 'sseClose', 'optimistic', 'confirm', 'reject'];
+const VALID_MODEL_TAGS = ['input', 'textarea', 'select'];
+const VALID_ACTION_TYPES = ['set', 'update', 'setPath', 'fetch', 'delay', 'interval', 'clearTimer', 'focus', 'if', 'run', 'try', 'throw', 'parallel', 'forEach', 'abort', 'invalidate', 'validateForm', 'resetForm', 'submitForm', 'storage', 'dom', 'wsConnect', 'rpc', 'sseConnect', 'sseClose', 'optimistic', 'confirm', 'reject'];
 const VALID_STATE_TYPES = ['number', 'string', 'list', 'boolean', 'object'];
 // Use constants from ast.ts to avoid duplication
 const VALID_BIN_OPS: readonly string[] = BINARY_OPERATORS;
 const VALID_UPDATE_OPS: readonly string[] = UPDATE_OPERATIONS;
 const VALID_HTTP_METHODS: readonly string[] = HTTP_METHODS;
+const VALID_FETCH_CREDENTIALS: readonly string[] = FETCH_CREDENTIALS;
+const VALID_FETCH_RESPONSE_TYPES: readonly string[] = FETCH_RESPONSE_TYPES;
+const VALID_FETCH_CONCURRENCY_POLICIES: readonly string[] = FETCH_CONCURRENCY_POLICIES;
+const VALID_RESOURCE_FIELDS: readonly string[] = RESOURCE_FIELDS;
+const VALID_FORM_RULE_TYPES: readonly string[] = FORM_RULE_TYPES;
+const VALID_FORM_PROPS: readonly string[] = FORM_PROPS;
+const VALID_EVENT_MODIFIERS: readonly string[] = EVENT_MODIFIERS;
+const VALID_GLOBAL_EVENT_TARGETS: readonly string[] = GLOBAL_EVENT_TARGETS;
 
 interface ValidationError {
   path: string;
@@ -78,6 +87,52 @@ function validateTransitionDirective(
   return null;
 }
 
+/**
+ * Validates the modifiers and key filters of an EventHandler
+ */
+function validateEventHandler(
+  handler: Record<string, unknown>,
+  path: string
+): ValidationError | null {
+  if ('modifiers' in handler) {
+    if (!Array.isArray(handler['modifiers'])) {
+      return { path: path + '/modifiers', message: 'modifiers must be an array' };
+    }
+    for (let i = 0; i < handler['modifiers'].length; i++) {
+      if (!VALID_EVENT_MODIFIERS.includes(handler['modifiers'][i] as string)) {
+        return { path: path + '/modifiers/' + i, message: 'must be one of: ' + VALID_EVENT_MODIFIERS.join(', ') };
+      }
+    }
+  }
+  if ('keys' in handler) {
+    if (!Array.isArray(handler['keys'])) {
+      return { path: path + '/keys', message: 'keys must be an array' };
+    }
+    for (let i = 0; i < handler['keys'].length; i++) {
+      const key = handler['keys'][i];
+      // Every part of a combo like 'ctrl+k' must be non-empty
+      if (typeof key !== 'string' || key.split('+').some((part) => part === '')) {
+        return { path: path + '/keys/' + i, message: 'must be a key name or a combo like ctrl+k' };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the context values provided by an element or component node
+ */
+function validateProvide(provide: unknown, path: string): ValidationError | null {
+  if (!isObject(provide)) {
+    return { path, message: 'provide must be an object' };
+  }
+  for (const [name, valueExpr] of Object.entries(provide)) {
+    const error = validateExpression(valueExpr, path + '/' + name);
+    if (error) return error;
+  }
+  return null;
+}
+
 /**
  * Validates a ViewNode and returns the first error found
  */
@@ -106,13 +161,38 @@ function validateViewNode(node: unknown, path: string): ValidationError | null {
         for (const [propName, propValue] of Object.entries(node['props'])) {
           // Props can be Expression or EventHandler
           if (isObject(propValue) && 'event' in propValue) {
-            // EventHandler - skip for now
+            const error = validateEventHandler(propValue, path + '/props/' + propName);
+            if (error) return error;
           } else {
             const error = validateExpression(propValue, path + '/props/' + propName);
             if (error) return error;
           }
         }
       }
+      // Check provided context values
+      if ('provide' in node) {
+        const error = validateProvide(node['provide'], path + '/provide');
+        if (error) return error;
+      }
+      if ('slot' in node && typeof node['slot'] !== 'string') {
+        return { path: path + '/slot', message: 'slot must be a string' };
+      }
+      // Check model binding
+      if ('model' in node) {
+        const model = node['model'];
+        if (!isObject(model)) {
+          return { path: path + '/model', message: 'model must be an object' };
+        }
+        if (!VALID_MODEL_TAGS.includes(node['tag'])) {
+          return { path: path + '/model', message: 'model is only supported on ' + VALID_MODEL_TAGS.join(', ') };
+        }
+        if (typeof model['target'] !== 'string') {
+          return { path: path + '/model/target', message: 'target is required' };
+        }
+        if ('path' in model && (typeof model['path'] !== 'string' || model['path'] === '')) {
+          return { path: path + '/model/path', message: 'path must be a non-empty string' };
+        }
+      }
       // Check children
       if (Array.isArray(node['children'])) {
         for (let i = 0; i < node['children'].length; i++) {
@@ -151,6 +231,31 @@ function validateViewNode(node: unknown, path: string): ValidationError | null {
       }
       break;
 
+    case 'match':
+      if (!('value' in node)) {
+        return { path: path + '/value', message: 'value is required' };
+      }
+      if (!isObject(node['cases'])) {
+        return { path: path + '/cases', message: 'cases is required' };
+      }
+      {
+        const valueError = validateExpression(node['value'], path + '/value');
+        if (valueError) return valueError;
+        if ('transition' in node) {
+          const transError = validateTransitionDirective(node['transition'], path + '/transition');
+          if (transError) return transError;
+        }
+        for (const [caseKey, caseNode] of Object.entries(node['cases'])) {
+          const caseError = validateViewNode(caseNode, path + '/cases/' + caseKey);
+          if (caseError) return caseError;
+        }
+        if ('default' in node) {
+          const defaultError = validateViewNode(node['default'], path + '/default');
+          if (defaultError) return defaultError;
+        }
+      }
+      break;
+
     case 'each':
       if (!('items' in node)) {
         return { path: path + '/items', message: 'items is required' };
@@ -182,13 +287,39 @@ function validateViewNode(node: unknown, path: string): ValidationError | null {
         for (const [propName, propValue] of Object.entries(node['props'])) {
           // Props can be Expression or EventHandler
           if (isObject(propValue) && 'event' in propValue) {
-            // EventHandler - skip for now
+            const error = validateEventHandler(propValue, path + '/props/' + propName);
+            if (error) return error;
           } else {
             const error = validateExpression(propValue, path + '/props/' + propName);
             if (error) return error;
           }
         }
       }
+      // Check provided context values
+      if ('provide' in node) {
+        const error = validateProvide(node['provide'], path + '/provide');
+        if (error) return error;
+      }
+      if ('slot' in node && typeof node['slot'] !== 'string') {
+        return { path: path + '/slot', message: 'slot must be a string' };
+      }
+      if ('slotProps' in node && typeof node['slotProps'] !== 'string') {
+        return { path: path + '/slotProps', message: 'slotProps must be a string' };
+      }
+      // Check handlers for emitted events
+      if ('on' in node) {
+        if (!isObject(node['on'])) {
+          return { path: path + '/on', message: 'on must be an object' };
+        }
+        for (const [eventName, handler] of Object.entries(node['on'])) {
+          const handlerPath = path + '/on/' + eventName;
+          if (!isObject(handler) || typeof handler['action'] !== 'string') {
+            return { path: handlerPath + '/action', message: 'action is required' };
+          }
+          const error = validateEventHandler(handler, handlerPath);
+          if (error) return error;
+        }
+      }
       // Check children
       if (Array.isArray(node['children'])) {
         for (let i = 0; i < node['children'].length; i++) {
@@ -200,6 +331,18 @@ function validateViewNode(node: unknown, path: string): ValidationError | null {
 
     case 'slot':
       // Slot has no required fields, it's just a placeholder
+      if ('name' in node && typeof node['name'] !== 'string') {
+        return { path: path + '/name', message: 'name must be a string' };
+      }
+      if ('props' in node) {
+        if (!isObject(node['props'])) {
+          return { path: path + '/props', message: 'props must be an object' };
+        }
+        for (const [propName, propValue] of Object.entries(node['props'])) {
+          const error = validateExpression(propValue, path + '/props/' + propName);
+          if (error) return error;
+        }
+      }
       break;
 
     case 'markdown':
@@ -356,11 +499,57 @@ function validateExpression(expr: unknown, path: string): ValidationError | null
     case 'state':
     case 'local':
     case 'var':
+    case 'computed':
       if (typeof expr['name'] !== 'string') {
         return { path: path + '/name', message: 'name is required' };
       }
       break;
 
+    case 'resource':
+      if (typeof expr['name'] !== 'string') {
+        return { path: path + '/name', message: 'name is required' };
+      }
+      if (!VALID_RESOURCE_FIELDS.includes(expr['field'] as string)) {
+        return { path: path + '/field', message: 'must be one of: ' + VALID_RESOURCE_FIELDS.join(', ') };
+      }
+      break;
+
+    case 'form':
+      if (typeof expr['name'] !== 'string') {
+        return { path: path + '/name', message: 'name is required' };
+      }
+      if ('field' in expr && typeof expr['field'] !== 'string') {
+        return { path: path + '/field', message: 'field must be a string' };
+      }
+      if (!VALID_FORM_PROPS.includes(expr['prop'] as string)) {
+        return { path: path + '/prop', message: 'must be one of: ' + VALID_FORM_PROPS.join(', ') };
+      }
+      break;
+
+    case 'context':
+      if (typeof expr['name'] !== 'string') {
+        return { path: path + '/name', message: 'name is required' };
+      }
+      if ('path' in expr && typeof expr['path'] !== 'string') {
+        return { path: path + '/path', message: 'path must be a string' };
+      }
+      break;
+
+    case 't':
+      if (typeof expr['key'] !== 'string') {
+        return { path: path + '/key', message: 'key is required' };
+      }
+      if ('params' in expr) {
+        if (!isObject(expr['params'])) {
+          return { path: path + '/params', message: 'params must be an object' };
+        }
+        for (const [name, paramExpr] of Object.entries(expr['params'])) {
+          const error = validateExpression(paramExpr, path + '/params/' + name);
+          if (error) return error;
+        }
+      }
+      break;
+
     case 'bin':
       if (!('op' in expr)) {
         return { path: path + '/op', message: 'op is required' };
@@ -548,6 +737,53 @@ function validateExpression(expr: unknown, path: string): ValidationError | null
   return null;
 }
 
+/**
+ * Validates the backoff fields shared by fetch retries and reconnect configs
+ */
+function validateBackoff(config: Record<string, unknown>, path: string): ValidationError | null {
+  if (!['exponential', 'linear', 'none'].includes(config['strategy'] as string)) {
+    return { path: path + '/strategy', message: 'must be one of: exponential, linear, none' };
+  }
+  for (const key of ['maxRetries', 'baseDelay', 'maxDelay']) {
+    if (key === 'maxDelay' && !('maxDelay' in config)) continue;
+    if (typeof config[key] !== 'number' || (config[key] as number) < 0) {
+      return { path: path + '/' + key, message: `${key} must be a non-negative number` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the reconnect configuration of a connect step
+ */
+function validateReconnect(reconnect: unknown, path: string): ValidationError | null {
+  if (!isObject(reconnect)) {
+    return { path, message: 'reconnect must be an object' };
+  }
+  if (typeof reconnect['enabled'] !== 'boolean') {
+    return { path: path + '/enabled', message: 'enabled must be a boolean' };
+  }
+  return validateBackoff(reconnect, path);
+}
+
+/**
+ * Validates the retry configuration of a fetch step
+ */
+function validateFetchRetry(retry: unknown, path: string): ValidationError | null {
+  if (!isObject(retry)) {
+    return { path, message: 'retry must be an object' };
+  }
+  const backoffError = validateBackoff(retry, path);
+  if (backoffError) return backoffError;
+  if ('retryOn' in retry) {
+    const retryOn = retry['retryOn'];
+    if (!Array.isArray(retryOn) || !retryOn.every((status) => Number.isInteger(status))) {
+      return { path: path + '/retryOn', message: 'retryOn must be an array of HTTP status codes' };
+    }
+  }
+  return null;
+}
+
 /**
  * Validates an ActionStep and returns the first error found
  */
@@ -623,6 +859,109 @@ function validateActionStep(step: unknown, path: string): ValidationError | null
         const bodyError = validateExpression(step['body'], path + '/body');
         if (bodyError) return bodyError;
       }
+      if ('headers' in step) {
+        if (!isObject(step['headers'])) {
+          return { path: path + '/headers', message: 'headers must be an object' };
+        }
+        for (const [headerName, headerValue] of Object.entries(step['headers'])) {
+          const headerError = validateExpression(headerValue, path + '/headers/' + headerName);
+          if (headerError) return headerError;
+        }
+      }
+      if ('credentials' in step && !VALID_FETCH_CREDENTIALS.includes(step['credentials'] as string)) {
+        return { path: path + '/credentials', message: `must be one of: ${VALID_FETCH_CREDENTIALS.join(', ')}` };
+      }
+      if ('timeout' in step && (typeof step['timeout'] !== 'number' || step['timeout'] <= 0)) {
+        return { path: path + '/timeout', message: 'timeout must be a positive number' };
+      }
+      if ('responseType' in step && !VALID_FETCH_RESPONSE_TYPES.includes(step['responseType'] as string)) {
+        return { path: path + '/responseType', message: `must be one of: ${VALID_FETCH_RESPONSE_TYPES.join(', ')}` };
+      }
+      if ('concurrency' in step && !VALID_FETCH_CONCURRENCY_POLICIES.includes(step['concurrency'] as string)) {
+        return { path: path + '/concurrency', message: `must be one of: ${VALID_FETCH_CONCURRENCY_POLICIES.join(', ')}` };
+      }
+      if ('abortKey' in step && typeof step['abortKey'] !== 'string') {
+        return { path: path + '/abortKey', message: 'abortKey must be a string' };
+      }
+      if ('retry' in step) {
+        const retryError = validateFetchRetry(step['retry'], path + '/retry');
+        if (retryError) return retryError;
+      }
+      break;
+
+    case 'abort':
+      if (typeof step['key'] !== 'string') {
+        return { path: path + '/key', message: 'key is required' };
+      }
+      break;
+
+    case 'invalidate':
+      if (typeof step['resource'] !== 'string') {
+        return { path: path + '/resource', message: 'resource is required' };
+      }
+      break;
+
+    case 'validateForm':
+    case 'resetForm':
+    case 'submitForm':
+      if (typeof step['form'] !== 'string') {
+        return { path: path + '/form', message: 'form is required' };
+      }
+      if (step['do'] === 'validateForm' && 'field' in step && typeof step['field'] !== 'string') {
+        return { path: path + '/field', message: 'field must be a string' };
+      }
+      if (step['do'] === 'submitForm') {
+        for (const key of ['onSuccess', 'onError']) {
+          if (!(key in step)) continue;
+          const nestedSteps = step[key];
+          if (!Array.isArray(nestedSteps)) {
+            return { path: path + '/' + key, message: `${key} must be an array` };
+          }
+          for (let i = 0; i < nestedSteps.length; i++) {
+            const nestedError = validateActionStep(nestedSteps[i], path + '/' + key + '/' + i);
+            if (nestedError) return nestedError;
+          }
+        }
+      }
+      break;
+
+    case 'wsConnect':
+      if (typeof step['connection'] !== 'string') {
+        return { path: path + '/connection', message: 'connection is required' };
+      }
+      if (!('url' in step)) {
+        return { path: path + '/url', message: 'url is required' };
+      }
+      {
+        const urlError = validateExpression(step['url'], path + '/url');
+        if (urlError) return urlError;
+      }
+      if ('protocols' in step) {
+        const protocols = step['protocols'];
+        if (!Array.isArray(protocols) || !protocols.every((protocol) => typeof protocol === 'string')) {
+          return { path: path + '/protocols', message: 'protocols must be an array of strings' };
+        }
+      }
+      if ('reconnect' in step) {
+        const reconnectError = validateReconnect(step['reconnect'], path + '/reconnect');
+        if (reconnectError) return reconnectError;
+      }
+      break;
+
+    case 'rpc':
+      if (typeof step['connection'] !== 'string') {
+        return { path: path + '/connection', message: 'connection is required' };
+      }
+      if (typeof step['method'] !== 'string') {
+        return { path: path + '/method', message: 'method is required' };
+      }
+      if ('params' in step) {
+        const paramsError = validateExpression(step['params'], path + '/params');
+        if (paramsError) return paramsError;
+      }
+      if ('timeout' in step && (typeof step['timeout'] !== 'number' || step['timeout'] <= 0)) {
+        return { path: path + '/timeout', message: 'timeout must be a positive number' };
+      }
       break;
 
     case 'delay':
@@ -702,6 +1041,97 @@ function validateActionStep(step: unknown, path: string): ValidationError | null
       }
       break;
 
+    case 'run':
+      if (typeof step['action'] !== 'string') {
+        return { path: path + '/action', message: 'action is required' };
+      }
+      if ('result' in step && typeof step['result'] !== 'string') {
+        return { path: path + '/result', message: 'result must be a string' };
+      }
+      if ('payload' in step) {
+        return validateExpression(step['payload'], path + '/payload');
+      }
+      break;
+
+    case 'try':
+      if (!('steps' in step)) {
+        return { path: path + '/steps', message: 'steps is required' };
+      }
+      for (const key of ['steps', 'catch', 'finally']) {
+        if (!(key in step)) continue;
+        const nestedSteps = step[key];
+        if (!Array.isArray(nestedSteps)) {
+          return { path: path + '/' + key, message: `${key} must be an array` };
+        }
+        for (let i = 0; i < nestedSteps.length; i++) {
+          const nestedError = validateActionStep(nestedSteps[i], path + '/' + key + '/' + i);
+          if (nestedError) return nestedError;
+        }
+      }
+      break;
+
+    case 'throw':
+      if (!('message' in step)) {
+        return { path: path + '/message', message: 'message is required' };
+      }
+      return validateExpression(step['message'], path + '/message');
+
+    case 'parallel':
+      if (!Array.isArray(step['branches'])) {
+        return { path: path + '/branches', message: 'branches must be an array' };
+      }
+      for (let i = 0; i < step['branches'].length; i++) {
+        const branch: unknown = step['branches'][i];
+        if (!Array.isArray(branch)) {
+          return { path: path + '/branches/' + i, message: 'branch must be an array of steps' };
+        }
+        for (let j = 0; j < branch.length; j++) {
+          const branchError = validateActionStep(branch[j], path + '/branches/' + i + '/' + j);
+          if (branchError) return branchError;
+        }
+      }
+      for (const key of ['onSuccess', 'onError']) {
+        if (!(key in step)) continue;
+        const nestedSteps = step[key];
+        if (!Array.isArray(nestedSteps)) {
+          return { path: path + '/' + key, message: `${key} must be an array` };
+        }
+        for (let i = 0; i < nestedSteps.length; i++) {
+          const nestedError = validateActionStep(nestedSteps[i], path + '/' + key + '/' + i);
+          if (nestedError) return nestedError;
+        }
+      }
+      break;
+
+    case 'forEach':
+      if (!('items' in step)) {
+        return { path: path + '/items', message: 'items is required' };
+      }
+      if (typeof step['as'] !== 'string') {
+        return { path: path + '/as', message: 'as is required' };
+      }
+      if ('index' in step && typeof step['index'] !== 'string') {
+        return { path: path + '/index', message: 'index must be a string' };
+      }
+      if (!Array.isArray(step['steps'])) {
+        return { path: path + '/steps', message: 'steps must be an array' };
+      }
+      if (
+        'concurrency' in step &&
+        (typeof step['concurrency'] !== 'number' || !Number.isInteger(step['concurrency']) || step['concurrency'] < 1)
+      ) {
+        return { path: path + '/concurrency', message: 'concurrency must be a positive integer' };
+      }
+      {
+        const itemsError = validateExpression(step['items'], path + '/items');
+        if (itemsError) return itemsError;
+        for (let i = 0; i < step['steps'].length; i++) {
+          const nestedError = validateActionStep(step['steps'][i], path + '/steps/' + i);
+          if (nestedError) return nestedError;
+        }
+      }
+      break;
+
     case 'storage':
       if (!('operation' in step)) {
         return { path: path + '/operation', message: 'operation is required' };
@@ -817,6 +1247,35 @@ function validateStateField(field: unknown, path: string): ValidationError | nul
       break;
   }
 
+  if ('persist' in field) {
+    const persist = field['persist'];
+    if (!isObject(persist)) {
+      return { path: path + '/persist', message: 'must be an object' };
+    }
+    if (!PERSIST_STORAGE_TYPES.includes(persist['storage'] as PersistStorageType)) {
+      return { path: path + '/persist/storage', message: 'must be one of: ' + PERSIST_STORAGE_TYPES.join(', ') };
+    }
+    if ('key' in persist && (typeof persist['key'] !== 'string' || persist['key'] === '')) {
+      return { path: path + '/persist/key', message: 'key must be a non-empty string' };
+    }
+    if ('version' in persist && (typeof persist['version'] !== 'number' || !Number.isInteger(persist['version']))) {
+      return { path: path + '/persist/version', message: 'version must be an integer' };
+    }
+  }
+
+  if ('syncQuery' in field) {
+    const syncQuery = field['syncQuery'];
+    if (!isObject(syncQuery)) {
+      return { path: path + '/syncQuery', message: 'must be an object' };
+    }
+    if (typeof syncQuery['param'] !== 'string' || syncQuery['param'] === '') {
+      return { path: path + '/syncQuery/param', message: 'param must be a non-empty string' };
+    }
+    if (!SYNC_QUERY_MODES.includes(syncQuery['mode'] as SyncQueryMode)) {
+      return { path: path + '/syncQuery/mode', message: 'must be one of: ' + SYNC_QUERY_MODES.join(', ') };
+    }
+  }
+
   return null;
 }
 
@@ -845,6 +1304,249 @@ function validateParamDef(param: unknown, path: string): ValidationError | null
   return null;
 }
 
+/**
+ * Validates a watch array and returns the first error found
+ */
+function validateWatchDefinitions(watch: unknown, path: string): ValidationError | null {
+  if (!Array.isArray(watch)) {
+    return { path, message: 'watch must be an array' };
+  }
+
+  for (let i = 0; i < watch.length; i++) {
+    const entry = watch[i];
+    const entryPath = path + '/' + i;
+    if (!isObject(entry)) {
+      return { path: entryPath, message: 'must be an object' };
+    }
+    if (typeof entry['target'] !== 'string') {
+      return { path: entryPath + '/target', message: 'target is required' };
+    }
+    if (typeof entry['action'] !== 'string') {
+      return { path: entryPath + '/action', message: 'action is required' };
+    }
+    if ('path' in entry && (typeof entry['path'] !== 'string' || entry['path'] === '')) {
+      return { path: entryPath + '/path', message: 'path must be a non-empty string' };
+    }
+    if ('debounce' in entry && (typeof entry['debounce'] !== 'number' || entry['debounce'] < 0)) {
+      return { path: entryPath + '/debounce', message: 'debounce must be a non-negative number' };
+    }
+    if ('immediate' in entry && typeof entry['immediate'] !== 'boolean') {
+      return { path: entryPath + '/immediate', message: 'immediate must be a boolean' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates a globalEvents array and returns the first error found
+ */
+function validateGlobalEvents(globalEvents: unknown, path: string): ValidationError | null {
+  if (!Array.isArray(globalEvents)) {
+    return { path, message: 'globalEvents must be an array' };
+  }
+
+  for (let i = 0; i < globalEvents.length; i++) {
+    const entry = globalEvents[i];
+    const entryPath = path + '/' + i;
+    if (!isObject(entry)) {
+      return { path: entryPath, message: 'must be an object' };
+    }
+    if (!VALID_GLOBAL_EVENT_TARGETS.includes(entry['target'] as string)) {
+      return { path: entryPath + '/target', message: 'must be one of: ' + VALID_GLOBAL_EVENT_TARGETS.join(', ') };
+    }
+    if (typeof entry['event'] !== 'string') {
+      return { path: entryPath + '/event', message: 'event is required' };
+    }
+    if (typeof entry['action'] !== 'string') {
+      return { path: entryPath + '/action', message: 'action is required' };
+    }
+    const error = validateEventHandler(entry, entryPath);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a form rule and returns the first error found
+ */
+function validateFormRule(rule: unknown, path: string): ValidationError | null {
+  if (!isObject(rule)) {
+    return { path, message: 'must be an object' };
+  }
+  if (!VALID_FORM_RULE_TYPES.includes(rule['type'] as string)) {
+    return { path: path + '/type', message: 'must be one of: ' + VALID_FORM_RULE_TYPES.join(', ') };
+  }
+  if ('message' in rule && typeof rule['message'] !== 'string') {
+    return { path: path + '/message', message: 'message must be a string' };
+  }
+
+  switch (rule['type']) {
+    case 'min':
+    case 'max':
+      if (typeof rule['value'] !== 'number') {
+        return { path: path + '/value', message: 'value must be a number' };
+      }
+      break;
+    case 'pattern':
+      if (typeof rule['value'] !== 'string') {
+        return { path: path + '/value', message: 'value must be a string' };
+      }
+      try {
+        new RegExp(rule['value']);
+      } catch {
+        return { path: path + '/value', message: 'value must be a valid regular expression' };
+      }
+      break;
+    case 'equals':
+      if (typeof rule['field'] !== 'string') {
+        return { path: path + '/field', message: 'field is required' };
+      }
+      break;
+    case 'custom':
+      if (!('expr' in rule)) {
+        return { path: path + '/expr', message: 'expr is required' };
+      }
+      return validateExpression(rule['expr'], path + '/expr');
+    case 'async':
+      if (!('url' in rule)) {
+        return { path: path + '/url', message: 'url is required' };
+      }
+      return validateExpression(rule['url'], path + '/url');
+  }
+
+  return null;
+}
+
+/**
+ * Validates the forms section and returns the first error found
+ */
+function validateFormDefinitions(forms: unknown, path: string): ValidationError | null {
+  if (!isObject(forms)) {
+    return { path, message: 'forms must be an object' };
+  }
+
+  for (const [name, form] of Object.entries(forms)) {
+    const formPath = path + '/' + name;
+    if (!isObject(form)) {
+      return { path: formPath, message: 'must be an object' };
+    }
+    if (!isObject(form['fields'])) {
+      return { path: formPath + '/fields', message: 'fields must be an object' };
+    }
+    for (const [fieldName, field] of Object.entries(form['fields'])) {
+      const fieldPath = formPath + '/fields/' + fieldName;
+      if (!isObject(field)) {
+        return { path: fieldPath, message: 'must be an object' };
+      }
+      if (typeof field['target'] !== 'string') {
+        return { path: fieldPath + '/target', message: 'target is required' };
+      }
+      if ('path' in field && (typeof field['path'] !== 'string' || field['path'] === '')) {
+        return { path: fieldPath + '/path', message: 'path must be a non-empty string' };
+      }
+      if ('rules' in field) {
+        if (!Array.isArray(field['rules'])) {
+          return { path: fieldPath + '/rules', message: 'rules must be an array' };
+        }
+        for (let i = 0; i < field['rules'].length; i++) {
+          const ruleError = validateFormRule(field['rules'][i], fieldPath + '/rules/' + i);
+          if (ruleError) return ruleError;
+        }
+      }
+    }
+    if ('messages' in form) {
+      if (!isObject(form['messages'])) {
+        return { path: formPath + '/messages', message: 'messages must be an object' };
+      }
+      for (const [ruleType, message] of Object.entries(form['messages'])) {
+        if (!VALID_FORM_RULE_TYPES.includes(ruleType)) {
+          return { path: formPath + '/messages/' + ruleType, message: 'must be one of: ' + VALID_FORM_RULE_TYPES.join(', ') };
+        }
+        if (typeof message !== 'string') {
+          return { path: formPath + '/messages/' + ruleType, message: 'message must be a string' };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the i18n section and returns the first error found
+ */
+function validateI18nConfig(i18n: unknown, path: string): ValidationError | null {
+  if (!isObject(i18n)) {
+    return { path, message: 'i18n must be an object' };
+  }
+  if (typeof i18n['defaultLocale'] !== 'string') {
+    return { path: path + '/defaultLocale', message: 'defaultLocale is required' };
+  }
+  if (!isObject(i18n['messages'])) {
+    return { path: path + '/messages', message: 'messages must be an object' };
+  }
+  for (const [locale, catalog] of Object.entries(i18n['messages'])) {
+    const catalogPath = path + '/messages/' + locale;
+    if (!isObject(catalog)) {
+      return { path: catalogPath, message: 'must be a message catalog or an import expression' };
+    }
+    if ('expr' in catalog) {
+      if (catalog['expr'] !== 'import' || typeof catalog['name'] !== 'string') {
+        return { path: catalogPath, message: 'must be a message catalog or an import expression' };
+      }
+      continue;
+    }
+    for (const [key, message] of Object.entries(catalog)) {
+      if (typeof message !== 'string') {
+        return { path: catalogPath + '/' + key, message: 'message must be a string' };
+      }
+    }
+  }
+  if (!(i18n['defaultLocale'] in i18n['messages'])) {
+    return { path: path + '/defaultLocale', message: 'defaultLocale must have messages' };
+  }
+  for (const key of ['localeParam', 'localeCookie']) {
+    if (key in i18n && (typeof i18n[key] !== 'string' || i18n[key] === '')) {
+      return { path: path + '/' + key, message: key + ' must be a non-empty string' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the resources section and returns the first error found
+ */
+function validateResourceDefinitions(resources: unknown, path: string): ValidationError | null {
+  if (!isObject(resources)) {
+    return { path, message: 'resources must be an object' };
+  }
+
+  for (const [name, resource] of Object.entries(resources)) {
+    const resourcePath = path + '/' + name;
+    if (!isObject(resource)) {
+      return { path: resourcePath, message: 'must be an object' };
+    }
+    if (!('url' in resource)) {
+      return { path: resourcePath + '/url', message: 'url is required' };
+    }
+    const urlError = validateExpression(resource['url'], resourcePath + '/url');
+    if (urlError) return urlError;
+    for (const key of ['refreshInterval', 'staleTime']) {
+      if (key in resource && (typeof resource[key] !== 'number' || (resource[key] as number) < 0)) {
+        return { path: resourcePath + '/' + key, message: `${key} must be a non-negative number` };
+      }
+    }
+    if ('dedupe' in resource && typeof resource['dedupe'] !== 'boolean') {
+      return { path: resourcePath + '/dedupe', message: 'dedupe must be a boolean' };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Validates a ComponentDef and returns the first error found
  */
@@ -866,6 +1568,45 @@ function validateComponentDef(def: unknown, path: string): ValidationError | nul
     }
   }
 
+  // Validate emits if present
+  if ('emits' in def) {
+    if (!Array.isArray(def['emits'])) {
+      return { path: path + '/emits', message: 'emits must be an array' };
+    }
+    for (let i = 0; i < def['emits'].length; i++) {
+      if (typeof def['emits'][i] !== 'string') {
+        return { path: path + '/emits/' + i, message: 'must be a string' };
+      }
+    }
+  }
+
+  // Validate computed if present
+  if ('computed' in def && isObject(def['computed'])) {
+    for (const [computedName, computedExpr] of Object.entries(def['computed'])) {
+      const error = validateExpression(computedExpr, path + '/computed/' + computedName);
+      if (error) return error;
+    }
+  }
+
+  // Validate watch if present
+  if ('watch' in def) {
+    const error = validateWatchDefinitions(def['watch'], path + '/watch');
+    if (error) return error;
+  }
+
+  // Validate lifecycle hooks if present
+  if ('lifecycle' in def) {
+    const lifecycle = def['lifecycle'];
+    if (!isObject(lifecycle)) {
+      return { path: path + '/lifecycle', message: 'lifecycle must be an object' };
+    }
+    for (const hook of ['onMount', 'onUnmount']) {
+      if (hook in lifecycle && typeof lifecycle[hook] !== 'string') {
+        return { path: path + '/lifecycle/' + hook, message: 'must be a string' };
+      }
+    }
+  }
+
   // Validate view
   const viewError = validateViewNode(def['view'], path + '/view');
   if (viewError) return viewError;
@@ -955,6 +1696,44 @@ function customValidateAst(input: Record<string, unknown>): ValidationError | nu
     }
   }
 
+  // Validate computed
+  if ('computed' in input && isObject(input['computed'])) {
+    for (const [name, expr] of Object.entries(input['computed'])) {
+      const error = validateExpression(expr, '/computed/' + name);
+      if (error) return error;
+    }
+  }
+
+  // Validate watch
+  if ('watch' in input) {
+    const error = validateWatchDefinitions(input['watch'], '/watch');
+    if (error) return error;
+  }
+
+  // Validate globalEvents
+  if ('globalEvents' in input) {
+    const error = validateGlobalEvents(input['globalEvents'], '/globalEvents');
+    if (error) return error;
+  }
+
+  // Validate resources
+  if ('resources' in input) {
+    const error = validateResourceDefinitions(input['resources'], '/resources');
+    if (error) return error;
+  }
+
+  // Validate forms
+  if ('forms' in input) {
+    const error = validateFormDefinitions(input['forms'], '/forms');
+    if (error) return error;
+  }
+
+  // Validate i18n
+  if ('i18n' in input) {
+    const error = validateI18nConfig(input['i18n'], '/i18n');
+    if (error) return error;
+  }
+
   // Validate styles
   if ('styles' in input && isObject(input['styles'])) {
     for (const [name, preset] of Object.entries(input['styles'])) {
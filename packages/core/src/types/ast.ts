@@ -46,10 +46,32 @@ export type UpdateOperation = (typeof UPDATE_OPERATIONS)[number];
 
 // ==================== HTTP Methods ====================
 
-export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE'] as const;
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
 
 export type HttpMethod = (typeof HTTP_METHODS)[number];
 
+export const FETCH_CREDENTIALS = ['omit', 'same-origin', 'include'] as const;
+export type FetchCredentials = (typeof FETCH_CREDENTIALS)[number];
+
+export const FETCH_RESPONSE_TYPES = ['json', 'text', 'blob', 'none'] as const;
+export type FetchResponseType = (typeof FETCH_RESPONSE_TYPES)[number];
+
+export const FETCH_CONCURRENCY_POLICIES = ['takeLatest', 'takeFirst', 'queue'] as const;
+export type FetchConcurrency = (typeof FETCH_CONCURRENCY_POLICIES)[number];
+
+// ==================== Resource Fields ====================
+
+export const RESOURCE_FIELDS = ['data', 'error', 'loading'] as const;
+export type ResourceField = (typeof RESOURCE_FIELDS)[number];
+
+// ==================== Form Validation ====================
+
+export const FORM_RULE_TYPES = ['required', 'min', 'max', 'pattern', 'equals', 'custom', 'async'] as const;
+export type FormRuleType = (typeof FORM_RULE_TYPES)[number];
+
+export const FORM_PROPS = ['error', 'touched', 'dirty', 'valid'] as const;
+export type FormProp = (typeof FORM_PROPS)[number];
+
 // ==================== Storage Operations ====================
 
 export const STORAGE_OPERATIONS = ['get', 'set', 'remove'] as const;
@@ -58,6 +80,14 @@ export type StorageOperation = (typeof STORAGE_OPERATIONS)[number];
 export const STORAGE_TYPES = ['local', 'session'] as const;
 export type StorageType = (typeof STORAGE_TYPES)[number];
 
+export const PERSIST_STORAGE_TYPES = ['local', 'session', 'cookie'] as const;
+export type PersistStorageType = (typeof PERSIST_STORAGE_TYPES)[number];
+
+// ==================== Query Sync Modes ====================
+
+export const SYNC_QUERY_MODES = ['push', 'replace'] as const;
+export type SyncQueryMode = (typeof SYNC_QUERY_MODES)[number];
+
 // ==================== Clipboard Operations ====================
 
 export const CLIPBOARD_OPERATIONS = ['write', 'read'] as const;
@@ -218,6 +248,53 @@ export interface DataExpr {
   path?: string;       // Optional path for nested access (e.g., "settings.theme")
 }
 
+/**
+ * Computed expression - references a derived value declared in the computed section
+ */
+export interface ComputedExpr {
+  expr: 'computed';
+  name: string;        // The computed name defined in computed field
+}
+
+/**
+ * Resource expression - reads the data, error or loading flag of a declared resource
+ */
+export interface ResourceExpr {
+  expr: 'resource';
+  name: string;          // The resource name defined in resources field
+  field: ResourceField;
+}
+
+/**
+ * Form expression - reads the validation state of a declared form field,
+ * or of the whole form when field is omitted
+ */
+export interface FormExpr {
+  expr: 'form';
+  name: string;          // The form name defined in forms field
+  field?: string;
+  prop: FormProp;
+}
+
+/**
+ * Translate expression - formats the message for key in the current locale.
+ * Messages use ICU-style syntax: {name}, {n, plural, ...} and {v, select, ...}
+ */
+export interface TranslateExpr {
+  expr: 't';
+  key: string;           // Message key defined in i18n.messages
+  params?: Record<string, Expression>;
+}
+
+/**
+ * Context expression - reads a value provided by an ancestor element or component
+ */
+export interface ContextExpr {
+  expr: 'context';
+  name: string;
+  path?: string;  // Dot-separated path into the provided value
+}
+
 /**
  * Ref expression - references a DOM element by ref name
  */
@@ -297,7 +374,7 @@ export interface ObjExpr {
   props: Record<string, Expression>;
 }
 
-export type Expression = LitExpr | StateExpr | LocalExpr | VarExpr | BinExpr | NotExpr | ParamExpr | CondExpr | GetExpr | RouteExpr | ImportExpr | DataExpr | RefExpr | IndexExpr | StyleExpr | ConcatExpr | ValidityExpr | CallExpr | LambdaExpr | ArrayExpr | ObjExpr;
+export type Expression = LitExpr | StateExpr | LocalExpr | VarExpr | BinExpr | NotExpr | ParamExpr | CondExpr | GetExpr | RouteExpr | ImportExpr | DataExpr | RefExpr | IndexExpr | StyleExpr | ConcatExpr | ValidityExpr | CallExpr | LambdaExpr | ArrayExpr | ObjExpr | ComputedExpr | ResourceExpr | FormExpr | TranslateExpr | ContextExpr;
 
 // ==================== State Fields ====================
 
@@ -310,12 +387,33 @@ export interface CookieInitialExpr {
   default: string;
 }
 
+/**
+ * Persistence configuration for a state field
+ * The value is restored on startup and written back on every change.
+ */
+export interface StatePersist {
+  storage: PersistStorageType;
+  key?: string;      // Storage key (defaults to the state field name)
+  version?: number;  // Bump to discard previously stored values
+}
+
+/**
+ * URL query synchronization for a state field
+ * The field is initialized from and written back to `location.search`.
+ */
+export interface StateSyncQuery {
+  param: string;        // Query parameter name
+  mode: SyncQueryMode;  // History update mode on change
+}
+
 /**
  * Number state field
  */
 export interface NumberField {
   type: 'number';
   initial: number;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 /**
@@ -324,6 +422,8 @@ export interface NumberField {
 export interface StringField {
   type: 'string';
   initial: string | CookieInitialExpr;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 /**
@@ -332,6 +432,8 @@ export interface StringField {
 export interface ListField {
   type: 'list';
   initial: unknown[];
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 /**
@@ -340,6 +442,8 @@ export interface ListField {
 export interface BooleanField {
   type: 'boolean';
   initial: boolean;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 /**
@@ -348,6 +452,8 @@ export interface BooleanField {
 export interface ObjectField {
   type: 'object';
   initial: Record<string, unknown>;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 export type StateField = NumberField | StringField | ListField | BooleanField | ObjectField;
@@ -416,8 +522,65 @@ export interface FetchStep {
   do: 'fetch';
   url: Expression;
   method?: HttpMethod;
-  body?: Expression;
-  result?: string;
+  body?: Expression;                      // Object bodies are sent as JSON
+  headers?: Record<string, Expression>;
+  credentials?: FetchCredentials;
+  timeout?: number;                       // Milliseconds before the request is aborted
+  responseType?: FetchResponseType;       // How the response body is read (default: json)
+  concurrency?: FetchConcurrency;         // Policy for overlapping requests of this step/abortKey
+  abortKey?: string;                      // Key used to cancel in-flight requests with the abort step
+  retry?: FetchRetryConfig;
+  result?: string;                        // Local receiving the body; status/headers are in the `response` local
+  onSuccess?: ActionStep[];
+  onError?: ActionStep[];
+}
+
+/**
+ * Retry configuration for fetch steps (same backoff shape as ReconnectConfig)
+ */
+export interface FetchRetryConfig extends Omit<ReconnectConfig, 'enabled'> {
+  retryOn?: number[];  // HTTP statuses to retry (network errors and timeouts always retry)
+}
+
+/**
+ * Abort step - cancels in-flight fetch requests started with the given abortKey
+ */
+export interface AbortStep {
+  do: 'abort';
+  key: string;
+}
+
+/**
+ * Invalidate step - refetches a declared resource (e.g. after a mutation)
+ */
+export interface InvalidateStep {
+  do: 'invalidate';
+  resource: string;
+}
+
+/**
+ * Validate form step - runs the rules of a form (or one of its fields) and marks the fields touched
+ */
+export interface ValidateFormStep {
+  do: 'validateForm';
+  form: string;
+  field?: string;
+}
+
+/**
+ * Reset form step - restores the initial field values and clears touched and async errors
+ */
+export interface ResetFormStep {
+  do: 'resetForm';
+  form: string;
+}
+
+/**
+ * Submit form step - validates the whole form, then runs onSuccess when it is valid or onError otherwise
+ */
+export interface SubmitFormStep {
+  do: 'submitForm';
+  form: string;
   onSuccess?: ActionStep[];
   onError?: ActionStep[];
 }
@@ -578,6 +741,56 @@ export interface IfStep {
   else?: ActionStep[];
 }
 
+/**
+ * Run step - executes another action and awaits it
+ */
+export interface RunStep {
+  do: 'run';
+  action: string;        // Action name to run
+  payload?: Expression;  // Exposed to the action as the `payload` local
+  result?: string;       // Variable name receiving the action's `result` local
+}
+
+/**
+ * Try step - runs steps and handles failures
+ */
+export interface TryStep {
+  do: 'try';
+  steps: ActionStep[];
+  catch?: ActionStep[];    // Run on failure with the `error` local
+  finally?: ActionStep[];  // Always run after steps/catch
+}
+
+/**
+ * Throw step - fails the current action (or the enclosing try step)
+ */
+export interface ThrowStep {
+  do: 'throw';
+  message: Expression;
+}
+
+/**
+ * Parallel step - runs branches concurrently and waits for all of them
+ */
+export interface ParallelStep {
+  do: 'parallel';
+  branches: ActionStep[][];
+  onSuccess?: ActionStep[];  // Run when every branch succeeded
+  onError?: ActionStep[];    // Run when any branch failed, with the `errors` local
+}
+
+/**
+ * ForEach step - runs steps once per item with the loop variables in scope
+ */
+export interface ForEachStep {
+  do: 'forEach';
+  items: Expression;
+  as: string;            // Local holding the current item
+  index?: string;        // Local holding the current index
+  steps: ActionStep[];
+  concurrency?: number;  // Max iterations running at once (default: 1, sequential)
+}
+
 /**
  * Generate step - generates DSL using AI at runtime
  */
@@ -605,6 +818,35 @@ export interface ReconnectConfig {
   maxDelay?: number;  // ms
 }
 
+/**
+ * WebSocket connect step - opens a named WebSocket connection used by send/close steps
+ */
+export interface WSConnectStep {
+  do: 'wsConnect';
+  connection: string;
+  url: Expression;
+  protocols?: string[];
+  reconnect?: ReconnectConfig;
+  onOpen?: ActionStep[];
+  onMessage?: ActionStep[];  // Run with the `event` local ({ data })
+  onClose?: ActionStep[];    // Run with the `event` local ({ code, reason })
+  onError?: ActionStep[];
+}
+
+/**
+ * RPC step - sends a JSON-RPC 2.0 request over a named WebSocket connection and awaits the response
+ */
+export interface RPCStep {
+  do: 'rpc';
+  connection: string;
+  method: string;
+  params?: Expression;
+  result?: string;    // Local receiving the response result
+  timeout?: number;   // ms before the call fails with a TimeoutError
+  onSuccess?: ActionStep[];
+  onError?: ActionStep[];  // Run with the `error` local (JSON-RPC errors include code and data)
+}
+
 /**
  * SSE connect step - establishes a Server-Sent Events connection
  */
@@ -681,13 +923,25 @@ export interface UnbindStep {
   target: string;
 }
 
-export type ActionStep = SetStep | UpdateStep | SetPathStep | FetchStep | StorageStep | ClipboardStep | NavigateStep | ImportStep | CallStep | SubscribeStep | DisposeStep | DomStep | SendStep | CloseStep | DelayStep | IntervalStep | ClearTimerStep | FocusStep | IfStep | GenerateStep | SSEConnectStep | SSECloseStep | OptimisticStep | ConfirmStep | RejectStep | BindStep | UnbindStep;
+/**
+ * Emit step - notifies the parent of a component event (local actions only)
+ */
+export interface EmitStep {
+  do: 'emit';
+  event: string;
+  payload?: Expression;
+}
+
+export type ActionStep = SetStep | UpdateStep | SetPathStep | FetchStep | StorageStep | ClipboardStep | NavigateStep | ImportStep | CallStep | SubscribeStep | DisposeStep | DomStep | SendStep | CloseStep | DelayStep | IntervalStep | ClearTimerStep | FocusStep | IfStep | RunStep | TryStep | ThrowStep | ParallelStep | ForEachStep | AbortStep | InvalidateStep | ValidateFormStep | ResetFormStep | SubmitFormStep | GenerateStep | WSConnectStep | RPCStep | SSEConnectStep | SSECloseStep | OptimisticStep | ConfirmStep | RejectStep | BindStep | UnbindStep;
 
-// LocalActionStep - only set, update, setPath allowed for local actions
-export type LocalActionStep = SetStep | UpdateStep | SetPathStep;
+// LocalActionStep - state, emit, timer, subscription, DOM and focus steps allowed for local actions
+export type LocalActionStep = SetStep | UpdateStep | SetPathStep | EmitStep | SubscribeStep | DomStep | IntervalStep | ClearTimerStep | FocusStep;
 
 // ==================== Event Handler ====================
 
+export const EVENT_MODIFIERS = ['prevent', 'stop', 'self', 'capture', 'passive', 'once'] as const;
+export type EventModifier = (typeof EVENT_MODIFIERS)[number];
+
 /**
  * Event handler options for special events like intersect
  */
@@ -707,6 +961,24 @@ export interface EventHandler {
   debounce?: number;
   throttle?: number;
   options?: EventHandlerOptions;
+  /** preventDefault/stopPropagation, target and listener options */
+  modifiers?: EventModifier[];
+  /** Keys that trigger the handler, e.g. 'Enter', 'esc' or 'ctrl+k' (any of them matches) */
+  keys?: string[];
+}
+
+export const GLOBAL_EVENT_TARGETS = ['window', 'document'] as const;
+export type GlobalEventTarget = (typeof GLOBAL_EVENT_TARGETS)[number];
+
+/**
+ * Global event handler - binds a window or document event to an action
+ */
+export interface GlobalEventHandler {
+  target: GlobalEventTarget;
+  event: string;
+  action: string;
+  keys?: string[];
+  modifiers?: EventModifier[];
 }
 
 // ==================== Action Definition ====================
@@ -721,7 +993,7 @@ export interface ActionDefinition {
 
 /**
  * Local action definition - a named sequence of local steps
- * Only set, update, and setPath steps are allowed
+ * Only set, update, setPath, emit, subscribe, dom, interval, clearTimer and focus steps are allowed
  */
 export interface LocalActionDefinition {
   name: string;
@@ -730,6 +1002,14 @@ export interface LocalActionDefinition {
 
 // ==================== View Nodes ====================
 
+/**
+ * Two-way binding of a form control to a state field (or a nested path within it)
+ */
+export interface ModelBinding {
+  target: string;
+  path?: string;  // Dot-separated, e.g. "address.city"
+}
+
 /**
  * Element node - represents an HTML element
  */
@@ -738,6 +1018,9 @@ export interface ElementNode {
   tag: string;
   ref?: string;  // DOM element reference name
   props?: Record<string, Expression | EventHandler>;
+  model?: ModelBinding;  // Lowered into a value/checked prop and an input/change handler
+  provide?: Record<string, Expression>;  // Context values for descendants
+  slot?: string;  // Named slot of the enclosing component this node fills
   children?: ViewNode[];
 }
 
@@ -750,7 +1033,7 @@ export interface TextNode {
 }
 
 /**
- * Transition directive for enter/exit animations on if/each nodes
+ * Transition directive for enter/exit animations on if/match/each nodes
  */
 export interface TransitionDirective {
   enter: string;
@@ -771,6 +1054,17 @@ export interface IfNode {
   else?: ViewNode;
 }
 
+/**
+ * Match node - multi-branch rendering keyed by a literal value
+ */
+export interface MatchNode {
+  kind: 'match';
+  value: Expression;
+  cases: Record<string, ViewNode>;
+  default?: ViewNode;
+  transition?: TransitionDirective;
+}
+
 /**
  * Each node - list rendering
  */
@@ -791,16 +1085,22 @@ export interface ComponentNode {
   kind: 'component';
   name: string;
   props?: Record<string, Expression>;
+  on?: Record<string, EventHandler>;  // Handlers for events the component emits
+  provide?: Record<string, Expression>;  // Context values for the component's view and slot content
+  slotProps?: string;  // Variable name under which slot content reads the slot's props
+  slot?: string;  // Named slot of the enclosing component this node fills
   children?: ViewNode[];  // slot content
 }
 
 /**
  * Slot node - placeholder for children in component definition
- * For layouts, can have an optional name for named slots
+ * Named slots are filled by children with a matching `slot`; the props of a
+ * component slot are passed to the slot content as the caller's `slotProps` variable
  */
 export interface SlotNode {
   kind: 'slot';
   name?: string;  // Optional: for named slots like "header", "sidebar"
+  props?: Record<string, Expression>;  // Values passed to the slot content (scoped slot)
 }
 
 /**
@@ -861,17 +1161,30 @@ export interface ErrorBoundaryNode {
   content: ViewNode;
 }
 
-export type ViewNode = ElementNode | TextNode | IfNode | EachNode | ComponentNode | SlotNode | MarkdownNode | CodeNode | PortalNode | IslandNode | SuspenseNode | ErrorBoundaryNode;
+export type ViewNode = ElementNode | TextNode | IfNode | MatchNode | EachNode | ComponentNode | SlotNode | MarkdownNode | CodeNode | PortalNode | IslandNode | SuspenseNode | ErrorBoundaryNode;
 
 // ==================== Component Definition ====================
 
 export interface ComponentDef {
   params?: Record<string, ParamDef>;
+  emits?: string[];  // Event names the component can emit to its parent
   localState?: Record<string, StateField>;
   localActions?: LocalActionDefinition[];
+  computed?: Record<string, Expression>;
+  watch?: WatchDefinition[];
+  lifecycle?: ComponentLifecycleHooks;  // Actions run per component instance
   view: ViewNode;
 }
 
+/**
+ * Component lifecycle hooks - local or global action names run for each instance.
+ * Subscriptions and timers started by the instance's local actions are disposed on unmount.
+ */
+export interface ComponentLifecycleHooks {
+  onMount?: string;    // Action to run once the instance is in the document
+  onUnmount?: string;  // Action to run before the instance is removed
+}
+
 // ==================== Style Preset ====================
 
 /**
@@ -999,6 +1312,87 @@ export interface LifecycleHooks {
   onRouteLeave?: string;  // Action name to run when leaving route
 }
 
+// ==================== Watch ====================
+
+/**
+ * Watch definition - runs an action when a state field changes
+ */
+export interface WatchDefinition {
+  target: string;       // State field to watch
+  path?: string;        // Dot-separated path within the field (e.g. "filters.query")
+  action: string;       // Action name to run on change
+  debounce?: number;    // Debounce delay in milliseconds
+  immediate?: boolean;  // Also run once when mounted
+}
+
+// ==================== Resource ====================
+
+/**
+ * Resource definition - data fetched from a URL and cached across the app
+ */
+export interface ResourceDefinition {
+  url: Expression;           // Refetched whenever the state it depends on changes
+  refreshInterval?: number;  // Revalidation interval in milliseconds
+  staleTime?: number;        // How long cached data is considered fresh (default 0)
+  dedupe?: boolean;          // Share in-flight requests for the same URL (default true)
+}
+
+// ==================== Form ====================
+
+/**
+ * Form validation rule. Rules other than required pass for empty values.
+ *
+ * - required: fails for undefined, null, '', false and empty lists
+ * - min / max: bound for numbers, length bound for strings and lists
+ * - pattern: regular expression strings must match
+ * - equals: must equal the value of another field of the form
+ * - custom: expression evaluated with `value` and `values` vars, passing when truthy
+ * - async: GETs the URL (evaluated with `value`), passing unless the JSON response has `valid: false`
+ */
+export type FormRule =
+  | { type: 'required'; message?: string }
+  | { type: 'min' | 'max'; value: number; message?: string }
+  | { type: 'pattern'; value: string; message?: string }
+  | { type: 'equals'; field: string; message?: string }
+  | { type: 'custom'; expr: Expression; message?: string }
+  | { type: 'async'; url: Expression; message?: string };
+
+/**
+ * Form field - validates the state field it is bound to
+ */
+export interface FormFieldDefinition {
+  target: string;       // State field holding the value
+  path?: string;        // Dot-separated path within the field (e.g. "address.city")
+  rules?: FormRule[];   // Checked in order; the first failing rule sets the error
+}
+
+/**
+ * Form definition - fields with validation rules and default messages per rule type
+ */
+export interface FormDefinition {
+  fields: Record<string, FormFieldDefinition>;
+  messages?: Partial<Record<FormRuleType, string>>;
+}
+
+// ==================== Internationalization ====================
+
+/**
+ * Message catalog - message keys mapped to ICU-style messages
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Internationalization configuration
+ * The current locale is held in the `locale` string state field, which is
+ * added when the program does not declare it.
+ */
+export interface I18nConfig {
+  defaultLocale: string;                                  // Fallback for missing locales and keys
+  messages: Record<string, MessageCatalog | ImportExpr>;  // Catalog per locale, inline or imported
+  localeParam?: string;                                   // Route param selecting the locale
+  localeCookie?: string;                                  // Cookie holding the locale
+}
+
 // ==================== Program (Root) ====================
 
 /**
@@ -1011,8 +1405,14 @@ export interface Program {
   data?: Record<string, DataSource>; // Build-time data sources
   styles?: Record<string, StylePreset>;  // Style presets (CVA-like pattern)
   lifecycle?: LifecycleHooks;        // Lifecycle hooks for component/page events
+  watch?: WatchDefinition[];         // Actions to run when state changes
+  globalEvents?: GlobalEventHandler[];  // Window/document event listeners
   theme?: ThemeConfig;               // Theme configuration
   state: Record<string, StateField>;
+  computed?: Record<string, Expression>;  // Derived values memoized from state
+  resources?: Record<string, ResourceDefinition>;  // Cached remote data
+  forms?: Record<string, FormDefinition>;  // Validated forms
+  i18n?: I18nConfig;                 // Message catalogs for the t expression
   actions: ActionDefinition[];
   view: ViewNode;
   components?: Record<string, ComponentDef>;
@@ -1034,6 +1434,7 @@ export interface LayoutProgram {
   importData?: Record<string, unknown>;    // Resolved import data (populated at load time)
   state?: Record<string, StateField>;
   actions?: ActionDefinition[];
+  globalEvents?: GlobalEventHandler[];     // Window/document event listeners
   view: ViewNode;  // Must contain at least one SlotNode
   components?: Record<string, ComponentDef>;
 }
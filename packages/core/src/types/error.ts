@@ -13,11 +13,14 @@ export type ErrorCode =
   | 'UNDEFINED_ACTION'
   | 'VAR_UNDEFINED'
   | 'DUPLICATE_ACTION'
+  | 'ACTION_CYCLE'
   | 'UNSUPPORTED_VERSION'
   | 'COMPONENT_NOT_FOUND'
   | 'COMPONENT_PROP_MISSING'
   | 'COMPONENT_CYCLE'
   | 'COMPONENT_PROP_TYPE'
+  | 'COMPONENT_EVENT_UNDECLARED'
+  | 'CONTEXT_NOT_PROVIDED'
   | 'PARAM_UNDEFINED'
   | 'OPERATION_INVALID_FOR_TYPE'
   | 'OPERATION_MISSING_FIELD'
@@ -58,6 +61,20 @@ export type ErrorCode =
   | 'LOCAL_ACTION_INVALID_STEP'
   // Island-related error codes
   | 'DUPLICATE_ISLAND_ID'
+  // Computed-related error codes
+  | 'UNDEFINED_COMPUTED'
+  | 'COMPUTED_CYCLE'
+  // Resource-related error codes
+  | 'UNDEFINED_RESOURCE'
+  // Form-related error codes
+  | 'UNDEFINED_FORM'
+  | 'UNDEFINED_FORM_FIELD'
+  // Internationalization error codes
+  | 'I18N_MISSING_KEY'
+  // Match-related error codes
+  | 'DUPLICATE_MATCH_CASE'
+  // Query sync error codes
+  | 'INVALID_SYNC_QUERY_TYPE'
   // Accessibility error codes
   | 'A11Y_IMG_NO_ALT'
   | 'A11Y_BUTTON_NO_LABEL'
@@ -250,6 +267,17 @@ export function createComponentCycleError(cycle: string[], path?: string): Const
   );
 }
 
+/**
+ * Creates an action cycle error for actions that run each other recursively
+ */
+export function createActionCycleError(cycle: string[], path?: string): ConstelaError {
+  return new ConstelaError(
+    'ACTION_CYCLE',
+    `Circular action run detected: ${cycle.join(' -> ')}`,
+    path
+  );
+}
+
 /**
  * Creates a prop type mismatch error
  */
@@ -267,6 +295,39 @@ export function createComponentPropTypeError(
   );
 }
 
+/**
+ * Creates an error for a component event that is not listed in the component's emits
+ */
+export function createComponentEventUndeclaredError(
+  componentName: string,
+  eventName: string,
+  path?: string,
+  options?: ErrorOptions
+): ConstelaError {
+  return new ConstelaError(
+    'COMPONENT_EVENT_UNDECLARED',
+    `Component '${componentName}' does not declare event '${eventName}' in emits`,
+    path,
+    options
+  );
+}
+
+/**
+ * Creates an error for a context read without an ancestor providing it
+ */
+export function createContextNotProvidedError(
+  contextName: string,
+  path?: string,
+  options?: ErrorOptions
+): ConstelaError {
+  return new ConstelaError(
+    'CONTEXT_NOT_PROVIDED',
+    `Context '${contextName}' is not provided by any ancestor`,
+    path,
+    options
+  );
+}
+
 /**
  * Creates an undefined param reference error
  */
@@ -623,7 +684,7 @@ export function createUndefinedLocalStateError(stateName: string, path?: string,
 export function createLocalActionInvalidStepError(stepType: string, path?: string): ConstelaError {
   return new ConstelaError(
     'LOCAL_ACTION_INVALID_STEP',
-    `Invalid step type '${stepType}' in local action. Only 'set', 'update', and 'setPath' are allowed`,
+    `Invalid step type '${stepType}' in local action. Only 'set', 'update', 'setPath', 'emit', 'subscribe', 'dom', 'interval', 'clearTimer', and 'focus' are allowed`,
     path
   );
 }
@@ -644,6 +705,119 @@ export function createDuplicateIslandIdError(id: string, path?: string, suggesti
   );
 }
 
+// ==================== Computed Error Factory Functions ====================
+
+/**
+ * Creates an undefined computed reference error
+ */
+export function createUndefinedComputedError(computedName: string, path?: string, options?: ErrorOptions): ConstelaError {
+  return new ConstelaError(
+    'UNDEFINED_COMPUTED',
+    `Undefined computed reference: '${computedName}' is not defined in computed`,
+    path,
+    options
+  );
+}
+
+/**
+ * Creates a computed cycle error
+ */
+export function createComputedCycleError(cycle: string[], path?: string): ConstelaError {
+  return new ConstelaError(
+    'COMPUTED_CYCLE',
+    `Circular computed dependency detected: ${cycle.join(' -> ')}`,
+    path
+  );
+}
+
+// ==================== Match Error Factory Functions ====================
+
+/**
+ * Creates a duplicate match case error
+ */
+export function createDuplicateMatchCaseError(caseKey: string, existingKey: string, path?: string): ConstelaError {
+  return new ConstelaError(
+    'DUPLICATE_MATCH_CASE',
+    `Duplicate match case: '${caseKey}' matches the same value as '${existingKey}'`,
+    path
+  );
+}
+
+// ==================== Query Sync Error Factory Functions ====================
+
+/**
+ * Creates an error for a syncQuery field whose type cannot be stored in a URL
+ */
+export function createInvalidSyncQueryTypeError(fieldName: string, fieldType: string, path?: string): ConstelaError {
+  return new ConstelaError(
+    'INVALID_SYNC_QUERY_TYPE',
+    `State field '${fieldName}' of type '${fieldType}' cannot be synced to the URL query`,
+    path,
+    {
+      suggestion: 'Only string, number and boolean fields support syncQuery',
+    }
+  );
+}
+
+// ==================== Resource Error Factory Functions ====================
+
+/**
+ * Creates an undefined resource reference error
+ */
+export function createUndefinedResourceError(resourceName: string, path?: string, options?: ErrorOptions): ConstelaError {
+  return new ConstelaError(
+    'UNDEFINED_RESOURCE',
+    `Undefined resource reference: '${resourceName}' is not defined in resources`,
+    path,
+    options
+  );
+}
+
+// ==================== Form Error Factory Functions ====================
+
+/**
+ * Creates an undefined form reference error
+ */
+export function createUndefinedFormError(formName: string, path?: string, options?: ErrorOptions): ConstelaError {
+  return new ConstelaError(
+    'UNDEFINED_FORM',
+    `Undefined form reference: '${formName}' is not defined in forms`,
+    path,
+    options
+  );
+}
+
+/**
+ * Creates an undefined form field reference error
+ */
+export function createUndefinedFormFieldError(
+  fieldName: string,
+  formName: string,
+  path?: string,
+  options?: ErrorOptions
+): ConstelaError {
+  return new ConstelaError(
+    'UNDEFINED_FORM_FIELD',
+    `Undefined form field: '${fieldName}' is not a field of form '${formName}'`,
+    path,
+    options
+  );
+}
+
+// ==================== Internationalization Error Factory Functions ====================
+
+/**
+ * Creates a warning for a message key missing in a locale's catalog
+ */
+export function createI18nMissingKeyError(key: string, locale: string, path?: string): ConstelaError {
+  return new ConstelaError(
+    'I18N_MISSING_KEY',
+    `Message '${key}' is missing in locale '${locale}'`,
+    path,
+    { severity: 'warning', suggestion: `Add '${key}' to the '${locale}' messages, or the default locale is shown` }
+  );
+}
+
 // ==================== Accessibility Error Factory Functions ====================
 
 /**
@@ -19,6 +19,8 @@ import {
   AI_PROVIDER_TYPES,
   AI_OUTPUT_TYPES,
   ISLAND_STRATEGIES,
+  RESOURCE_FIELDS,
+  FORM_PROPS,
   type Expression,
   type LitExpr,
   type StateExpr,
@@ -42,6 +44,7 @@ import {
   type ElementNode,
   type TextNode,
   type IfNode,
+  type MatchNode,
   type EachNode,
   type ComponentNode,
   type SlotNode,
@@ -65,12 +68,18 @@ import {
   type CallStep,
   type SubscribeStep,
   type DisposeStep,
+  type DomStep,
   type DelayStep,
   type IntervalStep,
   type ClearTimerStep,
   type FocusStep,
   type GenerateStep,
   type RefExpr,
+  type ComputedExpr,
+  type ResourceExpr,
+  type FormExpr,
+  type TranslateExpr,
+  type ContextExpr,
   type IndexExpr,
   type StyleExpr,
   type ConcatExpr,
@@ -90,6 +99,7 @@ import {
   type EventHandler,
   type LayoutProgram,
   type LocalActionStep,
+  type EmitStep,
   type LocalActionDefinition,
   type CookieInitialExpr,
 } from './ast.js';
@@ -254,6 +264,58 @@ export function isDataExpr(value: unknown): value is DataExpr {
   return true;
 }
 
+/**
+ * Checks if value is a computed expression
+ */
+export function isComputedExpr(value: unknown): value is ComputedExpr {
+  if (!isObject(value)) return false;
+  if (value['expr'] !== 'computed') return false;
+  return typeof value['name'] === 'string';
+}
+
+/**
+ * Checks if value is a resource expression
+ */
+export function isResourceExpr(value: unknown): value is ResourceExpr {
+  if (!isObject(value)) return false;
+  if (value['expr'] !== 'resource') return false;
+  if (typeof value['name'] !== 'string') return false;
+  return (RESOURCE_FIELDS as readonly unknown[]).includes(value['field']);
+}
+
+/**
+ * Checks if value is a form expression
+ */
+export function isFormExpr(value: unknown): value is FormExpr {
+  if (!isObject(value)) return false;
+  if (value['expr'] !== 'form') return false;
+  if (typeof value['name'] !== 'string') return false;
+  if ('field' in value && typeof value['field'] !== 'string') return false;
+  return (FORM_PROPS as readonly unknown[]).includes(value['prop']);
+}
+
+/**
+ * Checks if value is a translate expression
+ */
+export function isTranslateExpr(value: unknown): value is TranslateExpr {
+  if (!isObject(value)) return false;
+  if (value['expr'] !== 't') return false;
+  if (typeof value['key'] !== 'string') return false;
+  if ('params' in value && !isObject(value['params'])) return false;
+  return true;
+}
+
+/**
+ * Checks if value is a context expression
+ */
+export function isContextExpr(value: unknown): value is ContextExpr {
+  if (!isObject(value)) return false;
+  if (value['expr'] !== 'context') return false;
+  if (typeof value['name'] !== 'string') return false;
+  if ('path' in value && typeof value['path'] !== 'string') return false;
+  return true;
+}
+
 /**
  * Checks if value is a ref expression
  */
@@ -436,6 +498,11 @@ export function isExpression(value: unknown): value is Expression {
     isImportExpr(value) ||
     isDataExpr(value) ||
     isRefExpr(value) ||
+    isComputedExpr(value) ||
+    isResourceExpr(value) ||
+    isFormExpr(value) ||
+    isTranslateExpr(value) ||
+    isContextExpr(value) ||
     isIndexExpr(value) ||
     isStyleExpr(value) ||
     isConcatExpr(value) ||
@@ -475,6 +542,17 @@ export function isIfNode(value: unknown): value is IfNode {
   return true;
 }
 
+/**
+ * Checks if value is a match node
+ */
+export function isMatchNode(value: unknown): value is MatchNode {
+  if (!isObject(value)) return false;
+  if (value['kind'] !== 'match') return false;
+  if (!isObject(value['value'])) return false;
+  if (!isObject(value['cases'])) return false;
+  return true;
+}
+
 /**
  * Checks if value is an each node
  */
@@ -605,7 +683,7 @@ export function isIslandNode(value: unknown): value is IslandNode {
   if (!('content' in value) || !isObject(value['content'])) return false;
 
   const content = value['content'] as Record<string, unknown>;
-  const validKinds = ['element', 'text', 'if', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island'];
+  const validKinds = ['element', 'text', 'if', 'match', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island'];
   if (!validKinds.includes(content['kind'] as string)) {
     return false;
   }
@@ -623,7 +701,7 @@ export function isSuspenseNode(value: unknown): value is SuspenseNode {
   if (!('fallback' in value) || !isObject(value['fallback'])) return false;
   if (!('content' in value) || !isObject(value['content'])) return false;
   // Shallow validation that fallback and content are ViewNode-like
-  const validKinds = ['element', 'text', 'if', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island', 'suspense', 'errorBoundary'];
+  const validKinds = ['element', 'text', 'if', 'match', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island', 'suspense', 'errorBoundary'];
   const fallback = value['fallback'] as Record<string, unknown>;
   const content = value['content'] as Record<string, unknown>;
   if (!validKinds.includes(fallback['kind'] as string)) return false;
@@ -640,7 +718,7 @@ export function isErrorBoundaryNode(value: unknown): value is ErrorBoundaryNode
   if (!('fallback' in value) || !isObject(value['fallback'])) return false;
   if (!('content' in value) || !isObject(value['content'])) return false;
   // Shallow validation that fallback and content are ViewNode-like
-  const validKinds = ['element', 'text', 'if', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island', 'suspense', 'errorBoundary'];
+  const validKinds = ['element', 'text', 'if', 'match', 'each', 'component', 'slot', 'markdown', 'code', 'portal', 'island', 'suspense', 'errorBoundary'];
   const fallback = value['fallback'] as Record<string, unknown>;
   const content = value['content'] as Record<string, unknown>;
   if (!validKinds.includes(fallback['kind'] as string)) return false;
@@ -656,6 +734,7 @@ export function isViewNode(value: unknown): value is ViewNode {
     isElementNode(value) ||
     isTextNode(value) ||
     isIfNode(value) ||
+    isMatchNode(value) ||
     isEachNode(value) ||
     isComponentNode(value) ||
     isSlotNode(value) ||
@@ -809,6 +888,19 @@ export function isDisposeStep(value: unknown): value is DisposeStep {
   return true;
 }
 
+/**
+ * Checks if value is a DOM step
+ */
+export function isDomStep(value: unknown): value is DomStep {
+  if (!isObject(value)) return false;
+  if (value['do'] !== 'dom') return false;
+  if (!isObject(value['selector'])) return false;
+  if (!['addClass', 'removeClass', 'toggleClass', 'setAttribute', 'removeAttribute'].includes(value['operation'] as string)) {
+    return false;
+  }
+  return true;
+}
+
 /**
  * Checks if value is a delay step
  */
@@ -878,12 +970,33 @@ export function isActionStep(value: unknown): value is ActionStep {
   );
 }
 
+/**
+ * Checks if value is an emit step
+ */
+export function isEmitStep(value: unknown): value is EmitStep {
+  if (!isObject(value)) return false;
+  if (value['do'] !== 'emit') return false;
+  if (typeof value['event'] !== 'string') return false;
+  if ('payload' in value && value['payload'] !== undefined && !isObject(value['payload'])) return false;
+  return true;
+}
+
 /**
  * Checks if value is a valid local action step
- * Local actions only allow set, update, and setPath steps
+ * Local actions allow set, update, setPath, emit, subscribe, dom, interval, clearTimer and focus steps
  */
 export function isLocalActionStep(value: unknown): value is LocalActionStep {
-  return isSetStep(value) || isUpdateStep(value) || isSetPathStep(value);
+  return (
+    isSetStep(value) ||
+    isUpdateStep(value) ||
+    isSetPathStep(value) ||
+    isEmitStep(value) ||
+    isSubscribeStep(value) ||
+    isDomStep(value) ||
+    isIntervalStep(value) ||
+    isClearTimerStep(value) ||
+    isFocusStep(value)
+  );
 }
 
 /**
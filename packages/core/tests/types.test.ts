@@ -499,12 +499,21 @@ describe('ActionStep Type Guards', () => {
       expect(isFetchStep(step)).toBe(false);
     });
 
-    it('should return false for invalid method', () => {
+    it('should return true for fetch with PATCH method', () => {
       const step = {
         do: 'fetch',
         url: { expr: 'lit', value: '/api/data' },
         method: 'PATCH',
       };
+      expect(isFetchStep(step)).toBe(true);
+    });
+
+    it('should return false for invalid method', () => {
+      const step = {
+        do: 'fetch',
+        url: { expr: 'lit', value: '/api/data' },
+        method: 'TRACE',
+      };
       expect(isFetchStep(step)).toBe(false);
     });
   });
@@ -687,7 +687,7 @@ describe('validateAst - Invalid Schema', () => {
               {
                 do: 'fetch',
                 url: { expr: 'lit', value: '/api' },
-                method: 'PATCH',
+                method: 'TRACE',
               },
             ],
           },
@@ -703,6 +703,236 @@ describe('validateAst - Invalid Schema', () => {
         expect(result.error.path).toBe('/actions/0/steps/0/method');
       }
     });
+
+    it('should accept fetch with headers, credentials, timeout and responseType', () => {
+      const ast = {
+        version: '1.0',
+        state: { token: { type: 'string', initial: '' } },
+        actions: [
+          {
+            name: 'test',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                method: 'PATCH',
+                body: { expr: 'lit', value: { done: true } },
+                headers: {
+                  Authorization: {
+                    expr: 'concat',
+                    items: [{ expr: 'lit', value: 'Bearer ' }, { expr: 'state', name: 'token' }],
+                  },
+                },
+                credentials: 'include',
+                timeout: 5000,
+                responseType: 'text',
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for invalid fetch header expression', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'test',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                headers: { 'X-Token': 'raw' },
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/headers/X-Token');
+      }
+    });
+
+    it('should return error for invalid fetch responseType', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'test',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                responseType: 'xml',
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/actions/0/steps/0/responseType');
+      }
+    });
+
+    it('should accept fetch with concurrency policy and abortKey followed by abort', () => {
+      const ast = {
+        version: '1.0',
+        state: { query: { type: 'string', initial: '' } },
+        actions: [
+          {
+            name: 'search',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'state', name: 'query' },
+                concurrency: 'takeLatest',
+                abortKey: 'search',
+              },
+            ],
+          },
+          { name: 'cancel', steps: [{ do: 'abort', key: 'search' }] },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for invalid fetch concurrency policy', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'search',
+            steps: [{ do: 'fetch', url: { expr: 'lit', value: '/api' }, concurrency: 'takeAll' }],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/concurrency');
+      }
+    });
+
+    it('should return error for abort without key', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'cancel', steps: [{ do: 'abort' }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/key');
+      }
+    });
+
+    it('should accept fetch with retry configuration', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                retry: { maxRetries: 3, strategy: 'exponential', baseDelay: 200, retryOn: [503] },
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for invalid fetch retry strategy', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                retry: { maxRetries: 3, strategy: 'random', baseDelay: 200 },
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/retry/strategy');
+      }
+    });
+
+    it('should return error for non-numeric fetch retryOn entries', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'fetch',
+                url: { expr: 'lit', value: '/api' },
+                retry: { maxRetries: 3, strategy: 'linear', baseDelay: 200, retryOn: ['503'] },
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/retry/retryOn');
+      }
+    });
   });
 
   // ==================== Storage Action Validation ====================
@@ -1071,12 +1301,14 @@ describe('validateAst - Invalid Schema', () => {
     });
   });
 
-  describe('Cookie Expression Initial Values', () => {
-    it('should accept plain string initial value for string type', () => {
+  describe('State Persistence', () => {
+    it('should accept persist config on state fields', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: { type: 'string', initial: 'hello' },
+          todos: { type: 'list', initial: [], persist: { storage: 'local', key: 'app:todos', version: 2 } },
+          draft: { type: 'string', initial: '', persist: { storage: 'session' } },
+          theme: { type: 'string', initial: 'light', persist: { storage: 'cookie' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1087,14 +1319,11 @@ describe('validateAst - Invalid Schema', () => {
       expect(result.ok).toBe(true);
     });
 
-    it('should accept valid cookie expression for string type', () => {
+    it('should return error for unsupported persist storage', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: {
-            type: 'string',
-            initial: { expr: 'cookie', key: 'theme', default: 'light' },
-          },
+          count: { type: 'number', initial: 0, persist: { storage: 'indexeddb' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1102,17 +1331,17 @@ describe('validateAst - Invalid Schema', () => {
 
       const result = validateAst(ast);
 
-      expect(result.ok).toBe(true);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/state/count/persist/storage');
+      }
     });
 
-    it('should return error for cookie expression missing key', () => {
+    it('should return error for non-integer persist version', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: {
-            type: 'string',
-            initial: { expr: 'cookie', default: 'light' },
-          },
+          count: { type: 'number', initial: 0, persist: { storage: 'local', version: '2' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1122,19 +1351,18 @@ describe('validateAst - Invalid Schema', () => {
 
       expect(result.ok).toBe(false);
       if (!result.ok) {
-        expect(result.error.code).toBe('SCHEMA_INVALID');
-        expect(result.error.path).toBe('/state/theme/initial/key');
+        expect(result.error.path).toBe('/state/count/persist/version');
       }
     });
+  });
 
-    it('should return error for cookie expression missing default', () => {
+  describe('State Query Sync', () => {
+    it('should accept syncQuery config on state fields', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: {
-            type: 'string',
-            initial: { expr: 'cookie', key: 'theme' },
-          },
+          page: { type: 'number', initial: 1, syncQuery: { param: 'page', mode: 'push' } },
+          sort: { type: 'string', initial: 'name', syncQuery: { param: 's', mode: 'replace' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1142,21 +1370,14 @@ describe('validateAst - Invalid Schema', () => {
 
       const result = validateAst(ast);
 
-      expect(result.ok).toBe(false);
-      if (!result.ok) {
-        expect(result.error.code).toBe('SCHEMA_INVALID');
-        expect(result.error.path).toBe('/state/theme/initial/default');
-      }
+      expect(result.ok).toBe(true);
     });
 
-    it('should return error for cookie expression missing expr', () => {
+    it('should return error for empty syncQuery param', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: {
-            type: 'string',
-            initial: { key: 'theme', default: 'light' },
-          },
+          page: { type: 'number', initial: 1, syncQuery: { param: '', mode: 'push' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1166,20 +1387,15 @@ describe('validateAst - Invalid Schema', () => {
 
       expect(result.ok).toBe(false);
       if (!result.ok) {
-        expect(result.error.code).toBe('SCHEMA_INVALID');
-        expect(result.error.path).toBe('/state/theme/initial');
-        expect(result.error.message).toContain('must be a string or a valid cookie expression');
+        expect(result.error.path).toBe('/state/page/syncQuery/param');
       }
     });
 
-    it('should return error for wrong expr value in cookie expression', () => {
+    it('should return error for unsupported syncQuery mode', () => {
       const ast = {
         version: '1.0',
         state: {
-          theme: {
-            type: 'string',
-            initial: { expr: 'state', key: 'theme', default: 'light' },
-          },
+          page: { type: 'number', initial: 1, syncQuery: { param: 'page', mode: 'hash' } },
         },
         actions: [],
         view: { kind: 'element', tag: 'div' },
@@ -1189,37 +1405,312 @@ describe('validateAst - Invalid Schema', () => {
 
       expect(result.ok).toBe(false);
       if (!result.ok) {
-        expect(result.error.code).toBe('SCHEMA_INVALID');
-        expect(result.error.path).toBe('/state/theme/initial');
+        expect(result.error.path).toBe('/state/page/syncQuery/mode');
       }
     });
+  });
 
-    it('should return error for non-string key in cookie expression', () => {
+  describe('Watch Definitions', () => {
+    it('should accept a watch array on the program', () => {
       const ast = {
         version: '1.0',
-        state: {
-          theme: {
-            type: 'string',
-            initial: { expr: 'cookie', key: 123, default: 'light' },
-          },
-        },
-        actions: [],
+        state: { query: { type: 'string', initial: '' } },
+        watch: [{ target: 'query', action: 'search', debounce: 300, immediate: true }],
+        actions: [{ name: 'search', steps: [] }],
         view: { kind: 'element', tag: 'div' },
       };
 
       const result = validateAst(ast);
 
-      expect(result.ok).toBe(false);
-      if (!result.ok) {
-        expect(result.error.code).toBe('SCHEMA_INVALID');
-        expect(result.error.path).toBe('/state/theme/initial/key');
-      }
+      expect(result.ok).toBe(true);
     });
 
-    it('should return error for non-string default in cookie expression', () => {
+    it('should return error for negative debounce', () => {
       const ast = {
         version: '1.0',
-        state: {
+        state: { query: { type: 'string', initial: '' } },
+        watch: [{ target: 'query', action: 'search', debounce: -1 }],
+        actions: [{ name: 'search', steps: [] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/watch/0/debounce');
+      }
+    });
+
+    it('should return error for watch entry without action in a component', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Search: { watch: [{ target: 'query' }], view: { kind: 'element', tag: 'div' } },
+        },
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/components/Search/watch/0/action');
+      }
+    });
+  });
+
+  describe('Model Binding', () => {
+    it('should accept model on form controls', () => {
+      const ast = {
+        version: '1.0',
+        state: { form: { type: 'object', initial: { name: '' } } },
+        actions: [],
+        view: { kind: 'element', tag: 'input', model: { target: 'form', path: 'name' } },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for model on other elements', () => {
+      const ast = {
+        version: '1.0',
+        state: { name: { type: 'string', initial: '' } },
+        actions: [],
+        view: { kind: 'element', tag: 'div', model: { target: 'name' } },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/model');
+      }
+    });
+
+    it('should return error for model without target', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'select', model: { path: 'name' } },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/model/target');
+      }
+    });
+  });
+
+  describe('Global Events', () => {
+    it('should accept globalEvents with keys and modifiers', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        globalEvents: [
+          { target: 'document', event: 'keydown', action: 'openSearch', keys: ['ctrl+k'], modifiers: ['prevent'] },
+          { target: 'window', event: 'online', action: 'openSearch' },
+        ],
+        actions: [{ name: 'openSearch', steps: [] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for unknown target', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        globalEvents: [{ target: 'body', event: 'click', action: 'close' }],
+        actions: [{ name: 'close', steps: [] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/globalEvents/0/target');
+      }
+    });
+
+    it('should return error for unknown modifier', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        globalEvents: [{ target: 'window', event: 'resize', action: 'measure', modifiers: ['debounce'] }],
+        actions: [{ name: 'measure', steps: [] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/globalEvents/0/modifiers/0');
+      }
+    });
+  });
+
+  describe('Cookie Expression Initial Values', () => {
+    it('should accept plain string initial value for string type', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: { type: 'string', initial: 'hello' },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should accept valid cookie expression for string type', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { expr: 'cookie', key: 'theme', default: 'light' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for cookie expression missing key', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { expr: 'cookie', default: 'light' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/state/theme/initial/key');
+      }
+    });
+
+    it('should return error for cookie expression missing default', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { expr: 'cookie', key: 'theme' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/state/theme/initial/default');
+      }
+    });
+
+    it('should return error for cookie expression missing expr', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { key: 'theme', default: 'light' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/state/theme/initial');
+        expect(result.error.message).toContain('must be a string or a valid cookie expression');
+      }
+    });
+
+    it('should return error for wrong expr value in cookie expression', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { expr: 'state', key: 'theme', default: 'light' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/state/theme/initial');
+      }
+    });
+
+    it('should return error for non-string key in cookie expression', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          theme: {
+            type: 'string',
+            initial: { expr: 'cookie', key: 123, default: 'light' },
+          },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/state/theme/initial/key');
+      }
+    });
+
+    it('should return error for non-string default in cookie expression', () => {
+      const ast = {
+        version: '1.0',
+        state: {
           theme: {
             type: 'string',
             initial: { expr: 'cookie', key: 'theme', default: 123 },
@@ -2009,14 +2500,38 @@ describe('validateAst - Component Definitions', () => {
       expect(result.ok).toBe(true);
     });
 
-    it('should accept component with only view (no params)', () => {
+    it('should accept component with emits handled by the parent', () => {
       const ast = {
         version: '1.0',
-        state: {},
-        actions: [],
+        state: { open: { type: 'boolean', initial: true } },
+        actions: [{ name: 'close', steps: [{ do: 'set', target: 'open', value: { expr: 'lit', value: false } }] }],
         components: {
-          Divider: {
-            view: { kind: 'element', tag: 'hr' },
+          Dialog: {
+            emits: ['close'],
+            localState: { dirty: { type: 'boolean', initial: false } },
+            localActions: [{ name: 'dismiss', steps: [{ do: 'emit', event: 'close' }] }],
+            view: { kind: 'element', tag: 'div' },
+          },
+        },
+        view: {
+          kind: 'component',
+          name: 'Dialog',
+          on: { close: { event: 'close', action: 'close' } },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should accept component with only view (no params)', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Divider: {
+            view: { kind: 'element', tag: 'hr' },
           },
         },
         view: { kind: 'element', tag: 'div' },
@@ -2288,6 +2803,29 @@ describe('validateAst - Invalid Component Schema', () => {
         expect(result.error.path).toBe('/components/Invalid/params/label/type');
       }
     });
+
+    it('should return error for non-string emits entry', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Dialog: {
+            emits: ['close', 42],
+            view: { kind: 'element', tag: 'div' },
+          },
+        },
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/components/Dialog/emits/1');
+      }
+    });
   });
 
   describe('Invalid Component Node', () => {
@@ -2317,6 +2855,33 @@ describe('validateAst - Invalid Component Schema', () => {
       }
     });
 
+    it('should return error for component event handler without action', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Dialog: {
+            emits: ['close'],
+            view: { kind: 'element', tag: 'div' },
+          },
+        },
+        view: {
+          kind: 'component',
+          name: 'Dialog',
+          on: { close: { event: 'close' } },
+        },
+      };
+
+      const result = validateAst(ast);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('SCHEMA_INVALID');
+        expect(result.error.path).toBe('/view/on/close/action');
+      }
+    });
+
     it('should return error for component node with non-string name', () => {
       const ast = {
         version: '1.0',
@@ -2537,6 +3102,138 @@ describe('validateAst - Whitelist Coverage (TDD Red Phase)', () => {
     });
   });
 
+  // ==================== Computed Expression ====================
+
+  describe('Computed Expression', () => {
+    it('should accept computed section and computed expression', () => {
+      const ast = {
+        version: '1.0',
+        state: { count: { type: 'number', initial: 1 } },
+        computed: {
+          doubled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'state', name: 'count' },
+            right: { expr: 'lit', value: 2 },
+          },
+        },
+        actions: [],
+        view: {
+          kind: 'text',
+          value: { expr: 'computed', name: 'doubled' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject computed expression without name', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'text',
+          value: { expr: 'computed' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/value/name');
+      }
+    });
+
+    it('should reject invalid expression in computed section', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        computed: {
+          broken: { expr: 'unknown' },
+        },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/computed/broken/expr');
+      }
+    });
+  });
+
+  // ==================== Match View Node ====================
+
+  describe('Match View Node', () => {
+    it('should accept match node with cases, default and transition', () => {
+      const ast = {
+        version: '1.0',
+        state: { status: { type: 'string', initial: 'idle' } },
+        actions: [],
+        view: {
+          kind: 'match',
+          value: { expr: 'state', name: 'status' },
+          cases: {
+            loading: { kind: 'text', value: { expr: 'lit', value: 'Loading...' } },
+            error: { kind: 'text', value: { expr: 'lit', value: 'Failed' } },
+          },
+          default: { kind: 'element', tag: 'div' },
+          transition: {
+            enter: 'fade-enter',
+            enterActive: 'fade-enter-active',
+            exit: 'fade-exit',
+            exitActive: 'fade-exit-active',
+          },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject match node without cases', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'match',
+          value: { expr: 'lit', value: 'a' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/cases');
+      }
+    });
+
+    it('should reject invalid view node in a match case', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'match',
+          value: { expr: 'lit', value: 'a' },
+          cases: {
+            a: { kind: 'unknown' },
+          },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/cases/a/kind');
+      }
+    });
+  });
+
   // ==================== Delay Action ====================
 
   describe('Delay Action', () => {
@@ -2710,6 +3407,847 @@ describe('validateAst - Whitelist Coverage (TDD Red Phase)', () => {
       expect(result.ok).toBe(true);
     });
   });
+
+  // ==================== Run Action ====================
+
+  describe('Run Action', () => {
+    it('should accept run action with payload and result', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'save',
+            steps: [
+              {
+                do: 'run',
+                action: 'validate',
+                payload: { expr: 'lit', value: 'draft' },
+                result: 'validation',
+              },
+            ],
+          },
+          { name: 'validate', steps: [] },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for run action without action name', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'save', steps: [{ do: 'run' }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/action');
+      }
+    });
+  });
+
+  // ==================== Try / Throw Actions ====================
+
+  describe('Try / Throw Actions', () => {
+    it('should accept try action with catch and finally', () => {
+      const ast = {
+        version: '1.0',
+        state: { status: { type: 'string', initial: '' } },
+        actions: [
+          {
+            name: 'save',
+            steps: [
+              {
+                do: 'try',
+                steps: [{ do: 'throw', message: { expr: 'lit', value: 'invalid' } }],
+                catch: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } }],
+                finally: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'done' } }],
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for try action without steps', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'save', steps: [{ do: 'try', catch: [] }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/steps');
+      }
+    });
+
+    it('should return error for invalid nested step in catch', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'save', steps: [{ do: 'try', steps: [], catch: [{ do: 'throw' }] }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/catch/0/message');
+      }
+    });
+  });
+
+  // ==================== Parallel Action ====================
+
+  describe('Parallel Action', () => {
+    it('should accept parallel action with branches and handlers', () => {
+      const ast = {
+        version: '1.0',
+        state: { status: { type: 'string', initial: '' } },
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'parallel',
+                branches: [
+                  [{ do: 'fetch', url: { expr: 'lit', value: '/api/users' }, result: 'users' }],
+                  [{ do: 'fetch', url: { expr: 'lit', value: '/api/stats' }, result: 'stats' }],
+                ],
+                onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'ready' } }],
+                onError: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } }],
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for branch that is not an array', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'load',
+            steps: [{ do: 'parallel', branches: [[], { do: 'set' }] }],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/branches/1');
+      }
+    });
+  });
+
+  // ==================== ForEach Action ====================
+
+  describe('ForEach Action', () => {
+    it('should accept forEach action with loop variables and concurrency', () => {
+      const ast = {
+        version: '1.0',
+        state: { todos: { type: 'list', initial: [] } },
+        actions: [
+          {
+            name: 'completeAll',
+            steps: [
+              {
+                do: 'forEach',
+                items: { expr: 'state', name: 'todos' },
+                as: 'todo',
+                index: 'i',
+                concurrency: 3,
+                steps: [
+                  {
+                    do: 'setPath',
+                    target: 'todos',
+                    path: { expr: 'var', name: 'i' },
+                    value: { expr: 'lit', value: true },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for forEach action without as', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'completeAll',
+            steps: [{ do: 'forEach', items: { expr: 'lit', value: [] }, steps: [] }],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/as');
+      }
+    });
+
+    it('should return error for non-positive concurrency', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'completeAll',
+            steps: [
+              { do: 'forEach', items: { expr: 'lit', value: [] }, as: 'item', steps: [], concurrency: 0 },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/concurrency');
+      }
+    });
+  });
+
+  // ==================== Resources ====================
+
+  describe('Resources', () => {
+    it('should accept resources, resource expressions and invalidate steps', () => {
+      const ast = {
+        version: '1.0',
+        state: { userId: { type: 'string', initial: '1' } },
+        resources: {
+          user: {
+            url: {
+              expr: 'concat',
+              items: [{ expr: 'lit', value: '/api/users/' }, { expr: 'state', name: 'userId' }],
+            },
+            refreshInterval: 30000,
+            staleTime: 5000,
+            dedupe: true,
+          },
+        },
+        actions: [{ name: 'reload', steps: [{ do: 'invalidate', resource: 'user' }] }],
+        view: {
+          kind: 'text',
+          value: { expr: 'resource', name: 'user', field: 'data' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject resource without url', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        resources: { user: { staleTime: 5000 } },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/resources/user/url');
+      }
+    });
+
+    it('should reject negative refreshInterval', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        resources: { user: { url: { expr: 'lit', value: '/api/user' }, refreshInterval: -1 } },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/resources/user/refreshInterval');
+      }
+    });
+
+    it('should reject resource expression with unknown field', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'text',
+          value: { expr: 'resource', name: 'user', field: 'status' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/value/field');
+      }
+    });
+
+    it('should return error for invalidate action without resource', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'reload', steps: [{ do: 'invalidate' }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/resource');
+      }
+    });
+  });
+
+  // ==================== Forms ====================
+
+  describe('Forms', () => {
+    it('should accept forms, form expressions and form steps', () => {
+      const ast = {
+        version: '1.0',
+        state: {
+          password: { type: 'string', initial: '' },
+          confirm: { type: 'string', initial: '' },
+        },
+        forms: {
+          signup: {
+            fields: {
+              password: {
+                target: 'password',
+                rules: [{ type: 'required' }, { type: 'min', value: 8 }, { type: 'pattern', value: '[0-9]' }],
+              },
+              confirm: { target: 'confirm', rules: [{ type: 'equals', field: 'password', message: 'No match' }] },
+            },
+            messages: { required: 'Please fill in this field' },
+          },
+        },
+        actions: [
+          {
+            name: 'submit',
+            steps: [
+              { do: 'validateForm', form: 'signup', field: 'password' },
+              { do: 'submitForm', form: 'signup', onSuccess: [{ do: 'resetForm', form: 'signup' }] },
+            ],
+          },
+        ],
+        view: {
+          kind: 'text',
+          value: { expr: 'form', name: 'signup', field: 'password', prop: 'error' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject unknown rule types and invalid patterns', () => {
+      const createAst = (rule: unknown) => ({
+        version: '1.0',
+        state: { name: { type: 'string', initial: '' } },
+        forms: { profile: { fields: { name: { target: 'name', rules: [rule] } } } },
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      });
+
+      const unknownRule = validateAst(createAst({ type: 'email' }));
+      const invalidPattern = validateAst(createAst({ type: 'pattern', value: '[' }));
+
+      expect(unknownRule.ok).toBe(false);
+      if (!unknownRule.ok) {
+        expect(unknownRule.error.path).toBe('/forms/profile/fields/name/rules/0/type');
+      }
+      expect(invalidPattern.ok).toBe(false);
+      if (!invalidPattern.ok) {
+        expect(invalidPattern.error.path).toBe('/forms/profile/fields/name/rules/0/value');
+      }
+    });
+
+    it('should reject form expression with unknown prop', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: {
+          kind: 'text',
+          value: { expr: 'form', name: 'signup', prop: 'pending' },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/value/prop');
+      }
+    });
+  });
+
+  // ==================== Internationalization ====================
+
+  describe('I18n', () => {
+    it('should accept inline and imported catalogs with t expressions', () => {
+      const ast = {
+        version: '1.0',
+        imports: { ja: './messages/ja.json' },
+        i18n: {
+          defaultLocale: 'en',
+          localeParam: 'lang',
+          localeCookie: 'locale',
+          messages: {
+            en: { 'cart.items': '{count, plural, one {# item} other {# items}}' },
+            ja: { expr: 'import', name: 'ja' },
+          },
+        },
+        state: { count: { type: 'number', initial: 0 } },
+        actions: [],
+        view: {
+          kind: 'text',
+          value: { expr: 't', key: 'cart.items', params: { count: { expr: 'state', name: 'count' } } },
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject a default locale without messages', () => {
+      const ast = {
+        version: '1.0',
+        i18n: { defaultLocale: 'fr', messages: { en: {} } },
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/i18n/defaultLocale');
+      }
+    });
+
+    it('should reject non-string messages and t expressions without key', () => {
+      const badMessage = validateAst({
+        version: '1.0',
+        i18n: { defaultLocale: 'en', messages: { en: { title: 1 } } },
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'div' },
+      });
+      const missingKey = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'text', value: { expr: 't' } },
+      });
+
+      expect(badMessage.ok).toBe(false);
+      if (!badMessage.ok) {
+        expect(badMessage.error.path).toBe('/i18n/messages/en/title');
+      }
+      expect(missingKey.ok).toBe(false);
+      if (!missingKey.ok) {
+        expect(missingKey.error.path).toBe('/view/value/key');
+      }
+    });
+  });
+
+  // ==================== Context ====================
+
+  describe('Context', () => {
+    it('should accept provide on elements and components with context expressions', () => {
+      const ast = {
+        version: '1.0',
+        state: { theme: { type: 'string', initial: 'dark' } },
+        actions: [],
+        components: {
+          Badge: {
+            view: { kind: 'text', value: { expr: 'context', name: 'user', path: 'name' } },
+          },
+        },
+        view: {
+          kind: 'element',
+          tag: 'main',
+          provide: { theme: { expr: 'state', name: 'theme' } },
+          children: [
+            {
+              kind: 'component',
+              name: 'Badge',
+              provide: { user: { expr: 'lit', value: { name: 'Ada' } } },
+            },
+          ],
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject invalid provided values and context expressions without name', () => {
+      const badProvide = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'main', provide: { theme: { expr: 'unknown' } } },
+      });
+      const missingName = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'text', value: { expr: 'context' } },
+      });
+
+      expect(badProvide.ok).toBe(false);
+      if (!badProvide.ok) {
+        expect(badProvide.error.path).toBe('/view/provide/theme/expr');
+      }
+      expect(missingName.ok).toBe(false);
+      if (!missingName.ok) {
+        expect(missingName.error.path).toBe('/view/value/name');
+      }
+    });
+  });
+
+  // ==================== Scoped Slots ====================
+
+  describe('Scoped Slots', () => {
+    it('should accept slot props, slotProps bindings and named slot content', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          List: {
+            params: { items: { type: 'json' } },
+            view: {
+              kind: 'element',
+              tag: 'ul',
+              children: [
+                { kind: 'slot', name: 'header' },
+                {
+                  kind: 'each',
+                  items: { expr: 'param', name: 'items' },
+                  as: 'item',
+                  body: { kind: 'slot', props: { item: { expr: 'var', name: 'item' } } },
+                },
+              ],
+            },
+          },
+        },
+        view: {
+          kind: 'component',
+          name: 'List',
+          props: { items: { expr: 'lit', value: ['a'] } },
+          slotProps: 'row',
+          children: [
+            { kind: 'element', tag: 'h2', slot: 'header' },
+            { kind: 'text', value: { expr: 'var', name: 'row', path: 'item' } },
+          ],
+        },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject invalid slot props and non-string slot names', () => {
+      const badProps = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: { List: { view: { kind: 'slot', props: { item: { expr: 'unknown' } } } } },
+        view: { kind: 'component', name: 'List' },
+      });
+      const badSlot = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        view: { kind: 'element', tag: 'div', slot: 1 },
+      });
+
+      expect(badProps.ok).toBe(false);
+      if (!badProps.ok) {
+        expect(badProps.error.path).toBe('/components/List/view/props/item/expr');
+      }
+      expect(badSlot.ok).toBe(false);
+      if (!badSlot.ok) {
+        expect(badSlot.error.path).toBe('/view/slot');
+      }
+    });
+  });
+
+  // ==================== Component Lifecycle ====================
+
+  describe('Component Lifecycle', () => {
+    it('should accept onMount and onUnmount on component definitions', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Ticker: {
+            localState: { ticks: { type: 'number', initial: 0 } },
+            localActions: [{ name: 'start', steps: [] }, { name: 'stop', steps: [] }],
+            lifecycle: { onMount: 'start', onUnmount: 'stop' },
+            view: { kind: 'text', value: { expr: 'local', name: 'ticks' } },
+          },
+        },
+        view: { kind: 'component', name: 'Ticker' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject non-string lifecycle hooks', () => {
+      const result = validateAst({
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Ticker: { lifecycle: { onMount: 1 }, view: { kind: 'element', tag: 'div' } },
+        },
+        view: { kind: 'component', name: 'Ticker' },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/components/Ticker/lifecycle/onMount');
+      }
+    });
+  });
+
+  // ==================== WebSocket Connect ====================
+
+  describe('WSConnect Action', () => {
+    it('should accept wsConnect action with handlers and reconnect', () => {
+      const ast = {
+        version: '1.0',
+        state: { messages: { type: 'list', initial: [] } },
+        actions: [
+          {
+            name: 'connect',
+            steps: [
+              {
+                do: 'wsConnect',
+                connection: 'chat',
+                url: { expr: 'lit', value: 'wss://example.com/chat' },
+                protocols: ['v1.chat'],
+                reconnect: { enabled: true, strategy: 'exponential', maxRetries: 5, baseDelay: 1000 },
+                onMessage: [{ do: 'update', target: 'messages', operation: 'push', value: { expr: 'var', name: 'event', path: 'data' } }],
+                onClose: [],
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for wsConnect action without connection', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          { name: 'connect', steps: [{ do: 'wsConnect', url: { expr: 'lit', value: 'wss://example.com' } }] },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/connection');
+      }
+    });
+
+    it('should return error for non-string protocols', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'connect',
+            steps: [
+              { do: 'wsConnect', connection: 'chat', url: { expr: 'lit', value: 'wss://example.com' }, protocols: [1] },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/protocols');
+      }
+    });
+
+    it('should return error for reconnect without enabled flag', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'connect',
+            steps: [
+              {
+                do: 'wsConnect',
+                connection: 'chat',
+                url: { expr: 'lit', value: 'wss://example.com' },
+                reconnect: { strategy: 'linear', maxRetries: 3, baseDelay: 500 },
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/reconnect/enabled');
+      }
+    });
+  });
+
+  // ==================== RPC ====================
+
+  describe('RPC Action', () => {
+    it('should accept rpc action with params, result and timeout', () => {
+      const ast = {
+        version: '1.0',
+        state: { userId: { type: 'number', initial: 1 } },
+        actions: [
+          {
+            name: 'loadUser',
+            steps: [
+              {
+                do: 'rpc',
+                connection: 'api',
+                method: 'users.get',
+                params: { expr: 'obj', props: { id: { expr: 'state', name: 'userId' } } },
+                result: 'user',
+                timeout: 5000,
+                onSuccess: [],
+                onError: [],
+              },
+            ],
+          },
+        ],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for rpc action without method', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'call', steps: [{ do: 'rpc', connection: 'api' }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/method');
+      }
+    });
+
+    it('should return error for non-positive rpc timeout', () => {
+      const ast = {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'call', steps: [{ do: 'rpc', connection: 'api', method: 'ping', timeout: 0 }] }],
+        view: { kind: 'element', tag: 'div' },
+      };
+
+      const result = validateAst(ast);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/actions/0/steps/0/timeout');
+      }
+    });
+  });
+
+  // ==================== Event Handler Modifiers ====================
+
+  describe('Event Handler Modifiers', () => {
+    function createAst(handler: Record<string, unknown>) {
+      return {
+        version: '1.0',
+        state: {},
+        actions: [{ name: 'submit', steps: [] }],
+        view: {
+          kind: 'element',
+          tag: 'form',
+          props: { onSubmit: { event: 'submit', action: 'submit', ...handler } },
+        },
+      };
+    }
+
+    it('should accept modifiers and key combos', () => {
+      const result = validateAst(createAst({ modifiers: ['prevent', 'stop', 'once'], keys: ['Enter', 'ctrl+k'] }));
+      expect(result.ok).toBe(true);
+    });
+
+    it('should return error for unknown modifier', () => {
+      const result = validateAst(createAst({ modifiers: ['prevent', 'halt'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/props/onSubmit/modifiers/1');
+      }
+    });
+
+    it('should return error for incomplete key combo', () => {
+      const result = validateAst(createAst({ keys: ['ctrl+'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.path).toBe('/view/props/onSubmit/keys/0');
+      }
+    });
+  });
 });
 
 // NOTE: Component semantic validation (COMPONENT_NOT_FOUND, COMPONENT_PROP_MISSING,
@@ -0,0 +1,104 @@
+/**
+ * Test module for errors of actions nothing awaits.
+ *
+ * Coverage:
+ * - A throw step outside try in a click action is reported, not left unhandled
+ * - A failing forEach iteration in an onMount action is reported, not left unhandled
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createApp } from '../app.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+describe('App action errors', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+  let rejections: unknown[];
+  const onRejection = (reason: unknown): void => {
+    rejections.push(reason);
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    rejections = [];
+    process.on('unhandledRejection', onRejection);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.off('unhandledRejection', onRejection);
+    vi.restoreAllMocks();
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  /**
+   * Waits long enough for Node to report unhandled rejections
+   */
+  function flushRejections(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  // ==================== Tests ====================
+
+  it('should report a throw step outside try instead of rejecting', async () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: {
+        save: { name: 'save', steps: [{ do: 'throw', message: { expr: 'lit', value: 'boom' } }] },
+      },
+      view: {
+        kind: 'element',
+        tag: 'button',
+        props: { onClick: { event: 'click', action: 'save' } },
+      },
+    } as unknown as CompiledProgram;
+    const app = createApp(program, container);
+
+    // Act
+    container.querySelector('button')?.click();
+    await flushRejections();
+
+    // Assert
+    expect(rejections).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('Action "save" failed:', new Error('boom'));
+    app.destroy();
+  });
+
+  it('should report a failing forEach iteration instead of rejecting', async () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: {
+        load: {
+          name: 'load',
+          steps: [
+            {
+              do: 'forEach',
+              items: { expr: 'lit', value: ['a'] },
+              as: 'item',
+              steps: [{ do: 'throw', message: { expr: 'var', name: 'item' } }],
+            },
+          ],
+        },
+      },
+      lifecycle: { onMount: 'load' },
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as CompiledProgram;
+
+    // Act
+    const app = createApp(program, container);
+    await flushRejections();
+
+    // Assert
+    expect(rejections).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('Action "load" failed:', new Error('a'));
+    app.destroy();
+  });
+});
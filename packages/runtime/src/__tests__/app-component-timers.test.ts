@@ -0,0 +1,111 @@
+/**
+ * Test module for component timers from compiled programs.
+ *
+ * Coverage:
+ * - An interval started by onMount updates the component's local state
+ * - Unmounting runs onUnmount (clearTimer, dom) and disposes the interval
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { compile } from '@constela/compiler';
+import { createApp } from '../app.js';
+
+describe('Compiled component timers', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    document.body.classList.remove('stopped');
+    vi.useRealTimers();
+  });
+
+  // ==================== Helper Functions ====================
+
+  /**
+   * Compiles a program showing a Ticker while `visible` is true
+   */
+  function compileTickerProgram() {
+    const result = compile({
+      version: '1.0',
+      state: { visible: { type: 'boolean', initial: true } },
+      actions: [],
+      components: {
+        Ticker: {
+          localState: { ticks: { type: 'number', initial: 0 } },
+          localActions: [
+            {
+              name: 'start',
+              steps: [{ do: 'interval', ms: { expr: 'lit', value: 100 }, action: 'tick', result: 'timer' }],
+            },
+            { name: 'tick', steps: [{ do: 'update', target: 'ticks', operation: 'increment' }] },
+            {
+              name: 'stop',
+              steps: [
+                { do: 'clearTimer', target: { expr: 'var', name: 'timer' } },
+                {
+                  do: 'dom',
+                  operation: 'addClass',
+                  selector: { expr: 'lit', value: 'body' },
+                  value: { expr: 'lit', value: 'stopped' },
+                },
+              ],
+            },
+          ],
+          lifecycle: { onMount: 'start', onUnmount: 'stop' },
+          view: {
+            kind: 'element',
+            tag: 'span',
+            children: [{ kind: 'text', value: { expr: 'state', name: 'ticks' } }],
+          },
+        },
+      },
+      view: {
+        kind: 'if',
+        condition: { expr: 'state', name: 'visible' },
+        then: { kind: 'component', name: 'Ticker' },
+      },
+    });
+    if (!result.ok) {
+      throw new Error(result.errors.map((error) => error.message).join('\n'));
+    }
+    return result.program;
+  }
+
+  // ==================== Tests ====================
+
+  it('should tick from an interval started on mount', async () => {
+    // Arrange
+    const app = createApp(compileTickerProgram(), container);
+
+    // Act
+    await vi.advanceTimersByTimeAsync(250);
+
+    // Assert
+    expect(container.querySelector('span')?.textContent).toBe('2');
+    app.destroy();
+  });
+
+  it('should dispose the interval when the component unmounts', async () => {
+    // Arrange
+    const app = createApp(compileTickerProgram(), container);
+    await vi.advanceTimersByTimeAsync(150);
+
+    // Act
+    app.setState('visible', false);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Assert
+    expect(container.querySelector('span')).toBeNull();
+    expect(document.body.classList.contains('stopped')).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+    app.destroy();
+  });
+});
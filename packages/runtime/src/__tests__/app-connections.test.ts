@@ -0,0 +1,257 @@
+/**
+ * Test module for WebSocket connections shared by an app's actions.
+ *
+ * Coverage:
+ * - createApp: a connection opened by one handler is usable from another
+ * - createApp: destroy() closes the app's connections
+ * - createApp: an rpc step calls through a connection opened by another handler
+ * - createApp: a server message updates state bound by another handler
+ * - hydrateApp: a connection opened on mount is usable from event handlers
+ * - hydrateApp: JSON-RPC notifications reach bind targets while responses do not
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createApp } from '../app.js';
+import { hydrateApp } from '../hydrate.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+// ==================== Mock WebSocket ====================
+
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  url: string;
+  onopen: ((ev: Event) => void) | null = null;
+  onclose: ((ev: CloseEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  send = vi.fn();
+  close = vi.fn(() => {
+    this.readyState = MockWebSocket.CLOSING;
+  });
+
+  simulateOpen() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+}
+
+describe('App WebSocket connections', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+  let originalWebSocket: typeof WebSocket;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    originalWebSocket = globalThis.WebSocket;
+    MockWebSocket.instances = [];
+    globalThis.WebSocket = MockWebSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    globalThis.WebSocket = originalWebSocket;
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createChatProgram(overrides: Partial<CompiledProgram> = {}): CompiledProgram {
+    return {
+      version: '1.0',
+      state: {},
+      actions: {
+        connect: {
+          name: 'connect',
+          steps: [{ do: 'wsConnect', connection: 'chat', url: { expr: 'lit', value: 'wss://example.com/ws' } }],
+        },
+        say: {
+          name: 'say',
+          steps: [{ do: 'send', connection: 'chat', data: { expr: 'lit', value: 'hello' } }],
+        },
+      },
+      view: {
+        kind: 'element',
+        tag: 'div',
+        children: [
+          {
+            kind: 'element',
+            tag: 'button',
+            props: { id: { expr: 'lit', value: 'connect' }, onClick: { event: 'click', action: 'connect' } },
+          },
+          {
+            kind: 'element',
+            tag: 'button',
+            props: { id: { expr: 'lit', value: 'say' }, onClick: { event: 'click', action: 'say' } },
+          },
+        ],
+      },
+      ...overrides,
+    } as CompiledProgram;
+  }
+
+  function click(id: string): void {
+    container.querySelector<HTMLButtonElement>(`#${id}`)?.click();
+  }
+
+  // ==================== createApp ====================
+
+  describe('createApp', () => {
+    it('should send through a connection opened by another handler', async () => {
+      // Arrange
+      const app = createApp(createChatProgram(), container);
+      click('connect');
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+      MockWebSocket.instances[0]?.simulateOpen();
+
+      // Act
+      click('say');
+
+      // Assert
+      await vi.waitFor(() => expect(MockWebSocket.instances[0]?.send).toHaveBeenCalledWith('hello'));
+      app.destroy();
+    });
+
+    it('should close the connections on destroy', async () => {
+      // Arrange
+      const app = createApp(createChatProgram(), container);
+      click('connect');
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+
+      // Act
+      app.destroy();
+
+      // Assert
+      expect(MockWebSocket.instances[0]?.close).toHaveBeenCalled();
+    });
+
+    it('should call a remote method through a connection opened by another handler', async () => {
+      // Arrange
+      const program = createChatProgram({
+        state: { name: { type: 'string', initial: '' } },
+      });
+      program.actions['say'] = {
+        name: 'say',
+        steps: [
+          {
+            do: 'rpc',
+            connection: 'chat',
+            method: 'users.get',
+            params: { expr: 'lit', value: { id: 1 } },
+            result: 'user',
+            onSuccess: [{ do: 'set', target: 'name', value: { expr: 'var', name: 'user', path: 'name' } }],
+          },
+        ],
+      } as CompiledProgram['actions'][string];
+      const app = createApp(program, container);
+      click('connect');
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+      const socket = MockWebSocket.instances[0]!;
+      socket.simulateOpen();
+
+      // Act
+      click('say');
+      await vi.waitFor(() => expect(socket.send).toHaveBeenCalled());
+      const request = JSON.parse(socket.send.mock.calls[0]?.[0] as string) as { id: number; method: string };
+      socket.onmessage?.(
+        new MessageEvent('message', {
+          data: JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { name: 'Ada' } }),
+        })
+      );
+
+      // Assert
+      expect(request.method).toBe('users.get');
+      await vi.waitFor(() => expect(app.getState('name')).toBe('Ada'));
+      app.destroy();
+    });
+
+    it('should update state bound by another handler when a message arrives', async () => {
+      // Arrange
+      const program = createChatProgram({
+        state: { latest: { type: 'object', initial: {} } },
+      });
+      program.actions['say'] = {
+        name: 'say',
+        steps: [{ do: 'bind', connection: 'chat', target: 'latest' }],
+      } as CompiledProgram['actions'][string];
+      const app = createApp(program, container);
+      click('connect');
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+      const socket = MockWebSocket.instances[0]!;
+      socket.simulateOpen();
+      click('say');
+
+      // Act
+      socket.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ text: 'hi' }) }));
+
+      // Assert
+      await vi.waitFor(() => expect(app.getState('latest')).toEqual({ text: 'hi' }));
+      app.destroy();
+    });
+  });
+
+  // ==================== hydrateApp ====================
+
+  describe('hydrateApp', () => {
+    it('should send through a connection opened on mount', async () => {
+      // Arrange
+      container.innerHTML = '<div><button id="connect"></button><button id="say"></button></div>';
+      const app = hydrateApp({
+        program: createChatProgram({ lifecycle: { onMount: 'connect' } }),
+        container,
+      });
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+      MockWebSocket.instances[0]?.simulateOpen();
+
+      // Act
+      click('say');
+
+      // Assert
+      await vi.waitFor(() => expect(MockWebSocket.instances[0]?.send).toHaveBeenCalledWith('hello'));
+      app.destroy();
+      expect(MockWebSocket.instances[0]?.close).toHaveBeenCalled();
+    });
+
+    it('should route notifications but not rpc responses to bind targets', async () => {
+      // Arrange
+      container.innerHTML = '<div><button id="connect"></button><button id="say"></button></div>';
+      const program = createChatProgram({
+        state: { notice: { type: 'object', initial: {} } },
+        lifecycle: { onMount: 'connect' },
+      });
+      program.actions['say'] = {
+        name: 'say',
+        steps: [{ do: 'bind', connection: 'chat', target: 'notice' }],
+      } as CompiledProgram['actions'][string];
+      const app = hydrateApp({ program, container });
+      await vi.waitFor(() => expect(MockWebSocket.instances).toHaveLength(1));
+      const socket = MockWebSocket.instances[0]!;
+      socket.simulateOpen();
+      click('say');
+      const notification = { jsonrpc: '2.0', method: 'chat.message', params: { text: 'hi' } };
+
+      // Act
+      socket.onmessage?.(new MessageEvent('message', { data: JSON.stringify(notification) }));
+      socket.onmessage?.(
+        new MessageEvent('message', { data: JSON.stringify({ jsonrpc: '2.0', id: 99, result: 'ignored' }) })
+      );
+
+      // Assert
+      await vi.waitFor(() => expect(app.getState('notice')).toEqual(notification));
+      app.destroy();
+    });
+  });
+});
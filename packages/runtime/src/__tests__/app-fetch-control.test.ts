@@ -0,0 +1,96 @@
+/**
+ * Test module for fetch requests tracked per app.
+ *
+ * Coverage:
+ * - createApp: destroy() aborts the app's in-flight requests
+ * - hydrateApp: destroy() aborts the app's in-flight requests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createApp } from '../app.js';
+import { hydrateApp } from '../hydrate.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+describe('App fetch requests', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+  let originalFetch: typeof globalThis.fetch;
+  let signals: AbortSignal[];
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    originalFetch = globalThis.fetch;
+    signals = [];
+    // Requests stay pending until aborted
+    globalThis.fetch = vi.fn(
+      (_url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          if (init?.signal) {
+            signals.push(init.signal);
+          }
+          init?.signal?.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        })
+    ) as typeof globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createSearchProgram(): CompiledProgram {
+    return {
+      version: '1.0',
+      state: { results: { type: 'list', initial: [] } },
+      actions: {
+        search: {
+          name: 'search',
+          steps: [
+            {
+              do: 'fetch',
+              url: { expr: 'lit', value: '/api/search' },
+              abortKey: 'search',
+              result: 'data',
+              onSuccess: [{ do: 'set', target: 'results', value: { expr: 'var', name: 'data' } }],
+            },
+          ],
+        },
+      },
+      lifecycle: { onMount: 'search' },
+      view: { kind: 'element', tag: 'div' },
+    } as unknown as CompiledProgram;
+  }
+
+  // ==================== Tests ====================
+
+  it('should abort in-flight requests when a created app is destroyed', async () => {
+    // Arrange
+    const app = createApp(createSearchProgram(), container);
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+
+    // Act
+    app.destroy();
+
+    // Assert
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it('should abort in-flight requests when a hydrated app is destroyed', async () => {
+    // Arrange
+    container.innerHTML = '<div></div>';
+    const app = hydrateApp({ program: createSearchProgram(), container });
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+
+    // Act
+    app.destroy();
+
+    // Assert
+    expect(signals[0]?.aborted).toBe(true);
+  });
+});
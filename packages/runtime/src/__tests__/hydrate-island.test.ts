@@ -11,6 +11,7 @@
  * - Strategy: 'never' (SSR only, no hydration)
  * - Island detection from DOM (data attributes)
  * - hydrateAppWithIslands integration
+ * - Island content is hydrated with its serialized state and program resources
  *
  * TDD Red Phase: These tests verify the Island hydration implementation.
  */
@@ -1286,4 +1287,67 @@ describe('Island Hydration', () => {
       }).not.toThrow();
     });
   });
+
+  // ==================== Island State ====================
+
+  describe('Island state', () => {
+    it('should hydrate island content with its serialized state and program resources', async () => {
+      // Arrange
+      const { hydrateAppWithIslands } = await import('../hydrate.js');
+      const originalFetch = globalThis.fetch;
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ name: 'Fetched' })));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      container.innerHTML =
+        '<div><div data-island-id="profile" data-island-strategy="load" data-island-state="{&quot;count&quot;:2}">' +
+        '<button>2 Ada</button></div></div>';
+      const program = createMinimalProgram({
+        resources: { user: { url: { expr: 'lit', value: '/api/island/user' } } },
+        resourceData: { user: { key: '/api/island/user', data: { name: 'Ada' } } },
+        view: {
+          kind: 'element',
+          tag: 'div',
+          children: [
+            createIslandNode({
+              id: 'profile',
+              state: { count: { type: 'number', initial: 0 } },
+              actions: {
+                increment: {
+                  name: 'increment',
+                  steps: [{ do: 'update', target: 'count', operation: 'increment' }],
+                },
+              },
+              content: {
+                kind: 'element',
+                tag: 'button',
+                props: { onClick: { event: 'click', action: 'increment' } },
+                children: [
+                  { kind: 'text', value: { expr: 'state', name: 'count' } },
+                  { kind: 'text', value: { expr: 'lit', value: ' ' } },
+                  {
+                    kind: 'text',
+                    value: {
+                      expr: 'get',
+                      base: { expr: 'resource', name: 'user', field: 'data' },
+                      path: 'name',
+                    },
+                  },
+                ],
+              },
+            }),
+          ],
+        },
+      } as unknown as Partial<CompiledProgram>);
+
+      // Act
+      const cleanup = hydrateAppWithIslands(program, { container });
+      container.querySelector('button')?.click();
+      await Promise.resolve();
+
+      // Assert
+      expect(container.querySelector('button')?.textContent).toBe('3 Ada');
+      expect(fetchMock).not.toHaveBeenCalled();
+      cleanup();
+      globalThis.fetch = originalFetch;
+    });
+  });
 });
@@ -0,0 +1,90 @@
+/**
+ * Test module for Event Handler Modifiers in Hydration.
+ *
+ * Coverage:
+ * - prevent stops native form submission on hydrated forms
+ * - keys filter keyboard events on hydrated elements
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { hydrateApp } from '../hydrate.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+describe('Event Modifiers in Hydration', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createProgram(view: CompiledProgram['view']): CompiledProgram {
+    return {
+      version: '1.0',
+      state: { count: { type: 'number', initial: 0 } },
+      actions: {
+        increment: {
+          name: 'increment',
+          steps: [{ do: 'update', target: 'count', operation: 'increment' }],
+        },
+      },
+      view,
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should prevent the default of submit events', async () => {
+    // Arrange
+    container.innerHTML = '<form></form>';
+    const app = hydrateApp({
+      program: createProgram({
+        kind: 'element',
+        tag: 'form',
+        props: { onSubmit: { event: 'submit', action: 'increment', modifiers: ['prevent'] } },
+      }),
+      container,
+    });
+    const event = new Event('submit', { cancelable: true });
+
+    // Act
+    container.querySelector('form')!.dispatchEvent(event);
+    await Promise.resolve();
+
+    // Assert
+    expect(event.defaultPrevented).toBe(true);
+    expect(app.getState('count')).toBe(1);
+    app.destroy();
+  });
+
+  it('should only run for matching keys', async () => {
+    // Arrange
+    container.innerHTML = '<input>';
+    const app = hydrateApp({
+      program: createProgram({
+        kind: 'element',
+        tag: 'input',
+        props: { onKeydown: { event: 'keydown', action: 'increment', keys: ['Enter'] } },
+      }),
+      container,
+    });
+    const input = container.querySelector('input')!;
+
+    // Act
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    await Promise.resolve();
+
+    // Assert
+    expect(app.getState('count')).toBe(1);
+    app.destroy();
+  });
+});
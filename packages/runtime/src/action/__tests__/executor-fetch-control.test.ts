@@ -0,0 +1,233 @@
+/**
+ * Test module for fetch cancellation and concurrency policies.
+ *
+ * Coverage:
+ * - takeLatest aborts earlier in-flight requests of the same step
+ * - takeFirst ignores new requests while one is in flight
+ * - queue starts requests one after another
+ * - abort step cancels requests by abortKey
+ * - abort step leaves requests tracked by another app's control alone
+ * - Cancelled requests run neither onSuccess nor onError
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeAction } from '../executor.js';
+import { createFetchControl } from '../fetch-control.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with fetch concurrency policies', () => {
+  // ==================== Setup ====================
+
+  let originalFetch: typeof globalThis.fetch;
+  let pending: { url: string; resolve: (body: unknown) => void }[];
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    pending = [];
+    // Each request stays pending until resolved by the test, and rejects on abort
+    globalThis.fetch = vi.fn(
+      (url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          pending.push({
+            url: String(url),
+            resolve: (body) => resolve(new Response(JSON.stringify(body))),
+          });
+          init?.signal?.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        })
+    ) as typeof globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createContext(actions: Record<string, CompiledAction> = {}): ActionContext {
+    return {
+      state: createStateStore({
+        results: { type: 'list', initial: [] },
+        errors: { type: 'number', initial: 0 },
+      }),
+      actions,
+      locals: {},
+      fetchControl: createFetchControl(),
+    };
+  }
+
+  /**
+   * Creates a search action whose fetch URL is the `q` local
+   */
+  function createSearchAction(options: Record<string, unknown>): CompiledAction {
+    return {
+      name: 'search',
+      steps: [
+        {
+          do: 'fetch',
+          url: { expr: 'var', name: 'q' },
+          result: 'data',
+          onSuccess: [
+            { do: 'update', target: 'results', operation: 'push', value: { expr: 'var', name: 'data' } },
+          ],
+          onError: [{ do: 'update', target: 'errors', operation: 'increment' }],
+          ...options,
+        } as CompiledActionStep,
+      ],
+    };
+  }
+
+  function run(action: CompiledAction, ctx: ActionContext, q: string): Promise<void> {
+    return executeAction(action, { ...ctx, locals: { q } });
+  }
+
+  /**
+   * Resolves the pending request for the given URL
+   */
+  function respond(url: string, body: unknown): void {
+    pending.find((request) => request.url === url)?.resolve(body);
+  }
+
+  /**
+   * Lets pending promise callbacks run
+   */
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  // ==================== Policies ====================
+
+  describe('policies', () => {
+    it('should abort earlier requests with takeLatest', async () => {
+      // Arrange
+      const action = createSearchAction({ concurrency: 'takeLatest' });
+      const ctx = createContext();
+
+      // Act
+      const first = run(action, ctx, '/search?q=a');
+      await flush();
+      const second = run(action, ctx, '/search?q=ab');
+      await flush();
+      respond('/search?q=ab', 'ab');
+      await Promise.all([first, second]);
+
+      // Assert
+      expect(pending).toHaveLength(2);
+      expect(ctx.state.get('results')).toEqual(['ab']);
+      expect(ctx.state.get('errors')).toBe(0);
+    });
+
+    it('should ignore new requests while one is in flight with takeFirst', async () => {
+      // Arrange
+      const action = createSearchAction({ concurrency: 'takeFirst' });
+      const ctx = createContext();
+
+      // Act
+      const first = run(action, ctx, '/search?q=a');
+      const second = run(action, ctx, '/search?q=ab');
+      await flush();
+      respond('/search?q=a', 'a');
+      await Promise.all([first, second]);
+
+      // Assert
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(ctx.state.get('results')).toEqual(['a']);
+    });
+
+    it('should start queued requests after the previous one settled', async () => {
+      // Arrange
+      const action = createSearchAction({ concurrency: 'queue' });
+      const ctx = createContext();
+
+      // Act
+      const first = run(action, ctx, '/search?q=a');
+      const second = run(action, ctx, '/search?q=ab');
+      await flush();
+      const requestsBeforeFirstSettled = pending.length;
+      respond('/search?q=a', 'a');
+      await first;
+      await flush();
+      respond('/search?q=ab', 'ab');
+      await second;
+
+      // Assert
+      expect(requestsBeforeFirstSettled).toBe(1);
+      expect(ctx.state.get('results')).toEqual(['a', 'ab']);
+    });
+  });
+
+  // ==================== Abort Step ====================
+
+  describe('abort step', () => {
+    it('should cancel requests by abortKey without running handlers', async () => {
+      // Arrange
+      const cancel: CompiledAction = {
+        name: 'cancel',
+        steps: [{ do: 'abort', key: 'search' } as CompiledActionStep],
+      };
+      const action = createSearchAction({ abortKey: 'search' });
+      const ctx = createContext();
+
+      // Act
+      const request = run(action, ctx, '/search?q=a');
+      await flush();
+      await executeAction(cancel, ctx);
+      await request;
+
+      // Assert
+      expect(pending).toHaveLength(1);
+      expect(ctx.state.get('results')).toEqual([]);
+      expect(ctx.state.get('errors')).toBe(0);
+    });
+
+    it('should allow new requests after an abort', async () => {
+      // Arrange
+      const cancel: CompiledAction = {
+        name: 'cancel',
+        steps: [{ do: 'abort', key: 'search' } as CompiledActionStep],
+      };
+      const action = createSearchAction({ abortKey: 'search' });
+      const ctx = createContext();
+      const aborted = run(action, ctx, '/search?q=a');
+      await flush();
+      await executeAction(cancel, ctx);
+      await aborted;
+
+      // Act
+      const request = run(action, ctx, '/search?q=b');
+      await flush();
+      respond('/search?q=b', 'b');
+      await request;
+
+      // Assert
+      expect(ctx.state.get('results')).toEqual(['b']);
+    });
+
+    it('should not cancel requests with the same abortKey in another app', async () => {
+      // Arrange
+      const cancel: CompiledAction = {
+        name: 'cancel',
+        steps: [{ do: 'abort', key: 'search' } as CompiledActionStep],
+      };
+      const action = createSearchAction({ abortKey: 'search' });
+      const ctx = createContext();
+      const otherCtx = createContext();
+      const request = run(action, otherCtx, '/search?q=a');
+      await flush();
+
+      // Act
+      await executeAction(cancel, ctx);
+      respond('/search?q=a', 'a');
+      await request;
+
+      // Assert
+      expect(otherCtx.state.get('results')).toEqual(['a']);
+    });
+  });
+});
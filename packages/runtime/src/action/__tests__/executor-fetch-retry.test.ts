@@ -0,0 +1,238 @@
+/**
+ * Test module for Fetch Step retries.
+ *
+ * Coverage:
+ * - Network errors and retryOn statuses are retried until success
+ * - onError runs once after the last attempt with the `attempt` local
+ * - Statuses outside retryOn are not retried
+ * - Backoff follows the reconnect strategies
+ * - Retry-After headers override the computed delay
+ * - The 'none' strategy disables retries
+ * - Aborting during the backoff cancels the request
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with Fetch Step retry', () => {
+  // ==================== Setup ====================
+
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createContext(): ActionContext {
+    return {
+      state: createStateStore({
+        status: { type: 'string', initial: '' },
+        attempts: { type: 'number', initial: 0 },
+      }),
+      actions: {},
+      locals: {},
+    };
+  }
+
+  /**
+   * Creates a fetch action recording 'ok' or 'failed' and the final attempt number
+   */
+  function createFetchAction(step: Record<string, unknown>): CompiledAction {
+    return {
+      name: 'request',
+      steps: [
+        {
+          do: 'fetch',
+          url: { expr: 'lit', value: '/api/items' },
+          onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'ok' } }],
+          onError: [
+            { do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } },
+            { do: 'set', target: 'attempts', value: { expr: 'var', name: 'attempt' } },
+          ],
+          ...step,
+        } as CompiledActionStep,
+      ],
+    };
+  }
+
+  function jsonResponse(status: number, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify({}), { status, headers });
+  }
+
+  // ==================== Retrying ====================
+
+  describe('retrying', () => {
+    it('should retry network errors and retryOn statuses until the request succeeds', async () => {
+      // Arrange
+      const mockFetch = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(jsonResponse(503))
+        .mockResolvedValueOnce(jsonResponse(200));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      const action = createFetchAction({
+        retry: { maxRetries: 3, strategy: 'linear', baseDelay: 100 },
+      });
+
+      // Act
+      const promise = executeAction(action, ctx);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(ctx.state.get('status')).toBe('ok');
+    });
+
+    it('should run onError once with the attempt number after the last retry', async () => {
+      // Arrange
+      const mockFetch = vi.fn().mockImplementation(async () => jsonResponse(500));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      const action = createFetchAction({
+        retry: { maxRetries: 2, strategy: 'linear', baseDelay: 100 },
+      });
+
+      // Act
+      const promise = executeAction(action, ctx);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(ctx.state.get('status')).toBe('failed');
+      expect(ctx.state.get('attempts')).toBe(3);
+    });
+
+    it('should not retry statuses outside retryOn', async () => {
+      // Arrange
+      const mockFetch = vi.fn().mockImplementation(async () => jsonResponse(503));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      const action = createFetchAction({
+        retry: { maxRetries: 3, strategy: 'linear', baseDelay: 100, retryOn: [429] },
+      });
+
+      // Act
+      await executeAction(action, ctx);
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(ctx.state.get('attempts')).toBe(1);
+    });
+
+    it('should not retry with the none strategy', async () => {
+      // Arrange
+      const mockFetch = vi.fn().mockImplementation(async () => jsonResponse(503));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      const action = createFetchAction({
+        retry: { maxRetries: 3, strategy: 'none', baseDelay: 100 },
+      });
+
+      // Act
+      await executeAction(action, ctx);
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(ctx.state.get('status')).toBe('failed');
+    });
+  });
+
+  // ==================== Delays ====================
+
+  describe('delays', () => {
+    it('should back off exponentially', async () => {
+      // Arrange
+      const mockFetch = vi.fn().mockImplementation(async () => jsonResponse(503));
+      globalThis.fetch = mockFetch;
+      const action = createFetchAction({
+        retry: { maxRetries: 2, strategy: 'exponential', baseDelay: 100 },
+      });
+
+      // Act
+      const promise = executeAction(action, createContext());
+      await vi.advanceTimersByTimeAsync(99);
+      const callsBeforeFirstDelay = mockFetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+      const callsAfterFirstDelay = mockFetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(199);
+      const callsBeforeSecondDelay = mockFetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+
+      // Assert
+      expect(callsBeforeFirstDelay).toBe(1);
+      expect(callsAfterFirstDelay).toBe(2);
+      expect(callsBeforeSecondDelay).toBe(2);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honor Retry-After headers', async () => {
+      // Arrange
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(jsonResponse(200));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      const action = createFetchAction({
+        retry: { maxRetries: 1, strategy: 'linear', baseDelay: 100 },
+      });
+
+      // Act
+      const promise = executeAction(action, ctx);
+      await vi.advanceTimersByTimeAsync(1999);
+      const callsBeforeRetryAfter = mockFetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+
+      // Assert
+      expect(callsBeforeRetryAfter).toBe(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(ctx.state.get('status')).toBe('ok');
+    });
+  });
+
+  // ==================== Cancellation ====================
+
+  describe('cancellation', () => {
+    it('should stop retrying when aborted during the backoff', async () => {
+      // Arrange
+      const mockFetch = vi.fn().mockImplementation(async () => jsonResponse(503));
+      globalThis.fetch = mockFetch;
+      const ctx = createContext();
+      ctx.actions = {
+        cancel: { name: 'cancel', steps: [{ do: 'abort', key: 'items' }] },
+      };
+      const action = createFetchAction({
+        abortKey: 'items',
+        retry: { maxRetries: 3, strategy: 'linear', baseDelay: 100 },
+      });
+
+      // Act
+      const promise = executeAction(action, ctx);
+      await vi.advanceTimersByTimeAsync(50);
+      await executeAction(ctx.actions['cancel']!, ctx);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(ctx.state.get('status')).toBe('');
+    });
+  });
+});
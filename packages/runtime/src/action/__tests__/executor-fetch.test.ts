@@ -0,0 +1,277 @@
+/**
+ * Test module for Fetch Step request options.
+ *
+ * Coverage:
+ * - Header expressions are evaluated and sent
+ * - Object bodies are serialized as JSON with a JSON Content-Type
+ * - Explicit Content-Type headers and string bodies are kept as-is
+ * - credentials and PATCH are passed to fetch
+ * - responseType selects how the body is read
+ * - Response status and headers are exposed as the `response` local
+ * - onSuccess and onError handlers read the `response` local
+ * - Requests exceeding the timeout fail with a TimeoutError
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with Fetch Step options', () => {
+  // ==================== Setup ====================
+
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createContext(): ActionContext {
+    return {
+      state: createStateStore({
+        token: { type: 'string', initial: 'secret' },
+        status: { type: 'string', initial: '' },
+      }),
+      actions: {},
+      locals: {},
+    };
+  }
+
+  function createFetchAction(step: Record<string, unknown>): CompiledAction {
+    return {
+      name: 'request',
+      steps: [
+        { do: 'fetch', url: { expr: 'lit', value: '/api/items' }, ...step } as CompiledActionStep,
+      ],
+    };
+  }
+
+  function mockResponse(body: unknown, init: ResponseInit = {}): typeof globalThis.fetch {
+    return vi.fn().mockResolvedValue(new Response(JSON.stringify(body), init));
+  }
+
+  // ==================== Request Options ====================
+
+  describe('request options', () => {
+    it('should evaluate header expressions', async () => {
+      // Arrange
+      const mockFetch = mockResponse({});
+      globalThis.fetch = mockFetch;
+      const action = createFetchAction({
+        headers: {
+          Authorization: {
+            expr: 'concat',
+            items: [{ expr: 'lit', value: 'Bearer ' }, { expr: 'state', name: 'token' }],
+          },
+        },
+      });
+
+      // Act
+      await executeAction(action, createContext());
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/items',
+        expect.objectContaining({ headers: { Authorization: 'Bearer secret' } })
+      );
+    });
+
+    it('should serialize object bodies as JSON', async () => {
+      // Arrange
+      const mockFetch = mockResponse({});
+      globalThis.fetch = mockFetch;
+      const action = createFetchAction({
+        method: 'PATCH',
+        body: { expr: 'lit', value: { done: true } },
+        credentials: 'include',
+      });
+
+      // Act
+      await executeAction(action, createContext());
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledWith('/api/items', {
+        method: 'PATCH',
+        body: '{"done":true}',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+      });
+    });
+
+    it('should keep an explicit Content-Type header', async () => {
+      // Arrange
+      const mockFetch = mockResponse({});
+      globalThis.fetch = mockFetch;
+      const action = createFetchAction({
+        method: 'POST',
+        body: { expr: 'lit', value: { name: 'x' } },
+        headers: { 'content-type': { expr: 'lit', value: 'application/merge-patch+json' } },
+      });
+
+      // Act
+      await executeAction(action, createContext());
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/items',
+        expect.objectContaining({ headers: { 'content-type': 'application/merge-patch+json' } })
+      );
+    });
+  });
+
+  // ==================== Response Handling ====================
+
+  describe('response handling', () => {
+    it('should read text responses', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn().mockResolvedValue(new Response('plain body'));
+      const action = createFetchAction({ responseType: 'text', result: 'body' });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['body']).toBe('plain body');
+    });
+
+    it('should skip reading the body for responseType none', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const action = createFetchAction({
+        method: 'DELETE',
+        responseType: 'none',
+        result: 'body',
+        onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'deleted' } }],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['body']).toBeUndefined();
+      expect(context.state.get('status')).toBe('deleted');
+    });
+
+    it('should expose status and headers as the response local', async () => {
+      // Arrange
+      globalThis.fetch = mockResponse(
+        { id: 1 },
+        { status: 201, statusText: 'Created', headers: { 'X-Request-Id': 'abc' } }
+      );
+      const action = createFetchAction({ method: 'POST', result: 'item' });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['item']).toEqual({ id: 1 });
+      expect(context.locals['response']).toMatchObject({
+        status: 201,
+        statusText: 'Created',
+        headers: { 'x-request-id': 'abc' },
+      });
+    });
+
+    it('should expose the status on HTTP errors', async () => {
+      // Arrange
+      globalThis.fetch = mockResponse({}, { status: 409, statusText: 'Conflict' });
+      const action = createFetchAction({
+        onError: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'status' } }],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe(409);
+    });
+
+    it('should let onSuccess read headers from the response local', async () => {
+      // Arrange
+      globalThis.fetch = mockResponse({ id: 1 }, { status: 201, headers: { 'X-Request-Id': 'abc' } });
+      const action = createFetchAction({
+        method: 'POST',
+        result: 'item',
+        onSuccess: [
+          {
+            do: 'set',
+            target: 'status',
+            value: { expr: 'var', name: 'response', path: 'headers.x-request-id' },
+          },
+        ],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['item']).toEqual({ id: 1 });
+      expect(context.state.get('status')).toBe('abc');
+    });
+
+    it('should let onError read the status from the response local', async () => {
+      // Arrange
+      globalThis.fetch = mockResponse({}, { status: 503, statusText: 'Service Unavailable' });
+      const action = createFetchAction({
+        onError: [
+          { do: 'set', target: 'status', value: { expr: 'var', name: 'response', path: 'statusText' } },
+        ],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('Service Unavailable');
+    });
+  });
+
+  // ==================== Timeout ====================
+
+  describe('timeout', () => {
+    it('should abort the request and run onError with a TimeoutError', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      globalThis.fetch = vi.fn(
+        (_url: string | URL | Request, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => {
+              reject(new DOMException('The operation was aborted.', 'AbortError'));
+            });
+          })
+      ) as typeof globalThis.fetch;
+      const action = createFetchAction({
+        timeout: 1000,
+        onError: [{ do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'name' } }],
+      });
+      const context = createContext();
+
+      // Act
+      const running = executeAction(action, context);
+      await vi.advanceTimersByTimeAsync(1000);
+      await running;
+
+      // Assert
+      expect(context.state.get('status')).toBe('TimeoutError');
+      expect(context.locals['error']).toEqual({
+        message: 'Request timed out after 1000ms',
+        name: 'TimeoutError',
+      });
+    });
+  });
+});
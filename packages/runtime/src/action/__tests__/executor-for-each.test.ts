@@ -0,0 +1,186 @@
+/**
+ * Test module for ForEach Step Executor.
+ *
+ * Coverage:
+ * - Steps run once per item with the item and index locals
+ * - Loop variables do not leak into the action locals
+ * - Iterations run sequentially by default
+ * - Concurrency limits the number of iterations in flight
+ * - Failing iterations stop scheduling and reject the step
+ * - Non-array items are ignored
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with ForEach Step', () => {
+  // ==================== Helper to create context ====================
+
+  function createContext(locals: Record<string, unknown> = {}): ActionContext {
+    return {
+      state: createStateStore({
+        todos: {
+          type: 'list',
+          initial: [
+            { title: 'a', done: false },
+            { title: 'b', done: false },
+            { title: 'c', done: false },
+          ],
+        },
+        log: { type: 'list', initial: [] },
+      }),
+      actions: {},
+      locals,
+    };
+  }
+
+  /**
+   * Creates an action whose only step is a forEach over `items`
+   */
+  function createForEachAction(step: Record<string, unknown>): CompiledAction {
+    return {
+      name: 'loop',
+      steps: [{ do: 'forEach', as: 'item', ...step } as CompiledActionStep],
+    };
+  }
+
+  /**
+   * Call step invoking the `work` local with the current item
+   */
+  const callWork = {
+    do: 'call',
+    target: { expr: 'var', name: 'work' },
+    args: [{ expr: 'var', name: 'item' }],
+  } as CompiledActionStep;
+
+  /**
+   * Creates a worker function that tracks how many calls are in flight
+   */
+  function createTrackedWork() {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const work = vi.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+    return { work, getMaxInFlight: () => maxInFlight };
+  }
+
+  // ==================== Iteration ====================
+
+  describe('iteration', () => {
+    it('should run steps once per item with item and index locals', async () => {
+      // Arrange
+      const action = createForEachAction({
+        items: { expr: 'state', name: 'todos' },
+        index: 'i',
+        steps: [
+          {
+            do: 'setPath',
+            target: 'todos',
+            path: { expr: 'array', elements: [{ expr: 'var', name: 'i' }, { expr: 'lit', value: 'done' }] },
+            value: { expr: 'lit', value: true },
+          },
+          { do: 'update', target: 'log', operation: 'push', value: { expr: 'var', name: 'item', path: 'title' } },
+        ],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('todos')).toEqual([
+        { title: 'a', done: true },
+        { title: 'b', done: true },
+        { title: 'c', done: true },
+      ]);
+      expect(context.state.get('log')).toEqual(['a', 'b', 'c']);
+      expect(context.locals).not.toHaveProperty('item');
+      expect(context.locals).not.toHaveProperty('i');
+    });
+
+    it('should ignore non-array items', async () => {
+      // Arrange
+      const action = createForEachAction({
+        items: { expr: 'lit', value: null },
+        steps: [{ do: 'update', target: 'log', operation: 'push', value: { expr: 'lit', value: 'x' } }],
+      });
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('log')).toEqual([]);
+    });
+  });
+
+  // ==================== Concurrency ====================
+
+  describe('concurrency', () => {
+    it('should run iterations sequentially by default', async () => {
+      // Arrange
+      const { work, getMaxInFlight } = createTrackedWork();
+      const action = createForEachAction({
+        items: { expr: 'lit', value: [1, 2, 3] },
+        steps: [callWork],
+      });
+      const context = createContext({ work });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(work).toHaveBeenCalledTimes(3);
+      expect(getMaxInFlight()).toBe(1);
+    });
+
+    it('should limit iterations in flight to the concurrency', async () => {
+      // Arrange
+      const { work, getMaxInFlight } = createTrackedWork();
+      const action = createForEachAction({
+        items: { expr: 'lit', value: [1, 2, 3, 4, 5] },
+        steps: [callWork],
+        concurrency: 2,
+      });
+      const context = createContext({ work });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(work).toHaveBeenCalledTimes(5);
+      expect(getMaxInFlight()).toBe(2);
+    });
+  });
+
+  // ==================== Failures ====================
+
+  describe('failures', () => {
+    it('should stop scheduling iterations and reject when one fails', async () => {
+      // Arrange
+      const action = createForEachAction({
+        items: { expr: 'lit', value: ['a', 'b', 'c'] },
+        steps: [
+          {
+            do: 'if',
+            condition: { expr: 'bin', op: '==', left: { expr: 'var', name: 'item' }, right: { expr: 'lit', value: 'b' } },
+            then: [{ do: 'throw', message: { expr: 'lit', value: 'cannot process b' } }],
+          },
+          { do: 'update', target: 'log', operation: 'push', value: { expr: 'var', name: 'item' } },
+        ],
+      });
+      const context = createContext();
+
+      // Act & Assert
+      await expect(executeAction(action, context)).rejects.toThrow('cannot process b');
+      expect(context.state.get('log')).toEqual(['a']);
+    });
+  });
+});
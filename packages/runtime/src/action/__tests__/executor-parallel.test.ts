@@ -0,0 +1,230 @@
+/**
+ * Test module for Parallel Step Executor.
+ *
+ * Coverage:
+ * - Branches run concurrently
+ * - Locals assigned by branches are merged into the action locals
+ * - onSuccess runs when every branch succeeded
+ * - onError runs with per-branch failures after all branches settled
+ * - A failing fetch without its own onError fails its branch
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with Parallel Step', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  // ==================== Helper to create context ====================
+
+  function createContext(locals: Record<string, unknown> = {}): ActionContext {
+    return {
+      state: createStateStore({
+        status: { type: 'string', initial: '' },
+        summary: { type: 'string', initial: '' },
+      }),
+      actions: {},
+      locals,
+    };
+  }
+
+  /**
+   * Creates a call step invoking a function local and storing its result
+   */
+  function callStep(fnName: string, result: string): CompiledActionStep {
+    return {
+      do: 'call',
+      target: { expr: 'var', name: fnName },
+      args: [],
+      result,
+    } as CompiledActionStep;
+  }
+
+  // ==================== Concurrency ====================
+
+  describe('concurrency', () => {
+    it('should start all branches before any of them settles', async () => {
+      // Arrange
+      const started: string[] = [];
+      let release: () => void = () => {};
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const loadUsers = vi.fn(async () => {
+        started.push('users');
+        await gate;
+        return ['alice'];
+      });
+      const loadStats = vi.fn(async () => {
+        started.push('stats');
+        await gate;
+        return { total: 1 };
+      });
+      const action: CompiledAction = {
+        name: 'load',
+        steps: [
+          {
+            do: 'parallel',
+            branches: [[callStep('loadUsers', 'users')], [callStep('loadStats', 'stats')]],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({ loadUsers, loadStats });
+
+      // Act
+      const running = executeAction(action, context);
+      await Promise.resolve();
+      const startedBeforeRelease = [...started];
+      release();
+      await running;
+
+      // Assert
+      expect(startedBeforeRelease).toEqual(['users', 'stats']);
+    });
+  });
+
+  // ==================== Results ====================
+
+  describe('results', () => {
+    it('should merge branch result locals and run onSuccess', async () => {
+      // Arrange
+      const loadUsers = vi.fn().mockResolvedValue(['alice', 'bob']);
+      const loadStats = vi.fn().mockResolvedValue('2 users');
+      const action: CompiledAction = {
+        name: 'load',
+        steps: [
+          {
+            do: 'parallel',
+            branches: [[callStep('loadUsers', 'users')], [callStep('loadStats', 'stats')]],
+            onSuccess: [
+              { do: 'set', target: 'summary', value: { expr: 'var', name: 'stats' } },
+            ],
+            onError: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } }],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({ loadUsers, loadStats });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['users']).toEqual(['alice', 'bob']);
+      expect(context.locals['stats']).toBe('2 users');
+      expect(context.state.get('summary')).toBe('2 users');
+      expect(context.state.get('status')).toBe('');
+    });
+  });
+
+  // ==================== Failures ====================
+
+  describe('failures', () => {
+    it('should wait for all branches and report per-branch failures', async () => {
+      // Arrange
+      const loadUsers = vi.fn().mockResolvedValue(['alice']);
+      const action: CompiledAction = {
+        name: 'load',
+        steps: [
+          {
+            do: 'parallel',
+            branches: [
+              [{ do: 'throw', message: { expr: 'lit', value: 'stats unavailable' } }],
+              [callStep('loadUsers', 'users')],
+              [{ do: 'throw', message: { expr: 'lit', value: 'feed unavailable' } }],
+            ],
+            onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'ready' } }],
+            onError: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({ loadUsers });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals['users']).toEqual(['alice']);
+      expect(context.locals['errors']).toEqual([
+        { branch: 0, message: 'stats unavailable', name: 'Error' },
+        { branch: 2, message: 'feed unavailable', name: 'Error' },
+      ]);
+      expect(context.state.get('status')).toBe('stats unavailable');
+    });
+
+    it('should report a failing fetch without its own onError as a branch failure', async () => {
+      // Arrange
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response('{}', { status: 503, statusText: 'Service Unavailable' })
+      );
+      globalThis.fetch = fetchMock;
+      const loadUsers = vi.fn().mockResolvedValue(['alice']);
+      const action: CompiledAction = {
+        name: 'load',
+        steps: [
+          {
+            do: 'parallel',
+            branches: [
+              [callStep('loadUsers', 'users')],
+              [{ do: 'fetch', url: { expr: 'lit', value: '/api/stats' }, result: 'stats' }],
+            ],
+            onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'ready' } }],
+            onError: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'name' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({ loadUsers });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(context.locals['errors']).toEqual([
+        { branch: 1, message: 'HTTP error: 503 Service Unavailable', name: 'HTTPError' },
+      ]);
+      expect(context.state.get('status')).toBe('HTTPError');
+    });
+
+    it('should keep a fetch failure handled by its own onError inside the branch', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      const action: CompiledAction = {
+        name: 'load',
+        steps: [
+          {
+            do: 'parallel',
+            branches: [
+              [
+                {
+                  do: 'fetch',
+                  url: { expr: 'lit', value: '/api/stats' },
+                  onError: [{ do: 'set', target: 'summary', value: { expr: 'lit', value: 'offline' } }],
+                },
+              ],
+            ],
+            onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'ready' } }],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('summary')).toBe('offline');
+      expect(context.state.get('status')).toBe('ready');
+    });
+  });
+});
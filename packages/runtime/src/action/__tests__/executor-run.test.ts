@@ -0,0 +1,144 @@
+/**
+ * Test module for Run Step Executor.
+ *
+ * Coverage:
+ * - Run step executes the named action and awaits it
+ * - The payload expression is exposed as the `payload` local
+ * - The run action's `result` local is stored in the caller's locals
+ * - Caller locals are not visible to the run action
+ * - Unknown actions are ignored
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with Run Step', () => {
+  // ==================== Helper to create context ====================
+
+  function createContext(
+    actions: Record<string, CompiledAction>,
+    locals: Record<string, unknown> = {}
+  ): ActionContext {
+    return {
+      state: createStateStore({
+        count: { type: 'number', initial: 0 },
+        message: { type: 'string', initial: '' },
+      }),
+      actions,
+      locals,
+    };
+  }
+
+  // ==================== Execution ====================
+
+  describe('execution', () => {
+    it('should run the named action with the payload local', async () => {
+      // Arrange
+      const actions: Record<string, CompiledAction> = {
+        setMessage: {
+          name: 'setMessage',
+          steps: [{ do: 'set', target: 'message', value: { expr: 'var', name: 'payload' } }],
+        },
+      };
+      const action: CompiledAction = {
+        name: 'main',
+        steps: [
+          { do: 'run', action: 'setMessage', payload: { expr: 'lit', value: 'hello' } } as CompiledActionStep,
+        ],
+      };
+      const context = createContext(actions);
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('message')).toBe('hello');
+    });
+
+    it('should await async steps of the run action before continuing', async () => {
+      // Arrange
+      const slowFn = vi.fn().mockResolvedValue('done');
+      const actions: Record<string, CompiledAction> = {
+        load: {
+          name: 'load',
+          steps: [
+            {
+              do: 'call',
+              target: { expr: 'var', name: 'payload' },
+              args: [],
+              result: 'result',
+            } as CompiledActionStep,
+          ],
+        },
+      };
+      const action: CompiledAction = {
+        name: 'main',
+        steps: [
+          {
+            do: 'run',
+            action: 'load',
+            payload: { expr: 'var', name: 'slowFn' },
+            result: 'loaded',
+          } as CompiledActionStep,
+          { do: 'set', target: 'message', value: { expr: 'var', name: 'loaded' } },
+        ],
+      };
+      const context = createContext(actions, { slowFn });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(slowFn).toHaveBeenCalledTimes(1);
+      expect(context.locals['loaded']).toBe('done');
+      expect(context.state.get('message')).toBe('done');
+    });
+  });
+
+  // ==================== Locals Isolation ====================
+
+  describe('locals isolation', () => {
+    it('should not expose caller locals to the run action', async () => {
+      // Arrange
+      const actions: Record<string, CompiledAction> = {
+        readSecret: {
+          name: 'readSecret',
+          steps: [{ do: 'set', target: 'message', value: { expr: 'var', name: 'secret' } }],
+        },
+      };
+      const action: CompiledAction = {
+        name: 'main',
+        steps: [{ do: 'run', action: 'readSecret' } as CompiledActionStep],
+      };
+      const context = createContext(actions, { secret: 'caller-only' });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('message')).toBeUndefined();
+    });
+
+    it('should ignore unknown actions', async () => {
+      // Arrange
+      const action: CompiledAction = {
+        name: 'main',
+        steps: [
+          { do: 'run', action: 'missing', result: 'out' } as CompiledActionStep,
+          { do: 'update', target: 'count', operation: 'increment' },
+        ],
+      };
+      const context = createContext({});
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.locals).not.toHaveProperty('out');
+      expect(context.state.get('count')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Test module for Try / Throw Step Executor.
+ *
+ * Coverage:
+ * - Throw step rejects the action with the evaluated message
+ * - Try step runs catch steps with the `error` local on failure
+ * - Errors rethrown from onError handlers are caught
+ * - Call and fetch failures without their own onError run the catch steps
+ * - Finally steps run after success and failure
+ * - Errors are rethrown after finally when catch is not defined
+ * - Errors thrown by run actions are caught by the caller's try step
+ * - Try steps in local actions update local state
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeAction } from '../executor.js';
+import type { ActionContext } from '../executor.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledAction, CompiledActionStep } from '@constela/compiler';
+
+describe('executeAction with Try / Throw Steps', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  // ==================== Helper to create context ====================
+
+  function createContext(
+    actions: Record<string, CompiledAction> = {},
+    locals: Record<string, unknown> = {}
+  ): ActionContext {
+    return {
+      state: createStateStore({
+        status: { type: 'string', initial: '' },
+        log: { type: 'list', initial: [] },
+      }),
+      actions,
+      locals,
+    };
+  }
+
+  const throwInvalid = {
+    do: 'throw',
+    message: { expr: 'lit', value: 'invalid input' },
+  } as CompiledActionStep;
+
+  const logDone = {
+    do: 'update',
+    target: 'log',
+    operation: 'push',
+    value: { expr: 'lit', value: 'done' },
+  } as CompiledActionStep;
+
+  // ==================== Throw Step ====================
+
+  describe('throw step', () => {
+    it('should reject the action with the evaluated message', async () => {
+      // Arrange
+      const action: CompiledAction = {
+        name: 'fail',
+        steps: [
+          throwInvalid,
+          { do: 'set', target: 'status', value: { expr: 'lit', value: 'unreachable' } },
+        ],
+      };
+      const context = createContext();
+
+      // Act & Assert
+      await expect(executeAction(action, context)).rejects.toThrow('invalid input');
+      expect(context.state.get('status')).toBe('');
+    });
+  });
+
+  // ==================== Try Step ====================
+
+  describe('try step', () => {
+    it('should run catch steps with the error local', async () => {
+      // Arrange
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          {
+            do: 'try',
+            steps: [throwInvalid],
+            catch: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('invalid input');
+      expect(context.locals['error']).toEqual({ message: 'invalid input', name: 'Error' });
+    });
+
+    it('should catch errors rethrown from call step onError', async () => {
+      // Arrange
+      const failingFn = vi.fn().mockRejectedValue(new TypeError('boom'));
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          {
+            do: 'try',
+            steps: [
+              {
+                do: 'call',
+                target: { expr: 'var', name: 'failingFn' },
+                args: [],
+                onError: [{ do: 'throw', message: { expr: 'var', name: 'error', path: 'message' } }],
+              },
+            ],
+            catch: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({}, { failingFn });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('boom');
+    });
+
+    it('should run catch steps when a call step without onError rejects', async () => {
+      // Arrange
+      const failingFn = vi.fn().mockRejectedValue(new TypeError('boom'));
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          {
+            do: 'try',
+            steps: [{ do: 'call', target: { expr: 'var', name: 'failingFn' }, args: [] }, logDone],
+            catch: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'name' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext({}, { failingFn });
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('TypeError');
+      expect(context.state.get('log')).toEqual([]);
+    });
+
+    it('should run catch steps when a fetch step without onError fails', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn().mockResolvedValue(
+        new Response('{}', { status: 500, statusText: 'Internal Server Error' })
+      );
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          {
+            do: 'try',
+            steps: [{ do: 'fetch', url: { expr: 'lit', value: '/api/save' } }, logDone],
+            catch: [
+              { do: 'set', target: 'status', value: { expr: 'var', name: 'error', path: 'message' } },
+            ],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('HTTP error: 500 Internal Server Error');
+      expect(context.state.get('log')).toEqual([]);
+    });
+
+    it('should run finally steps after success and after failure', async () => {
+      // Arrange
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          { do: 'try', steps: [], finally: [logDone] } as CompiledActionStep,
+          { do: 'try', steps: [throwInvalid], catch: [], finally: [logDone] } as CompiledActionStep,
+        ],
+      };
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('log')).toEqual(['done', 'done']);
+    });
+
+    it('should rethrow after finally when catch is not defined', async () => {
+      // Arrange
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [{ do: 'try', steps: [throwInvalid], finally: [logDone] } as CompiledActionStep],
+      };
+      const context = createContext();
+
+      // Act & Assert
+      await expect(executeAction(action, context)).rejects.toThrow('invalid input');
+      expect(context.state.get('log')).toEqual(['done']);
+    });
+
+    it('should catch errors thrown by run actions', async () => {
+      // Arrange
+      const actions: Record<string, CompiledAction> = {
+        validate: { name: 'validate', steps: [throwInvalid] },
+      };
+      const action: CompiledAction = {
+        name: 'save',
+        steps: [
+          {
+            do: 'try',
+            steps: [{ do: 'run', action: 'validate' }],
+            catch: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'rejected' } }],
+          } as CompiledActionStep,
+        ],
+      };
+      const context = createContext(actions);
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.state.get('status')).toBe('rejected');
+    });
+  });
+
+  // ==================== Local Actions ====================
+
+  describe('local actions', () => {
+    it('should update local state from catch steps', async () => {
+      // Arrange
+      const localValues: Record<string, unknown> = { status: '' };
+      const action = {
+        name: 'save',
+        _isLocalAction: true,
+        _localStore: {
+          get: (name: string) => localValues[name],
+          set: (name: string, value: unknown) => {
+            localValues[name] = value;
+          },
+        },
+        steps: [
+          {
+            do: 'try',
+            steps: [throwInvalid],
+            catch: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'failed' } }],
+          } as CompiledActionStep,
+        ],
+      } as CompiledAction;
+      const context = createContext();
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(localValues['status']).toBe('failed');
+      expect(context.state.get('status')).toBe('');
+    });
+  });
+});
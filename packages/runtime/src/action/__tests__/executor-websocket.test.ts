@@ -2,6 +2,8 @@
  * Test module for WebSocket Action Step Executor.
  *
  * Coverage:
+ * - WSConnect step execution ({ do: 'wsConnect', connection, url, ... })
+ * - RPC step execution ({ do: 'rpc', connection, method, params, ... })
  * - Send step execution ({ do: 'send', connection, data })
  * - Close step execution ({ do: 'close', connection })
  * - Expression evaluation for data
@@ -20,6 +22,7 @@ import {
   createConnectionManager,
   type ConnectionManager,
 } from '../../connection/websocket.js';
+import { createBindingManager } from '../../binding/realtime.js';
 
 // ==================== Mock WebSocket ====================
 
@@ -106,6 +109,237 @@ describe('executeAction with WebSocket Steps', () => {
     };
   }
 
+  // ==================== WSConnect Step ====================
+
+  describe('wsConnect step', () => {
+    it('should open a named connection with protocols that send steps can use', async () => {
+      // Arrange
+      const context = createContext({});
+      const connect: CompiledAction = {
+        name: 'connect',
+        steps: [
+          {
+            do: 'wsConnect',
+            connection: 'chat',
+            url: { expr: 'lit', value: 'wss://api.example.com/ws' },
+            protocols: ['v1.chat'],
+          } as CompiledActionStep,
+        ],
+      };
+      const send: CompiledAction = {
+        name: 'send',
+        steps: [{ do: 'send', connection: 'chat', data: { expr: 'lit', value: 'hi' } } as CompiledActionStep],
+      };
+
+      // Act
+      await executeAction(connect, context);
+      mockWebSocketInstance?.simulateOpen();
+      await executeAction(send, context);
+
+      // Assert
+      expect(globalThis.WebSocket).toHaveBeenCalledWith('wss://api.example.com/ws', ['v1.chat']);
+      expect(mockWebSocketInstance?.send).toHaveBeenCalledWith('hi');
+    });
+
+    it('should create a connection manager when the context has none', async () => {
+      // Arrange
+      const context: ActionContext = { state: createStateStore({}), actions: {}, locals: {} };
+      const action: CompiledAction = {
+        name: 'connect',
+        steps: [
+          { do: 'wsConnect', connection: 'chat', url: { expr: 'lit', value: 'wss://api.example.com/ws' } } as CompiledActionStep,
+        ],
+      };
+
+      // Act
+      await executeAction(action, context);
+
+      // Assert
+      expect(context.connections?.get('chat')).toBeDefined();
+      context.connections?.closeAll();
+    });
+
+    it('should run onMessage with the event local and update bound state', async () => {
+      // Arrange
+      const binding = createBindingManager();
+      const context = {
+        ...createContext({
+          last: { type: 'string', initial: '' },
+          feed: { type: 'object', initial: {} },
+        }),
+        binding,
+      };
+      const action: CompiledAction = {
+        name: 'connect',
+        steps: [
+          {
+            do: 'wsConnect',
+            connection: 'chat',
+            url: { expr: 'lit', value: 'wss://api.example.com/ws' },
+            onMessage: [
+              { do: 'set', target: 'last', value: { expr: 'var', name: 'event', path: 'data.text' } },
+            ],
+          } as CompiledActionStep,
+          { do: 'bind', connection: 'chat', target: 'feed' } as CompiledActionStep,
+        ],
+      };
+
+      // Act
+      await executeAction(action, context);
+      mockWebSocketInstance!.onmessage?.(new MessageEvent('message', { data: '{"text":"Hello"}' }));
+
+      // Assert
+      await vi.waitFor(() => expect(context.state.get('last')).toBe('Hello'));
+      expect(context.state.get('feed')).toEqual({ text: 'Hello' });
+      binding.dispose();
+    });
+
+    it('should run onClose with the close code and reason', async () => {
+      // Arrange
+      const context = createContext({ reason: { type: 'string', initial: '' } });
+      const action: CompiledAction = {
+        name: 'connect',
+        steps: [
+          {
+            do: 'wsConnect',
+            connection: 'chat',
+            url: { expr: 'lit', value: 'wss://api.example.com/ws' },
+            onClose: [{ do: 'set', target: 'reason', value: { expr: 'var', name: 'event', path: 'reason' } }],
+          } as CompiledActionStep,
+        ],
+      };
+
+      // Act
+      await executeAction(action, context);
+      mockWebSocketInstance?.simulateClose(1001, 'Going away');
+
+      // Assert
+      await vi.waitFor(() => expect(context.state.get('reason')).toBe('Going away'));
+    });
+
+    it('should reconnect with backoff after an unexpected close but not after a close step', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const context = createContext({});
+      const connect: CompiledAction = {
+        name: 'connect',
+        steps: [
+          {
+            do: 'wsConnect',
+            connection: 'chat',
+            url: { expr: 'lit', value: 'wss://api.example.com/ws' },
+            reconnect: { enabled: true, strategy: 'exponential', maxRetries: 3, baseDelay: 100 },
+          } as CompiledActionStep,
+        ],
+      };
+      const close: CompiledAction = {
+        name: 'close',
+        steps: [{ do: 'close', connection: 'chat' } as CompiledActionStep],
+      };
+
+      // Act
+      await executeAction(connect, context);
+      mockWebSocketInstance?.simulateClose(1006, '');
+      await vi.advanceTimersByTimeAsync(99);
+      const callsBeforeDelay = vi.mocked(globalThis.WebSocket).mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+      const callsAfterDelay = vi.mocked(globalThis.WebSocket).mock.calls.length;
+      const reconnected = mockWebSocketInstance;
+      await executeAction(close, context);
+      reconnected?.simulateClose(1000, '');
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      // Assert
+      expect(callsBeforeDelay).toBe(1);
+      expect(callsAfterDelay).toBe(2);
+      expect(vi.mocked(globalThis.WebSocket).mock.calls.length).toBe(2);
+    });
+  });
+
+  // ==================== RPC Step ====================
+
+  describe('rpc step', () => {
+    function createRPCAction(step: Record<string, unknown> = {}): CompiledAction {
+      return {
+        name: 'loadUser',
+        steps: [
+          {
+            do: 'rpc',
+            connection: 'api',
+            method: 'users.get',
+            params: { expr: 'lit', value: { id: 1 } },
+            result: 'user',
+            onSuccess: [{ do: 'set', target: 'name', value: { expr: 'var', name: 'user', path: 'name' } }],
+            onError: [{ do: 'set', target: 'failure', value: { expr: 'var', name: 'error' } }],
+            ...step,
+          } as CompiledActionStep,
+        ],
+      };
+    }
+
+    function respond(message: Record<string, unknown>): void {
+      mockWebSocketInstance!.onmessage?.(
+        new MessageEvent('message', { data: JSON.stringify({ jsonrpc: '2.0', id: 1, ...message }) })
+      );
+    }
+
+    it('should store the result and run onSuccess', async () => {
+      // Arrange
+      connectionManager.create('api', 'wss://api.example.com/rpc', {});
+      mockWebSocketInstance?.simulateOpen();
+      const context = createContext({
+        name: { type: 'string', initial: '' },
+        failure: { type: 'object', initial: null },
+      });
+
+      // Act
+      const promise = executeAction(createRPCAction(), context);
+      respond({ result: { name: 'Ada' } });
+      await promise;
+
+      // Assert
+      expect(context.state.get('name')).toBe('Ada');
+      expect(context.state.get('failure')).toBeNull();
+    });
+
+    it('should run onError with the JSON-RPC error code', async () => {
+      // Arrange
+      connectionManager.create('api', 'wss://api.example.com/rpc', {});
+      mockWebSocketInstance?.simulateOpen();
+      const context = createContext({
+        name: { type: 'string', initial: '' },
+        failure: { type: 'object', initial: null },
+      });
+
+      // Act
+      const promise = executeAction(createRPCAction(), context);
+      respond({ error: { code: -32601, message: 'Method not found' } });
+      await promise;
+
+      // Assert
+      expect(context.state.get('failure')).toEqual({
+        message: 'Method not found',
+        name: 'RPCError',
+        code: -32601,
+      });
+    });
+
+    it('should run onError when the connection does not exist', async () => {
+      // Arrange
+      const context = createContext({
+        name: { type: 'string', initial: '' },
+        failure: { type: 'object', initial: null },
+      });
+
+      // Act
+      await executeAction(createRPCAction({ connection: 'missing' }), context);
+
+      // Assert
+      expect(context.state.get('failure')).toMatchObject({ message: 'Connection "missing" not found' });
+    });
+  });
+
   // ==================== Send Step ====================
 
   describe('send step', () => {
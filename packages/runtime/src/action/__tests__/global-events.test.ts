@@ -0,0 +1,206 @@
+/**
+ * Test module for global window/document events.
+ *
+ * Coverage:
+ * - Window and document events run their actions
+ * - Key filters and modifiers apply to global events
+ * - Each dispatch gets its own locals with the event data as payload
+ * - Cleanup removes the listeners
+ * - createApp and hydrateApp attach global events and remove them on destroy
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CompiledAction, CompiledGlobalEventHandler, CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../../state/store.js';
+import { bindGlobalEvents } from '../global-events.js';
+import { createApp } from '../../app.js';
+import { hydrateApp } from '../../hydrate.js';
+
+/**
+ * Creates an action context with a `runs` counter incremented by the `track` action
+ */
+function createContext() {
+  const state = createStateStore({ runs: { type: 'number', initial: 0 } });
+  const actions: Record<string, CompiledAction> = {
+    track: {
+      name: 'track',
+      steps: [{ do: 'update', target: 'runs', operation: 'increment' }],
+    },
+  };
+  return { state, actions, locals: {} };
+}
+
+function pressKey(init: KeyboardEventInit): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+  document.dispatchEvent(event);
+  return event;
+}
+
+describe('bindGlobalEvents', () => {
+  // ==================== Dispatching ====================
+
+  it('should run actions for window and document events', () => {
+    // Arrange
+    const ctx = createContext();
+    const globalEvents: CompiledGlobalEventHandler[] = [
+      { target: 'window', event: 'online', action: 'track' },
+      { target: 'document', event: 'visibilitychange', action: 'track' },
+    ];
+    const cleanup = bindGlobalEvents(globalEvents, ctx);
+
+    // Act
+    window.dispatchEvent(new Event('online'));
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    // Assert
+    expect(ctx.state.get('runs')).toBe(2);
+    cleanup();
+  });
+
+  it('should apply key filters and modifiers', () => {
+    // Arrange
+    const ctx = createContext();
+    const cleanup = bindGlobalEvents(
+      [{ target: 'document', event: 'keydown', action: 'track', keys: ['ctrl+k'], modifiers: ['prevent'] }],
+      ctx
+    );
+
+    // Act
+    const other = pressKey({ key: 'k' });
+    const shortcut = pressKey({ key: 'k', ctrlKey: true });
+
+    // Assert
+    expect(ctx.state.get('runs')).toBe(1);
+    expect(other.defaultPrevented).toBe(false);
+    expect(shortcut.defaultPrevented).toBe(true);
+    cleanup();
+  });
+
+  // ==================== Event Data ====================
+
+  it('should expose the event data as locals and payload', () => {
+    // Arrange
+    const state = createStateStore({
+      key: { type: 'string', initial: '' },
+      shortcut: { type: 'object', initial: null },
+    });
+    const actions: Record<string, CompiledAction> = {
+      remember: {
+        name: 'remember',
+        steps: [
+          { do: 'set', target: 'key', value: { expr: 'var', name: 'key' } },
+          { do: 'set', target: 'shortcut', value: { expr: 'var', name: 'payload' } },
+        ],
+      },
+    };
+    const cleanup = bindGlobalEvents(
+      [{ target: 'document', event: 'keydown', action: 'remember' }],
+      { state, actions, locals: {} }
+    );
+
+    // Act
+    pressKey({ key: 'k', code: 'KeyK', metaKey: true });
+
+    // Assert
+    expect(state.get('key')).toBe('k');
+    expect(state.get('shortcut')).toMatchObject({ key: 'k', code: 'KeyK', metaKey: true, ctrlKey: false });
+    cleanup();
+  });
+
+  it('should not share locals between dispatches', async () => {
+    // Arrange
+    const state = createStateStore({ previous: { type: 'string', initial: '' } });
+    const actions: Record<string, CompiledAction> = {
+      track: {
+        name: 'track',
+        steps: [
+          { do: 'set', target: 'previous', value: { expr: 'var', name: 'marker' } },
+          { do: 'call', target: { expr: 'var', name: 'mark' }, result: 'marker' },
+        ],
+      },
+    };
+    const ctx = { state, actions, locals: { mark: vi.fn(() => 'seen') } };
+    const cleanup = bindGlobalEvents([{ target: 'window', event: 'resize', action: 'track' }], ctx);
+
+    // Act
+    window.dispatchEvent(new Event('resize'));
+    await vi.waitFor(() => expect(ctx.locals.mark).toHaveBeenCalledTimes(1));
+    window.dispatchEvent(new Event('resize'));
+    await vi.waitFor(() => expect(ctx.locals.mark).toHaveBeenCalledTimes(2));
+
+    // Assert
+    expect(state.get('previous')).toBeUndefined();
+    expect(ctx.locals).not.toHaveProperty('marker');
+    cleanup();
+  });
+
+  // ==================== Cleanup ====================
+
+  it('should remove listeners on cleanup', () => {
+    // Arrange
+    const ctx = createContext();
+    const cleanup = bindGlobalEvents([{ target: 'window', event: 'resize', action: 'track' }], ctx);
+
+    // Act
+    cleanup();
+    window.dispatchEvent(new Event('resize'));
+
+    // Assert
+    expect(ctx.state.get('runs')).toBe(0);
+  });
+});
+
+describe('apps with globalEvents', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  function createProgram(): CompiledProgram {
+    return {
+      version: '1.0',
+      state: { runs: { type: 'number', initial: 0 } },
+      actions: {
+        track: {
+          name: 'track',
+          steps: [{ do: 'update', target: 'runs', operation: 'increment' }],
+        },
+      },
+      globalEvents: [{ target: 'document', event: 'keydown', action: 'track', keys: ['esc'] }],
+      view: { kind: 'element', tag: 'div' },
+    };
+  }
+
+  it('should attach global events in createApp until destroyed', () => {
+    // Arrange
+    const app = createApp(createProgram(), container);
+
+    // Act
+    pressKey({ key: 'Escape' });
+    app.destroy();
+    pressKey({ key: 'Escape' });
+
+    // Assert
+    expect(app.getState('runs')).toBe(1);
+  });
+
+  it('should attach global events in hydrateApp until destroyed', () => {
+    // Arrange
+    container.innerHTML = '<div></div>';
+    const app = hydrateApp({ program: createProgram(), container });
+
+    // Act
+    pressKey({ key: 'Escape' });
+    app.destroy();
+    pressKey({ key: 'Escape' });
+
+    // Assert
+    expect(app.getState('runs')).toBe(1);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Test module for watch hooks.
+ *
+ * Coverage:
+ * - Actions run when the watched field changes
+ * - Path watches ignore changes outside the path
+ * - Debounced watches run once after the delay
+ * - Immediate watches run on start
+ * - Cleanup stops watching and cancels pending runs
+ * - createApp starts program watches and component watches
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CompiledAction, CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../../state/store.js';
+import { startWatches } from '../watch.js';
+import { createApp } from '../../app.js';
+
+describe('startWatches', () => {
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates an action context with a `runs` counter incremented by the `track` action
+   */
+  function createContext() {
+    const state = createStateStore({
+      query: { type: 'string', initial: '' },
+      filters: { type: 'object', initial: { q: '', page: 1 } },
+      runs: { type: 'number', initial: 0 },
+    });
+    const actions: Record<string, CompiledAction> = {
+      track: {
+        name: 'track',
+        steps: [{ do: 'update', target: 'runs', operation: 'increment' }],
+      },
+    };
+    return { state, actions, locals: {} };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ==================== Change Detection ====================
+
+  describe('change detection', () => {
+    it('should run the action when the target changes', () => {
+      // Arrange
+      const ctx = createContext();
+      const stop = startWatches([{ target: 'query', action: 'track' }], ctx);
+
+      // Act
+      ctx.state.set('query', 'a');
+      ctx.state.set('query', 'ab');
+
+      // Assert
+      expect(ctx.state.get('runs')).toBe(2);
+      stop();
+    });
+
+    it('should not run the action on start by default', () => {
+      // Arrange
+      const ctx = createContext();
+
+      // Act
+      const stop = startWatches([{ target: 'query', action: 'track' }], ctx);
+
+      // Assert
+      expect(ctx.state.get('runs')).toBe(0);
+      stop();
+    });
+
+    it('should only react to changes at the watched path', () => {
+      // Arrange
+      const ctx = createContext();
+      const stop = startWatches([{ target: 'filters', path: 'q', action: 'track' }], ctx);
+
+      // Act
+      ctx.state.setPath('filters', 'page', 2);
+      ctx.state.setPath('filters', 'q', 'shoes');
+
+      // Assert
+      expect(ctx.state.get('runs')).toBe(1);
+      stop();
+    });
+  });
+
+  // ==================== Options ====================
+
+  describe('options', () => {
+    it('should debounce runs', () => {
+      // Arrange
+      const ctx = createContext();
+      const stop = startWatches([{ target: 'query', action: 'track', debounce: 300 }], ctx);
+
+      // Act
+      ctx.state.set('query', 'a');
+      vi.advanceTimersByTime(100);
+      ctx.state.set('query', 'ab');
+      vi.advanceTimersByTime(299);
+      const runsBeforeDelay = ctx.state.get('runs');
+      vi.advanceTimersByTime(1);
+
+      // Assert
+      expect(runsBeforeDelay).toBe(0);
+      expect(ctx.state.get('runs')).toBe(1);
+      stop();
+    });
+
+    it('should run immediately on start when immediate is set', () => {
+      // Arrange
+      const ctx = createContext();
+
+      // Act
+      const stop = startWatches([{ target: 'query', action: 'track', immediate: true }], ctx);
+
+      // Assert
+      expect(ctx.state.get('runs')).toBe(1);
+      stop();
+    });
+  });
+
+  // ==================== Cleanup ====================
+
+  describe('cleanup', () => {
+    it('should stop watching and cancel pending debounced runs', () => {
+      // Arrange
+      const ctx = createContext();
+      const stop = startWatches([{ target: 'query', action: 'track', debounce: 300 }], ctx);
+      ctx.state.set('query', 'a');
+
+      // Act
+      stop();
+      vi.advanceTimersByTime(300);
+      ctx.state.set('query', 'ab');
+      vi.advanceTimersByTime(300);
+
+      // Assert
+      expect(ctx.state.get('runs')).toBe(0);
+    });
+  });
+});
+
+describe('createApp with watch', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should run program watches until the app is destroyed', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {
+        query: { type: 'string', initial: '' },
+        runs: { type: 'number', initial: 0 },
+      },
+      watch: [{ target: 'query', action: 'track' }],
+      actions: {
+        track: { name: 'track', steps: [{ do: 'update', target: 'runs', operation: 'increment' }] },
+      },
+      view: { kind: 'text', value: { expr: 'state', name: 'runs' } },
+    } as unknown as CompiledProgram;
+    const app = createApp(program, container);
+
+    // Act
+    app.setState('query', 'a');
+    const runsWhileMounted = app.getState('runs');
+    app.destroy();
+
+    // Assert
+    expect(runsWhileMounted).toBe(1);
+  });
+
+  it('should run component watches with local actions', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: { query: { type: 'string', initial: '' } },
+      actions: {},
+      view: {
+        kind: 'localState',
+        state: { runs: { type: 'number', initial: 0 } },
+        actions: {
+          track: { name: 'track', steps: [{ do: 'update', target: 'runs', operation: 'increment' }] },
+        },
+        watch: [{ target: 'query', action: 'track' }],
+        child: { kind: 'text', value: { expr: 'state', name: 'runs' } },
+      },
+    } as unknown as CompiledProgram;
+    const app = createApp(program, container);
+
+    // Act
+    app.setState('query', 'a');
+
+    // Assert
+    expect(container.textContent).toBe('1');
+    app.destroy();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Component Events - Runs the parent's handlers for events a component emits
+ *
+ * Each component instance gets an emitter bound to the handlers passed via
+ * `on`. The handler's action and payload are resolved in the parent's scope,
+ * where the emitted value is available as `detail`. Without a handler payload
+ * the emitted value itself becomes the action payload. Events without a
+ * handler are ignored.
+ */
+
+import type { CompiledEventHandler } from '@constela/compiler';
+import { evaluatePayload } from '../expression/evaluator.js';
+import { executeAction, type ActionContext } from './executor.js';
+
+/**
+ * Runs the parent's handler for an emitted event
+ */
+export type Emitter = (event: string, detail: unknown) => Promise<void>;
+
+/**
+ * Creates an emitter running handlers in the parent's action context
+ *
+ * @param handlers - The compiled handlers keyed by event name
+ * @param ctx - The parent's action context
+ * @returns The emitter for a component instance
+ */
+export function createEmitter(
+  handlers: Record<string, CompiledEventHandler> | undefined,
+  ctx: ActionContext
+): Emitter {
+  return async (event, detail) => {
+    const handler = handlers?.[event];
+    if (!handler) return;
+    const action = ctx.actions[handler.action];
+    if (!action) return;
+
+    const eventLocals = { ...ctx.locals, detail };
+    const payload = handler.payload
+      ? evaluatePayload(handler.payload, {
+          state: ctx.state,
+          locals: eventLocals,
+          ...(ctx.refs && { refs: ctx.refs }),
+          ...(ctx.route && { route: ctx.route }),
+          ...(ctx.imports && { imports: ctx.imports }),
+        })
+      : detail;
+
+    await executeAction(action, {
+      ...ctx,
+      locals: { ...eventLocals, payload },
+      eventPayload: payload,
+    });
+  };
+}
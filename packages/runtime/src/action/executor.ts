@@ -4,10 +4,20 @@
  * Supports:
  * - set: Update state with value
  * - update: Increment/decrement numbers, push/pop/remove for arrays
- * - fetch: Make HTTP requests with onSuccess/onError handlers
+ * - fetch: Make HTTP requests with onSuccess/onError handlers and optional retries
  * - storage: localStorage/sessionStorage operations
  * - clipboard: Clipboard API operations
  * - navigate: Page navigation
+ * - run: Run another action with its own payload
+ * - try/throw: Structured error handling with catch/finally
+ * - parallel: Run branches concurrently and wait for all of them
+ * - forEach: Run steps once per item, optionally with limited concurrency
+ * - abort: Cancel in-flight fetch requests by abortKey
+ * - invalidate: Refetch a declared resource
+ * - validateForm/resetForm/submitForm: Validate, reset and submit declared forms
+ * - wsConnect/send/close: Named WebSocket connections with optional reconnection
+ * - rpc: JSON-RPC 2.0 calls over a named WebSocket connection
+ * - emit: Run the parent's handler for a component event
  */
 
 import type { StateStore } from '../state/store.js';
@@ -16,6 +26,12 @@ import type {
   CompiledActionStep,
   CompiledExpression,
   CompiledUpdateStep,
+  CompiledFetchStep,
+  CompiledAbortStep,
+  CompiledInvalidateStep,
+  CompiledValidateFormStep,
+  CompiledResetFormStep,
+  CompiledSubmitFormStep,
   CompiledSetPathStep,
   CompiledStorageStep,
   CompiledClipboardStep,
@@ -25,6 +41,11 @@ import type {
   CompiledSubscribeStep,
   CompiledDisposeStep,
   CompiledDomStep,
+  CompiledRunStep,
+  CompiledTryStep,
+  CompiledThrowStep,
+  CompiledParallelStep,
+  CompiledForEachStep,
   CompiledSendStep,
   CompiledCloseStep,
   CompiledDelayStep,
@@ -32,6 +53,8 @@ import type {
   CompiledClearTimerStep,
   CompiledFocusStep,
   CompiledGenerateStep,
+  CompiledWSConnectStep,
+  CompiledRPCStep,
   CompiledSSEConnectStep,
   CompiledSSECloseStep,
   CompiledOptimisticStep,
@@ -39,15 +62,24 @@ import type {
   CompiledRejectStep,
   CompiledBindStep,
   CompiledUnbindStep,
+  CompiledEmitStep,
 } from '@constela/compiler';
-import type { ConnectionManager } from '../connection/websocket.js';
+import {
+  type ConnectionManager,
+  type WebSocketConnectOptions,
+  type WebSocketHandlers,
+  type RPCError,
+  createConnectionManager,
+} from '../connection/websocket.js';
 import {
   type SSEConnectionManager,
   createSSEConnectionManager,
 } from '../connection/sse.js';
+import { calculateDelay } from '../connection/reconnect.js';
 import type { OptimisticManager } from '../optimistic/manager.js';
 import type { BindingManager } from '../binding/realtime.js';
 import { evaluate } from '../expression/evaluator.js';
+import { createFetchControl, type FetchControl } from './fetch-control.js';
 
 /**
  * Local state store interface for component-level state
@@ -63,6 +95,8 @@ interface LocalStateStore {
 interface ExtendedAction extends CompiledAction {
   _isLocalAction?: boolean;
   _localStore?: LocalStateStore;
+  _emit?: (event: string, detail: unknown) => Promise<void>;
+  _disposables?: (() => void)[];
 }
 
 export interface ActionContext {
@@ -83,6 +117,9 @@ export interface ActionContext {
   sse?: SSEConnectionManager;               // SSE connection manager
   optimistic?: OptimisticManager;           // Optimistic update manager
   binding?: BindingManager;                 // Realtime binding manager
+  fetchControl?: FetchControl;              // In-flight fetch requests by abortKey
+  emit?: (event: string, detail: unknown) => Promise<void>;  // Component event emitter
+  rejectUnhandled?: boolean;                // Reject fetch/call failures without onError (try bodies, parallel branches)
 }
 
 /**
@@ -107,6 +144,14 @@ export async function executeAction(
   const extAction = action as ExtendedAction;
   const isLocal = extAction._isLocalAction && extAction._localStore;
   const localStore = extAction._localStore;
+  // Emit steps of a component's local actions reach the component's parent
+  if (extAction._emit) {
+    ctx = { ...ctx, emit: extAction._emit };
+  }
+  // Subscriptions and timers started by a component's local actions are disposed on unmount
+  if (extAction._disposables) {
+    ctx = { ...ctx, subscriptions: extAction._disposables, cleanups: extAction._disposables };
+  }
 
   // Collect delay promises to await at the end
   const delayPromises: Promise<void>[] = [];
@@ -119,6 +164,13 @@ export async function executeAction(
     } else if (step.do === 'if') {
       // If steps need special handling to support both sync and async nested steps
       await executeIfStep(step, ctx, isLocal ? localStore : undefined);
+    } else if (step.do === 'try') {
+      // Try steps run nested steps against the local store as well
+      await executeTryStep(step, ctx, isLocal ? localStore : undefined);
+    } else if (step.do === 'parallel') {
+      await executeParallelStep(step, ctx, isLocal ? localStore : undefined);
+    } else if (step.do === 'forEach') {
+      await executeForEachStep(step, ctx, isLocal ? localStore : undefined);
     } else if (step.do === 'delay') {
       // Fire-and-forget delay, but collect promise to await at the end
       const delayPromise = executeDelayStep(step as CompiledDelayStep, ctx);
@@ -137,6 +189,25 @@ export async function executeAction(
   }
 }
 
+/**
+ * Runs an action nothing awaits (started by an event, timer, watch or
+ * lifecycle hook). Errors the action does not handle itself, such as a
+ * `throw` outside a `try` step, are reported instead of rejecting.
+ *
+ * @param action - The action to run
+ * @param ctx - The action context
+ */
+export async function dispatchAction(
+  action: CompiledAction,
+  ctx: ActionContext
+): Promise<void> {
+  try {
+    await executeAction(action, ctx);
+  } catch (err) {
+    console.error(`Action "${action.name}" failed:`, err);
+  }
+}
+
 /**
  * Synchronously execute set/update steps for immediate state changes
  */
@@ -495,6 +566,26 @@ async function executeStep(
       await executeFetchStep(step, ctx);
       break;
 
+    case 'abort':
+      executeAbortStep(step, ctx);
+      break;
+
+    case 'invalidate':
+      await executeInvalidateStep(step, ctx);
+      break;
+
+    case 'validateForm':
+      await executeValidateFormStep(step, ctx);
+      break;
+
+    case 'resetForm':
+      executeResetFormStep(step, ctx);
+      break;
+
+    case 'submitForm':
+      await executeSubmitFormStep(step, ctx);
+      break;
+
     case 'storage':
       await executeStorageStep(step, ctx);
       break;
@@ -531,6 +622,26 @@ async function executeStep(
       await executeIfStep(step, ctx);
       break;
 
+    case 'run':
+      await executeRunStep(step, ctx);
+      break;
+
+    case 'try':
+      await executeTryStep(step, ctx);
+      break;
+
+    case 'throw':
+      executeThrowStep(step, ctx);
+      break;
+
+    case 'parallel':
+      await executeParallelStep(step, ctx);
+      break;
+
+    case 'forEach':
+      await executeForEachStep(step, ctx);
+      break;
+
     case 'send':
       await executeSendStep(step, ctx);
       break;
@@ -559,6 +670,12 @@ async function executeStep(
       await executeGenerateStep(step, ctx);
       break;
 
+    case 'wsConnect':
+      await executeWSConnectStep(step as CompiledWSConnectStep, ctx);
+      break;
+    case 'rpc':
+      await executeRPCStep(step as CompiledRPCStep, ctx);
+      break;
     case 'sseConnect':
       await executeSSEConnectStep(step as CompiledSSEConnectStep, ctx);
       break;
@@ -586,6 +703,10 @@ async function executeStep(
     case 'unbind':
       await executeUnbindStep(step as CompiledUnbindStep, ctx);
       break;
+
+    case 'emit':
+      await executeEmitStep(step as CompiledEmitStep, ctx);
+      break;
   }
 }
 
@@ -705,17 +826,163 @@ async function executeUpdateStep(
   }
 }
 
+/**
+ * Executes an abort step (cancels fetch requests started with the key)
+ */
+function executeAbortStep(step: CompiledAbortStep, ctx: ActionContext): void {
+  ctx.fetchControl?.abort(step.key);
+}
+
+/**
+ * Executes an invalidate step (refetches the resource and waits for the response)
+ */
+async function executeInvalidateStep(
+  step: CompiledInvalidateStep,
+  ctx: ActionContext
+): Promise<void> {
+  await ctx.state.invalidateResource?.(step.resource);
+}
+
+/**
+ * Executes a validate form step (marks the fields touched and waits for async rules)
+ */
+async function executeValidateFormStep(
+  step: CompiledValidateFormStep,
+  ctx: ActionContext
+): Promise<void> {
+  await ctx.state.validateForm?.(step.form, step.field);
+}
+
+/**
+ * Executes a reset form step
+ */
+function executeResetFormStep(step: CompiledResetFormStep, ctx: ActionContext): void {
+  ctx.state.resetForm?.(step.form);
+}
+
+/**
+ * Executes a submit form step, running onSuccess when the whole form is valid and onError otherwise
+ */
+async function executeSubmitFormStep(
+  step: CompiledSubmitFormStep,
+  ctx: ActionContext
+): Promise<void> {
+  const valid = (await ctx.state.validateForm?.(step.form)) ?? true;
+  const nextSteps = valid ? step.onSuccess : step.onError;
+  for (const nextStep of nextSteps ?? []) {
+    await executeStep(nextStep, ctx);
+  }
+}
+
+/**
+ * Checks whether a fetch body should be serialized as JSON
+ * (plain objects and arrays; strings, FormData, Blob etc. are sent as-is)
+ */
+function isJsonBody(body: unknown): boolean {
+  if (typeof body !== 'object' || body === null) return false;
+  if (Array.isArray(body)) return true;
+  const proto = Object.getPrototypeOf(body);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Reads the response body according to the requested response type
+ */
+async function readResponseBody(
+  response: Response,
+  responseType: NonNullable<CompiledFetchStep['responseType']>
+): Promise<unknown> {
+  switch (responseType) {
+    case 'text':
+      return response.text();
+    case 'blob':
+      return response.blob();
+    case 'none':
+      return undefined;
+    default:
+      return response.json();
+  }
+}
+
+/**
+ * Collects response headers into a plain object with lower-cased names
+ */
+function readResponseHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers?.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+  return headers;
+}
+
+/**
+ * Statuses retried when a retry config omits `retryOn`
+ */
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Outcome of a single fetch attempt
+ */
+interface FetchAttempt {
+  /** Undefined when no response was received */
+  response?: Response;
+  data?: unknown;
+  /** Error local for failed attempts */
+  error?: Record<string, unknown>;
+}
+
+/**
+ * Executes a fetch step
+ *
+ * Header expressions are evaluated per request, and plain object bodies are
+ * serialized as JSON (adding a JSON Content-Type unless one is given).
+ * The response status, statusText and headers are exposed as the `response`
+ * local for onSuccess/onError rather than on the result, so that `result`
+ * keeps holding the body alone; requests exceeding `timeout` fail with a
+ * TimeoutError.
+ *
+ * Requests with a `concurrency` policy or an `abortKey` are tracked so they
+ * can be superseded or cancelled; cancelled requests run neither onSuccess
+ * nor onError.
+ */
 async function executeFetchStep(
-  step: {
-    do: 'fetch';
-    url: CompiledExpression;
-    method?: string;
-    body?: CompiledExpression;
-    result?: string;
-    onSuccess?: CompiledActionStep[];
-    onError?: CompiledActionStep[];
-  },
+  step: CompiledFetchStep,
   ctx: ActionContext
+): Promise<void> {
+  if (step.concurrency === undefined && step.abortKey === undefined) {
+    await performFetch(step, ctx);
+    return;
+  }
+
+  if (!ctx.fetchControl) {
+    ctx.fetchControl = createFetchControl();
+  }
+  const request = ctx.fetchControl.begin(step.abortKey ?? step, step.concurrency);
+  // takeFirst: a request for this step/key is already in flight
+  if (!request) return;
+  try {
+    if (await request.ready) {
+      await performFetch(step, ctx, request.controller);
+    }
+  } finally {
+    request.finish();
+  }
+}
+
+/**
+ * Performs the HTTP request of a fetch step and runs its handlers
+ *
+ * With `retry`, network errors, timeouts and statuses listed in `retryOn`
+ * are retried using the reconnect backoff strategies (or the delay given by
+ * a Retry-After header). The 1-based `attempt` local is exposed to the
+ * handlers; onError only runs once all retries have failed. Without
+ * onError, failures reject when `rejectUnhandled` is set (try bodies,
+ * parallel branches).
+ */
+async function performFetch(
+  step: CompiledFetchStep,
+  ctx: ActionContext,
+  controller?: AbortController
 ): Promise<void> {
   const evalCtx = createEvalContext(ctx);
   const url = evaluate(step.url, evalCtx) as string;
@@ -725,19 +992,70 @@ async function executeFetchStep(
     method,
   };
 
+  const headers: Record<string, string> = {};
+  if (step.headers) {
+    for (const [name, valueExpr] of Object.entries(step.headers)) {
+      const value = evaluate(valueExpr, evalCtx);
+      if (value !== undefined && value !== null) {
+        headers[name] = String(value);
+      }
+    }
+  }
+
   if (step.body) {
-    fetchOptions.body = evaluate(step.body, evalCtx) as string;
+    const body = evaluate(step.body, evalCtx);
+    if (isJsonBody(body)) {
+      fetchOptions.body = JSON.stringify(body);
+      if (!Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    } else {
+      fetchOptions.body = body as string;
+    }
   }
 
-  try {
-    const response = await fetch(url, fetchOptions);
-    
-    if (response.ok) {
-      const data = await response.json();
-      
+  if (Object.keys(headers).length > 0) {
+    fetchOptions.headers = headers;
+  }
+  if (step.credentials) {
+    fetchOptions.credentials = step.credentials;
+  }
+
+  const retry = step.retry;
+  const maxRetries = retry && retry.strategy !== 'none' ? retry.maxRetries : 0;
+  let result: FetchAttempt | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    result = await fetchAttempt(url, fetchOptions, step, controller);
+    // Cancelled by a newer request or an abort step
+    if (!result) return;
+
+    if (retry) {
+      ctx.locals['attempt'] = attempt;
+    }
+    if (!result.error || !retry || attempt > maxRetries || !isRetryable(result, retry.retryOn)) {
+      break;
+    }
+
+    const delay =
+      readRetryAfter(result.response) ??
+      calculateDelay(retry.strategy, attempt - 1, retry.baseDelay, retry.maxDelay ?? Infinity);
+    if (!(await waitForRetry(delay, controller?.signal))) return;
+  }
+
+  if (result.response) {
+    ctx.locals['response'] = {
+      status: result.response.status,
+      statusText: result.response.statusText,
+      headers: readResponseHeaders(result.response),
+    };
+  }
+
+  if (!result.error) {
+    try {
       // Store result in locals if specified
       if (step.result) {
-        ctx.locals[step.result] = data;
+        ctx.locals[step.result] = result.data;
       }
 
       // Execute onSuccess steps
@@ -746,34 +1064,138 @@ async function executeFetchStep(
           await executeStep(successStep, ctx);
         }
       }
-    } else {
-      // Inject error variable for non-ok response
-      ctx.locals['error'] = {
-        message: `HTTP error: ${response.status} ${response.statusText}`,
-        name: 'HTTPError',
+      return;
+    } catch (err) {
+      result.error = {
+        message: err instanceof Error ? err.message : String(err),
+        name: err instanceof Error ? err.name : 'Error',
+      };
+    }
+  }
+
+  // Inject error variable for non-ok responses, network errors and timeouts
+  ctx.locals['error'] = result.error;
+  if (step.onError) {
+    for (const errorStep of step.onError) {
+      await executeStep(errorStep, ctx);
+    }
+  } else if (ctx.rejectUnhandled) {
+    const error = new Error(String(result.error['message']));
+    error.name = String(result.error['name']);
+    throw error;
+  }
+}
+
+/**
+ * Sends a single request and reads its body
+ *
+ * Each attempt gets its own timeout; aborting the outer controller cancels
+ * the attempt.
+ *
+ * @returns The attempt outcome, or undefined when the request was cancelled
+ */
+async function fetchAttempt(
+  url: string,
+  fetchOptions: RequestInit,
+  step: CompiledFetchStep,
+  controller?: AbortController
+): Promise<FetchAttempt | undefined> {
+  const options: RequestInit = { ...fetchOptions };
+
+  // Abort the request (including reading the body) once the timeout elapses
+  const abortController =
+    controller || step.timeout !== undefined ? new AbortController() : undefined;
+  const cancel = (): void => abortController?.abort();
+  if (abortController) {
+    options.signal = abortController.signal;
+    controller?.signal.addEventListener('abort', cancel);
+  }
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  if (step.timeout !== undefined && abortController) {
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      abortController.abort();
+    }, step.timeout);
+  }
+  const isCancelled = (): boolean => controller?.signal.aborted === true;
+
+  let response: Response | undefined;
+  try {
+    response = await fetch(url, options);
+    if (isCancelled()) return undefined;
+
+    if (!response.ok) {
+      return {
+        response,
+        error: {
+          message: `HTTP error: ${response.status} ${response.statusText}`,
+          name: 'HTTPError',
+          status: response.status,
+        },
       };
-      // Execute onError steps for non-ok response
-      if (step.onError) {
-        for (const errorStep of step.onError) {
-          await executeStep(errorStep, ctx);
-        }
-      }
     }
+
+    const data = await readResponseBody(response, step.responseType ?? 'json');
+    if (isCancelled()) return undefined;
+    return { response, data };
   } catch (err) {
-    // Inject error variable for network errors
-    ctx.locals['error'] = {
-      message: err instanceof Error ? err.message : String(err),
-      name: err instanceof Error ? err.name : 'Error',
+    if (isCancelled()) return undefined;
+    return {
+      ...(response && { response }),
+      error: timedOut
+        ? { message: `Request timed out after ${step.timeout}ms`, name: 'TimeoutError' }
+        : {
+            message: err instanceof Error ? err.message : String(err),
+            name: err instanceof Error ? err.name : 'Error',
+          },
     };
-    // Execute onError steps for network errors
-    if (step.onError) {
-      for (const errorStep of step.onError) {
-        await executeStep(errorStep, ctx);
-      }
-    }
+  } finally {
+    clearTimeout(timeoutId);
+    controller?.signal.removeEventListener('abort', cancel);
   }
 }
 
+/**
+ * Checks whether a failed attempt may be retried
+ * (network errors and timeouts always, HTTP errors by status)
+ */
+function isRetryable(result: FetchAttempt, retryOn = DEFAULT_RETRY_STATUSES): boolean {
+  if (!result.response || result.error?.['name'] === 'TimeoutError') return true;
+  return !result.response.ok && retryOn.includes(result.response.status);
+}
+
+/**
+ * Reads the Retry-After header (delay in seconds or an HTTP date) in milliseconds
+ */
+function readRetryAfter(response?: Response): number | undefined {
+  const value = response?.headers?.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits before the next attempt
+ * @returns false when the request was cancelled while waiting
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timerId);
+      resolve(false);
+    };
+    const timerId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Executes a storage step (localStorage/sessionStorage operations)
  */
@@ -939,6 +1361,7 @@ async function executeImportStep(
 
 /**
  * Executes a call step (external function call)
+ * Without onError, failures reject when `rejectUnhandled` is set.
  */
 async function executeCallStep(
   step: CompiledCallStep,
@@ -975,6 +1398,8 @@ async function executeCallStep(
       for (const errorStep of step.onError) {
         await executeStep(errorStep, ctx);
       }
+    } else if (ctx.rejectUnhandled) {
+      throw err;
     }
   }
 }
@@ -1004,7 +1429,7 @@ async function executeSubscribeStep(
             ...ctx,
             locals: { ...ctx.locals, event: eventData },
           };
-          await executeAction(action, subscriptionCtx);
+          await dispatchAction(action, subscriptionCtx);
         }
       });
 
@@ -1086,6 +1511,200 @@ async function executeDomStep(
   }
 }
 
+/**
+ * Executes a run step (runs another action and awaits it)
+ *
+ * The action runs with fresh locals holding only `payload`; whatever it
+ * stores in its `result` local is exposed to the caller.
+ */
+async function executeRunStep(
+  step: CompiledRunStep,
+  ctx: ActionContext
+): Promise<void> {
+  const action = ctx.actions[step.action];
+  if (!action) return;
+
+  const payload = step.payload ? evaluate(step.payload, createEvalContext(ctx)) : undefined;
+  const childLocals: Record<string, unknown> = { payload };
+
+  await executeAction(action, { ...ctx, locals: childLocals, eventPayload: payload });
+
+  if (step.result) {
+    ctx.locals[step.result] = childLocals['result'];
+  }
+}
+
+/**
+ * Executes nested steps in order (try/catch/finally, parallel branches, loop bodies)
+ */
+async function executeNestedSteps(
+  steps: CompiledActionStep[],
+  ctx: ActionContext,
+  localStore?: LocalStateStore
+): Promise<void> {
+  for (const nestedStep of steps) {
+    if (nestedStep.do === 'set' || nestedStep.do === 'update' || nestedStep.do === 'setPath') {
+      executeStepSync(nestedStep, ctx, localStore);
+    } else if (nestedStep.do === 'if') {
+      await executeIfStep(nestedStep, ctx, localStore);
+    } else if (nestedStep.do === 'try') {
+      await executeTryStep(nestedStep, ctx, localStore);
+    } else if (nestedStep.do === 'parallel') {
+      await executeParallelStep(nestedStep, ctx, localStore);
+    } else if (nestedStep.do === 'forEach') {
+      await executeForEachStep(nestedStep, ctx, localStore);
+    } else {
+      await executeStep(nestedStep, ctx);
+    }
+  }
+}
+
+/**
+ * Executes a try step
+ *
+ * Errors thrown by nested steps, including fetch and call failures without
+ * their own onError, run the catch steps with the `error` local. Without
+ * catch steps the error is rethrown after the finally steps.
+ */
+async function executeTryStep(
+  step: CompiledTryStep,
+  ctx: ActionContext,
+  localStore?: LocalStateStore
+): Promise<void> {
+  try {
+    await executeNestedSteps(step.steps, { ...ctx, rejectUnhandled: true }, localStore);
+  } catch (err) {
+    if (!step.catch) throw err;
+    // Inject error variable for the catch steps
+    ctx.locals['error'] = {
+      message: err instanceof Error ? err.message : String(err),
+      name: err instanceof Error ? err.name : 'Error',
+    };
+    await executeNestedSteps(step.catch, ctx, localStore);
+  } finally {
+    if (step.finally) {
+      await executeNestedSteps(step.finally, ctx, localStore);
+    }
+  }
+}
+
+/**
+ * Executes a parallel step
+ *
+ * Branches run concurrently with their own copy of the locals, and all of
+ * them are awaited even when some fail. Locals assigned by the branches
+ * (e.g. fetch `result`) are merged back in branch order. Failures are
+ * exposed to onError as the `errors` local (`{ branch, message, name }[]`),
+ * with the first one also injected as `error`. A fetch or call without its
+ * own onError fails its branch.
+ */
+async function executeParallelStep(
+  step: CompiledParallelStep,
+  ctx: ActionContext,
+  localStore?: LocalStateStore
+): Promise<void> {
+  const branchLocals = step.branches.map(() => ({ ...ctx.locals }));
+  const settled = await Promise.allSettled(
+    step.branches.map((branch, index) =>
+      executeNestedSteps(
+        branch,
+        { ...ctx, locals: branchLocals[index] ?? {}, rejectUnhandled: true },
+        localStore
+      )
+    )
+  );
+
+  // Merge locals assigned by each branch
+  for (const locals of branchLocals) {
+    for (const [key, value] of Object.entries(locals)) {
+      if (ctx.locals[key] !== value) {
+        ctx.locals[key] = value;
+      }
+    }
+  }
+
+  const errors: { branch: number; message: string; name: string }[] = [];
+  settled.forEach((outcome, branch) => {
+    if (outcome.status === 'rejected') {
+      const err: unknown = outcome.reason;
+      errors.push({
+        branch,
+        message: err instanceof Error ? err.message : String(err),
+        name: err instanceof Error ? err.name : 'Error',
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    ctx.locals['errors'] = errors;
+    ctx.locals['error'] = errors[0];
+    if (step.onError) {
+      await executeNestedSteps(step.onError, ctx, localStore);
+    }
+  } else if (step.onSuccess) {
+    await executeNestedSteps(step.onSuccess, ctx, localStore);
+  }
+}
+
+/**
+ * Executes a forEach step
+ *
+ * Each iteration runs with its own locals extended by the `as` (and
+ * optional `index`) variables. Iterations run one after another unless
+ * `concurrency` allows several to be in flight at once; a failing
+ * iteration rejects the step once the running iterations have settled.
+ */
+async function executeForEachStep(
+  step: CompiledForEachStep,
+  ctx: ActionContext,
+  localStore?: LocalStateStore
+): Promise<void> {
+  const items = evaluate(step.items, createEvalContext(ctx));
+  if (!Array.isArray(items)) return;
+
+  const runIteration = (index: number): Promise<void> => {
+    const locals: Record<string, unknown> = { ...ctx.locals, [step.as]: items[index] };
+    if (step.index) {
+      locals[step.index] = index;
+    }
+    return executeNestedSteps(step.steps, { ...ctx, locals }, localStore);
+  };
+
+  const concurrency = Math.max(1, step.concurrency ?? 1);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !failure) {
+      const index = next++;
+      try {
+        await runIteration(index);
+      } catch (err) {
+        failure ??= { error: err };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+  );
+
+  if (failure) {
+    throw failure.error;
+  }
+}
+
+/**
+ * Executes a throw step (fails the action or the enclosing try step)
+ */
+function executeThrowStep(
+  step: CompiledThrowStep,
+  ctx: ActionContext
+): never {
+  const message = evaluate(step.message, createEvalContext(ctx));
+  throw new Error(String(message));
+}
+
 /**
  * Executes a send step (WebSocket message send)
  */
@@ -1205,7 +1824,7 @@ async function executeIntervalStep(
   const intervalId = setInterval(async () => {
     const action = ctx.actions[step.action];
     if (action) {
-      await executeAction(action, ctx);
+      await dispatchAction(action, ctx);
     }
   }, ms);
 
@@ -1392,6 +2011,114 @@ async function executeGenerateStep(
 
 // ==================== Realtime Step Execution ====================
 
+/**
+ * Executes a WebSocket connect step
+ * Messages are also forwarded to bind steps registered for the connection.
+ */
+async function executeWSConnectStep(
+  step: CompiledWSConnectStep,
+  ctx: ActionContext
+): Promise<void> {
+  const evalCtx = createEvalContext(ctx);
+  const url = String(evaluate(step.url, evalCtx));
+
+  if (!ctx.connections) {
+    ctx.connections = createConnectionManager();
+  }
+
+  const handlers: WebSocketHandlers = {
+    onMessage: async (data: unknown) => {
+      ctx.binding?.handleMessage(step.connection, data);
+      if (step.onMessage) {
+        // Inject event data into locals
+        ctx.locals['event'] = { data };
+        for (const s of step.onMessage) {
+          await executeStep(s, ctx);
+        }
+      }
+    },
+  };
+
+  if (step.onOpen) {
+    handlers.onOpen = async () => {
+      for (const s of step.onOpen!) {
+        await executeStep(s, ctx);
+      }
+    };
+  }
+
+  if (step.onClose) {
+    handlers.onClose = async (code: number, reason: string) => {
+      ctx.locals['event'] = { code, reason };
+      for (const s of step.onClose!) {
+        await executeStep(s, ctx);
+      }
+    };
+  }
+
+  if (step.onError) {
+    handlers.onError = async (error: Event) => {
+      ctx.locals['error'] = error;
+      for (const s of step.onError!) {
+        await executeStep(s, ctx);
+      }
+    };
+  }
+
+  const options: WebSocketConnectOptions = {};
+  if (step.protocols) {
+    options.protocols = step.protocols;
+  }
+  if (step.reconnect) {
+    options.reconnect = step.reconnect as NonNullable<WebSocketConnectOptions['reconnect']>;
+  }
+
+  ctx.connections.create(step.connection, url, handlers, options);
+}
+
+/**
+ * Executes an RPC step (JSON-RPC request over a named WebSocket connection)
+ */
+async function executeRPCStep(
+  step: CompiledRPCStep,
+  ctx: ActionContext
+): Promise<void> {
+  const evalCtx = createEvalContext(ctx);
+  const params = step.params ? evaluate(step.params, evalCtx) : undefined;
+
+  try {
+    if (!ctx.connections) {
+      throw new Error(`Connection "${step.connection}" not found`);
+    }
+    const result = await ctx.connections.call(step.connection, step.method, params, step.timeout);
+
+    if (step.result) {
+      ctx.locals[step.result] = result;
+    }
+
+    // Execute onSuccess steps
+    if (step.onSuccess) {
+      for (const successStep of step.onSuccess) {
+        await executeStep(successStep, ctx);
+      }
+    }
+  } catch (err) {
+    // Inject error variable, including the JSON-RPC error code and data
+    const rpcError: RPCError | undefined = err instanceof Error ? err : undefined;
+    ctx.locals['error'] = {
+      message: rpcError ? rpcError.message : String(err),
+      name: rpcError ? rpcError.name : 'Error',
+      ...(rpcError?.code !== undefined && { code: rpcError.code }),
+      ...(rpcError?.data !== undefined && { data: rpcError.data }),
+    };
+    if (step.onError) {
+      for (const errorStep of step.onError) {
+        await executeStep(errorStep, ctx);
+      }
+    }
+  }
+}
+
 /**
  * Check if a value is a valid SSEConnectionManager (has required methods)
  */
@@ -1597,3 +2324,15 @@ async function executeUnbindStep(
 ): Promise<void> {
   ctx.binding?.unbindByConnection(step.connection);
 }
+
+/**
+ * Executes an emit step, running the parent's handler for a component event
+ */
+async function executeEmitStep(
+  step: CompiledEmitStep,
+  ctx: ActionContext
+): Promise<void> {
+  if (!ctx.emit) return;
+  const detail = step.payload ? evaluate(step.payload, createEvalContext(ctx)) : undefined;
+  await ctx.emit(step.event, detail);
+}
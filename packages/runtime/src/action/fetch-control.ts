@@ -0,0 +1,123 @@
+/**
+ * Fetch Control - Cancellation and concurrency policies for fetch steps
+ *
+ * In-flight requests are tracked per key (the step's `abortKey`, or the step
+ * itself when no key is given) so that overlapping requests can be resolved
+ * by policy and the abort step can cancel them by key:
+ * - takeLatest: aborts earlier in-flight requests when a new one starts
+ * - takeFirst: ignores new requests while one is in flight
+ * - queue: starts each request after the previous one has settled
+ *
+ * Each app owns one FetchControl, so keys do not collide across apps and
+ * destroying an app aborts its requests.
+ */
+
+import type { CompiledFetchStep } from '@constela/compiler';
+
+type FetchConcurrency = NonNullable<CompiledFetchStep['concurrency']>;
+
+/**
+ * Tracked requests sharing one key
+ */
+interface RequestChannel {
+  controllers: Set<AbortController>;
+  tail: Promise<void>;
+}
+
+/**
+ * Handle for a single tracked request
+ */
+export interface FetchRequest {
+  controller: AbortController;
+  /** Resolves to false when the request was aborted before it could start */
+  ready: Promise<boolean>;
+  /** Releases the request; must be called once it has settled */
+  finish(): void;
+}
+
+/**
+ * Tracks the fetch requests of one app
+ */
+export interface FetchControl {
+  /**
+   * Registers a request under the given key according to the concurrency policy.
+   *
+   * @param key - The abortKey, or any stable identity for keyless requests
+   * @param concurrency - Policy for overlapping requests (parallel when omitted)
+   * @returns The request handle, or undefined when the request must be skipped
+   */
+  begin(key: unknown, concurrency?: FetchConcurrency): FetchRequest | undefined;
+  /** Aborts all in-flight and queued requests registered under the given key */
+  abort(key: string): void;
+  /** Aborts all in-flight and queued requests */
+  abortAll(): void;
+}
+
+/**
+ * Creates the request tracking for one app
+ */
+export function createFetchControl(): FetchControl {
+  const channels = new Map<unknown, RequestChannel>();
+
+  function begin(key: unknown, concurrency?: FetchConcurrency): FetchRequest | undefined {
+    let channel = channels.get(key);
+    if (!channel) {
+      channel = { controllers: new Set(), tail: Promise.resolve() };
+      channels.set(key, channel);
+    }
+
+    if (concurrency === 'takeFirst' && channel.controllers.size > 0) {
+      return undefined;
+    }
+    if (concurrency === 'takeLatest') {
+      for (const controller of channel.controllers) {
+        controller.abort();
+      }
+    }
+
+    const controller = new AbortController();
+    channel.controllers.add(controller);
+
+    const previous = channel.tail;
+    let release: () => void = () => {};
+    channel.tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    // Checked once the request may start, as newer requests can abort it meanwhile
+    const ready = (concurrency === 'queue' ? previous : Promise.resolve()).then(
+      () => !controller.signal.aborted
+    );
+
+    const current = channel;
+    return {
+      controller,
+      ready,
+      finish() {
+        current.controllers.delete(controller);
+        release();
+        if (current.controllers.size === 0 && channels.get(key) === current) {
+          channels.delete(key);
+        }
+      },
+    };
+  }
+
+  function abort(key: string): void {
+    const channel = channels.get(key);
+    if (!channel) return;
+    for (const controller of channel.controllers) {
+      controller.abort();
+    }
+  }
+
+  function abortAll(): void {
+    for (const channel of channels.values()) {
+      for (const controller of channel.controllers) {
+        controller.abort();
+      }
+    }
+  }
+
+  return { begin, abort, abortAll };
+}
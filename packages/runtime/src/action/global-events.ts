@@ -0,0 +1,52 @@
+/**
+ * Global Events - Runs actions for window and document events
+ *
+ * Listeners are attached after the app has mounted and removed together
+ * with the owning app. Key filters and modifiers behave as on element
+ * event handlers, and each dispatch runs with its own locals holding the
+ * event data (key, modifier flags, pointer position), which is also the
+ * action's payload.
+ */
+
+import type { CompiledGlobalEventHandler } from '@constela/compiler';
+import { dispatchAction, type ActionContext } from './executor.js';
+import { withEventModifiers, getEventListenerOptions } from '../renderer/event-modifiers.js';
+import { getEventLocals } from '../renderer/event-locals.js';
+
+/**
+ * Attaches global event listeners and returns a cleanup function removing them
+ *
+ * @param globalEvents - The compiled global event handlers
+ * @param ctx - Action context the actions run in
+ * @returns A function removing all listeners
+ */
+export function bindGlobalEvents(
+  globalEvents: CompiledGlobalEventHandler[],
+  ctx: ActionContext
+): () => void {
+  const cleanups: (() => void)[] = [];
+
+  for (const handler of globalEvents) {
+    const target = handler.target === 'document' ? document : window;
+    const listener = withEventModifiers((event) => {
+      const action = ctx.actions[handler.action];
+      if (action) {
+        const payload = getEventLocals(event);
+        void dispatchAction(action, {
+          ...ctx,
+          locals: { ...ctx.locals, ...payload, payload },
+          eventPayload: payload,
+        });
+      }
+    }, handler);
+    const options = getEventListenerOptions(handler);
+    target.addEventListener(handler.event, listener, options);
+    cleanups.push(() => target.removeEventListener(handler.event, listener, options));
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Component Lifecycle - Runs a component instance's onMount and onUnmount actions
+ *
+ * onMount runs once the render pass that created the instance has finished,
+ * so its elements are in the document and its refs are populated. On
+ * unmount, onUnmount runs first, then the subscriptions and timers started
+ * by the instance's local actions are disposed.
+ */
+
+import type { CompiledLifecycleHooks } from '@constela/compiler';
+import { dispatchAction, type ActionContext } from './executor.js';
+
+/**
+ * Creates the refs of a component instance. Refs registered inside the
+ * instance resolve to its own elements first and are also registered with
+ * the parent refs, so actions outside the instance still find them.
+ *
+ * @param parent - The refs of the enclosing scope
+ * @returns Refs scoped to the component instance
+ */
+export function createInstanceRefs(parent: Record<string, Element> | undefined): Record<string, Element> {
+  return new Proxy({} as Record<string, Element>, {
+    get(target, prop) {
+      if (typeof prop !== 'string' || prop in target) return Reflect.get(target, prop);
+      return parent?.[prop];
+    },
+    set(target, prop, value: Element) {
+      if (typeof prop === 'string' && parent) parent[prop] = value;
+      return Reflect.set(target, prop, value);
+    },
+    has(target, prop) {
+      return prop in target || (parent !== undefined && prop in parent);
+    },
+  });
+}
+
+/**
+ * Schedules a component instance's onMount action and returns its unmount cleanup.
+ * Hook actions run with the instance's disposables, like its local actions.
+ *
+ * @param lifecycle - The component's lifecycle hooks, if any
+ * @param disposables - Disposers collected from the instance's local actions
+ * @param ctx - The instance's action context
+ * @returns Cleanup running onUnmount and disposing the collected resources
+ */
+export function startComponentLifecycle(
+  lifecycle: CompiledLifecycleHooks | undefined,
+  disposables: (() => void)[],
+  ctx: ActionContext
+): () => void {
+  const hookCtx: ActionContext = { ...ctx, subscriptions: disposables, cleanups: disposables };
+  let mounted = false;
+  let disposed = false;
+
+  if (lifecycle?.onMount || lifecycle?.onUnmount) {
+    queueMicrotask(() => {
+      if (disposed) return;
+      mounted = true;
+      const action = lifecycle.onMount ? ctx.actions[lifecycle.onMount] : undefined;
+      if (action) {
+        void dispatchAction(action, hookCtx);
+      }
+    });
+  }
+
+  return () => {
+    if (disposed) return;
+    disposed = true;
+    // onUnmount only runs for instances whose onMount phase was reached
+    const action = mounted && lifecycle?.onUnmount ? ctx.actions[lifecycle.onUnmount] : undefined;
+    if (action) {
+      void dispatchAction(action, hookCtx);
+    }
+    for (const dispose of disposables.splice(0)) {
+      dispose();
+    }
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Watch - Runs actions when watched state changes
+ *
+ * Each watch tracks a state field (optionally a nested path within it)
+ * with an effect and runs its action when the value changes, optionally
+ * debounced. Watches are disposed together with the owning app or component.
+ */
+
+import type { CompiledWatch } from '@constela/compiler';
+import { createEffect } from '../reactive/effect.js';
+import { disableTracking, enableTracking } from '../reactive/signal.js';
+import { dispatchAction, type ActionContext } from './executor.js';
+
+/**
+ * Reads a dot-separated path from a value
+ */
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current == null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Starts a single watch and returns its cleanup function
+ */
+function startWatch(watch: CompiledWatch, ctx: ActionContext): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let initialized = false;
+  let previous: unknown;
+
+  const run = (): void => {
+    const action = ctx.actions[watch.action];
+    if (!action) return;
+    // The action must not become a dependency of the watch effect
+    disableTracking();
+    try {
+      void dispatchAction(action, ctx);
+    } finally {
+      enableTracking();
+    }
+  };
+
+  const schedule = (): void => {
+    if (watch.debounce === undefined || watch.debounce <= 0) {
+      run();
+      return;
+    }
+    if (timer !== undefined) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      run();
+    }, watch.debounce);
+  };
+
+  const disposeEffect = createEffect(() => {
+    const fieldValue = ctx.state.get(watch.target);
+    const value = watch.path ? readPath(fieldValue, watch.path) : fieldValue;
+
+    if (!initialized) {
+      initialized = true;
+      previous = value;
+      if (watch.immediate) schedule();
+      return;
+    }
+
+    if (value === previous) return;
+    previous = value;
+    schedule();
+  });
+
+  return () => {
+    disposeEffect();
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+}
+
+/**
+ * Starts all watches against the given action context.
+ *
+ * @param watches - Compiled watch definitions
+ * @param ctx - Action context whose state is watched and whose actions are run
+ * @returns Cleanup function disposing all watches and pending debounce timers
+ */
+export function startWatches(watches: CompiledWatch[], ctx: ActionContext): () => void {
+  const cleanups = watches.map((watch) => startWatch(watch, ctx));
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
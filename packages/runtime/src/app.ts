@@ -5,9 +5,15 @@
  */
 
 import type { CompiledProgram, CompiledAction } from '@constela/compiler';
-import { createStateStore } from './state/store.js';
+import { createAppStateStore } from './state/app-state.js';
+import { bindQuerySync } from './state/query-sync.js';
 import { render, type RenderContext } from './renderer/index.js';
-import { executeAction } from './action/executor.js';
+import { dispatchAction } from './action/executor.js';
+import { startWatches } from './action/watch.js';
+import { bindGlobalEvents } from './action/global-events.js';
+import { createConnectionManager } from './connection/websocket.js';
+import { createBindingManager } from './binding/realtime.js';
+import { createFetchControl } from './action/fetch-control.js';
 
 export interface AppInstance {
   destroy(): void;
@@ -34,8 +40,8 @@ export function createApp(
   program: CompiledProgram,
   mount: HTMLElement
 ): AppInstance {
-  // Create state store
-  const state = createStateStore(program.state);
+  // Create state store (with i18n, resources, forms and memoized computed values when defined)
+  const state = createAppStateStore(program);
 
   // Normalize actions (handle both Map and Record)
   let actions: Record<string, CompiledAction>;
@@ -51,9 +57,27 @@ export function createApp(
   // Create cleanups array for tracking all effects
   const cleanups: (() => void)[] = [];
 
+  // Stop resource effects, refresh timers and the locale cookie sync with the app
+  cleanups.push(() => state.dispose());
+
+  // Keep syncQuery fields and location.search in sync
+  cleanups.push(bindQuerySync(state, program.state));
+
   // Create refs map for collecting element references
   const refs: Record<string, Element> = {};
 
+  // Create the WebSocket connection manager shared by all actions (closed with the app)
+  const connections = createConnectionManager();
+  cleanups.push(() => connections.closeAll());
+
+  // Create the realtime binding manager shared by all bind steps (disposed with the app)
+  const binding = createBindingManager();
+  cleanups.push(() => binding.dispose());
+
+  // Track fetch requests by abortKey (in-flight requests are aborted with the app)
+  const fetchControl = createFetchControl();
+  cleanups.push(() => fetchControl.abortAll());
+
   // Create render context
   const ctx: RenderContext = {
     state,
@@ -61,6 +85,9 @@ export function createApp(
     locals: {},
     cleanups,
     refs,
+    connections,
+    binding,
+    fetchControl,
     ...(program.importData && { imports: program.importData }),
     ...(program.styles && { styles: program.styles }),
   };
@@ -75,14 +102,27 @@ export function createApp(
     actions,
     locals: {},
     refs,
+    connections,
+    binding,
+    fetchControl,
   };
 
+  // Start program watches (disposed with the app's cleanups)
+  if (program.watch && program.watch.length > 0) {
+    cleanups.push(startWatches(program.watch, actionCtx));
+  }
+
+  // Attach window/document listeners (removed with the app's cleanups)
+  if (program.globalEvents && program.globalEvents.length > 0) {
+    cleanups.push(bindGlobalEvents(program.globalEvents, actionCtx));
+  }
+
   // Execute onMount lifecycle hook (after render so refs are available)
   if (program.lifecycle?.onMount) {
     const onMountAction = actions[program.lifecycle.onMount];
     if (onMountAction) {
       // Execute synchronously for immediate state updates
-      void executeAction(onMountAction, actionCtx);
+      void dispatchAction(onMountAction, actionCtx);
     }
   }
 
@@ -97,7 +137,7 @@ export function createApp(
       if (program.lifecycle?.onUnmount) {
         const onUnmountAction = actions[program.lifecycle.onUnmount];
         if (onUnmountAction) {
-          void executeAction(onUnmountAction, actionCtx);
+          void dispatchAction(onUnmountAction, actionCtx);
         }
       }
 
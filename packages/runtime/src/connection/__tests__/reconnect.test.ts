@@ -8,6 +8,7 @@
  * - Successful reconnect reset
  * - Max delay cap
  * - Manual trigger reconnect
+ * - Reported state changes of event-driven connections
  * - Dispose and cleanup
  * - Callbacks (onReconnect, onMaxRetriesReached)
  * - State transitions
@@ -630,6 +631,71 @@ describe('Reconnection Manager', () => {
     });
   });
 
+  // ==================== notifyStateChange() Tests ====================
+
+  describe('notifyStateChange()', () => {
+    /**
+     * Creates a connection whose state changes without any method call (like a socket)
+     */
+    function createEventDrivenConnection(initialState: string) {
+      const connection = { state: initialState, getState: () => connection.state, close: vi.fn() };
+      return connection;
+    }
+
+    it('should reconnect with backoff when a closed connection is reported', () => {
+      // Arrange
+      const manager = createReconnectionManager();
+      const connection = createEventDrivenConnection('open');
+      const reconnectFn = vi.fn(() => createEventDrivenConnection('connecting'));
+      manager.wrap(connection, reconnectFn, defaultPolicy);
+
+      // Act
+      connection.state = 'closed';
+      vi.advanceTimersByTime(5000);
+      const callsBeforeReport = reconnectFn.mock.calls.length;
+      manager.notifyStateChange(connection);
+      vi.advanceTimersByTime(999);
+      const callsBeforeDelay = reconnectFn.mock.calls.length;
+      vi.advanceTimersByTime(1);
+
+      // Assert
+      expect(callsBeforeReport).toBe(0);
+      expect(callsBeforeDelay).toBe(0);
+      expect(reconnectFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a connecting reconnection to open or close', () => {
+      // Arrange
+      const manager = createReconnectionManager();
+      const connection = createEventDrivenConnection('open');
+      const attempts: ReturnType<typeof createEventDrivenConnection>[] = [];
+      const reconnectFn = vi.fn(() => {
+        const attempt = createEventDrivenConnection('connecting');
+        attempts.push(attempt);
+        return attempt;
+      });
+      const onReconnect = vi.fn();
+      manager.wrap(connection, reconnectFn, defaultPolicy, onReconnect);
+      connection.state = 'closed';
+      manager.notifyStateChange(connection);
+      vi.advanceTimersByTime(1000);
+
+      // Act - the first attempt fails, the second one opens
+      vi.advanceTimersByTime(10000);
+      const callsWhileConnecting = reconnectFn.mock.calls.length;
+      attempts[0]!.state = 'closed';
+      manager.notifyStateChange(attempts[0]!);
+      vi.advanceTimersByTime(2000);
+      attempts[1]!.state = 'open';
+      manager.notifyStateChange(attempts[1]!);
+
+      // Assert
+      expect(callsWhileConnecting).toBe(1);
+      expect(reconnectFn).toHaveBeenCalledTimes(2);
+      expect(onReconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // ==================== dispose() Tests ====================
 
   describe('dispose()', () => {
@@ -6,6 +6,7 @@
  * - Connection lifecycle events (open, close, error)
  * - Message sending and receiving
  * - Connection state management
+ * - JSON-RPC calls matched to responses by id
  * - ConnectionManager for named connections
  *
  * TDD Red Phase: These tests verify the WebSocket connection functionality
@@ -432,6 +433,108 @@ describe('WebSocket Connection', () => {
     });
   });
 
+  // ==================== JSON-RPC Tests ====================
+
+  describe('JSON-RPC calls', () => {
+    function openConnection(handlers: WebSocketHandlers = {}): WebSocketConnection {
+      const connection = createWebSocketConnection('wss://api.example.com/rpc', handlers);
+      mockWebSocketInstance?.simulateOpen();
+      return connection;
+    }
+
+    it('should send a request with an id and resolve with the matching result', async () => {
+      // Arrange
+      const onMessage = vi.fn();
+      const connection = openConnection({ onMessage });
+
+      // Act
+      const first = connection.call('users.get', { id: 1 });
+      const second = connection.call('ping');
+      mockWebSocketInstance?.simulateMessage({ jsonrpc: '2.0', id: 2, result: 'pong' });
+      mockWebSocketInstance?.simulateMessage({ jsonrpc: '2.0', id: 1, result: { name: 'Ada' } });
+
+      // Assert
+      expect(mockWebSocketInstance?.send).toHaveBeenCalledWith(
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'users.get', params: { id: 1 } })
+      );
+      expect(mockWebSocketInstance?.send).toHaveBeenCalledWith(
+        JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' })
+      );
+      await expect(first).resolves.toEqual({ name: 'Ada' });
+      await expect(second).resolves.toBe('pong');
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('should deliver notifications to onMessage', () => {
+      // Arrange
+      const onMessage = vi.fn();
+      openConnection({ onMessage });
+      const notification = { jsonrpc: '2.0', method: 'users.updated', params: { id: 1 } };
+
+      // Act
+      mockWebSocketInstance?.simulateMessage(notification);
+
+      // Assert
+      expect(onMessage).toHaveBeenCalledWith(notification);
+    });
+
+    it('should reject with the code and data of an error response', async () => {
+      // Arrange
+      const connection = openConnection();
+
+      // Act
+      const call = connection.call('users.get');
+      mockWebSocketInstance?.simulateMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32602, message: 'Invalid params', data: { field: 'id' } },
+      });
+
+      // Assert
+      await expect(call).rejects.toMatchObject({
+        name: 'RPCError',
+        message: 'Invalid params',
+        code: -32602,
+        data: { field: 'id' },
+      });
+    });
+
+    it('should reject when no response arrives before the timeout', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const connection = openConnection();
+
+      // Act
+      const call = connection.call('slow', undefined, 1000);
+      const assertion = expect(call).rejects.toMatchObject({ name: 'TimeoutError' });
+      await vi.advanceTimersByTimeAsync(1000);
+      vi.useRealTimers();
+
+      // Assert
+      await assertion;
+    });
+
+    it('should reject pending calls when the connection closes', async () => {
+      // Arrange
+      const connection = openConnection();
+
+      // Act
+      const call = connection.call('users.get');
+      mockWebSocketInstance?.simulateClose(1006, '');
+
+      // Assert
+      await expect(call).rejects.toMatchObject({ name: 'ConnectionError' });
+    });
+
+    it('should reject calls while the connection is not open', async () => {
+      // Arrange
+      const connection = createWebSocketConnection('wss://api.example.com/rpc', {});
+
+      // Act & Assert
+      await expect(connection.call('ping')).rejects.toThrow('Connection is not open');
+    });
+  });
+
   // ==================== ConnectionManager Tests ====================
 
   describe('createConnectionManager', () => {
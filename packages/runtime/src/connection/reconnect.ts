@@ -10,6 +10,7 @@
  * - Max retries limit with callback
  * - Retry count reset on successful reconnection
  * - Manual trigger reconnection
+ * - Event-driven connections reporting their state changes
  * - Timer cleanup on dispose
  */
 
@@ -68,6 +69,14 @@ export interface ReconnectionManager {
    */
   triggerReconnect(connection: Reconnectable): void;
 
+  /**
+   * Report a state change the manager cannot observe through method calls
+   * (e.g. a socket opened or closed by the peer). A closed connection is
+   * reconnected with backoff; an open one counts as a successful reconnection.
+   * @param connection - The connection whose state changed
+   */
+  notifyStateChange(connection: Reconnectable): void;
+
   /**
    * Stop reconnection attempts and cleanup for a specific connection
    * @param connection - The connection to dispose
@@ -104,14 +113,17 @@ interface ManagedConnection<T extends Reconnectable = Reconnectable> {
   isReconnecting: boolean;
   /** Whether max retries callback has been called */
   maxRetriesReached: boolean;
+  /** Whether the current connection is a reconnection still connecting */
+  awaitingOpen: boolean;
 }
 
 // ==================== Helper Functions ====================
 
 /**
- * Calculate delay based on strategy and attempt number
+ * Calculate delay based on strategy and attempt number (0-based)
+ * Also used for fetch step retries.
  */
-function calculateDelay(
+export function calculateDelay(
   strategy: ReconnectionPolicy['strategy'],
   attempt: number,
   baseDelay: number,
@@ -243,22 +255,34 @@ export function createReconnectionManager(): ReconnectionManager {
     }
 
     // Check if reconnection was successful
-    if (newConnection.getState() === 'open') {
-      // Reset retry count and max retries flag on success
-      managed.retryCount = 0;
-      managed.maxRetriesReached = false;
-      // Call success callback
-      try {
-        managed.onReconnect?.();
-      } catch {
-        // Ignore callback errors
-      }
+    const state = newConnection.getState();
+    if (state === 'open') {
+      handleReconnected(managed);
+    } else if (state === 'connecting') {
+      // Still connecting, wait for notifyStateChange
+      managed.awaitingOpen = true;
     } else {
       // Connection not open, schedule another retry
       scheduleReconnect(managed);
     }
   }
 
+  /**
+   * Handle a reconnection that opened
+   */
+  function handleReconnected(managed: ManagedConnection): void {
+    managed.awaitingOpen = false;
+    // Reset retry count and max retries flag on success
+    managed.retryCount = 0;
+    managed.maxRetriesReached = false;
+    // Call success callback
+    try {
+      managed.onReconnect?.();
+    } catch {
+      // Ignore callback errors
+    }
+  }
+
   /**
    * Handle connection state change (error/close)
    */
@@ -332,6 +356,7 @@ export function createReconnectionManager(): ReconnectionManager {
         timerId: null,
         isReconnecting: false,
         maxRetriesReached: false,
+        awaitingOpen: false,
       };
 
       // Store in map
@@ -368,6 +393,21 @@ export function createReconnectionManager(): ReconnectionManager {
       attemptReconnect(managed);
     },
 
+    notifyStateChange(connection: Reconnectable): void {
+      const managed = managedConnections.get(connection);
+      if (!managed) {
+        return;
+      }
+
+      const state = connection.getState();
+      if (state === 'open' && managed.awaitingOpen) {
+        handleReconnected(managed);
+      } else if (state === 'closed') {
+        managed.awaitingOpen = false;
+        handleConnectionError(managed);
+      }
+    },
+
     dispose(connection: Reconnectable): void {
       const managed = managedConnections.get(connection);
       if (!managed) {
@@ -3,10 +3,15 @@
  *
  * This file provides the interface definitions and stub implementations
  * for WebSocket connection management in Constela runtime.
+ * Connections also act as JSON-RPC 2.0 clients: call() assigns request ids
+ * and resolves with the matching response, while notifications and other
+ * messages are delivered to onMessage.
  *
  * TDD Red Phase: These stubs will fail tests until properly implemented.
  */
 
+import { createReconnectionManager, type ReconnectionPolicy } from './reconnect.js';
+
 // ==================== Type Definitions ====================
 
 /**
@@ -20,6 +25,16 @@ export interface WebSocketConnection {
    */
   send(data: unknown): void;
 
+  /**
+   * Send a JSON-RPC 2.0 request and wait for the response with the same id
+   * Rejects with the response error, on timeout, or when the connection closes
+   * @param method - The remote method name
+   * @param params - Optional request params
+   * @param timeout - Optional time in ms to wait for the response
+   * @returns The response result
+   */
+  call(method: string, params?: unknown, timeout?: number): Promise<unknown>;
+
   /**
    * Close the WebSocket connection
    */
@@ -42,10 +57,33 @@ export interface WebSocketHandlers {
   onClose?: (code: number, reason: string) => Promise<void> | void;
   /** Called when an error occurs */
   onError?: (error: Event) => Promise<void> | void;
-  /** Called when a message is received (JSON parsed if possible) */
+  /**
+   * Called when a message is received (JSON parsed if possible)
+   * JSON-RPC responses are delivered to the pending call instead
+   */
   onMessage?: (data: unknown) => Promise<void> | void;
 }
 
+/**
+ * Error a JSON-RPC call rejects with
+ */
+export interface RPCError extends Error {
+  /** JSON-RPC error code (only for error responses) */
+  code?: number;
+  /** Additional error data sent by the server */
+  data?: unknown;
+}
+
+/**
+ * Options for a named WebSocket connection
+ */
+export interface WebSocketConnectOptions {
+  /** Subprotocols requested from the server */
+  protocols?: string[];
+  /** Reopens the connection with backoff after it closes unexpectedly */
+  reconnect?: Omit<ReconnectionPolicy, 'maxDelay'> & { maxDelay?: number };
+}
+
 /**
  * Connection manager for named WebSocket connections
  */
@@ -54,7 +92,7 @@ export interface ConnectionManager {
    * Create a new named WebSocket connection
    * If a connection with the same name exists, it will be closed first
    */
-  create(name: string, url: string, handlers: WebSocketHandlers): void;
+  create(name: string, url: string, handlers: WebSocketHandlers, options?: WebSocketConnectOptions): void;
 
   /**
    * Get a connection by name
@@ -68,6 +106,12 @@ export interface ConnectionManager {
    */
   send(name: string, data: unknown): void;
 
+  /**
+   * Send a JSON-RPC request to a named connection and wait for the response
+   * Rejects if connection not found
+   */
+  call(name: string, method: string, params?: unknown, timeout?: number): Promise<unknown>;
+
   /**
    * Close a named connection
    * No-op if connection not found
@@ -82,24 +126,67 @@ export interface ConnectionManager {
 
 // ==================== Implementations ====================
 
+/**
+ * A call awaiting its JSON-RPC response
+ */
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: RPCError) => void;
+  timerId: ReturnType<typeof setTimeout> | undefined;
+}
+
+function createRPCError(message: string, name: string, code?: number, data?: unknown): RPCError {
+  const error: RPCError = new Error(message);
+  error.name = name;
+  if (code !== undefined) error.code = code;
+  if (data !== undefined) error.data = data;
+  return error;
+}
+
+/**
+ * Check if a message is a JSON-RPC 2.0 response (as opposed to a notification)
+ */
+function isRPCResponse(data: unknown): data is { id: unknown; result?: unknown; error?: unknown } {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Record<string, unknown>)['jsonrpc'] === '2.0' &&
+    'id' in data &&
+    ('result' in data || 'error' in data)
+  );
+}
+
 /**
  * Create a WebSocket connection with event handlers
  *
  * @param url - The WebSocket URL (e.g., "wss://api.example.com/ws")
  * @param handlers - Event handlers for connection lifecycle
+ * @param protocols - Optional subprotocols requested from the server
  * @returns A WebSocketConnection interface for sending/closing
  */
 export function createWebSocketConnection(
   url: string,
-  handlers: WebSocketHandlers
+  handlers: WebSocketHandlers,
+  protocols?: string[]
 ): WebSocketConnection {
-  const ws = new WebSocket(url);
+  const ws = protocols ? new WebSocket(url, protocols) : new WebSocket(url);
+  const pendingCalls = new Map<number, PendingCall>();
+  let nextId = 1;
+
+  function rejectPendingCalls(message: string): void {
+    for (const pending of pendingCalls.values()) {
+      clearTimeout(pending.timerId);
+      pending.reject(createRPCError(message, 'ConnectionError'));
+    }
+    pendingCalls.clear();
+  }
 
   ws.onopen = () => {
     handlers.onOpen?.();
   };
 
   ws.onclose = (event: CloseEvent) => {
+    rejectPendingCalls(`Connection closed (${event.code})`);
     handlers.onClose?.(event.code, event.reason);
   };
 
@@ -117,6 +204,23 @@ export function createWebSocketConnection(
         // Keep as string if not valid JSON
       }
     }
+    // Responses settle their call; late responses (e.g. after a timeout) are dropped
+    if (isRPCResponse(data)) {
+      const pending = typeof data.id === 'number' ? pendingCalls.get(data.id) : undefined;
+      if (pending) {
+        pendingCalls.delete(data.id as number);
+        clearTimeout(pending.timerId);
+        if (data.error !== undefined && data.error !== null) {
+          const rpcError = data.error as { code?: number; message?: string; data?: unknown };
+          pending.reject(
+            createRPCError(rpcError.message ?? 'RPC error', 'RPCError', rpcError.code, rpcError.data)
+          );
+        } else {
+          pending.resolve(data.result);
+        }
+      }
+      return;
+    }
     handlers.onMessage?.(data);
   };
 
@@ -133,7 +237,28 @@ export function createWebSocketConnection(
       }
     },
 
+    call(method: string, params?: unknown, timeout?: number): Promise<unknown> {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return Promise.reject(createRPCError('Connection is not open', 'ConnectionError'));
+      }
+      const id = nextId++;
+      return new Promise<unknown>((resolve, reject) => {
+        const pending: PendingCall = { resolve, reject, timerId: undefined };
+        if (timeout !== undefined) {
+          pending.timerId = setTimeout(() => {
+            pendingCalls.delete(id);
+            reject(createRPCError(`RPC call timed out after ${timeout}ms`, 'TimeoutError'));
+          }, timeout);
+        }
+        pendingCalls.set(id, pending);
+        ws.send(
+          JSON.stringify({ jsonrpc: '2.0', id, method, ...(params !== undefined && { params }) })
+        );
+      });
+    },
+
     close(): void {
+      rejectPendingCalls('Connection closed');
       ws.close();
     },
 
@@ -157,21 +282,73 @@ export function createWebSocketConnection(
 /**
  * Create a connection manager for managing multiple named connections
  *
+ * Connections created with a reconnect policy are reopened under the same
+ * name after an unexpected close, using a reconnection manager for the
+ * backoff. The retry count resets once a connection opens; closing the
+ * connection by name stops reconnecting.
+ *
  * @returns A ConnectionManager interface
  */
 export function createConnectionManager(): ConnectionManager {
   const connections = new Map<string, WebSocketConnection>();
+  const reconnection = createReconnectionManager();
+
+  /**
+   * Stop reconnecting a named connection and close it
+   */
+  function closeConnection(name: string): void {
+    const conn = connections.get(name);
+    if (conn) {
+      reconnection.dispose(conn);
+      conn.close();
+      connections.delete(name);
+    }
+  }
 
   return {
-    create(name: string, url: string, handlers: WebSocketHandlers): void {
+    create(
+      name: string,
+      url: string,
+      handlers: WebSocketHandlers,
+      options: WebSocketConnectOptions = {}
+    ): void {
       // Close existing connection with the same name if exists
-      const existing = connections.get(name);
-      if (existing) {
-        existing.close();
-      }
+      closeConnection(name);
 
-      const conn = createWebSocketConnection(url, handlers);
+      const { protocols, reconnect } = options;
+
+      const connect = (): WebSocketConnection => {
+        const conn: WebSocketConnection = createWebSocketConnection(
+          url,
+          {
+            ...handlers,
+            onOpen: () => {
+              reconnection.notifyStateChange(conn);
+              return handlers.onOpen?.();
+            },
+            onClose: (code: number, reason: string) => {
+              reconnection.notifyStateChange(conn);
+              return handlers.onClose?.(code, reason);
+            },
+          },
+          protocols
+        );
+        return conn;
+      };
+
+      const conn = connect();
       connections.set(name, conn);
+      if (reconnect) {
+        reconnection.wrap(
+          conn,
+          () => {
+            const next = connect();
+            connections.set(name, next);
+            return next;
+          },
+          { ...reconnect, maxDelay: reconnect.maxDelay ?? Infinity }
+        );
+      }
     },
 
     get(name: string): WebSocketConnection | undefined {
@@ -186,15 +363,20 @@ export function createConnectionManager(): ConnectionManager {
       conn.send(data);
     },
 
-    close(name: string): void {
+    call(name: string, method: string, params?: unknown, timeout?: number): Promise<unknown> {
       const conn = connections.get(name);
-      if (conn) {
-        conn.close();
-        connections.delete(name);
+      if (!conn) {
+        return Promise.reject(new Error(`Connection "${name}" not found`));
       }
+      return conn.call(method, params, timeout);
+    },
+
+    close(name: string): void {
+      closeConnection(name);
     },
 
     closeAll(): void {
+      reconnection.disposeAll();
       for (const conn of connections.values()) {
         conn.close();
       }
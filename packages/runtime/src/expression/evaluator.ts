@@ -62,6 +62,14 @@ function toCoreContext(ctx: EvaluationContext): CoreEvaluationContext {
   if (ctx.route !== undefined) core.route = ctx.route;
   if (ctx.imports !== undefined) core.imports = ctx.imports;
   if (ctx.styles !== undefined) core.styles = ctx.styles;
+  const getComputed = ctx.state.getComputed;
+  if (getComputed) core.computed = { get: (name) => getComputed.call(ctx.state, name) };
+  const getResource = ctx.state.getResource;
+  if (getResource) core.resources = { get: (name) => getResource.call(ctx.state, name) };
+  const getForm = ctx.state.getForm;
+  if (getForm) core.forms = { get: (name) => getForm.call(ctx.state, name) };
+  const translate = ctx.state.translate;
+  if (translate) core.i18n = { translate: (key, params) => translate.call(ctx.state, key, params) };
   return core;
 }
 
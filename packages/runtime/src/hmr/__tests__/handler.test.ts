@@ -6,6 +6,7 @@
  * - State preservation: Serialize and restore state across updates
  * - App lifecycle: Destroy old app, hydrate new app
  * - Cleanup: Proper resource cleanup on destroy
+ * - Resources: Loaded resource data is reused across updates
  *
  * TDD Red Phase: These tests verify the HMR handler functionality
  * that will be implemented to apply hot updates to the running app.
@@ -889,4 +890,50 @@ describe('createHMRHandler()', () => {
       expect(container.querySelector('#updated')).not.toBeNull();
     });
   });
+
+  // ==================== Resources ====================
+
+  describe('resources', () => {
+    it('should reuse loaded resource data instead of refetching on update', async () => {
+      // Arrange
+      const originalFetch = globalThis.fetch;
+      let count = 0;
+      const fetchMock = vi.fn(async () => {
+        count++;
+        return new Response(JSON.stringify({ count }), { status: 200 });
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const createProgram = (label: string): CompiledProgram =>
+        createMockCompiledProgram({
+          resources: { counter: { url: { expr: 'lit', value: '/api/hmr/counter' } } },
+          view: {
+            kind: 'element',
+            tag: 'div',
+            children: [
+              { kind: 'text', value: { expr: 'lit', value: label } },
+              {
+                kind: 'text',
+                value: {
+                  expr: 'get',
+                  base: { expr: 'resource', name: 'counter', field: 'data' },
+                  path: 'count',
+                },
+              },
+            ],
+          },
+        } as unknown as Partial<CompiledProgram>);
+      const handler = createHMRHandler({ container, program: createProgram('v1:') });
+      await vi.waitFor(() => expect(container.textContent).toBe('v1:1'));
+
+      // Act
+      handler.handleUpdate(createProgram('v2:'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(container.textContent).toBe('v2:1');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      handler.destroy();
+      globalThis.fetch = originalFetch;
+    });
+  });
 });
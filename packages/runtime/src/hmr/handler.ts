@@ -11,11 +11,17 @@
  * 4. Restore state: state.restore(snapshot, newDefinitions)
  */
 
-import type { CompiledProgram, CompiledAction } from '@constela/compiler';
+import type { CompiledProgram, CompiledAction, CompiledResourceSnapshot } from '@constela/compiler';
 import type { AppInstance } from '../app.js';
 import { createStateStore, type StateStore, type StateDefinition } from '../state/store.js';
+import { createAppStateStore, type AppStateStore } from '../state/app-state.js';
+import { bindQuerySync } from '../state/query-sync.js';
 import { render, type RenderContext } from '../renderer/index.js';
-import { executeAction } from '../action/executor.js';
+import { dispatchAction } from '../action/executor.js';
+import { startWatches } from '../action/watch.js';
+import { createConnectionManager } from '../connection/websocket.js';
+import { createBindingManager } from '../binding/realtime.js';
+import { createFetchControl } from '../action/fetch-control.js';
 
 /**
  * Route context for the application
@@ -60,7 +66,7 @@ export interface HMRHandler {
  */
 interface HMRAppInstance extends AppInstance {
   /** The state store for serialization/restoration */
-  stateStore: StateStore;
+  stateStore: AppStateStore;
 }
 
 /**
@@ -71,10 +77,15 @@ function createHMRApp(
   program: CompiledProgram,
   container: HTMLElement,
   route?: RouteContext,
-  existingStateStore?: StateStore
+  existingStateStore?: StateStore,
+  resourceData?: Record<string, CompiledResourceSnapshot>
 ): HMRAppInstance {
-  // Create or reuse state store
-  const state = existingStateStore ?? createStateStore(program.state);
+  // Create or reuse state store (with i18n, resources, forms and memoized computed values when defined)
+  const state = createAppStateStore(program, {
+    ...(route && { route }),
+    ...(existingStateStore && { baseState: existingStateStore }),
+    ...(resourceData && { resourceData }),
+  });
 
   // Normalize actions (handle both Map and Record)
   let actions: Record<string, CompiledAction>;
@@ -90,9 +101,27 @@ function createHMRApp(
   // Create cleanups array for tracking all effects
   const cleanups: (() => void)[] = [];
 
+  // Stop resource effects, refresh timers and the locale cookie sync with the app
+  cleanups.push(() => state.dispose());
+
+  // Keep syncQuery fields and location.search in sync
+  cleanups.push(bindQuerySync(state, program.state));
+
   // Create refs map for collecting element references
   const refs: Record<string, Element> = {};
 
+  // Create the WebSocket connection manager shared by all actions (closed with the app)
+  const connections = createConnectionManager();
+  cleanups.push(() => connections.closeAll());
+
+  // Create the realtime binding manager shared by all bind steps (disposed with the app)
+  const binding = createBindingManager();
+  cleanups.push(() => binding.dispose());
+
+  // Track fetch requests by abortKey (in-flight requests are aborted with the app)
+  const fetchControl = createFetchControl();
+  cleanups.push(() => fetchControl.abortAll());
+
   // Create render context
   const ctx: RenderContext = {
     state,
@@ -100,6 +129,9 @@ function createHMRApp(
     locals: {},
     cleanups,
     refs,
+    connections,
+    binding,
+    fetchControl,
     ...(route && { route }),
     ...(program.importData && { imports: program.importData }),
   };
@@ -114,15 +146,23 @@ function createHMRApp(
     actions,
     locals: {},
     refs,
+    connections,
+    binding,
+    fetchControl,
     ...(route && { route }),
     ...(program.importData && { imports: program.importData }),
   };
 
+  // Start program watches (disposed with the app's cleanups)
+  if (program.watch && program.watch.length > 0) {
+    cleanups.push(startWatches(program.watch, actionCtx));
+  }
+
   // Execute onMount lifecycle hook
   if (program.lifecycle?.onMount) {
     const onMountAction = actions[program.lifecycle.onMount];
     if (onMountAction) {
-      void executeAction(onMountAction, actionCtx);
+      void dispatchAction(onMountAction, actionCtx);
     }
   }
 
@@ -139,7 +179,7 @@ function createHMRApp(
       if (program.lifecycle?.onUnmount) {
         const onUnmountAction = actions[program.lifecycle.onUnmount];
         if (onUnmountAction) {
-          void executeAction(onUnmountAction, actionCtx);
+          void dispatchAction(onUnmountAction, actionCtx);
         }
       }
 
@@ -213,8 +253,9 @@ export function createHMRHandler(options: HMRHandlerOptions): HMRHandler {
         return;
       }
 
-      // Normal update flow: Serialize current state before destroying
+      // Normal update flow: Serialize current state (and loaded resources) before destroying
       const stateSnapshot = currentApp.stateStore.serialize();
+      const resourceData = currentApp.stateStore.snapshotResources();
       currentApp.destroy();
       currentApp = null;
 
@@ -232,8 +273,8 @@ export function createHMRHandler(options: HMRHandlerOptions): HMRHandler {
       // Restore state (handles type changes gracefully)
       newStateStore.restore(stateSnapshot, newDefinitions);
 
-      // Create new app with restored state
-      currentApp = createHMRApp(newProgram, container, route, newStateStore);
+      // Create new app with restored state, reusing loaded resources instead of refetching
+      currentApp = createHMRApp(newProgram, container, route, newStateStore, resourceData);
     },
 
     destroy(): void {
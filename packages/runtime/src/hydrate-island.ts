@@ -6,7 +6,8 @@
  */
 
 import type { IslandStrategy, IslandStrategyOptions } from '@constela/core';
-import type { CompiledProgram, CompiledIslandNode } from '@constela/compiler';
+import type { CompiledProgram, CompiledIslandNode, CompiledNode } from '@constela/compiler';
+import { hydrateIslandContent } from './hydrate.js';
 
 export interface IslandHydrationOptions {
   element: HTMLElement;
@@ -26,8 +27,7 @@ export function hydrateIsland(options: IslandHydrationOptions): () => void {
 
   switch (strategy) {
     case 'load':
-      hydrateImmediately(options);
-      return () => {};
+      return hydrateImmediately(options);
     case 'idle':
       return hydrateOnIdle(options, options.strategyOptions?.timeout);
     case 'visible':
@@ -39,18 +39,54 @@ export function hydrateIsland(options: IslandHydrationOptions): () => void {
     case 'never':
       return () => {}; // SSR only, no hydration
     default:
-      hydrateImmediately(options);
-      return () => {};
+      return hydrateImmediately(options);
   }
 }
 
 /**
  * Hydrates the island immediately (synchronously)
+ *
+ * @returns Cleanup function stopping the island's effects
  */
-function hydrateImmediately(options: IslandHydrationOptions): void {
+function hydrateImmediately(options: IslandHydrationOptions): () => void {
   // Mark as hydrated
   options.element.dataset['islandHydrated'] = 'true';
-  // TODO: Implement actual hydration logic using program
+
+  const { program } = options;
+  const island = 'view' in program ? findIslandNode(program.view, options.id) : program;
+  if (!island) return () => {};
+
+  return hydrateIslandContent(island, options.element, {
+    ...(options.state && { state: options.state }),
+    ...('view' in program && { program }),
+  });
+}
+
+/**
+ * Finds the island with the given id in a program view
+ */
+function findIslandNode(node: CompiledNode, id: string): CompiledIslandNode | undefined {
+  switch (node.kind) {
+    case 'island':
+      return node.id === id ? node : findIslandNode(node.content, id);
+    case 'element':
+      for (const child of node.children ?? []) {
+        const island = findIslandNode(child, id);
+        if (island) return island;
+      }
+      return undefined;
+    case 'if':
+      return (
+        findIslandNode(node.then, id) ?? (node.else ? findIslandNode(node.else, id) : undefined)
+      );
+    case 'localState':
+      return findIslandNode(node.child, id);
+    case 'suspense':
+    case 'errorBoundary':
+      return findIslandNode(node.content, id);
+    default:
+      return undefined;
+  }
 }
 
 /**
@@ -62,26 +98,29 @@ function hydrateOnIdle(
 ): () => void {
   let cancelled = false;
   let handle: number | ReturnType<typeof setTimeout>;
+  let dispose = (): void => {};
 
   if ('requestIdleCallback' in window) {
     handle = window.requestIdleCallback(
       () => {
-        if (!cancelled) hydrateImmediately(options);
+        if (!cancelled) dispose = hydrateImmediately(options);
       },
       timeout ? { timeout } : undefined
     );
     return () => {
       cancelled = true;
       window.cancelIdleCallback(handle as number);
+      dispose();
     };
   } else {
     // Fallback to setTimeout for browsers without requestIdleCallback
     handle = setTimeout(() => {
-      if (!cancelled) hydrateImmediately(options);
+      if (!cancelled) dispose = hydrateImmediately(options);
     }, timeout ?? 200);
     return () => {
       cancelled = true;
       clearTimeout(handle);
+      dispose();
     };
   }
 }
@@ -93,11 +132,12 @@ function hydrateOnVisible(
   options: IslandHydrationOptions,
   strategyOptions?: IslandStrategyOptions
 ): () => void {
+  let dispose = (): void => {};
   const observer = new IntersectionObserver(
     (entries) => {
       for (const entry of entries) {
         if (entry.isIntersecting) {
-          hydrateImmediately(options);
+          dispose = hydrateImmediately(options);
           observer.disconnect();
           break;
         }
@@ -110,7 +150,10 @@ function hydrateOnVisible(
   );
 
   observer.observe(options.element);
-  return () => observer.disconnect();
+  return () => {
+    observer.disconnect();
+    dispose();
+  };
 }
 
 /**
@@ -119,11 +162,12 @@ function hydrateOnVisible(
 function hydrateOnInteraction(options: IslandHydrationOptions): () => void {
   const events = ['click', 'focusin', 'mouseover'] as const;
   let hydrated = false;
+  let dispose = (): void => {};
 
   const handler = () => {
     if (hydrated) return;
     hydrated = true;
-    hydrateImmediately(options);
+    dispose = hydrateImmediately(options);
     for (const event of events) {
       options.element.removeEventListener(event, handler);
     }
@@ -137,6 +181,7 @@ function hydrateOnInteraction(options: IslandHydrationOptions): () => void {
     for (const event of events) {
       options.element.removeEventListener(event, handler);
     }
+    dispose();
   };
 }
 
@@ -148,26 +193,28 @@ function hydrateOnMedia(
   media?: string
 ): () => void {
   if (!media) {
-    hydrateImmediately(options);
-    return () => {};
+    return hydrateImmediately(options);
   }
 
   const mql = window.matchMedia(media);
 
   if (mql.matches) {
-    hydrateImmediately(options);
-    return () => {};
+    return hydrateImmediately(options);
   }
 
+  let dispose = (): void => {};
   const handler = (e: MediaQueryListEvent) => {
     if (e.matches) {
-      hydrateImmediately(options);
+      dispose = hydrateImmediately(options);
       mql.removeEventListener('change', handler);
     }
   };
 
   mql.addEventListener('change', handler);
-  return () => mql.removeEventListener('change', handler);
+  return () => {
+    mql.removeEventListener('change', handler);
+    dispose();
+  };
 }
 
 /**
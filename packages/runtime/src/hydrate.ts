@@ -12,20 +12,37 @@ import type {
   CompiledElementNode,
   CompiledTextNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
   CompiledExpression,
   CompiledEventHandler,
   CompiledLocalStateNode,
   CompiledLocalAction,
+  CompiledIslandNode,
 } from '@constela/compiler';
 import type { AppInstance } from './app.js';
 import { hydrateIsland, detectIslandsInDOM } from './hydrate-island.js';
-import { createStateStore, type StateStore } from './state/store.js';
+import { extendStateStore, type StateStore } from './state/store.js';
+import { createAppStateStore } from './state/app-state.js';
+import { createComputedStateStore } from './state/computed.js';
+import { bindQuerySync } from './state/query-sync.js';
 import { createEffect } from './reactive/effect.js';
 import { createSignal, type Signal } from './reactive/signal.js';
 import { evaluate, evaluatePayload, type StylePreset } from './expression/evaluator.js';
-import { executeAction } from './action/executor.js';
+import { dispatchAction } from './action/executor.js';
+import { startWatches } from './action/watch.js';
+import { createEmitter, type Emitter } from './action/emit.js';
+import { createInstanceRefs, startComponentLifecycle } from './action/lifecycle.js';
+import { createLocalsWithContext } from './renderer/provide.js';
+import { bindGlobalEvents } from './action/global-events.js';
+import { createConnectionManager, type ConnectionManager } from './connection/websocket.js';
+import { createBindingManager, type BindingManager } from './binding/realtime.js';
+import { createFetchControl, type FetchControl } from './action/fetch-control.js';
 import { render, type RenderContext } from './renderer/index.js';
+import { withEventModifiers, getEventListenerOptions } from './renderer/event-modifiers.js';
+import { isFormControl, setControlValue, getControlLocals } from './renderer/form-controls.js';
+import { applyEnterTransition, applyExitTransition } from './transition/index.js';
+import { findMatchCase } from '@constela/core';
 
 /**
  * Options for hydrating an SSR-rendered application
@@ -58,6 +75,8 @@ interface LocalStateStore {
 interface ExtendedAction extends CompiledAction {
   _isLocalAction?: boolean;
   _localStore?: LocalStateStore;
+  _emit?: Emitter;
+  _disposables?: (() => void)[];
 }
 
 /**
@@ -80,6 +99,9 @@ interface HydrateContext {
     actions: Record<string, CompiledLocalAction>;
   };
   styles?: Record<string, StylePreset>;
+  connections?: ConnectionManager;
+  binding?: BindingManager;
+  fetchControl?: FetchControl;
 }
 
 /**
@@ -217,7 +239,7 @@ function createStateWithLocalState(
   globalState: StateStore,
   localStore: LocalStateStore
 ): StateStore {
-  return {
+  return extendStateStore(globalState, {
     get(name: string): unknown {
       // Check local state first
       if (name in localStore.signals) {
@@ -233,9 +255,6 @@ function createStateWithLocalState(
       }
       globalState.set(name, value);
     },
-    setPath(name: string, path: (string | number)[], value: unknown): void {
-      globalState.setPath(name, path, value);
-    },
     subscribe(name: string, fn: (value: unknown) => void): () => void {
       // Check local state first
       if (name in localStore.signals) {
@@ -243,26 +262,7 @@ function createStateWithLocalState(
       }
       return globalState.subscribe(name, fn);
     },
-    getPath(name: string, path: string | (string | number)[]): unknown {
-      return globalState.getPath(name, path);
-    },
-    subscribeToPath(
-      name: string,
-      path: string | (string | number)[],
-      fn: (value: unknown) => void
-    ): () => void {
-      return globalState.subscribeToPath(name, path, fn);
-    },
-    serialize(): Record<string, unknown> {
-      return globalState.serialize();
-    },
-    restore(
-      snapshot: Record<string, unknown>,
-      newDefinitions: import('./state/store.js').StateDefinition[]
-    ): void {
-      globalState.restore(snapshot, newDefinitions);
-    },
-  };
+  });
 }
 
 /**
@@ -294,8 +294,8 @@ function isEventHandler(value: unknown): value is CompiledEventHandler {
 export function hydrateApp(options: HydrateOptions): AppInstance {
   const { program, container, route } = options;
 
-  // Create state store
-  const state = createStateStore(program.state);
+  // Create state store (with i18n, resources, forms and memoized computed values when defined)
+  const state = createAppStateStore(program, { ...(route && { route }) });
 
   // Normalize actions (handle both Map and Record)
   let actions: Record<string, CompiledAction>;
@@ -311,9 +311,27 @@ export function hydrateApp(options: HydrateOptions): AppInstance {
   // Create cleanups array for tracking all effects
   const cleanups: (() => void)[] = [];
 
+  // Stop resource effects, refresh timers and the locale cookie sync with the app
+  cleanups.push(() => state.dispose());
+
+  // Keep syncQuery fields and location.search in sync
+  cleanups.push(bindQuerySync(state, program.state));
+
   // Create refs map for collecting element references
   const refs: Record<string, Element> = {};
 
+  // Create the WebSocket connection manager shared by all actions (closed with the app)
+  const connections = createConnectionManager();
+  cleanups.push(() => connections.closeAll());
+
+  // Create the realtime binding manager shared by all bind steps (disposed with the app)
+  const binding = createBindingManager();
+  cleanups.push(() => binding.dispose());
+
+  // Track fetch requests by abortKey (in-flight requests are aborted with the app)
+  const fetchControl = createFetchControl();
+  cleanups.push(() => fetchControl.abortAll());
+
   // Create hydration context
   const ctx: HydrateContext = {
     state,
@@ -321,6 +339,9 @@ export function hydrateApp(options: HydrateOptions): AppInstance {
     locals: {},
     cleanups,
     refs,
+    connections,
+    binding,
+    fetchControl,
     ...(program.importData && { imports: program.importData }),
     ...(route && { route }),
     ...(program.styles && { styles: program.styles }),
@@ -338,15 +359,28 @@ export function hydrateApp(options: HydrateOptions): AppInstance {
     actions,
     locals: {},
     refs,
+    connections,
+    binding,
+    fetchControl,
     ...(route && { route }),
     ...(program.importData && { imports: program.importData }),
   };
 
+  // Start program watches (disposed with the app's cleanups)
+  if (program.watch && program.watch.length > 0) {
+    cleanups.push(startWatches(program.watch, actionCtx));
+  }
+
+  // Attach window/document listeners (removed with the app's cleanups)
+  if (program.globalEvents && program.globalEvents.length > 0) {
+    cleanups.push(bindGlobalEvents(program.globalEvents, actionCtx));
+  }
+
   // Execute onMount lifecycle hook (after hydration so refs are available)
   if (program.lifecycle?.onMount) {
     const onMountAction = actions[program.lifecycle.onMount];
     if (onMountAction) {
-      void executeAction(onMountAction, actionCtx);
+      void dispatchAction(onMountAction, actionCtx);
     }
   }
 
@@ -364,7 +398,7 @@ export function hydrateApp(options: HydrateOptions): AppInstance {
       if (program.lifecycle?.onUnmount) {
         const onUnmountAction = actions[program.lifecycle.onUnmount];
         if (onUnmountAction) {
-          void executeAction(onUnmountAction, actionCtx);
+          void dispatchAction(onUnmountAction, actionCtx);
         }
       }
 
@@ -409,6 +443,11 @@ function hydrate(node: CompiledNode, domNode: Node, ctx: HydrateContext): void {
     case 'if':
       hydrateIf(node, domNode, ctx);
       break;
+    case 'match':
+      if (domNode.parentNode) {
+        hydrateMatch(node, domNode.parentNode, domNode, null, ctx);
+      }
+      break;
     case 'each':
       hydrateEach(node, domNode, ctx);
       break;
@@ -436,20 +475,58 @@ function hydrateLocalState(
   // Create local state store with signals
   const localStore = createLocalStateStore(node.state, ctx);
 
-  // Create merged locals with local state
-  const mergedLocals = createLocalsWithLocalState(ctx.locals, localStore);
+  // Create merged locals with local state, adding context provided by the parent
+  let mergedLocals = createLocalsWithLocalState(ctx.locals, localStore);
+  if (node.provide) {
+    mergedLocals = createLocalsWithContext(mergedLocals, node.provide, {
+      state: ctx.state,
+      locals: ctx.locals,
+      ...(ctx.refs && { refs: ctx.refs }),
+      ...(ctx.route && { route: ctx.route }),
+      ...(ctx.imports && { imports: ctx.imports }),
+    });
+  }
+
+  // Create proxied state that checks local state first, with the instance's memoized computed values
+  const localState = createStateWithLocalState(ctx.state, localStore);
+  const mergedState = node.computed
+    ? createComputedStateStore(localState, node.computed, {
+        locals: mergedLocals,
+        ...(ctx.refs && { refs: ctx.refs }),
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.imports && { imports: ctx.imports }),
+      })
+    : localState;
+
+  // Emitted events run the parent's handlers in the parent's scope
+  const emit = createEmitter(node.on, {
+    state: ctx.state,
+    actions: ctx.actions,
+    locals: ctx.locals,
+    ...(ctx.refs && { refs: ctx.refs }),
+    ...(ctx.route && { route: ctx.route }),
+    ...(ctx.imports && { imports: ctx.imports }),
+    ...(ctx.connections && { connections: ctx.connections }),
+    ...(ctx.binding && { binding: ctx.binding }),
+    ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+  });
+
+  // Refs registered inside the component resolve to this instance first
+  const instanceRefs = createInstanceRefs(ctx.refs);
 
-  // Create proxied state that checks local state first
-  const mergedState = createStateWithLocalState(ctx.state, localStore);
+  // Subscriptions and timers started by local actions are disposed with the instance
+  const disposables: (() => void)[] = [];
 
   // Create merged actions with local actions marked
   const mergedActions: Record<string, ExtendedAction> = { ...ctx.actions };
   for (const [name, action] of Object.entries(node.actions)) {
-    // Mark as local action and attach the store
+    // Mark as local action and attach the store, emitter and disposables
     mergedActions[name] = {
       ...action,
       _isLocalAction: true,
       _localStore: localStore,
+      _emit: emit,
+      _disposables: disposables,
     };
   }
 
@@ -459,6 +536,7 @@ function hydrateLocalState(
     state: mergedState,
     locals: mergedLocals,
     actions: mergedActions,
+    refs: instanceRefs,
     localState: {
       store: localStore,
       actions: node.actions,
@@ -467,6 +545,38 @@ function hydrateLocalState(
 
   // Hydrate child
   hydrate(node.child, domNode, childCtx);
+
+  // Start component watches (disposed with the component's cleanups)
+  if (node.watch && node.watch.length > 0) {
+    ctx.cleanups.push(
+      startWatches(node.watch, {
+        state: mergedState,
+        actions: mergedActions,
+        locals: mergedLocals,
+        refs: instanceRefs,
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+      })
+    );
+  }
+
+  // Run the component's lifecycle hooks; unmounting disposes its resources
+  ctx.cleanups.push(
+    startComponentLifecycle(node.lifecycle, disposables, {
+      state: mergedState,
+      actions: mergedActions,
+      locals: mergedLocals,
+      refs: instanceRefs,
+      ...(ctx.route && { route: ctx.route }),
+      ...(ctx.imports && { imports: ctx.imports }),
+      ...(ctx.connections && { connections: ctx.connections }),
+      ...(ctx.binding && { binding: ctx.binding }),
+      ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+    })
+  );
 }
 
 /**
@@ -489,7 +599,7 @@ function hydrateElement(
         // Bind event handler
         const handler = propValue;
         const eventName = handler.event;
-        el.addEventListener(eventName, async (event) => {
+        const listener = withEventModifiers(async (event) => {
           const action = ctx.actions[handler.action];
           if (action) {
             // Create event-specific locals
@@ -497,12 +607,9 @@ function hydrateElement(
             const target = event.target;
 
             // Extract value for input-like elements
-            if (
-              target instanceof HTMLInputElement ||
-              target instanceof HTMLTextAreaElement ||
-              target instanceof HTMLSelectElement
-            ) {
+            if (isFormControl(target)) {
               eventLocals['value'] = target.value;
+              Object.assign(eventLocals, getControlLocals(target));
 
               // Also provide checked for checkbox inputs
               if (target instanceof HTMLInputElement && target.type === 'checkbox') {
@@ -529,10 +636,19 @@ function hydrateElement(
               ...(ctx.refs && { refs: ctx.refs }),
               ...(ctx.route && { route: ctx.route }),
               ...(ctx.imports && { imports: ctx.imports }),
+              ...(ctx.connections && { connections: ctx.connections }),
+              ...(ctx.binding && { binding: ctx.binding }),
+              ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
             };
-            await executeAction(action, actionCtx);
+            await dispatchAction(action, actionCtx);
           }
-        });
+        }, handler);
+        const listenerOptions = getEventListenerOptions(handler);
+        if (listenerOptions) {
+          el.addEventListener(eventName, listener, listenerOptions);
+        } else {
+          el.addEventListener(eventName, listener);
+        }
       } else {
         // Apply prop with effect for reactivity (update existing attribute)
         const cleanup = createEffect(() => {
@@ -550,9 +666,20 @@ function hydrateElement(
     }
   }
 
-  // Hydrate children
+  // Hydrate children (provided context is visible to the children only)
   if (node.children) {
-    hydrateChildren(node.children, el, ctx);
+    if (node.provide) {
+      const locals = createLocalsWithContext(ctx.locals, node.provide, {
+        state: ctx.state,
+        locals: ctx.locals,
+        ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.styles && { styles: ctx.styles }),
+      });
+      hydrateChildren(node.children, el, { ...ctx, locals });
+    } else {
+      hydrateChildren(node.children, el, ctx);
+    }
   }
 }
 
@@ -586,6 +713,34 @@ function collectIfMarkers(parent: Node): IfMarkerInfo[] {
   return markers;
 }
 
+/**
+ * Information about an SSR match branch marker
+ */
+interface MatchMarkerInfo {
+  branch: string;
+  marker: Comment;
+}
+
+/**
+ * Collects all SSR match branch markers from a parent node in document order.
+ * Marker text is `match:case:<encoded key>`, `match:default` or `match:none`.
+ */
+function collectMatchMarkers(parent: Node): MatchMarkerInfo[] {
+  const markers: MatchMarkerInfo[] = [];
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const child = parent.childNodes[i]!;
+    if (child.nodeType === Node.COMMENT_NODE) {
+      const text = (child as Comment).textContent ?? '';
+      if (text.startsWith('match:case:')) {
+        markers.push({ branch: 'case:' + decodeURIComponent(text.slice('match:case:'.length)), marker: child as Comment });
+      } else if (text === 'match:default' || text === 'match:none') {
+        markers.push({ branch: text.slice('match:'.length), marker: child as Comment });
+      }
+    }
+  }
+  return markers;
+}
+
 /**
  * Hydrates children nodes, handling text node merging from SSR
  */
@@ -610,6 +765,10 @@ function hydrateChildren(
   const ifMarkers = collectIfMarkers(parent);
   let ifMarkerIndex = 0;
 
+  // Collect all match markers upfront to consume sequentially
+  const matchMarkers = collectMatchMarkers(parent);
+  let matchMarkerIndex = 0;
+
   let domIndex = 0;
 
   for (let i = 0; i < children.length; i++) {
@@ -693,6 +852,27 @@ function hydrateChildren(
           hydrateIfWithoutDom(ifNode, parent, domChildren[domIndex] || null, ctx);
         }
       }
+    } else if (childNode.kind === 'match') {
+      const matchNode = childNode as CompiledMatchNode;
+
+      // Get SSR marker by consuming from collected markers in order
+      const ssrInfo = matchMarkerIndex < matchMarkers.length ? matchMarkers[matchMarkerIndex] : null;
+      matchMarkerIndex++;
+
+      if (ssrInfo?.marker) {
+        ssrInfo.marker.remove();
+      }
+
+      // Without a marker, assume SSR rendered the branch the client selects
+      const ssrBranch = ssrInfo?.branch ?? resolveMatchBranch(matchNode, ctx).branch;
+      const domChild = ssrBranch !== 'none' ? domChildren[domIndex] : undefined;
+
+      if (domChild) {
+        hydrateMatch(matchNode, parent, domChild, null, ctx, ssrBranch);
+        domIndex++;
+      } else {
+        hydrateMatch(matchNode, parent, null, domChildren[domIndex] || null, ctx, ssrBranch);
+      }
     } else if (childNode.kind === 'each') {
       // For each nodes, count how many items are rendered
       const items = evaluate((childNode as CompiledEachNode).items, {
@@ -767,8 +947,10 @@ function applyProp(el: HTMLElement, propName: string, value: unknown): void {
       el.removeAttribute('disabled');
       (el as HTMLButtonElement | HTMLInputElement).disabled = false;
     }
-  } else if (propName === 'value' && el instanceof HTMLInputElement) {
-    el.value = String(value ?? '');
+  } else if (propName === 'value' && isFormControl(el)) {
+    setControlValue(el, value);
+  } else if (propName === 'checked' && el instanceof HTMLInputElement) {
+    el.checked = Boolean(value);
   } else if (propName.startsWith('data-')) {
     el.setAttribute(propName, String(value ?? ''));
   } else {
@@ -923,6 +1105,9 @@ function hydrateIf(
         locals: ctx.locals,
         cleanups: localCleanups,
         ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
         ...(ctx.styles && { styles: ctx.styles }),
       };
 
@@ -955,6 +1140,141 @@ function hydrateIf(
   });
 }
 
+/**
+ * Resolves which branch of a match node applies for the current state
+ */
+function resolveMatchBranch(
+  node: CompiledMatchNode,
+  ctx: HydrateContext
+): { branch: string; branchNode: CompiledNode | undefined } {
+  const value = evaluate(node.value, {
+    state: ctx.state,
+    locals: ctx.locals,
+    ...(ctx.imports && { imports: ctx.imports }),
+    ...(ctx.route && { route: ctx.route }),
+    ...(ctx.styles && { styles: ctx.styles }),
+  });
+  const caseKey = findMatchCase(value, node.cases);
+  if (caseKey !== undefined) {
+    return { branch: `case:${caseKey}`, branchNode: node.cases[caseKey] };
+  }
+  return { branch: node.default ? 'default' : 'none', branchNode: node.default };
+}
+
+/**
+ * Hydrates a match node with multi-branch rendering
+ *
+ * @param node - The compiled match node
+ * @param parent - The parent node containing the match content
+ * @param initialDomNode - The SSR-rendered branch content, or null when SSR rendered nothing
+ * @param nextSibling - Insertion position when there is no initial DOM node
+ * @param ctx - The hydration context
+ * @param ssrBranch - The branch rendered by SSR (defaults to the client branch)
+ */
+function hydrateMatch(
+  node: CompiledMatchNode,
+  parent: Node,
+  initialDomNode: Node | null,
+  nextSibling: Node | null,
+  ctx: HydrateContext,
+  ssrBranch?: string
+): void {
+  // Create an anchor comment for the match node
+  const anchor = document.createComment('match');
+  parent.insertBefore(anchor, initialDomNode ?? nextSibling);
+
+  const initial = resolveMatchBranch(node, ctx);
+  let currentBranch = ssrBranch ?? initial.branch;
+  let currentNode: Node | null = initialDomNode;
+  let branchCleanups: (() => void)[] = [];
+  let pendingExitCancel: (() => void) | null = null;
+
+  // Hydrate the SSR branch when it matches the client; a mismatch is
+  // replaced by the first effect run since the branches differ
+  if (currentBranch === initial.branch && initialDomNode && initial.branchNode) {
+    const localCleanups: (() => void)[] = [];
+    hydrate(initial.branchNode, initialDomNode, { ...ctx, cleanups: localCleanups });
+    branchCleanups = localCleanups;
+  }
+
+  const effectCleanup = createEffect(() => {
+    const { branch, branchNode } = resolveMatchBranch(node, ctx);
+    if (branch === currentBranch) return;
+
+    // Cancel any pending exit transition from a previous branch change
+    if (pendingExitCancel) {
+      pendingExitCancel();
+      pendingExitCancel = null;
+    }
+
+    // Cleanup previous branch effects
+    for (const cleanup of branchCleanups) {
+      cleanup();
+    }
+    branchCleanups = [];
+
+    // Remove current node (with or without exit transition)
+    const oldNode = currentNode;
+    if (oldNode && oldNode.parentNode) {
+      if (node.transition && oldNode instanceof HTMLElement) {
+        const { promise, cancel } = applyExitTransition(oldNode, node.transition);
+        pendingExitCancel = cancel;
+        promise.then(() => {
+          pendingExitCancel = null;
+          if (oldNode.parentNode) {
+            oldNode.parentNode.removeChild(oldNode);
+          }
+        });
+      } else {
+        oldNode.parentNode.removeChild(oldNode);
+      }
+    }
+
+    // Render new branch (create fresh DOM)
+    if (branchNode) {
+      const localCleanups: (() => void)[] = [];
+      const branchCtx: RenderContext = {
+        state: ctx.state,
+        actions: ctx.actions,
+        locals: ctx.locals,
+        cleanups: localCleanups,
+        ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+        ...(ctx.refs && { refs: ctx.refs }),
+        ...(ctx.localState && { localState: ctx.localState }),
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.styles && { styles: ctx.styles }),
+      };
+      currentNode = render(branchNode, branchCtx);
+      branchCleanups = localCleanups;
+    } else {
+      currentNode = null;
+    }
+
+    // Insert after anchor
+    if (currentNode && anchor.parentNode) {
+      anchor.parentNode.insertBefore(currentNode, anchor.nextSibling);
+    }
+
+    // Apply enter transition to new node
+    if (currentNode && node.transition && currentNode instanceof HTMLElement) {
+      applyEnterTransition(currentNode, node.transition);
+    }
+
+    currentBranch = branch;
+  });
+  ctx.cleanups.push(effectCleanup);
+
+  // Cleanup branch effects when the match node is destroyed
+  ctx.cleanups.push(() => {
+    for (const cleanup of branchCleanups) {
+      cleanup();
+    }
+  });
+}
+
 /**
  * Hydrates an if node when there is no initial DOM (condition was initially false)
  * Creates an anchor and effect to render when condition becomes true
@@ -1034,6 +1354,9 @@ function hydrateIfWithoutDom(
         locals: ctx.locals,
         cleanups: localCleanups,
         ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
         ...(ctx.route && { route: ctx.route }),
         ...(ctx.styles && { styles: ctx.styles }),
       };
@@ -1138,6 +1461,9 @@ function hydrateEachEmpty(
             locals: itemLocals,
             cleanups: localCleanups,
             ...(ctx.imports && { imports: ctx.imports }),
+            ...(ctx.connections && { connections: ctx.connections }),
+            ...(ctx.binding && { binding: ctx.binding }),
+            ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
             ...(ctx.styles && { styles: ctx.styles }),
           };
 
@@ -1219,6 +1545,9 @@ function hydrateEachEmpty(
             locals: reactiveLocals,
             cleanups: localCleanups,
             ...(ctx.imports && { imports: ctx.imports }),
+            ...(ctx.connections && { connections: ctx.connections }),
+            ...(ctx.binding && { binding: ctx.binding }),
+            ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
             ...(ctx.styles && { styles: ctx.styles }),
           };
 
@@ -1479,6 +1808,9 @@ function hydrateEach(
             locals: itemLocals,
             cleanups: localCleanups,
             ...(ctx.imports && { imports: ctx.imports }),
+            ...(ctx.connections && { connections: ctx.connections }),
+            ...(ctx.binding && { binding: ctx.binding }),
+            ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
             ...(ctx.styles && { styles: ctx.styles }),
           };
 
@@ -1561,6 +1893,9 @@ function hydrateEach(
             locals: reactiveLocals,
             cleanups: localCleanups,
             ...(ctx.imports && { imports: ctx.imports }),
+            ...(ctx.connections && { connections: ctx.connections }),
+            ...(ctx.binding && { binding: ctx.binding }),
+            ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
             ...(ctx.styles && { styles: ctx.styles }),
           };
 
@@ -1663,6 +1998,79 @@ function initCopyButtons(container: HTMLElement): void {
 
 // ==================== Island Hydration ====================
 
+/**
+ * Hydrates the SSR-rendered content of an island.
+ *
+ * The island gets its own state store, seeded with its serialized state and
+ * layered with the program's resources, so resources read in the island
+ * share the page cache and reuse the SSR data instead of refetching.
+ *
+ * @param island - The compiled island node
+ * @param element - The island element wrapping the SSR content
+ * @param options - Serialized island state and the program declaring resources
+ * @returns Cleanup function stopping the island's effects
+ */
+export function hydrateIslandContent(
+  island: CompiledIslandNode,
+  element: HTMLElement,
+  options: { state?: Record<string, unknown>; program?: CompiledProgram } = {}
+): () => void {
+  const { program } = options;
+  const serialized = options.state ?? {};
+
+  // Seed the island state with the values serialized during SSR
+  const definitions: CompiledProgram['state'] = {};
+  for (const [name, definition] of Object.entries(island.state ?? {})) {
+    definitions[name] = name in serialized ? { ...definition, initial: serialized[name] } : definition;
+  }
+
+  const islandProgram: CompiledProgram = {
+    version: program?.version ?? '1.0',
+    state: definitions,
+    actions: island.actions ?? {},
+    view: island.content,
+    ...(program?.resources && { resources: program.resources }),
+    ...(program?.resourceData && { resourceData: program.resourceData }),
+    ...(program?.importData && { importData: program.importData }),
+    ...(program?.styles && { styles: program.styles }),
+  };
+
+  const state = createAppStateStore(islandProgram);
+  const connections = createConnectionManager();
+  const binding = createBindingManager();
+  const fetchControl = createFetchControl();
+  const cleanups: (() => void)[] = [
+    () => state.dispose(),
+    () => connections.closeAll(),
+    () => binding.dispose(),
+    () => fetchControl.abortAll(),
+  ];
+
+  const ctx: HydrateContext = {
+    state,
+    actions: islandProgram.actions,
+    locals: {},
+    cleanups,
+    refs: {},
+    connections,
+    binding,
+    fetchControl,
+    ...(islandProgram.importData && { imports: islandProgram.importData }),
+    ...(islandProgram.styles && { styles: islandProgram.styles }),
+  };
+
+  const firstChild = element.firstElementChild;
+  if (firstChild) {
+    hydrate(island.content, firstChild, ctx);
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
+
 /**
  * Hydrates all islands in the application with their respective strategies.
  * Returns a cleanup function that cleans up all island resources.
@@ -14,8 +14,15 @@ export { createComputed } from './reactive/computed.js';
 export type { Computed } from './reactive/computed.js';
 
 // State management
-export { createStateStore } from './state/store.js';
+export { createStateStore, extendStateStore } from './state/store.js';
 export type { StateStore, TypedStateStore } from './state/store.js';
+export { createComputedStateStore } from './state/computed.js';
+export { createResourceStateStore } from './state/resources.js';
+export { createFormStateStore } from './state/forms.js';
+export { createI18nStateStore } from './state/i18n.js';
+export { createAppStateStore } from './state/app-state.js';
+export type { AppStateStore, AppStateOptions } from './state/app-state.js';
+export { bindQuerySync } from './state/query-sync.js';
 export { createTypedStateStore } from './state/typed.js';
 
 // Expression evaluation
@@ -23,7 +30,7 @@ export { evaluate, evaluateStyle } from './expression/evaluator.js';
 export type { EvaluationContext, StylePreset } from './expression/evaluator.js';
 
 // Action execution
-export { executeAction } from './action/executor.js';
+export { executeAction, dispatchAction } from './action/executor.js';
 export type { ActionContext } from './action/executor.js';
 
 // Rendering
@@ -48,7 +55,7 @@ export type { IslandLoaderOptions, IslandLoader, LoadedIslandModule } from './is
 
 // WebSocket connections
 export { createWebSocketConnection, createConnectionManager } from './connection/websocket.js';
-export type { WebSocketConnection, WebSocketHandlers, ConnectionManager } from './connection/websocket.js';
+export type { WebSocketConnection, WebSocketHandlers, ConnectionManager, WebSocketConnectOptions, RPCError } from './connection/websocket.js';
 
 // SSE connections
 export { createSSEConnection, createSSEConnectionManager } from './connection/sse.js';
@@ -0,0 +1,109 @@
+/**
+ * Test module for Renderer with component computed values.
+ *
+ * Coverage:
+ * - Component computed values are memoized per instance across use sites
+ * - Component computed values read local state and program computed values
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import { createComputedStateStore } from '../../state/computed.js';
+import type { CompiledLocalStateNode, CompiledNode } from '@constela/compiler';
+
+describe('Renderer with component computed values', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createRenderContext(overrides?: Partial<RenderContext>): RenderContext {
+    return {
+      state: createStateStore({ items: { type: 'list', initial: ['a', 'b'] } }),
+      actions: {},
+      locals: {},
+      cleanups: [],
+      refs: {},
+      ...overrides,
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should evaluate a computed value once per change for all use sites', () => {
+    // Arrange
+    const ctx = createRenderContext();
+    const getter = vi.fn();
+    const readState = ctx.state.get.bind(ctx.state);
+    ctx.state.get = (name: string) => {
+      if (name === 'items') getter();
+      return readState(name);
+    };
+    const count: CompiledNode = { kind: 'text', value: { expr: 'computed', name: 'List:count' } };
+    const node: CompiledLocalStateNode = {
+      kind: 'localState',
+      state: {},
+      actions: {},
+      computed: {
+        'List:count': { expr: 'get', base: { expr: 'state', name: 'items' }, path: 'length' },
+      },
+      child: { kind: 'element', tag: 'p', children: [count, count, count] },
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+    ctx.state.set('items', ['a']);
+
+    // Assert
+    expect(container.textContent).toBe('111');
+    expect(getter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read local state and program computed values per instance', () => {
+    // Arrange
+    const state = createComputedStateStore(createStateStore({ suffix: { type: 'string', initial: '!' } }), {
+      suffix: { expr: 'state', name: 'suffix' },
+    });
+    const ctx = createRenderContext({ state });
+    const createLabel = (label: string): CompiledLocalStateNode => ({
+      kind: 'localState',
+      state: { label: { type: 'string', initial: label } },
+      actions: {},
+      computed: {
+        'Label:text': {
+          expr: 'concat',
+          items: [{ expr: 'local', name: 'label' }, { expr: 'computed', name: 'suffix' }],
+        },
+      },
+      child: {
+        kind: 'element',
+        tag: 'span',
+        children: [{ kind: 'text', value: { expr: 'computed', name: 'Label:text' } }],
+      },
+    });
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'div',
+      children: [createLabel('one'), createLabel('two')],
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+    state.set('suffix', '?');
+
+    // Assert
+    const spans = Array.from(container.querySelectorAll('span')).map((span) => span.textContent);
+    expect(spans).toEqual(['one?', 'two?']);
+  });
+});
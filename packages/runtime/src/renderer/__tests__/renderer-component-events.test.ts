@@ -0,0 +1,154 @@
+/**
+ * Test module for Renderer with component events.
+ *
+ * Coverage:
+ * - emit steps run the parent's handler with the emitted value as payload
+ * - Handler payloads are evaluated in the parent's scope with `detail`
+ * - Handlers can run the parent component's local actions
+ * - Events without a handler are ignored
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledEventHandler, CompiledLocalStateNode } from '@constela/compiler';
+
+describe('Renderer with component events', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createRenderContext(overrides?: Partial<RenderContext>): RenderContext {
+    return {
+      state: createStateStore({ selected: { type: 'string', initial: '' } }),
+      actions: {
+        select: {
+          name: 'select',
+          steps: [{ do: 'set', target: 'selected', value: { expr: 'var', name: 'payload' } }],
+        },
+      },
+      locals: {},
+      cleanups: [],
+      refs: {},
+      ...overrides,
+    };
+  }
+
+  /**
+   * Creates an Option component emitting pick with its value when clicked
+   */
+  function createOption(value: string, on?: Record<string, CompiledEventHandler>): CompiledLocalStateNode {
+    return {
+      kind: 'localState',
+      state: {},
+      actions: {
+        choose: {
+          name: 'choose',
+          steps: [{ do: 'emit', event: 'pick', payload: { expr: 'lit', value } }],
+        },
+      },
+      ...(on && { on }),
+      child: {
+        kind: 'element',
+        tag: 'button',
+        props: { onClick: { event: 'click', action: 'choose' } },
+      },
+    };
+  }
+
+  async function clickButton(): Promise<void> {
+    container.querySelector('button')?.click();
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+
+  // ==================== Tests ====================
+
+  it('should pass the emitted value as the payload of the parent action', async () => {
+    // Arrange
+    const ctx = createRenderContext();
+    container.appendChild(render(createOption('apple', { pick: { event: 'pick', action: 'select' } }), ctx));
+
+    // Act
+    await clickButton();
+
+    // Assert
+    expect(ctx.state.get('selected')).toBe('apple');
+  });
+
+  it('should evaluate the handler payload in the parent scope with detail', async () => {
+    // Arrange
+    const ctx = createRenderContext({ locals: { prefix: 'fruit:' } });
+    const handler: CompiledEventHandler = {
+      event: 'pick',
+      action: 'select',
+      payload: {
+        expr: 'bin',
+        op: '+',
+        left: { expr: 'var', name: 'prefix' },
+        right: { expr: 'var', name: 'detail' },
+      },
+    };
+    container.appendChild(render(createOption('pear', { pick: handler }), ctx));
+
+    // Act
+    await clickButton();
+
+    // Assert
+    expect(ctx.state.get('selected')).toBe('fruit:pear');
+  });
+
+  it('should run local actions of the parent component', async () => {
+    // Arrange
+    const parent: CompiledLocalStateNode = {
+      kind: 'localState',
+      state: { picked: { type: 'string', initial: 'none' } },
+      actions: {
+        remember: {
+          name: 'remember',
+          steps: [{ do: 'set', target: 'picked', value: { expr: 'var', name: 'payload' } }],
+        },
+      },
+      child: {
+        kind: 'element',
+        tag: 'div',
+        children: [
+          { kind: 'text', value: { expr: 'state', name: 'picked' } },
+          createOption('plum', { pick: { event: 'pick', action: 'remember' } }),
+        ],
+      },
+    };
+    const ctx = createRenderContext();
+    container.appendChild(render(parent, ctx));
+
+    // Act
+    await clickButton();
+
+    // Assert
+    expect(container.querySelector('div')?.textContent).toBe('plum');
+    expect(ctx.state.get('selected')).toBe('');
+  });
+
+  it('should ignore events without a handler', async () => {
+    // Arrange
+    const ctx = createRenderContext();
+    container.appendChild(render(createOption('fig'), ctx));
+
+    // Act
+    await clickButton();
+
+    // Assert
+    expect(ctx.state.get('selected')).toBe('');
+  });
+});
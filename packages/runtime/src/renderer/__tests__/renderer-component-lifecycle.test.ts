@@ -0,0 +1,145 @@
+/**
+ * Test module for Renderer with component lifecycle hooks.
+ *
+ * Coverage:
+ * - onMount runs after the instance is attached and updates local state
+ * - onUnmount runs and intervals started by local actions are cleared
+ * - Refs resolve to the component instance that registered them
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledLocalStateNode, CompiledNode } from '@constela/compiler';
+
+describe('Renderer with component lifecycle hooks', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    document.body.classList.remove('unmounted');
+    vi.useRealTimers();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createRenderContext(): RenderContext {
+    return {
+      state: createStateStore({}),
+      actions: {},
+      locals: {},
+      cleanups: [],
+      refs: {},
+    };
+  }
+
+  function createTickerNode(): CompiledLocalStateNode {
+    return {
+      kind: 'localState',
+      state: { ticks: { type: 'number', initial: 0 } },
+      actions: {
+        start: {
+          name: 'start',
+          steps: [{ do: 'interval', ms: { expr: 'lit', value: 100 }, action: 'tick' }],
+        },
+        tick: {
+          name: 'tick',
+          steps: [{ do: 'update', target: 'ticks', operation: 'increment' }],
+        },
+        stop: {
+          name: 'stop',
+          steps: [
+            {
+              do: 'dom',
+              operation: 'addClass',
+              selector: { expr: 'lit', value: 'body' },
+              value: { expr: 'lit', value: 'unmounted' },
+            },
+          ],
+        },
+      },
+      lifecycle: { onMount: 'start', onUnmount: 'stop' },
+      child: {
+        kind: 'element',
+        tag: 'span',
+        children: [{ kind: 'text', value: { expr: 'local', name: 'ticks' } }],
+      },
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should run onMount after the render pass and update local state', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const ctx = createRenderContext();
+
+    // Act
+    container.appendChild(render(createTickerNode(), ctx));
+    const before = container.textContent;
+    await vi.advanceTimersByTimeAsync(250);
+
+    // Assert
+    expect(before).toBe('0');
+    expect(container.textContent).toBe('2');
+  });
+
+  it('should run onUnmount and clear intervals when the instance is disposed', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const ctx = createRenderContext();
+    container.appendChild(render(createTickerNode(), ctx));
+    await vi.advanceTimersByTimeAsync(150);
+
+    // Act
+    for (const cleanup of ctx.cleanups ?? []) cleanup();
+    await vi.advanceTimersByTimeAsync(500);
+
+    // Assert
+    expect(container.textContent).toBe('1');
+    expect(document.body.classList.contains('unmounted')).toBe(true);
+  });
+
+  it('should resolve refs to the instance that registered them', async () => {
+    // Arrange
+    const ctx = createRenderContext();
+    const createInput = (id: string, focusOnMount: boolean): CompiledLocalStateNode => ({
+      kind: 'localState',
+      state: {},
+      actions: {
+        focusInput: {
+          name: 'focusInput',
+          steps: [{ do: 'focus', target: { expr: 'lit', value: 'input' }, operation: 'focus' }],
+        },
+      },
+      ...(focusOnMount && { lifecycle: { onMount: 'focusInput' } }),
+      child: {
+        kind: 'element',
+        tag: 'input',
+        ref: 'input',
+        props: { id: { expr: 'lit', value: id } },
+      },
+    });
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'div',
+      children: [createInput('first', true), createInput('second', false)],
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+    await Promise.resolve();
+    await Promise.resolve();
+
+    // Assert
+    expect(ctx.refs?.['input']?.id).toBe('second');
+    expect(document.activeElement?.id).toBe('first');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Test module for Renderer with provided context.
+ *
+ * Coverage:
+ * - Element provide values are readable by descendants and stay reactive
+ * - Nested providers shadow outer values of the same name only
+ * - Component provide values are evaluated in the parent's scope
+ * - Context is visible inside each loops and event handler payloads
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledNode } from '@constela/compiler';
+
+describe('Renderer with provided context', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createRenderContext(overrides?: Partial<RenderContext>): RenderContext {
+    return {
+      state: createStateStore({
+        theme: { type: 'string', initial: 'dark' },
+        picked: { type: 'string', initial: '' },
+      }),
+      actions: {
+        pick: {
+          name: 'pick',
+          steps: [{ do: 'set', target: 'picked', value: { expr: 'var', name: 'payload' } }],
+        },
+      },
+      locals: {},
+      cleanups: [],
+      refs: {},
+      ...overrides,
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should expose element provide values to descendants reactively', () => {
+    // Arrange
+    const ctx = createRenderContext();
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'div',
+      provide: { theme: { expr: 'state', name: 'theme' } },
+      children: [
+        {
+          kind: 'element',
+          tag: 'p',
+          children: [{ kind: 'text', value: { expr: 'context', name: 'theme' } }],
+        },
+      ],
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+    ctx.state.set('theme', 'light');
+
+    // Assert
+    expect(container.querySelector('p')?.textContent).toBe('light');
+  });
+
+  it('should shadow outer values of the same name only', () => {
+    // Arrange
+    const ctx = createRenderContext();
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'div',
+      provide: {
+        theme: { expr: 'lit', value: 'outer' },
+        size: { expr: 'lit', value: { name: 'large' } },
+      },
+      children: [
+        {
+          kind: 'element',
+          tag: 'p',
+          provide: { theme: { expr: 'lit', value: 'inner' } },
+          children: [
+            { kind: 'text', value: { expr: 'context', name: 'theme' } },
+            { kind: 'text', value: { expr: 'context', name: 'size', path: 'name' } },
+          ],
+        },
+      ],
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+
+    // Assert
+    expect(container.querySelector('p')?.textContent).toBe('innerlarge');
+  });
+
+  it('should evaluate component provide values in the parent scope', () => {
+    // Arrange
+    const ctx = createRenderContext({ locals: { label: 'parent' } });
+    const node: CompiledNode = {
+      kind: 'localState',
+      state: { label: { type: 'string', initial: 'child' } },
+      actions: {},
+      provide: { label: { expr: 'var', name: 'label' } },
+      child: {
+        kind: 'element',
+        tag: 'span',
+        children: [
+          { kind: 'text', value: { expr: 'context', name: 'label' } },
+          { kind: 'text', value: { expr: 'var', name: 'label' } },
+        ],
+      },
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+
+    // Assert
+    expect(container.querySelector('span')?.textContent).toBe('parentchild');
+  });
+
+  it('should expose context inside each loops and event payloads', async () => {
+    // Arrange
+    const ctx = createRenderContext();
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'ul',
+      provide: { theme: { expr: 'state', name: 'theme' } },
+      children: [
+        {
+          kind: 'each',
+          items: { expr: 'lit', value: ['a'] },
+          as: 'item',
+          body: {
+            kind: 'element',
+            tag: 'button',
+            props: {
+              onClick: { event: 'click', action: 'pick', payload: { expr: 'context', name: 'theme' } },
+            },
+          },
+        },
+      ],
+    };
+
+    // Act
+    container.appendChild(render(node, ctx));
+    container.querySelector('button')?.click();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    // Assert
+    expect(ctx.state.get('picked')).toBe('dark');
+  });
+});
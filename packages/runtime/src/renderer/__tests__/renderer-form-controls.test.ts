@@ -0,0 +1,171 @@
+/**
+ * Test module for form control props and event locals used by model bindings.
+ *
+ * Coverage:
+ * - value and checked are set as properties, also after user edits
+ * - Number inputs provide valueAsNumber
+ * - Select values are applied after the options are rendered
+ * - Multi-selects take arrays and provide selectedValues
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledNode, CompiledExpression } from '@constela/compiler';
+
+describe('Renderer Form Controls', () => {
+  // ==================== Setup ====================
+
+  let ctx: RenderContext;
+
+  beforeEach(() => {
+    ctx = createStateContext();
+  });
+
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a context whose 'store' action sets the 'field' state to the payload
+   */
+  function createStateContext(initial: unknown = ''): RenderContext {
+    return {
+      state: createStateStore({ field: { type: 'string', initial } }),
+      actions: {
+        store: {
+          name: 'store',
+          steps: [{ do: 'set', target: 'field', value: { expr: 'var', name: 'payload' } }],
+        },
+      },
+      locals: {},
+      cleanups: [],
+    };
+  }
+
+  function createControl(
+    tag: string,
+    props: Record<string, CompiledExpression>,
+    event: string,
+    payload: string,
+    children?: CompiledNode[]
+  ): CompiledNode {
+    return {
+      kind: 'element',
+      tag,
+      props: {
+        ...props,
+        $model: { event, action: 'store', payload: { expr: 'var', name: payload } },
+      },
+      ...(children && { children }),
+    };
+  }
+
+  function createOption(value: string): CompiledNode {
+    return { kind: 'element', tag: 'option', props: { value: { expr: 'lit', value } } };
+  }
+
+  async function flush(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  // ==================== Inputs ====================
+
+  it('should keep input value in sync after user edits', async () => {
+    // Arrange
+    const input = render(
+      createControl('input', { value: { expr: 'state', name: 'field' } }, 'input', 'value'),
+      ctx
+    ) as HTMLInputElement;
+
+    // Act
+    input.value = 'typed';
+    input.dispatchEvent(new Event('input'));
+    await flush();
+    ctx.state.set('field', 'reset');
+
+    // Assert
+    expect(input.value).toBe('reset');
+  });
+
+  it('should set checked as a property', () => {
+    // Arrange
+    ctx = createStateContext(true);
+    const checkbox = render(
+      createControl(
+        'input',
+        { type: { expr: 'lit', value: 'checkbox' }, checked: { expr: 'state', name: 'field' } },
+        'change',
+        'checked'
+      ),
+      ctx
+    ) as HTMLInputElement;
+    expect(checkbox.checked).toBe(true);
+
+    // Act
+    ctx.state.set('field', false);
+
+    // Assert
+    expect(checkbox.checked).toBe(false);
+  });
+
+  it('should provide valueAsNumber for number inputs', async () => {
+    // Arrange
+    const input = render(
+      createControl('input', { type: { expr: 'lit', value: 'number' } }, 'input', 'valueAsNumber'),
+      ctx
+    ) as HTMLInputElement;
+
+    // Act
+    input.value = '42';
+    input.dispatchEvent(new Event('input'));
+    await flush();
+
+    // Assert
+    expect(ctx.state.get('field')).toBe(42);
+  });
+
+  // ==================== Selects ====================
+
+  it('should apply select value after rendering options', () => {
+    // Arrange
+    ctx = createStateContext('b');
+
+    // Act
+    const select = render(
+      createControl('select', { value: { expr: 'state', name: 'field' } }, 'change', 'value', [
+        createOption('a'),
+        createOption('b'),
+      ]),
+      ctx
+    ) as HTMLSelectElement;
+
+    // Assert
+    expect(select.value).toBe('b');
+  });
+
+  it('should select array values and provide selectedValues for multi-selects', async () => {
+    // Arrange
+    ctx = createStateContext(['a', 'c']);
+    const select = render(
+      createControl(
+        'select',
+        { multiple: { expr: 'lit', value: true }, value: { expr: 'state', name: 'field' } },
+        'change',
+        'selectedValues',
+        [createOption('a'), createOption('b'), createOption('c')]
+      ),
+      ctx
+    ) as HTMLSelectElement;
+    expect(Array.from(select.selectedOptions).map((o) => o.value)).toEqual(['a', 'c']);
+
+    // Act
+    select.options[0]!.selected = false;
+    select.options[1]!.selected = true;
+    select.dispatchEvent(new Event('change'));
+    await flush();
+
+    // Assert
+    expect(ctx.state.get('field')).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Test module for Event Handler Modifiers and Key Filters.
+ *
+ * Coverage:
+ * - prevent and stop call preventDefault/stopPropagation
+ * - self ignores events dispatched on descendants
+ * - once runs the action a single time
+ * - capture runs the handler before descendant handlers
+ * - keys filter keyboard events, including combos and aliases
+ * - Filtered-out events are not prevented
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, type RenderContext } from '../index.js';
+import { createStateStore } from '../../state/store.js';
+import type { CompiledNode, CompiledEventHandler } from '@constela/compiler';
+
+describe('Renderer Event Modifiers', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+  let ctx: RenderContext;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    ctx = createRenderContext();
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper Functions ====================
+
+  /**
+   * Creates a context whose 'log' action appends the payload to the 'log' state
+   */
+  function createRenderContext(): RenderContext {
+    return {
+      state: createStateStore({ log: { type: 'list', initial: [] } }),
+      actions: {
+        log: {
+          name: 'log',
+          steps: [{ do: 'update', target: 'log', operation: 'push', value: { expr: 'var', name: 'payload' } }],
+        },
+      },
+      locals: {},
+      cleanups: [],
+    };
+  }
+
+  function createHandler(overrides: Partial<CompiledEventHandler>, label = 'outer'): CompiledEventHandler {
+    return { event: 'click', action: 'log', payload: { expr: 'lit', value: label }, ...overrides };
+  }
+
+  /**
+   * Renders a div with the given handler around a span
+   */
+  function renderElement(handler: CompiledEventHandler, childHandler?: CompiledEventHandler): HTMLElement {
+    const node: CompiledNode = {
+      kind: 'element',
+      tag: 'div',
+      props: { onEvent: handler },
+      children: [
+        {
+          kind: 'element',
+          tag: 'span',
+          ...(childHandler && { props: { onEvent: childHandler } }),
+        },
+      ],
+    };
+    const el = render(node, ctx) as HTMLElement;
+    container.appendChild(el);
+    return el;
+  }
+
+  function keydown(target: Element, init: KeyboardEventInit): KeyboardEvent {
+    const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+    target.dispatchEvent(event);
+    return event;
+  }
+
+  async function flush(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  // ==================== Modifiers ====================
+
+  describe('modifiers', () => {
+    it('should call preventDefault and stopPropagation', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ modifiers: ['prevent', 'stop'] }));
+      let bubbled = false;
+      container.addEventListener('click', () => {
+        bubbled = true;
+      });
+      const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+
+      // Act
+      el.dispatchEvent(event);
+      await flush();
+
+      // Assert
+      expect(event.defaultPrevented).toBe(true);
+      expect(bubbled).toBe(false);
+      expect(ctx.state.get('log')).toEqual(['outer']);
+    });
+
+    it('should ignore events from descendants with self', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ modifiers: ['self'] }));
+
+      // Act
+      el.querySelector('span')!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      await flush();
+
+      // Assert
+      expect(ctx.state.get('log')).toEqual(['outer']);
+    });
+
+    it('should run the action only once with once', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ modifiers: ['once'] }));
+
+      // Act
+      el.click();
+      el.click();
+      await flush();
+
+      // Assert
+      expect(ctx.state.get('log')).toEqual(['outer']);
+    });
+
+    it('should run before descendant handlers with capture', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ modifiers: ['capture'] }), createHandler({}, 'inner'));
+
+      // Act
+      (el.querySelector('span') as HTMLElement).click();
+      await flush();
+
+      // Assert
+      expect(ctx.state.get('log')).toEqual(['outer', 'inner']);
+    });
+  });
+
+  // ==================== Key Filters ====================
+
+  describe('keys', () => {
+    it('should only run for matching keys and aliases', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ event: 'keydown', keys: ['Enter', 'esc'] }));
+
+      // Act
+      keydown(el, { key: 'a' });
+      keydown(el, { key: 'Enter' });
+      keydown(el, { key: 'Escape' });
+      await flush();
+
+      // Assert
+      expect(ctx.state.get('log')).toEqual(['outer', 'outer']);
+    });
+
+    it('should require exactly the modifier keys of a combo', async () => {
+      // Arrange
+      const el = renderElement(createHandler({ event: 'keydown', keys: ['ctrl+k'] }));
+
+      // Act
+      keydown(el, { key: 'k' });
+      keydown(el, { key: 'k', ctrlKey: true, shiftKey: true });
+      keydown(el, { key: 'K', ctrlKey: true });
+      await flush();
+
+      // Assert
+      expect(ctx.state.get('log')).toEqual(['outer']);
+    });
+
+    it('should not prevent filtered-out keys', () => {
+      // Arrange
+      const el = renderElement(createHandler({ event: 'keydown', keys: ['Enter'], modifiers: ['prevent'] }));
+
+      // Act
+      const other = keydown(el, { key: 'a' });
+      const enter = keydown(el, { key: 'Enter' });
+
+      // Assert
+      expect(other.defaultPrevented).toBe(false);
+      expect(enter.defaultPrevented).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Event Locals - Event data exposed to the actions of event handlers
+ *
+ * - KeyboardEvent: key, code and the ctrlKey/shiftKey/altKey/metaKey flags
+ * - MouseEvent: clientX/clientY, pageX/pageY and button
+ * - TouchEvent: touches and changedTouches as { clientX, clientY, pageX, pageY }
+ */
+
+/**
+ * Reads the keyboard, mouse and touch data of an event
+ *
+ * @param event - The dispatched event
+ * @returns Locals for the event's action (empty for other events)
+ */
+export function getEventLocals(event: Event): Record<string, unknown> {
+  const eventLocals: Record<string, unknown> = {};
+
+  // KeyboardEvent data
+  if (event instanceof KeyboardEvent) {
+    eventLocals['key'] = event.key;
+    eventLocals['code'] = event.code;
+    eventLocals['ctrlKey'] = event.ctrlKey;
+    eventLocals['shiftKey'] = event.shiftKey;
+    eventLocals['altKey'] = event.altKey;
+    eventLocals['metaKey'] = event.metaKey;
+  }
+
+  // MouseEvent data
+  if (event instanceof MouseEvent) {
+    eventLocals['clientX'] = event.clientX;
+    eventLocals['clientY'] = event.clientY;
+    eventLocals['pageX'] = event.pageX;
+    eventLocals['pageY'] = event.pageY;
+    eventLocals['button'] = event.button;
+  }
+
+  // TouchEvent data - check for touches property for jsdom compatibility
+  const touchEvent = event as { touches?: TouchList; changedTouches?: TouchList };
+  if (touchEvent.touches && touchEvent.changedTouches) {
+    eventLocals['touches'] = Array.from(touchEvent.touches).map(t => ({
+      clientX: t.clientX,
+      clientY: t.clientY,
+      pageX: t.pageX,
+      pageY: t.pageY,
+    }));
+    eventLocals['changedTouches'] = Array.from(touchEvent.changedTouches).map(t => ({
+      clientX: t.clientX,
+      clientY: t.clientY,
+      pageX: t.pageX,
+      pageY: t.pageY,
+    }));
+  }
+
+  return eventLocals;
+}
@@ -0,0 +1,124 @@
+/**
+ * Event Modifiers - Key filters and modifiers for event handlers
+ *
+ * - keys: the handler only runs for matching keys. Combos like 'ctrl+k'
+ *   require exactly the listed modifier keys (ctrl, shift, alt, meta) to be held
+ * - prevent / stop: call preventDefault() / stopPropagation() before the action
+ * - self: the handler only runs when the event was dispatched on the element itself
+ * - once: the handler runs at most once
+ * - capture / passive: passed to addEventListener
+ *
+ * Filtered-out events are left untouched, so e.g. `keys: ['Enter']` with
+ * `prevent` only prevents the default of the Enter key.
+ */
+
+import type { CompiledEventHandler } from '@constela/compiler';
+
+const MODIFIER_KEYS = ['ctrl', 'shift', 'alt', 'meta'] as const;
+type ModifierKey = (typeof MODIFIER_KEYS)[number];
+
+/**
+ * Alternative names accepted in key filters, mapped to KeyboardEvent.key (lowercased)
+ */
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  space: ' ',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  del: 'delete',
+  control: 'ctrl',
+  cmd: 'meta',
+  option: 'alt',
+};
+
+interface KeyCombo {
+  key: string;
+  modifiers: Set<ModifierKey>;
+}
+
+function normalizeKey(name: string): string {
+  const lower = name.toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Parses a key filter like 'Enter' or 'ctrl+shift+k'
+ */
+function parseKeyCombo(combo: string): KeyCombo {
+  const parts = combo.split('+').map(normalizeKey);
+  const key = parts.pop() ?? '';
+  const modifiers = new Set<ModifierKey>();
+  for (const part of parts) {
+    if ((MODIFIER_KEYS as readonly string[]).includes(part)) {
+      modifiers.add(part as ModifierKey);
+    }
+  }
+  return { key, modifiers };
+}
+
+function matchesKeyCombo(event: KeyboardEvent, combo: KeyCombo): boolean {
+  if (event.key.toLowerCase() !== combo.key) return false;
+  return (
+    event.ctrlKey === combo.modifiers.has('ctrl') &&
+    event.shiftKey === combo.modifiers.has('shift') &&
+    event.altKey === combo.modifiers.has('alt') &&
+    event.metaKey === combo.modifiers.has('meta')
+  );
+}
+
+/**
+ * Wraps an event listener with the handler's key filters and modifiers.
+ *
+ * @param listener - The listener running the action
+ * @param handler - The compiled event handler (element or global)
+ * @returns The listener itself when the handler has no keys or modifiers
+ */
+export function withEventModifiers(
+  listener: (event: Event) => void,
+  handler: Pick<CompiledEventHandler, 'modifiers' | 'keys'>
+): (event: Event) => void {
+  const modifiers = handler.modifiers ?? [];
+  const combos = (handler.keys ?? []).map(parseKeyCombo);
+  if (modifiers.length === 0 && combos.length === 0) {
+    return listener;
+  }
+
+  const prevent = modifiers.includes('prevent');
+  const stop = modifiers.includes('stop');
+  const self = modifiers.includes('self');
+  const once = modifiers.includes('once');
+  let fired = false;
+
+  return (event: Event) => {
+    if (once && fired) return;
+    if (self && event.target !== event.currentTarget) return;
+    if (combos.length > 0) {
+      if (!(event instanceof KeyboardEvent)) return;
+      if (!combos.some((combo) => matchesKeyCombo(event, combo))) return;
+    }
+
+    fired = true;
+    if (prevent) event.preventDefault();
+    if (stop) event.stopPropagation();
+    listener(event);
+  };
+}
+
+/**
+ * Returns the addEventListener options for the capture and passive modifiers
+ *
+ * @returns The options, or undefined when neither modifier is set
+ */
+export function getEventListenerOptions(
+  handler: Pick<CompiledEventHandler, 'modifiers'>
+): AddEventListenerOptions | undefined {
+  const capture = handler.modifiers?.includes('capture') ?? false;
+  const passive = handler.modifiers?.includes('passive') ?? false;
+  if (!capture && !passive) return undefined;
+  return {
+    ...(capture && { capture }),
+    ...(passive && { passive }),
+  };
+}
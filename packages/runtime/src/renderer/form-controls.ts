@@ -0,0 +1,48 @@
+/**
+ * Form Controls - Value and checked handling for inputs, textareas and selects
+ *
+ * These are set as DOM properties rather than attributes, as the attributes
+ * only hold the initial value once the user has edited the control.
+ */
+
+type FormControl = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+export function isFormControl(el: unknown): el is FormControl {
+  return (
+    el instanceof HTMLInputElement ||
+    el instanceof HTMLTextAreaElement ||
+    el instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Sets the value of a form control. Multi-selects take an array of selected values.
+ */
+export function setControlValue(el: FormControl, value: unknown): void {
+  if (el instanceof HTMLSelectElement && el.multiple) {
+    const selected = new Set((Array.isArray(value) ? value : []).map((v) => String(v)));
+    for (const option of Array.from(el.options)) {
+      option.selected = selected.has(option.value);
+    }
+    return;
+  }
+  const next = String(value ?? '');
+  // Avoid resetting the caret when the value did not change
+  if (el.value !== next) {
+    el.value = next;
+  }
+}
+
+/**
+ * Returns the event locals provided for a form control event target:
+ * valueAsNumber for number and range inputs (null when empty), selectedValues for selects
+ */
+export function getControlLocals(el: FormControl): Record<string, unknown> {
+  if (el instanceof HTMLSelectElement) {
+    return { selectedValues: Array.from(el.selectedOptions).map((option) => option.value) };
+  }
+  if (el instanceof HTMLInputElement && (el.type === 'number' || el.type === 'range')) {
+    return { valueAsNumber: Number.isNaN(el.valueAsNumber) ? null : el.valueAsNumber };
+  }
+  return {};
+}
@@ -5,15 +5,18 @@
  * - element: Creates DOM elements with props and event handlers
  * - text: Creates text nodes
  * - if: Conditional rendering with reactive updates
+ * - match: Multi-branch rendering keyed by a literal value
  * - each: List rendering with reactive updates
  */
 
-import type { StateStore } from '../state/store.js';
+import { extendStateStore, type StateStore } from '../state/store.js';
+import { createComputedStateStore } from '../state/computed.js';
 import type {
   CompiledNode,
   CompiledElementNode,
   CompiledTextNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
   CompiledMarkdownNode,
   CompiledCodeNode,
@@ -26,11 +29,22 @@ import type {
 } from '@constela/compiler';
 import { parseMarkdown } from './markdown.js';
 import { highlightCode } from './code.js';
+import { withEventModifiers, getEventListenerOptions } from './event-modifiers.js';
+import { getEventLocals } from './event-locals.js';
+import { isFormControl, setControlValue, getControlLocals } from './form-controls.js';
 import { createEffect } from '../reactive/effect.js';
 import { createSignal, type Signal } from '../reactive/signal.js';
 import { evaluate, evaluatePayload, type StylePreset } from '../expression/evaluator.js';
-import { executeAction } from '../action/executor.js';
+import { dispatchAction } from '../action/executor.js';
+import { startWatches } from '../action/watch.js';
+import { createEmitter, type Emitter } from '../action/emit.js';
+import { createInstanceRefs, startComponentLifecycle } from '../action/lifecycle.js';
+import { createLocalsWithContext } from './provide.js';
+import type { ConnectionManager } from '../connection/websocket.js';
+import type { BindingManager } from '../binding/realtime.js';
+import type { FetchControl } from '../action/fetch-control.js';
 import { applyEnterTransition, applyExitTransition } from '../transition/index.js';
+import { findMatchCase } from '@constela/core';
 
 const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
 const SVG_TAGS = new Set([
@@ -77,6 +91,12 @@ export interface RenderContext {
   };
   // Style presets for style expressions
   styles?: Record<string, StylePreset>;
+  // WebSocket connections shared by the app's actions
+  connections?: ConnectionManager;
+  // Realtime bindings shared by the app's bind steps
+  binding?: BindingManager;
+  // Fetch requests tracked by abortKey for the app's actions
+  fetchControl?: FetchControl;
 }
 
 // Type guard for event handlers
@@ -188,15 +208,14 @@ function createEventCallback(
     const action = ctx.actions[handler.action];
     if (!action) return;
 
-    // Create event-specific locals
-    const eventLocals: Record<string, unknown> = {};
+    // Create event-specific locals (keyboard, mouse and touch data)
+    const eventLocals = getEventLocals(event);
     const target = event.target;
 
     // Extract value for input-like elements
-    if (target instanceof HTMLInputElement ||
-        target instanceof HTMLTextAreaElement ||
-        target instanceof HTMLSelectElement) {
+    if (isFormControl(target)) {
       eventLocals['value'] = target.value;
+      Object.assign(eventLocals, getControlLocals(target));
 
       // Also provide checked for checkbox inputs
       if (target instanceof HTMLInputElement && target.type === 'checkbox') {
@@ -214,42 +233,6 @@ function createEventCallback(
       }
     }
 
-    // KeyboardEvent data
-    if (event instanceof KeyboardEvent) {
-      eventLocals['key'] = event.key;
-      eventLocals['code'] = event.code;
-      eventLocals['ctrlKey'] = event.ctrlKey;
-      eventLocals['shiftKey'] = event.shiftKey;
-      eventLocals['altKey'] = event.altKey;
-      eventLocals['metaKey'] = event.metaKey;
-    }
-
-    // MouseEvent data
-    if (event instanceof MouseEvent) {
-      eventLocals['clientX'] = event.clientX;
-      eventLocals['clientY'] = event.clientY;
-      eventLocals['pageX'] = event.pageX;
-      eventLocals['pageY'] = event.pageY;
-      eventLocals['button'] = event.button;
-    }
-
-    // TouchEvent data - check for touches property for jsdom compatibility
-    const touchEvent = event as { touches?: TouchList; changedTouches?: TouchList };
-    if (touchEvent.touches && touchEvent.changedTouches) {
-      eventLocals['touches'] = Array.from(touchEvent.touches).map(t => ({
-        clientX: t.clientX,
-        clientY: t.clientY,
-        pageX: t.pageX,
-        pageY: t.pageY,
-      }));
-      eventLocals['changedTouches'] = Array.from(touchEvent.changedTouches).map(t => ({
-        clientX: t.clientX,
-        clientY: t.clientY,
-        pageX: t.pageX,
-        pageY: t.pageY,
-      }));
-    }
-
     // Scroll event data
     if (handler.event === 'scroll' && event.target instanceof Element) {
       eventLocals['scrollTop'] = event.target.scrollTop;
@@ -273,8 +256,11 @@ function createEventCallback(
       actions: ctx.actions,
       locals: { ...ctx.locals, ...eventLocals, payload },
       eventPayload: payload,
+      ...(ctx.connections && { connections: ctx.connections }),
+      ...(ctx.binding && { binding: ctx.binding }),
+      ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
     };
-    await executeAction(action, actionCtx);
+    await dispatchAction(action, actionCtx);
   };
 }
 
@@ -352,10 +338,13 @@ function setupIntersectionObserver(
         actions: ctx.actions,
         locals: { ...ctx.locals, ...intersectLocals, payload },
         eventPayload: payload,
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
       };
 
       // Execute action
-      executeAction(action, actionCtx);
+      void dispatchAction(action, actionCtx);
 
       // Mark as triggered and unobserve if once
       if (handler.options?.once) {
@@ -383,6 +372,8 @@ export function render(node: CompiledNode, ctx: RenderContext): Node {
       return renderText(node, ctx);
     case 'if':
       return renderIf(node, ctx);
+    case 'match':
+      return renderMatch(node, ctx);
     case 'each':
       return renderEach(node, ctx);
     case 'markdown':
@@ -415,6 +406,16 @@ function renderElement(node: CompiledElementNode, ctx: RenderContext): Element {
     ctx.refs[node.ref] = el;
   }
 
+  // Apply prop with effect for reactivity
+  const bindProp = (propName: string, propValue: CompiledExpression): void => {
+    const cleanup = createEffect(() => {
+      const value = evaluate(propValue, { state: ctx.state, locals: ctx.locals, ...(ctx.refs && { refs: ctx.refs }), ...(ctx.imports && { imports: ctx.imports }), ...(ctx.route && { route: ctx.route }), ...(ctx.styles && { styles: ctx.styles }) });
+      applyProp(el, propName, value, useSvgNamespace);
+    });
+    ctx.cleanups?.push(cleanup);
+  };
+  let selectValue: CompiledExpression | undefined;
+
   // Apply props
   if (node.props) {
     for (const [propName, propValue] of Object.entries(node.props)) {
@@ -427,18 +428,24 @@ function renderElement(node: CompiledElementNode, ctx: RenderContext): Element {
         if (eventName === 'intersect') {
           setupIntersectionObserver(el, handler, ctx);
         } else {
-          // Regular DOM event with optional debounce/throttle
+          // Regular DOM event with optional debounce/throttle, key filters and modifiers
           const eventCallback = createEventCallback(handler, ctx);
-          const wrappedCallback = wrapWithDebounceThrottle(eventCallback, handler, ctx);
-          el.addEventListener(eventName, wrappedCallback);
+          const wrappedCallback = withEventModifiers(
+            wrapWithDebounceThrottle(eventCallback, handler, ctx),
+            handler
+          );
+          const listenerOptions = getEventListenerOptions(handler);
+          if (listenerOptions) {
+            el.addEventListener(eventName, wrappedCallback, listenerOptions);
+          } else {
+            el.addEventListener(eventName, wrappedCallback);
+          }
         }
+      } else if (propName === 'value' && el instanceof HTMLSelectElement) {
+        // A select's value can only be applied once its options exist
+        selectValue = propValue as CompiledExpression;
       } else {
-        // Apply prop with effect for reactivity
-        const cleanup = createEffect(() => {
-          const value = evaluate(propValue as CompiledExpression, { state: ctx.state, locals: ctx.locals, ...(ctx.refs && { refs: ctx.refs }), ...(ctx.imports && { imports: ctx.imports }), ...(ctx.route && { route: ctx.route }), ...(ctx.styles && { styles: ctx.styles }) });
-          applyProp(el, propName, value, useSvgNamespace);
-        });
-        ctx.cleanups?.push(cleanup);
+        bindProp(propName, propValue as CompiledExpression);
       }
     }
   }
@@ -446,13 +453,22 @@ function renderElement(node: CompiledElementNode, ctx: RenderContext): Element {
   // Render children
   if (node.children) {
     const childInSvg = tag === 'foreignObject' ? false : inSvgContext;
-    const childCtx = childInSvg !== ctx.inSvg ? { ...ctx, inSvg: childInSvg } : ctx;
+    let childCtx = childInSvg !== ctx.inSvg ? { ...ctx, inSvg: childInSvg } : ctx;
+    // Provided context is visible to the children only
+    if (node.provide) {
+      const locals = createLocalsWithContext(ctx.locals, node.provide, { state: ctx.state, locals: ctx.locals, ...(ctx.refs && { refs: ctx.refs }), ...(ctx.imports && { imports: ctx.imports }), ...(ctx.route && { route: ctx.route }), ...(ctx.styles && { styles: ctx.styles }) });
+      childCtx = { ...childCtx, locals };
+    }
     for (const child of node.children) {
       const childNode = render(child, childCtx);
       el.appendChild(childNode);
     }
   }
 
+  if (selectValue) {
+    bindProp('value', selectValue);
+  }
+
   return el;
 }
 
@@ -480,8 +496,10 @@ function applyProp(el: Element, propName: string, value: unknown, isSvg: boolean
       el.removeAttribute('disabled');
       (el as HTMLButtonElement | HTMLInputElement).disabled = false;
     }
-  } else if (propName === 'value' && el instanceof HTMLInputElement) {
-    el.value = String(value ?? '');
+  } else if (propName === 'value' && isFormControl(el)) {
+    setControlValue(el, value);
+  } else if (propName === 'checked' && el instanceof HTMLInputElement) {
+    el.checked = Boolean(value);
   } else if (propName.startsWith('data-')) {
     el.setAttribute(propName, String(value ?? ''));
   } else {
@@ -609,6 +627,91 @@ function renderIf(node: CompiledIfNode, ctx: RenderContext): Node {
   return fragment;
 }
 
+function renderMatch(node: CompiledMatchNode, ctx: RenderContext): Node {
+  const anchor = document.createComment('match');
+  let currentNode: Node | null = null;
+  let currentBranch: string | null = null;
+  let branchCleanups: (() => void)[] = [];
+  let pendingExitCancel: (() => void) | null = null;
+
+  const effectCleanup = createEffect(() => {
+    const value = evaluate(node.value, { state: ctx.state, locals: ctx.locals, ...(ctx.refs && { refs: ctx.refs }), ...(ctx.imports && { imports: ctx.imports }), ...(ctx.route && { route: ctx.route }), ...(ctx.styles && { styles: ctx.styles }) });
+    const caseKey = findMatchCase(value, node.cases);
+    const branchNode = caseKey !== undefined ? node.cases[caseKey] : node.default;
+    const newBranch = caseKey !== undefined ? `case:${caseKey}` : (node.default ? 'default' : 'none');
+
+    if (newBranch !== currentBranch) {
+      // Cancel any pending exit transition from a previous branch change
+      if (pendingExitCancel) {
+        pendingExitCancel();
+        pendingExitCancel = null;
+      }
+
+      // Cleanup previous branch effects
+      for (const cleanup of branchCleanups) {
+        cleanup();
+      }
+      branchCleanups = [];
+
+      const oldNode = currentNode;
+
+      // Remove old node (with or without exit transition)
+      if (oldNode && oldNode.parentNode) {
+        if (node.transition && oldNode instanceof HTMLElement) {
+          const { promise, cancel } = applyExitTransition(oldNode, node.transition);
+          pendingExitCancel = cancel;
+          promise.then(() => {
+            pendingExitCancel = null;
+            if (oldNode.parentNode) {
+              oldNode.parentNode.removeChild(oldNode);
+            }
+          });
+        } else {
+          oldNode.parentNode.removeChild(oldNode);
+        }
+      }
+
+      // Render new branch with its own cleanups
+      if (branchNode) {
+        const localCleanups: (() => void)[] = [];
+        currentNode = render(branchNode, { ...ctx, cleanups: localCleanups });
+        branchCleanups = localCleanups;
+      } else {
+        currentNode = null;
+      }
+
+      // Insert after anchor
+      if (currentNode && anchor.parentNode) {
+        anchor.parentNode.insertBefore(currentNode, anchor.nextSibling);
+      }
+
+      // Apply enter transition to new node
+      if (currentNode && node.transition && currentNode instanceof HTMLElement) {
+        applyEnterTransition(currentNode, node.transition);
+      }
+
+      currentBranch = newBranch;
+    }
+  });
+  ctx.cleanups?.push(effectCleanup);
+
+  // Also push a cleanup that handles the branch cleanups when the match node itself is destroyed
+  ctx.cleanups?.push(() => {
+    for (const cleanup of branchCleanups) {
+      cleanup();
+    }
+  });
+
+  // Return a fragment containing anchor and initial content
+  const fragment = document.createDocumentFragment();
+  fragment.appendChild(anchor);
+  if (currentNode) {
+    fragment.appendChild(currentNode);
+  }
+
+  return fragment;
+}
+
 interface ItemState {
   key: unknown;
   node: Node;
@@ -1064,7 +1167,8 @@ function createStateWithLocalState(
   globalState: StateStore,
   localStore: LocalStateStore
 ): StateStore {
-  return {
+  // Everything else, including set, goes to global state - local state is written by local actions
+  return extendStateStore(globalState, {
     get(name: string): unknown {
       // Check local state first
       if (name in localStore.signals) {
@@ -1072,13 +1176,6 @@ function createStateWithLocalState(
       }
       return globalState.get(name);
     },
-    set(name: string, value: unknown): void {
-      // Only set in global state - local state is handled separately via local actions
-      globalState.set(name, value);
-    },
-    setPath(name: string, path: (string | number)[], value: unknown): void {
-      globalState.setPath(name, path, value);
-    },
     subscribe(name: string, fn: (value: unknown) => void): () => void {
       // Check local state first
       if (name in localStore.signals) {
@@ -1086,26 +1183,7 @@ function createStateWithLocalState(
       }
       return globalState.subscribe(name, fn);
     },
-    getPath(name: string, path: string | (string | number)[]): unknown {
-      return globalState.getPath(name, path);
-    },
-    subscribeToPath(
-      name: string,
-      path: string | (string | number)[],
-      fn: (value: unknown) => void
-    ): () => void {
-      return globalState.subscribeToPath(name, path, fn);
-    },
-    serialize(): Record<string, unknown> {
-      return globalState.serialize();
-    },
-    restore(
-      snapshot: Record<string, unknown>,
-      newDefinitions: import('../state/store.js').StateDefinition[]
-    ): void {
-      globalState.restore(snapshot, newDefinitions);
-    },
-  };
+  });
 }
 
 /**
@@ -1114,6 +1192,8 @@ function createStateWithLocalState(
 interface ExtendedAction extends CompiledAction {
   _isLocalAction?: boolean;
   _localStore?: LocalStateStore;
+  _emit?: Emitter;
+  _disposables?: (() => void)[];
 }
 
 /**
@@ -1124,20 +1204,59 @@ function renderLocalState(node: CompiledLocalStateNode, ctx: RenderContext): Nod
   // Create local state store with signals
   const localStore = createLocalStateStore(node.state, ctx);
 
-  // Create merged locals with local state
-  const mergedLocals = createLocalsWithLocalState(ctx.locals, localStore);
+  // Create merged locals with local state, adding context provided by the parent
+  let mergedLocals = createLocalsWithLocalState(ctx.locals, localStore);
+  if (node.provide) {
+    mergedLocals = createLocalsWithContext(mergedLocals, node.provide, {
+      state: ctx.state,
+      locals: ctx.locals,
+      ...(ctx.refs && { refs: ctx.refs }),
+      ...(ctx.route && { route: ctx.route }),
+      ...(ctx.imports && { imports: ctx.imports }),
+    });
+  }
+
+  // Create proxied state that checks local state first, with the instance's memoized computed values
+  const localState = createStateWithLocalState(ctx.state, localStore);
+  const mergedState = node.computed
+    ? createComputedStateStore(localState, node.computed, {
+        locals: mergedLocals,
+        ...(ctx.refs && { refs: ctx.refs }),
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.styles && { styles: ctx.styles }),
+      })
+    : localState;
+
+  // Emitted events run the parent's handlers in the parent's scope
+  const emit = createEmitter(node.on, {
+    state: ctx.state,
+    actions: ctx.actions,
+    locals: ctx.locals,
+    ...(ctx.refs && { refs: ctx.refs }),
+    ...(ctx.route && { route: ctx.route }),
+    ...(ctx.imports && { imports: ctx.imports }),
+    ...(ctx.connections && { connections: ctx.connections }),
+    ...(ctx.binding && { binding: ctx.binding }),
+    ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+  });
+
+  // Refs registered inside the component resolve to this instance first
+  const instanceRefs = createInstanceRefs(ctx.refs);
 
-  // Create proxied state that checks local state first
-  const mergedState = createStateWithLocalState(ctx.state, localStore);
+  // Subscriptions and timers started by local actions are disposed with the instance
+  const disposables: (() => void)[] = [];
 
   // Create merged actions with local actions marked
   const mergedActions: Record<string, ExtendedAction> = { ...ctx.actions };
   for (const [name, action] of Object.entries(node.actions)) {
-    // Mark as local action and attach the store
+    // Mark as local action and attach the store, emitter and disposables
     mergedActions[name] = {
       ...action,
       _isLocalAction: true,
       _localStore: localStore,
+      _emit: emit,
+      _disposables: disposables,
     };
   }
 
@@ -1147,6 +1266,7 @@ function renderLocalState(node: CompiledLocalStateNode, ctx: RenderContext): Nod
     state: mergedState,
     locals: mergedLocals,
     actions: mergedActions,
+    refs: instanceRefs,
     localState: {
       store: localStore,
       actions: node.actions,
@@ -1154,5 +1274,39 @@ function renderLocalState(node: CompiledLocalStateNode, ctx: RenderContext): Nod
   };
 
   // Render child
-  return render(node.child, childCtx);
+  const childNode = render(node.child, childCtx);
+
+  // Start component watches (disposed with the component's cleanups)
+  if (node.watch && node.watch.length > 0) {
+    ctx.cleanups?.push(
+      startWatches(node.watch, {
+        state: mergedState,
+        actions: mergedActions,
+        locals: mergedLocals,
+        refs: instanceRefs,
+        ...(ctx.route && { route: ctx.route }),
+        ...(ctx.imports && { imports: ctx.imports }),
+        ...(ctx.connections && { connections: ctx.connections }),
+        ...(ctx.binding && { binding: ctx.binding }),
+        ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+      })
+    );
+  }
+
+  // Run the component's lifecycle hooks; unmounting disposes its resources
+  ctx.cleanups?.push(
+    startComponentLifecycle(node.lifecycle, disposables, {
+      state: mergedState,
+      actions: mergedActions,
+      locals: mergedLocals,
+      refs: instanceRefs,
+      ...(ctx.route && { route: ctx.route }),
+      ...(ctx.imports && { imports: ctx.imports }),
+      ...(ctx.connections && { connections: ctx.connections }),
+      ...(ctx.binding && { binding: ctx.binding }),
+      ...(ctx.fetchControl && { fetchControl: ctx.fetchControl }),
+    })
+  );
+
+  return childNode;
 }
@@ -0,0 +1,55 @@
+/**
+ * Provided Context - Passes values from a provider node to its subtree
+ *
+ * Element and component nodes with `provide` expose their values to
+ * descendants under the CONTEXT_LOCAL local. Each value is re-evaluated in
+ * the provider's scope whenever a descendant reads it, so effects reading a
+ * context expression track the provider's state dependencies.
+ */
+
+import type { CompiledExpression } from '@constela/compiler';
+import { CONTEXT_LOCAL, createContextValues } from '@constela/core';
+import { evaluate, type EvaluationContext } from '../expression/evaluator.js';
+
+/**
+ * Creates the locals for a provider's descendants.
+ * The base locals are wrapped rather than copied so that local state
+ * proxies keep resolving their signals.
+ *
+ * @param locals - The descendants' locals before adding the context
+ * @param provide - The compiled provided values keyed by context name
+ * @param evalCtx - The provider's evaluation context
+ * @returns Locals exposing the provided values to context expressions
+ */
+export function createLocalsWithContext(
+  locals: Record<string, unknown>,
+  provide: Record<string, CompiledExpression>,
+  evalCtx: EvaluationContext
+): Record<string, unknown> {
+  const getters: Record<string, () => unknown> = {};
+  for (const [name, expr] of Object.entries(provide)) {
+    getters[name] = () => evaluate(expr, evalCtx);
+  }
+  const values = createContextValues(locals, getters);
+
+  return new Proxy(locals, {
+    get(target, prop) {
+      if (prop === CONTEXT_LOCAL) return values;
+      return Reflect.get(target, prop);
+    },
+    has(target, prop) {
+      return prop === CONTEXT_LOCAL || Reflect.has(target, prop);
+    },
+    ownKeys(target) {
+      const keys = Reflect.ownKeys(target);
+      if (!keys.includes(CONTEXT_LOCAL)) keys.push(CONTEXT_LOCAL);
+      return keys;
+    },
+    getOwnPropertyDescriptor(target, prop) {
+      if (prop === CONTEXT_LOCAL) {
+        return { value: values, writable: true, enumerable: true, configurable: true };
+      }
+      return Reflect.getOwnPropertyDescriptor(target, prop);
+    },
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Test module for the composed app state store.
+ *
+ * Coverage:
+ * - Computed values read translations and form state from lower layers
+ * - An existing base store is reused instead of a new one
+ * - dispose() stops the locale cookie sync
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../store.js';
+import { createAppStateStore } from '../app-state.js';
+
+describe('createAppStateStore', () => {
+  // ==================== Helper Functions ====================
+
+  function createProgram(overrides: Partial<CompiledProgram> = {}): CompiledProgram {
+    return {
+      version: '1.0',
+      state: {
+        locale: { type: 'string', initial: 'en' },
+        name: { type: 'string', initial: '' },
+      },
+      i18n: {
+        defaultLocale: 'en',
+        localeCookie: 'app-state-locale',
+        messages: { en: { hello: 'Hello' }, ja: { hello: 'こんにちは' } },
+      },
+      forms: {
+        signup: { fields: { name: { target: 'name', rules: [{ type: 'required' }] } } },
+      },
+      computed: {
+        greeting: { expr: 't', key: 'hello' },
+        ready: { expr: 'form', name: 'signup', prop: 'valid' },
+      },
+      actions: {},
+      view: { kind: 'text', value: { expr: 'lit', value: '' } },
+      ...overrides,
+    } as unknown as CompiledProgram;
+  }
+
+  afterEach(() => {
+    document.cookie = 'app-state-locale=; max-age=0; path=/';
+  });
+
+  // ==================== Tests ====================
+
+  it('should let computed values read translations and form state', () => {
+    // Arrange
+    const state = createAppStateStore(createProgram());
+
+    // Act
+    state.set('locale', 'ja');
+    state.set('name', 'Ada');
+
+    // Assert
+    expect(state.getComputed?.('greeting')).toBe('こんにちは');
+    expect(state.getComputed?.('ready')).toBe(true);
+    state.dispose();
+  });
+
+  it('should layer over the given base store', () => {
+    // Arrange
+    const program = createProgram();
+    const baseState = createStateStore(program.state);
+    baseState.set('name', 'Grace');
+
+    // Act
+    const state = createAppStateStore(program, { baseState });
+
+    // Assert
+    expect(state.get('name')).toBe('Grace');
+    expect(state.getComputed?.('ready')).toBe(true);
+    state.dispose();
+  });
+
+  it('should stop writing the locale cookie once disposed', () => {
+    // Arrange
+    const state = createAppStateStore(createProgram());
+
+    // Act
+    state.dispose();
+    state.set('locale', 'ja');
+
+    // Assert
+    expect(document.cookie).not.toContain('app-state-locale=ja');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Test module for computed state.
+ *
+ * Coverage:
+ * - getComputed evaluates computed expressions against state
+ * - Computed values are memoized until dependencies change
+ * - Computed values can depend on other computed values
+ * - createApp renders computed values reactively
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { CompiledExpression, CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../store.js';
+import { createComputedStateStore } from '../computed.js';
+import { createApp } from '../../app.js';
+
+describe('createComputedStateStore', () => {
+  // ==================== Evaluation ====================
+
+  describe('getComputed()', () => {
+    it('should evaluate a computed expression against state', () => {
+      // Arrange
+      const state = createComputedStateStore(
+        createStateStore({ count: { type: 'number', initial: 2 } }),
+        {
+          doubled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'state', name: 'count' },
+            right: { expr: 'lit', value: 2 },
+          },
+        }
+      );
+
+      // Act
+      const result = state.getComputed?.('doubled');
+
+      // Assert
+      expect(result).toBe(4);
+    });
+
+    it('should return undefined for unknown computed names', () => {
+      // Arrange
+      const state = createComputedStateStore(createStateStore({}), {});
+
+      // Act
+      const result = state.getComputed?.('missing');
+
+      // Assert
+      expect(result).toBeUndefined();
+    });
+
+    it('should resolve computed values depending on other computed values', () => {
+      // Arrange
+      const state = createComputedStateStore(
+        createStateStore({ count: { type: 'number', initial: 1 } }),
+        {
+          doubled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'state', name: 'count' },
+            right: { expr: 'lit', value: 2 },
+          },
+          quadrupled: {
+            expr: 'bin',
+            op: '*',
+            left: { expr: 'computed', name: 'doubled' },
+            right: { expr: 'lit', value: 2 },
+          },
+        }
+      );
+
+      // Act
+      state.set('count', 3);
+
+      // Assert
+      expect(state.getComputed?.('quadrupled')).toBe(12);
+    });
+  });
+
+  // ==================== Memoization ====================
+
+  describe('memoization', () => {
+    it('should only re-evaluate when a dependency changes', () => {
+      // Arrange
+      const getter = vi.fn();
+      const items = { expr: 'state', name: 'items' } as CompiledExpression;
+      const state = createComputedStateStore(
+        createStateStore({
+          items: { type: 'list', initial: [1, 2, 3] },
+          other: { type: 'number', initial: 0 },
+        }),
+        { total: { expr: 'get', base: items, path: 'length' } }
+      );
+      const readItems = state.get.bind(state);
+      state.get = (name: string) => {
+        if (name === 'items') getter();
+        return readItems(name);
+      };
+
+      // Act
+      state.getComputed?.('total');
+      state.getComputed?.('total');
+      state.set('other', 1);
+      state.getComputed?.('total');
+      state.set('items', [1]);
+      const result = state.getComputed?.('total');
+
+      // Assert
+      expect(result).toBe(1);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('createApp with computed', () => {
+  let container: HTMLElement;
+
+  afterEach(() => {
+    container?.remove();
+  });
+
+  it('should update rendered computed values when state changes', () => {
+    // Arrange
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    const program = {
+      version: '1.0',
+      state: { count: { type: 'number', initial: 1 } },
+      computed: {
+        label: {
+          expr: 'concat',
+          items: [{ expr: 'lit', value: 'Count: ' }, { expr: 'state', name: 'count' }],
+        },
+      },
+      actions: {},
+      view: { kind: 'text', value: { expr: 'computed', name: 'label' } },
+    } as unknown as CompiledProgram;
+
+    // Act
+    const app = createApp(program, container);
+    app.setState('count', 5);
+
+    // Assert
+    expect(container.textContent).toBe('Count: 5');
+    app.destroy();
+  });
+});
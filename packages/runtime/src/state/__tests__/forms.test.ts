@@ -0,0 +1,232 @@
+/**
+ * Test module for declarative forms.
+ *
+ * Coverage:
+ * - Sync rules (required, min, pattern, equals, custom) set field errors reactively
+ * - Rule messages fall back to form messages and defaults
+ * - validateForm marks fields touched and runs async rules
+ * - Async errors are dropped when the value changes
+ * - dirty tracks the initial value and resetForm restores it
+ * - createApp renders form state and submitForm branches on validity
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CompiledForm, CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../store.js';
+import { createFormStateStore } from '../forms.js';
+import { createApp } from '../../app.js';
+
+type FieldView = Record<string, unknown>;
+
+describe('createFormStateStore', () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  // ==================== Helper Functions ====================
+
+  function createStore(form: CompiledForm) {
+    const state = createStateStore({
+      username: { type: 'string', initial: '' },
+      password: { type: 'string', initial: '' },
+      confirm: { type: 'string', initial: '' },
+      profile: { type: 'object', initial: { age: 20 } },
+    });
+    return createFormStateStore(state, { signup: form });
+  }
+
+  function field(store: ReturnType<typeof createStore>, name: string): FieldView {
+    const form = store.getForm('signup') as { fields: Record<string, FieldView> };
+    return form.fields[name] as FieldView;
+  }
+
+  // ==================== Sync Rules ====================
+
+  it('should report the first failing rule and update when the value changes', () => {
+    // Arrange
+    const store = createStore({
+      fields: {
+        password: {
+          target: 'password',
+          rules: [
+            { type: 'required' },
+            { type: 'min', value: 8, message: 'Use {value}+ characters' },
+            { type: 'pattern', value: '[0-9]' },
+          ],
+        },
+      },
+      messages: { pattern: 'Add a digit' },
+    });
+
+    // Assert
+    expect(field(store, 'password')['error']).toBe('This field is required');
+    store.set('password', 'short');
+    expect(field(store, 'password')['error']).toBe('Use 8+ characters');
+    store.set('password', 'long enough');
+    expect(field(store, 'password')['error']).toBe('Add a digit');
+    store.set('password', 'long enough 1');
+    expect(field(store, 'password')['error']).toBeNull();
+    expect(field(store, 'password')['valid']).toBe(true);
+  });
+
+  it('should compare equals fields and evaluate custom rules', () => {
+    // Arrange
+    const store = createStore({
+      fields: {
+        password: { target: 'password', rules: [] },
+        confirm: { target: 'confirm', rules: [{ type: 'equals', field: 'password' }] },
+        age: {
+          target: 'profile',
+          path: 'age',
+          rules: [
+            {
+              type: 'custom',
+              expr: { expr: 'bin', op: '>=', left: { expr: 'var', name: 'value' }, right: { expr: 'lit', value: 18 } },
+              message: 'Must be an adult',
+            },
+          ],
+        },
+      },
+    });
+
+    // Act
+    store.set('password', 'secret');
+    store.set('confirm', 'secre');
+    store.setPath('profile', 'age', 16);
+
+    // Assert
+    expect(field(store, 'confirm')['error']).toBe('Does not match');
+    expect(field(store, 'age')['error']).toBe('Must be an adult');
+    store.set('confirm', 'secret');
+    expect(field(store, 'confirm')['error']).toBeNull();
+    expect((store.getForm('signup') as FieldView)['error']).toBe('Must be an adult');
+  });
+
+  // ==================== validateForm ====================
+
+  it('should mark fields touched and run async rules in validateForm', async () => {
+    // Arrange
+    globalThis.fetch = vi.fn(async () => new Response(JSON.stringify({ valid: false, message: 'Taken' })));
+    const store = createStore({
+      fields: {
+        username: {
+          target: 'username',
+          rules: [
+            {
+              type: 'async',
+              url: { expr: 'concat', items: [{ expr: 'lit', value: '/api/check?u=' }, { expr: 'var', name: 'value' }] },
+            },
+          ],
+        },
+        password: { target: 'password', rules: [] },
+      },
+    });
+    store.set('username', 'ada');
+
+    // Act
+    const valid = await store.validateForm('signup', 'username');
+
+    // Assert
+    expect(valid).toBe(false);
+    expect(globalThis.fetch).toHaveBeenCalledWith('/api/check?u=ada');
+    expect(field(store, 'username')['error']).toBe('Taken');
+    expect(field(store, 'username')['touched']).toBe(true);
+    expect(field(store, 'password')['touched']).toBe(false);
+    store.set('username', 'grace');
+    expect(field(store, 'username')['error']).toBeNull();
+  });
+
+  // ==================== dirty / resetForm ====================
+
+  it('should track dirty and restore initial values with resetForm', async () => {
+    // Arrange
+    const store = createStore({
+      fields: { password: { target: 'password', rules: [{ type: 'required' }] } },
+    });
+    await store.validateForm('signup');
+    store.set('password', 'changed');
+    expect(field(store, 'password')['dirty']).toBe(true);
+    expect((store.getForm('signup') as FieldView)['touched']).toBe(true);
+
+    // Act
+    store.resetForm('signup');
+
+    // Assert
+    expect(store.get('password')).toBe('');
+    expect(field(store, 'password')['dirty']).toBe(false);
+    expect(field(store, 'password')['touched']).toBe(false);
+  });
+});
+
+describe('createApp with forms', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should render form errors and branch on validity in submitForm', async () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {
+        email: { type: 'string', initial: '' },
+        status: { type: 'string', initial: '' },
+      },
+      forms: {
+        contact: { fields: { email: { target: 'email', rules: [{ type: 'required', message: 'Email?' }] } } },
+      },
+      actions: {
+        submit: {
+          name: 'submit',
+          steps: [
+            {
+              do: 'submitForm',
+              form: 'contact',
+              onSuccess: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'sent' } }],
+              onError: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'invalid' } }],
+            },
+          ],
+        },
+      },
+      view: {
+        kind: 'element',
+        tag: 'button',
+        props: { onClick: { event: 'click', action: 'submit' } },
+        children: [
+          { kind: 'text', value: { expr: 'state', name: 'status' } },
+          {
+            kind: 'if',
+            condition: { expr: 'form', name: 'contact', field: 'email', prop: 'touched' },
+            then: { kind: 'text', value: { expr: 'form', name: 'contact', field: 'email', prop: 'error' } },
+          },
+        ],
+      },
+    } as unknown as CompiledProgram;
+    const app = createApp(program, container);
+    expect(container.textContent).toBe('');
+
+    // Act
+    container.querySelector('button')?.click();
+    await vi.waitFor(() => expect(container.textContent).toBe('invalidEmail?'));
+    app.setState('email', 'ada@example.com');
+    container.querySelector('button')?.click();
+
+    // Assert
+    await vi.waitFor(() => expect(container.textContent).toBe('sent'));
+    app.destroy();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Test module for internationalization.
+ *
+ * Coverage:
+ * - translate() uses the locale state, imported catalogs and fallbacks
+ * - The route locale param overrides the initial locale
+ * - Locale changes are written to the locale cookie
+ * - createApp re-renders t expressions when the locale changes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { CompiledI18n, CompiledProgram } from '@constela/compiler';
+import { createStateStore } from '../store.js';
+import { createI18nStateStore } from '../i18n.js';
+import { createApp } from '../../app.js';
+
+const config: CompiledI18n = {
+  defaultLocale: 'en',
+  localeParam: 'lang',
+  messages: {
+    en: { greeting: 'Hello, {name}!', items: '{count, plural, one {# item} other {# items}}' },
+    ja: { expr: 'import', name: 'ja' },
+  },
+};
+
+const imports = { ja: { greeting: 'こんにちは、{name}さん' } };
+
+describe('createI18nStateStore', () => {
+  // ==================== Helper Functions ====================
+
+  function createStore(overrides: Partial<CompiledI18n> = {}, route?: Record<string, string>) {
+    const state = createStateStore({ locale: { type: 'string', initial: 'en' } });
+    return createI18nStateStore(state, { ...config, ...overrides }, {
+      imports,
+      ...(route && { route: { params: route, query: {}, path: '/' } }),
+    });
+  }
+
+  // ==================== translate ====================
+
+  it('should translate with the current locale and fall back to the default locale', () => {
+    // Arrange
+    const store = createStore();
+
+    // Assert
+    expect(store.translate('greeting', { name: 'Ada' })).toBe('Hello, Ada!');
+    store.set('locale', 'ja');
+    expect(store.translate('greeting', { name: 'Ada' })).toBe('こんにちは、Adaさん');
+    expect(store.translate('items', { count: 2 })).toBe('2 items');
+    expect(store.translate('missing', {})).toBe('missing');
+  });
+
+  // ==================== Locale Sources ====================
+
+  it('should select a known locale from the route param', () => {
+    expect(createStore({}, { lang: 'ja' }).get('locale')).toBe('ja');
+    expect(createStore({}, { lang: 'de' }).get('locale')).toBe('en');
+  });
+
+  it('should write locale changes to the locale cookie until disposed', () => {
+    // Arrange
+    const store = createStore({ localeCookie: 'test-locale' });
+
+    // Act
+    store.set('locale', 'ja');
+    store.dispose();
+    store.set('locale', 'en');
+
+    // Assert
+    expect(document.cookie).toContain('test-locale=ja');
+    document.cookie = 'test-locale=; max-age=0; path=/';
+  });
+});
+
+describe('createApp with i18n', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should re-render t expressions when the locale changes', () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {
+        locale: { type: 'string', initial: 'en' },
+        count: { type: 'number', initial: 1 },
+      },
+      i18n: {
+        defaultLocale: 'en',
+        messages: {
+          en: { items: '{count, plural, one {# item} other {# items}}' },
+          ja: { items: '{count}個' },
+        },
+      },
+      actions: {},
+      view: {
+        kind: 'text',
+        value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'count' } } },
+      },
+    } as unknown as CompiledProgram;
+    const app = createApp(program, container);
+    expect(container.textContent).toBe('1 item');
+
+    // Act
+    app.setState('count', 3);
+    app.setState('locale', 'ja');
+
+    // Assert
+    expect(container.textContent).toBe('3個');
+    app.destroy();
+  });
+});
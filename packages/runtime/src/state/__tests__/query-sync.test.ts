@@ -0,0 +1,144 @@
+/**
+ * Test module for URL query sync.
+ *
+ * Coverage:
+ * - Synced fields are initialized from location.search
+ * - Changes are written back with pushState or replaceState
+ * - Params are removed when the value returns to its initial value
+ * - popstate restores field values from the URL
+ * - Cleanup stops syncing
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createStateStore, type StateDefinition } from '../store.js';
+import { bindQuerySync } from '../query-sync.js';
+
+describe('bindQuerySync', () => {
+  const definitions: Record<string, StateDefinition> = {
+    page: { type: 'number', initial: 1, syncQuery: { param: 'page', mode: 'push' } },
+    q: { type: 'string', initial: '', syncQuery: { param: 'q', mode: 'replace' } },
+    open: { type: 'boolean', initial: false },
+  };
+
+  let cleanup: (() => void) | undefined;
+
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/list');
+  });
+
+  afterEach(() => {
+    cleanup?.();
+    cleanup = undefined;
+    vi.restoreAllMocks();
+  });
+
+  // ==================== Initialization ====================
+
+  describe('initialization', () => {
+    it('should initialize synced fields from location.search', () => {
+      // Arrange
+      window.history.replaceState(null, '', '/list?page=3&q=shoes');
+      const state = createStateStore(definitions);
+
+      // Act
+      cleanup = bindQuerySync(state, definitions);
+
+      // Assert
+      expect(state.get('page')).toBe(3);
+      expect(state.get('q')).toBe('shoes');
+    });
+
+    it('should keep the initial value for absent or invalid params', () => {
+      // Arrange
+      window.history.replaceState(null, '', '/list?page=abc');
+      const state = createStateStore(definitions);
+
+      // Act
+      cleanup = bindQuerySync(state, definitions);
+
+      // Assert
+      expect(state.get('page')).toBe(1);
+      expect(state.get('q')).toBe('');
+    });
+  });
+
+  // ==================== Write Back ====================
+
+  describe('write back', () => {
+    it('should push a history entry for push mode fields', () => {
+      // Arrange
+      const state = createStateStore(definitions);
+      cleanup = bindQuerySync(state, definitions);
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+
+      // Act
+      state.set('page', 2);
+
+      // Assert
+      expect(pushSpy).toHaveBeenCalledTimes(1);
+      expect(window.location.search).toBe('?page=2');
+    });
+
+    it('should replace the history entry for replace mode fields', () => {
+      // Arrange
+      const state = createStateStore(definitions);
+      cleanup = bindQuerySync(state, definitions);
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+
+      // Act
+      state.set('q', 'hats');
+
+      // Assert
+      expect(pushSpy).not.toHaveBeenCalled();
+      expect(window.location.search).toBe('?q=hats');
+    });
+
+    it('should remove the param when the value returns to its initial value', () => {
+      // Arrange
+      window.history.replaceState(null, '', '/list?page=4&q=hats');
+      const state = createStateStore(definitions);
+      cleanup = bindQuerySync(state, definitions);
+
+      // Act
+      state.set('page', 1);
+
+      // Assert
+      expect(window.location.search).toBe('?q=hats');
+    });
+  });
+
+  // ==================== popstate ====================
+
+  describe('popstate', () => {
+    it('should restore field values from the URL on popstate', () => {
+      // Arrange
+      const state = createStateStore(definitions);
+      cleanup = bindQuerySync(state, definitions);
+      state.set('page', 5);
+
+      // Act
+      window.history.replaceState(null, '', '/list');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      // Assert
+      expect(state.get('page')).toBe(1);
+    });
+
+    it('should stop syncing after cleanup', () => {
+      // Arrange
+      const state = createStateStore(definitions);
+      bindQuerySync(state, definitions)();
+
+      // Act
+      state.set('page', 7);
+      window.history.replaceState(null, '', '/list?page=9');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      // Assert
+      expect(window.location.search).toBe('?page=9');
+      expect(state.get('page')).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Test module for declarative resources.
+ *
+ * Coverage:
+ * - Resources load on creation and expose data, error and loading
+ * - Resources refetch when state used in the URL changes
+ * - Stores share cached data and deduplicate concurrent requests
+ * - staleTime skips refetching fresh data
+ * - invalidateResource refetches, and refreshInterval revalidates
+ * - SSR data seeds the cache without fetching
+ * - Snapshots of loaded data replace the first fetch of a new store
+ * - createApp renders resources and the invalidate step refetches them
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CompiledExpression, CompiledProgram, CompiledResource } from '@constela/compiler';
+import { createStateStore } from '../store.js';
+import { createResourceStateStore } from '../resources.js';
+import { createApp } from '../../app.js';
+
+/**
+ * Creates a fetch mock answering each URL with `{ url, call }`
+ */
+function mockFetch() {
+  let calls = 0;
+  return vi.fn(async (url: string) => {
+    calls++;
+    return new Response(JSON.stringify({ url, call: calls }), { status: 200 });
+  });
+}
+
+describe('createResourceStateStore', () => {
+  let originalFetch: typeof globalThis.fetch;
+  let testId = 0;
+
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    // The cache is shared per URL, so every test uses its own URLs
+    testId++;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  // ==================== Helper Functions ====================
+
+  function url(path: string): string {
+    return `/api/test-${testId}/${path}`;
+  }
+
+  function createStore(
+    resources: Record<string, CompiledResource>,
+    initialData?: Record<string, { key: string; data: unknown }>
+  ) {
+    const state = createStateStore({ userId: { type: 'string', initial: '1' } });
+    return createResourceStateStore(state, resources, initialData ? { initialData } : {});
+  }
+
+  function userUrl(): CompiledExpression {
+    return {
+      expr: 'concat',
+      items: [{ expr: 'lit', value: url('users/') }, { expr: 'state', name: 'userId' }],
+    } as CompiledExpression;
+  }
+
+  // ==================== Loading ====================
+
+  describe('loading', () => {
+    it('should load data and expose the loading flag', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      // Act
+      const store = createStore({ user: { url: userUrl() } });
+      const whileLoading = store.getResource?.('user');
+      await vi.waitFor(() => expect(store.getResource?.('user')).toMatchObject({ loading: false }));
+
+      // Assert
+      expect(whileLoading).toEqual({ data: undefined, error: null, loading: true });
+      expect(store.getResource?.('user')).toEqual({
+        data: { url: url('users/1'), call: 1 },
+        error: null,
+        loading: false,
+      });
+      store.dispose();
+    });
+
+    it('should expose HTTP errors', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn(async () => new Response('', { status: 404, statusText: 'Not Found' }));
+
+      // Act
+      const store = createStore({ user: { url: userUrl() } });
+      await vi.waitFor(() => expect(store.getResource?.('user')).toMatchObject({ loading: false }));
+
+      // Assert
+      expect(store.getResource?.('user')).toMatchObject({
+        error: { message: 'HTTP error: 404 Not Found', name: 'HTTPError', status: 404 },
+      });
+      store.dispose();
+    });
+
+    it('should refetch when state used in the URL changes', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const store = createStore({ user: { url: userUrl() } });
+
+      // Act
+      store.set('userId', '2');
+      await vi.waitFor(() => expect(store.getResource?.('user')).toMatchObject({ loading: false }));
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledWith(url('users/2'));
+      expect(store.getResource?.('user')).toMatchObject({ data: { url: url('users/2') } });
+      store.dispose();
+    });
+
+    it('should stay idle while the URL is null', () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      // Act
+      const store = createStore({ user: { url: { expr: 'lit', value: null } } });
+
+      // Assert
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(store.getResource?.('user')).toEqual({ data: undefined, error: null, loading: false });
+      store.dispose();
+    });
+  });
+
+  // ==================== Shared Cache ====================
+
+  describe('shared cache', () => {
+    it('should deduplicate concurrent requests for the same URL', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      // Act
+      const first = createStore({ user: { url: userUrl() } });
+      const second = createStore({ profile: { url: userUrl() } });
+      await vi.waitFor(() => expect(second.getResource?.('profile')).toMatchObject({ loading: false }));
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(first.getResource?.('user')).toEqual(second.getResource?.('profile'));
+      first.dispose();
+      second.dispose();
+    });
+
+    it('should reuse fresh data within staleTime', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const first = createStore({ user: { url: userUrl(), staleTime: 60000 } });
+      await vi.waitFor(() => expect(first.getResource?.('user')).toMatchObject({ loading: false }));
+
+      // Act
+      const second = createStore({ user: { url: userUrl(), staleTime: 60000 } });
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(second.getResource?.('user')).toMatchObject({ data: { call: 1 }, loading: false });
+      first.dispose();
+      second.dispose();
+    });
+
+    it('should seed the cache from SSR data without fetching', () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      // Act
+      const store = createStore(
+        { user: { url: userUrl() } },
+        { user: { key: url('users/1'), data: { name: 'Ada' } } }
+      );
+
+      // Assert
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(store.getResource?.('user')).toEqual({ data: { name: 'Ada' }, error: null, loading: false });
+      store.dispose();
+    });
+
+    it('should start a replacing store from a snapshot without refetching', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const first = createStore({ user: { url: userUrl() } });
+      await vi.waitFor(() => expect(first.getResource?.('user')).toMatchObject({ loading: false }));
+      const snapshot = first.snapshotResources();
+      first.dispose();
+
+      // Act
+      const second = createStore({ user: { url: userUrl() } }, snapshot);
+
+      // Assert
+      expect(snapshot).toEqual({ user: { key: url('users/1'), data: { url: url('users/1'), call: 1 } } });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(second.getResource?.('user')).toMatchObject({ data: { call: 1 }, loading: false });
+      second.dispose();
+    });
+  });
+
+  // ==================== Revalidation ====================
+
+  describe('revalidation', () => {
+    it('should refetch on invalidateResource', async () => {
+      // Arrange
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const store = createStore({ user: { url: userUrl(), staleTime: 60000 } });
+      await vi.waitFor(() => expect(store.getResource?.('user')).toMatchObject({ loading: false }));
+
+      // Act
+      await store.invalidateResource?.('user');
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(store.getResource?.('user')).toMatchObject({ data: { call: 2 } });
+      store.dispose();
+    });
+
+    it('should revalidate every refreshInterval until disposed', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const fetchMock = mockFetch();
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const store = createStore({ user: { url: userUrl(), refreshInterval: 1000 } });
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Act
+      await vi.advanceTimersByTimeAsync(2000);
+      store.dispose();
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+});
+
+describe('createApp with resources', () => {
+  let container: HTMLElement;
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    container.remove();
+  });
+
+  it('should render resource data and refetch it with the invalidate step', async () => {
+    // Arrange
+    let count = 0;
+    globalThis.fetch = vi.fn(async () => {
+      count++;
+      return new Response(JSON.stringify({ count }), { status: 200 });
+    });
+    const program = {
+      version: '1.0',
+      state: {},
+      resources: { counter: { url: { expr: 'lit', value: '/api/app/counter' } } },
+      actions: {
+        reload: { name: 'reload', steps: [{ do: 'invalidate', resource: 'counter' }] },
+      },
+      view: {
+        kind: 'element',
+        tag: 'button',
+        props: { onClick: { event: 'click', action: 'reload' } },
+        children: [
+          {
+            kind: 'text',
+            value: {
+              expr: 'get',
+              base: { expr: 'resource', name: 'counter', field: 'data' },
+              path: 'count',
+            },
+          },
+        ],
+      },
+    } as unknown as CompiledProgram;
+
+    // Act
+    const app = createApp(program, container);
+    await vi.waitFor(() => expect(container.textContent).toBe('1'));
+    container.querySelector('button')?.click();
+
+    // Assert
+    await vi.waitFor(() => expect(container.textContent).toBe('2'));
+    app.destroy();
+  });
+});
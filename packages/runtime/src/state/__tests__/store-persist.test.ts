@@ -0,0 +1,127 @@
+/**
+ * Test module for StateStore persistence.
+ *
+ * Coverage:
+ * - Restores persisted values from localStorage, sessionStorage and cookies
+ * - Writes values back on set and setPath
+ * - Uses the state name as the default key
+ * - Discards values written with a different version
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createStateStore } from '../store.js';
+
+describe('StateStore persistence', () => {
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    document.cookie = 'prefs=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/';
+  });
+
+  // ==================== Restore ====================
+
+  describe('restore on startup', () => {
+    it('should restore a value from localStorage', () => {
+      // Arrange
+      localStorage.setItem('app:todos', JSON.stringify({ v: 0, value: ['a', 'b'] }));
+
+      // Act
+      const store = createStateStore({
+        todos: { type: 'list', initial: [], persist: { storage: 'local', key: 'app:todos' } },
+      });
+
+      // Assert
+      expect(store.get('todos')).toEqual(['a', 'b']);
+    });
+
+    it('should restore a value from sessionStorage using the state name as key', () => {
+      // Arrange
+      sessionStorage.setItem('draft', JSON.stringify({ v: 0, value: 'hello' }));
+
+      // Act
+      const store = createStateStore({
+        draft: { type: 'string', initial: '', persist: { storage: 'session' } },
+      });
+
+      // Assert
+      expect(store.get('draft')).toBe('hello');
+    });
+
+    it('should restore a value from a cookie', () => {
+      // Arrange
+      document.cookie = `prefs=${encodeURIComponent(JSON.stringify({ v: 0, value: { dense: true } }))}; path=/`;
+
+      // Act
+      const store = createStateStore({
+        prefs: { type: 'object', initial: {}, persist: { storage: 'cookie' } },
+      });
+
+      // Assert
+      expect(store.get('prefs')).toEqual({ dense: true });
+    });
+
+    it('should discard a value written with a different version', () => {
+      // Arrange
+      localStorage.setItem('count', JSON.stringify({ v: 1, value: 42 }));
+
+      // Act
+      const store = createStateStore({
+        count: { type: 'number', initial: 0, persist: { storage: 'local', version: 2 } },
+      });
+
+      // Assert
+      expect(store.get('count')).toBe(0);
+    });
+  });
+
+  // ==================== Write Back ====================
+
+  describe('write back on change', () => {
+    it('should write the value on set', () => {
+      // Arrange
+      const store = createStateStore({
+        count: { type: 'number', initial: 0, persist: { storage: 'local', version: 3 } },
+      });
+
+      // Act
+      store.set('count', 5);
+
+      // Assert
+      expect(JSON.parse(localStorage.getItem('count')!)).toEqual({ v: 3, value: 5 });
+    });
+
+    it('should write the value on setPath', () => {
+      // Arrange
+      const store = createStateStore({
+        prefs: { type: 'object', initial: { dense: false }, persist: { storage: 'cookie' } },
+      });
+
+      // Act
+      store.setPath('prefs', 'dense', true);
+
+      // Assert
+      const restored = createStateStore({
+        prefs: { type: 'object', initial: {}, persist: { storage: 'cookie' } },
+      });
+      expect(restored.get('prefs')).toEqual({ dense: true });
+    });
+
+    it('should not touch storage for fields without persist', () => {
+      // Arrange
+      const store = createStateStore({ count: { type: 'number', initial: 0 } });
+
+      // Act
+      store.set('count', 1);
+
+      // Assert
+      expect(localStorage.length).toBe(0);
+    });
+  });
+});
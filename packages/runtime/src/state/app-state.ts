@@ -0,0 +1,87 @@
+/**
+ * App State - The state store of an app, composed from its program
+ *
+ * Layers the optional state features of a program over its base store:
+ * i18n, then resources, then forms, then memoized computed values. Each
+ * layer sees the ones below it, so computed values can read resources and
+ * forms, and every feature can read translated messages.
+ */
+
+import type { CompiledProgram, CompiledResourceSnapshot } from '@constela/compiler';
+import type { EvaluationContext } from '../expression/evaluator.js';
+import { createStateStore, extendStateStore, type StateStore } from './store.js';
+import { createI18nStateStore } from './i18n.js';
+import { createResourceStateStore } from './resources.js';
+import { createFormStateStore } from './forms.js';
+import { createComputedStateStore } from './computed.js';
+
+export interface AppStateOptions {
+  route?: EvaluationContext['route'];
+  /** Base store to layer over instead of a new one (HMR restores state into it first) */
+  baseState?: StateStore;
+  /** Resource data to start from instead of the program's SSR data (HMR carries it over) */
+  resourceData?: Record<string, CompiledResourceSnapshot>;
+}
+
+/**
+ * StateStore of an app, with a dispose() stopping resource effects and the locale cookie sync
+ */
+export interface AppStateStore extends StateStore {
+  /** Loaded resource data, passed as `resourceData` when the store is replaced */
+  snapshotResources(): Record<string, CompiledResourceSnapshot>;
+  dispose(): void;
+}
+
+/**
+ * Creates the state store of an app from its program.
+ *
+ * @param program - The compiled program declaring the state and its features
+ * @param options - The route, and an existing base store to reuse
+ * @returns The composed StateStore, disposed with the app
+ */
+export function createAppStateStore(program: CompiledProgram, options: AppStateOptions = {}): AppStateStore {
+  const evaluationOptions = {
+    ...(program.importData && { imports: program.importData }),
+    ...(options.route && { route: options.route }),
+    ...(program.styles && { styles: program.styles }),
+  };
+  const disposers: (() => void)[] = [];
+  const resourceData = options.resourceData ?? program.resourceData;
+  let snapshotResources = (): Record<string, CompiledResourceSnapshot> => ({});
+
+  let state = options.baseState ?? createStateStore(program.state);
+
+  if (program.i18n) {
+    const i18nState = createI18nStateStore(state, program.i18n, evaluationOptions);
+    disposers.push(() => i18nState.dispose());
+    state = i18nState;
+  }
+
+  if (program.resources) {
+    const resourceState = createResourceStateStore(state, program.resources, {
+      ...evaluationOptions,
+      ...(resourceData && { initialData: resourceData }),
+    });
+    disposers.push(() => resourceState.dispose());
+    snapshotResources = () => resourceState.snapshotResources();
+    state = resourceState;
+  }
+
+  if (program.forms) {
+    state = createFormStateStore(state, program.forms, evaluationOptions);
+  }
+
+  if (program.computed) {
+    state = createComputedStateStore(state, program.computed, evaluationOptions);
+  }
+
+  return extendStateStore(state, {
+    snapshotResources,
+
+    dispose(): void {
+      for (const dispose of disposers) {
+        dispose();
+      }
+    },
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Computed State - Memoized derived values for a program or component instance
+ *
+ * Wraps a StateStore so that `{ expr: 'computed' }` expressions resolve to
+ * lazily created Computed values. Each computed tracks the state signals
+ * (and other computeds) it reads and is only re-evaluated when they change.
+ * Names the wrapper does not define resolve through the wrapped store, so a
+ * component's computed values sit in front of the program's.
+ */
+
+import type { CompiledExpression } from '@constela/compiler';
+import { createComputed, type Computed } from '../reactive/computed.js';
+import { evaluate, type EvaluationContext } from '../expression/evaluator.js';
+import { extendStateStore, type StateStore } from './store.js';
+
+export type ComputedEvaluationOptions = Omit<EvaluationContext, 'state' | 'locals'> & {
+  /** Locals of the scope declaring the computed values (a component's local state) */
+  locals?: Record<string, unknown>;
+};
+
+/**
+ * Creates a StateStore that exposes the given computed definitions via getComputed().
+ *
+ * @param state - The underlying state store
+ * @param definitions - Computed expressions keyed by name
+ * @param options - Route, imports, styles and locals available to computed expressions
+ * @returns A StateStore delegating to `state` with getComputed() support
+ */
+export function createComputedStateStore(
+  state: StateStore,
+  definitions: Record<string, CompiledExpression>,
+  options: ComputedEvaluationOptions = {}
+): StateStore {
+  const { locals = {}, ...evaluationOptions } = options;
+  const computeds = new Map<string, Computed<unknown>>();
+
+  const store: StateStore = extendStateStore(state, {
+    getComputed(name: string): unknown {
+      let computed = computeds.get(name);
+      if (!computed) {
+        const expr = definitions[name];
+        if (!expr) return state.getComputed?.(name);
+        computed = createComputed(() => evaluate(expr, { ...evaluationOptions, state: store, locals }));
+        computeds.set(name, computed);
+      }
+      return computed.get();
+    },
+  });
+
+  return store;
+}
@@ -0,0 +1,289 @@
+/**
+ * Forms - Declarative validation of state-bound form fields
+ *
+ * Each field reads its value from the state field (and path) it targets.
+ * Synchronous rules are re-checked whenever the value, or a value they
+ * depend on, changes. Async rules only run in validateForm(), and their
+ * result is dropped once the value changes again.
+ *
+ * Field props:
+ * - error: the message of the first failing rule, or null
+ * - touched: the field has been validated by validateForm()
+ * - dirty: the value differs from the initial (or last reset) value
+ * - valid: there is no error
+ *
+ * The form itself exposes the same props aggregated over its fields.
+ */
+
+import type { CompiledForm, CompiledFormField, CompiledFormRule } from '@constela/compiler';
+import { createSignal, type Signal } from '../reactive/signal.js';
+import { createComputed, type Computed } from '../reactive/computed.js';
+import { evaluate, type EvaluationContext } from '../expression/evaluator.js';
+import { extendStateStore, type StateStore } from './store.js';
+
+export type FormEvaluationOptions = Omit<EvaluationContext, 'state' | 'locals'>;
+
+/**
+ * Validation state of a single field
+ */
+interface FieldState {
+  definition: CompiledFormField;
+  initial: unknown;
+  touched: Signal<boolean>;
+  /** Result of the last async check, only valid for the value it checked */
+  asyncResult: Signal<{ value: unknown; error: string | null } | undefined>;
+  syncError: Computed<string | null>;
+}
+
+const DEFAULT_MESSAGES: Record<CompiledFormRule['type'], string> = {
+  required: 'This field is required',
+  min: 'Must be at least {value}',
+  max: 'Must be at most {value}',
+  pattern: 'Invalid format',
+  equals: 'Does not match',
+  custom: 'Invalid value',
+  async: 'Invalid value',
+};
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function cloneValue(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? JSON.parse(JSON.stringify(value)) : value;
+}
+
+/**
+ * Returns the number min/max rules compare: numbers themselves, lengths of strings and lists
+ */
+function getSize(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  return undefined;
+}
+
+/**
+ * StateStore exposing forms via getForm(), validateForm() and resetForm()
+ */
+export interface FormStateStore extends StateStore {
+  getForm(name: string): unknown;
+  validateForm(name: string, field?: string): Promise<boolean>;
+  resetForm(name: string): void;
+}
+
+/**
+ * Creates a StateStore that validates the given forms.
+ *
+ * @param state - The underlying state store
+ * @param definitions - Compiled forms keyed by name
+ * @param options - Route, imports and styles for custom and async rule expressions
+ * @returns A StateStore delegating to `state` with form support
+ */
+export function createFormStateStore(
+  state: StateStore,
+  definitions: Record<string, CompiledForm>,
+  options: FormEvaluationOptions = {}
+): FormStateStore {
+  const forms = new Map<string, Map<string, FieldState>>();
+  const formViews = new Map<string, unknown>();
+
+  const readValue = (field: CompiledFormField): unknown =>
+    field.path ? store.getPath(field.target, field.path) : store.get(field.target);
+
+  const readValues = (fields: Map<string, FieldState>): Record<string, unknown> => {
+    const values: Record<string, unknown> = {};
+    for (const [name, field] of fields) {
+      values[name] = readValue(field.definition);
+    }
+    return values;
+  };
+
+  const getMessage = (formName: string, rule: CompiledFormRule): string => {
+    const message = rule.message ?? definitions[formName]?.messages?.[rule.type] ?? DEFAULT_MESSAGES[rule.type];
+    return 'value' in rule ? message.replace('{value}', String(rule.value)) : message;
+  };
+
+  /**
+   * Checks a synchronous rule, returning whether it passes (async rules always pass here)
+   */
+  const checkRule = (rule: CompiledFormRule, value: unknown, fields: Map<string, FieldState>): boolean => {
+    if (rule.type === 'required') return !isEmpty(value);
+    if (isEmpty(value)) return true;
+
+    switch (rule.type) {
+      case 'min': {
+        const size = getSize(value);
+        return size === undefined || size >= rule.value;
+      }
+      case 'max': {
+        const size = getSize(value);
+        return size === undefined || size <= rule.value;
+      }
+      case 'pattern':
+        return new RegExp(rule.value).test(String(value));
+      case 'equals': {
+        const other = fields.get(rule.field);
+        return other !== undefined && isSameValue(value, readValue(other.definition));
+      }
+      case 'custom':
+        return Boolean(
+          evaluate(rule.expr, { ...options, state: store, locals: { value, values: readValues(fields) } })
+        );
+      case 'async':
+        return true;
+    }
+  };
+
+  /**
+   * Runs the async rules of a field and stores the first error
+   */
+  const runAsyncRules = async (
+    formName: string,
+    field: FieldState,
+    fields: Map<string, FieldState>
+  ): Promise<void> => {
+    const value = readValue(field.definition);
+    const asyncRules = field.definition.rules.filter((rule) => rule.type === 'async');
+    if (asyncRules.length === 0 || isEmpty(value) || field.syncError.get() !== null) return;
+
+    let error: string | null = null;
+    for (const rule of asyncRules) {
+      const url = evaluate(rule.url, { ...options, state: store, locals: { value, values: readValues(fields) } });
+      try {
+        const response = await fetch(String(url));
+        const body: unknown = response.ok ? await response.json() : undefined;
+        const result = typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+        if (!response.ok || result['valid'] === false) {
+          error = typeof result['message'] === 'string' ? result['message'] : getMessage(formName, rule);
+          break;
+        }
+      } catch {
+        error = getMessage(formName, rule);
+        break;
+      }
+    }
+    field.asyncResult.set({ value, error });
+  };
+
+  const getFieldError = (field: FieldState): string | null => {
+    const syncError = field.syncError.get();
+    if (syncError !== null) return syncError;
+    const asyncResult = field.asyncResult.get();
+    if (asyncResult && isSameValue(asyncResult.value, readValue(field.definition))) {
+      return asyncResult.error;
+    }
+    return null;
+  };
+
+  /**
+   * Creates the object form expressions read; props are getters so that
+   * expressions only depend on the fields and props they read
+   */
+  const createFormView = (fields: Map<string, FieldState>): unknown => {
+    const fieldViews: Record<string, unknown> = {};
+    for (const [name, field] of fields) {
+      fieldViews[name] = {
+        get error() {
+          return getFieldError(field);
+        },
+        get touched() {
+          return field.touched.get();
+        },
+        get dirty() {
+          return !isSameValue(readValue(field.definition), field.initial);
+        },
+        get valid() {
+          return getFieldError(field) === null;
+        },
+      };
+    }
+    const all = Array.from(fields.keys()).map((name) => fieldViews[name] as Record<string, unknown>);
+    return {
+      fields: fieldViews,
+      get error() {
+        for (const view of all) {
+          if (view['error'] !== null) return view['error'];
+        }
+        return null;
+      },
+      get touched() {
+        return all.some((view) => view['touched'] === true);
+      },
+      get dirty() {
+        return all.some((view) => view['dirty'] === true);
+      },
+      get valid() {
+        return all.every((view) => view['valid'] === true);
+      },
+    };
+  };
+
+  const store: FormStateStore = extendStateStore(state, {
+    getForm(name: string): unknown {
+      return formViews.get(name);
+    },
+
+    async validateForm(name: string, fieldName?: string): Promise<boolean> {
+      const fields = forms.get(name);
+      if (!fields) return true;
+      const selected = Array.from(fields.entries()).filter(
+        ([key]) => fieldName === undefined || key === fieldName
+      );
+      for (const [, field] of selected) {
+        field.touched.set(true);
+      }
+      await Promise.all(selected.map(([, field]) => runAsyncRules(name, field, fields)));
+      return selected.every(([, field]) => getFieldError(field) === null);
+    },
+
+    resetForm(name: string): void {
+      const fields = forms.get(name);
+      if (!fields) return;
+      for (const field of fields.values()) {
+        const { target, path } = field.definition;
+        const initial = cloneValue(field.initial);
+        if (path) {
+          store.setPath(target, path, initial);
+        } else {
+          store.set(target, initial);
+        }
+        field.touched.set(false);
+        field.asyncResult.set(undefined);
+      }
+    },
+  });
+
+  for (const [formName, form] of Object.entries(definitions)) {
+    const fields = new Map<string, FieldState>();
+    for (const [fieldName, definition] of Object.entries(form.fields)) {
+      const field: FieldState = {
+        definition,
+        initial: cloneValue(readValue(definition)),
+        touched: createSignal(false),
+        asyncResult: createSignal<{ value: unknown; error: string | null } | undefined>(undefined),
+        syncError: createComputed(() => {
+          const value = readValue(definition);
+          for (const rule of definition.rules) {
+            if (!checkRule(rule, value, fields)) return getMessage(formName, rule);
+          }
+          return null;
+        }),
+      };
+      fields.set(fieldName, field);
+    }
+    forms.set(formName, fields);
+    formViews.set(formName, createFormView(fields));
+  }
+
+  return store;
+}
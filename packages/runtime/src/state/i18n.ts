@@ -0,0 +1,70 @@
+/**
+ * I18n - Message translation for t expressions
+ *
+ * The current locale is the `locale` state field. t expressions read it on
+ * every evaluation, so setting the state re-renders translated text.
+ * A locale selected by the route (i18n.localeParam) wins over the initial
+ * value, and locale changes are written back to i18n.localeCookie.
+ */
+
+import type { CompiledI18n } from '@constela/compiler';
+import { LOCALE_STATE, createTranslator, getRouteLocale, resolveMessageCatalogs } from '@constela/core';
+import type { EvaluationContext } from '../expression/evaluator.js';
+import { extendStateStore, type StateStore } from './store.js';
+
+export type I18nOptions = Pick<EvaluationContext, 'imports' | 'route'>;
+
+/**
+ * StateStore exposing translate(), with a dispose() stopping the locale cookie sync
+ */
+export interface I18nStateStore extends StateStore {
+  translate(key: string, params: Record<string, unknown>): string;
+  dispose(): void;
+}
+
+function writeLocaleCookie(key: string, locale: unknown): void {
+  if (typeof document === 'undefined' || typeof locale !== 'string') return;
+  const oneYear = 365 * 24 * 60 * 60;
+  const secure = typeof location !== 'undefined' && location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${key}=${encodeURIComponent(locale)}; path=/; max-age=${oneYear}; SameSite=Lax${secure}`;
+}
+
+/**
+ * Creates a StateStore that translates messages for the current locale.
+ *
+ * @param state - The underlying state store, holding the locale state
+ * @param config - The compiled i18n configuration
+ * @param options - Imports for imported catalogs and the route selecting the locale
+ * @returns A StateStore delegating to `state` with translation support
+ */
+export function createI18nStateStore(
+  state: StateStore,
+  config: CompiledI18n,
+  options: I18nOptions = {}
+): I18nStateStore {
+  const catalogs = resolveMessageCatalogs(config.messages, options.imports);
+  const translator = createTranslator(config.defaultLocale, catalogs, () => state.get(LOCALE_STATE));
+  const cleanups: (() => void)[] = [];
+
+  const routeLocale = getRouteLocale(config, options.route?.params);
+  if (routeLocale !== undefined && state.get(LOCALE_STATE) !== routeLocale) {
+    state.set(LOCALE_STATE, routeLocale);
+  }
+
+  const { localeCookie } = config;
+  if (localeCookie) {
+    cleanups.push(state.subscribe(LOCALE_STATE, (locale) => writeLocaleCookie(localeCookie, locale)));
+  }
+
+  return extendStateStore(state, {
+    translate(key: string, params: Record<string, unknown>): string {
+      return translator.translate(key, params);
+    },
+
+    dispose(): void {
+      for (const cleanup of cleanups) {
+        cleanup();
+      }
+    },
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Query Sync - Two-way binding between state fields and the URL query
+ *
+ * Fields declaring `syncQuery` are initialized from `location.search`,
+ * write their value back via history.pushState/replaceState on change,
+ * and follow the URL again on popstate (back/forward navigation).
+ */
+
+import { parseQueryValue, serializeQueryValue, type StateSyncQuery } from '@constela/core';
+import type { StateStore, StateDefinition } from './store.js';
+
+interface SyncedField {
+  name: string;
+  type: string;
+  initial: unknown;
+  syncQuery: StateSyncQuery;
+}
+
+/**
+ * Reads a synced field value from the current URL
+ * @returns The parsed value wrapped in an object, or undefined if the param is absent or invalid
+ */
+function readQueryValue(field: SyncedField): { value: unknown } | undefined {
+  const raw = new URLSearchParams(window.location.search).get(field.syncQuery.param);
+  if (raw === null) return undefined;
+  return parseQueryValue(field.type, raw);
+}
+
+/**
+ * Writes a synced field value to the URL.
+ * The param is removed when the value equals the declared initial value,
+ * and history is left untouched when the URL already reflects the value.
+ */
+function writeQueryValue(field: SyncedField, value: unknown): void {
+  const params = new URLSearchParams(window.location.search);
+  const current = params.toString();
+  if (value === field.initial || value === null || value === undefined) {
+    params.delete(field.syncQuery.param);
+  } else {
+    params.set(field.syncQuery.param, serializeQueryValue(value));
+  }
+  const next = params.toString();
+  if (next === current) return;
+
+  const url = `${window.location.pathname}${next ? `?${next}` : ''}${window.location.hash}`;
+  if (field.syncQuery.mode === 'replace') {
+    window.history.replaceState(window.history.state, '', url);
+  } else {
+    window.history.pushState(window.history.state, '', url);
+  }
+}
+
+/**
+ * Binds state fields declaring `syncQuery` to `location.search`.
+ *
+ * Must be called before the initial render so the view reflects the URL.
+ *
+ * @param state - The state store to bind
+ * @param definitions - State definitions of the program
+ * @returns Cleanup function removing all subscriptions and listeners
+ */
+export function bindQuerySync(
+  state: StateStore,
+  definitions: Record<string, StateDefinition>
+): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const fields: SyncedField[] = [];
+  for (const [name, def] of Object.entries(definitions)) {
+    if (def.syncQuery) {
+      fields.push({ name, type: def.type, initial: def.initial, syncQuery: def.syncQuery });
+    }
+  }
+  if (fields.length === 0) return () => {};
+
+  // Initialize from the URL (absent params keep the current value)
+  for (const field of fields) {
+    const fromUrl = readQueryValue(field);
+    if (fromUrl && fromUrl.value !== state.get(field.name)) {
+      state.set(field.name, fromUrl.value);
+    }
+  }
+
+  // Write back on every change
+  const unsubscribes = fields.map((field) =>
+    state.subscribe(field.name, (value) => writeQueryValue(field, value))
+  );
+
+  // Follow the URL on back/forward navigation (absent params reset to initial)
+  const handlePopState = (): void => {
+    for (const field of fields) {
+      const value = readQueryValue(field)?.value ?? field.initial;
+      if (value !== state.get(field.name)) {
+        state.set(field.name, value);
+      }
+    }
+  };
+  window.addEventListener('popstate', handlePopState);
+
+  return () => {
+    for (const unsubscribe of unsubscribes) {
+      unsubscribe();
+    }
+    window.removeEventListener('popstate', handlePopState);
+  };
+}
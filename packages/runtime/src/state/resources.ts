@@ -0,0 +1,225 @@
+/**
+ * Resources - Declarative data fetching with a shared cache
+ *
+ * Each resource evaluates its URL expression in an effect, so it is
+ * refetched whenever the state it depends on changes. Responses are cached
+ * per URL in a module-level cache shared by every app, component and island
+ * on the page: readers of the same URL see the same data, concurrent
+ * requests are deduplicated, and invalidating a resource updates all of them.
+ * Data prefetched during SSR (or carried over a hot update) seeds the cache
+ * so hydration does not refetch.
+ */
+
+import type { CompiledResource, CompiledResourceSnapshot } from '@constela/compiler';
+import { createSignal, disableTracking, enableTracking, type Signal } from '../reactive/signal.js';
+import { createEffect } from '../reactive/effect.js';
+import { evaluate, type EvaluationContext } from '../expression/evaluator.js';
+import { extendStateStore, type StateStore } from './store.js';
+
+// ==================== Shared Cache ====================
+
+/**
+ * Cached state of a single URL
+ */
+interface ResourceEntry {
+  data: Signal<unknown>;
+  error: Signal<unknown>;
+  loading: Signal<boolean>;
+  /** Time of the last successful fetch (0 when never fetched) */
+  updatedAt: number;
+  /** In-flight request, shared when deduplicating */
+  request: Promise<void> | undefined;
+  /** Incremented per request so that superseded responses are ignored */
+  version: number;
+}
+
+const cache = new Map<string, ResourceEntry>();
+
+function getEntry(key: string): ResourceEntry {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = {
+      data: createSignal<unknown>(undefined),
+      error: createSignal<unknown>(null),
+      loading: createSignal(false),
+      updatedAt: 0,
+      request: undefined,
+      version: 0,
+    };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Fetches a URL into the cache.
+ * Cached data is kept while revalidating and when the request fails.
+ *
+ * @param key - The resolved URL
+ * @param dedupe - Reuse an in-flight request for the same URL instead of starting a new one
+ */
+function revalidate(key: string, dedupe: boolean): Promise<void> {
+  const entry = getEntry(key);
+  if (dedupe && entry.request) return entry.request;
+
+  const version = ++entry.version;
+  entry.loading.set(true);
+
+  const request = (async (): Promise<void> => {
+    try {
+      const response = await fetch(key);
+      if (!response.ok) {
+        if (version !== entry.version) return;
+        entry.error.set({
+          message: `HTTP error: ${response.status} ${response.statusText}`,
+          name: 'HTTPError',
+          status: response.status,
+        });
+        return;
+      }
+      const data: unknown = await response.json();
+      if (version !== entry.version) return;
+      entry.updatedAt = Date.now();
+      entry.data.set(data);
+      entry.error.set(null);
+    } catch (err) {
+      if (version !== entry.version) return;
+      entry.error.set({
+        message: err instanceof Error ? err.message : String(err),
+        name: err instanceof Error ? err.name : 'Error',
+      });
+    } finally {
+      if (version === entry.version) {
+        entry.request = undefined;
+        entry.loading.set(false);
+      }
+    }
+  })();
+
+  entry.request = request;
+  return request;
+}
+
+// ==================== Resource State Store ====================
+
+export type ResourceEvaluationOptions = Omit<EvaluationContext, 'state' | 'locals'> & {
+  /** Data prefetched during SSR, used instead of the first fetch when the URL matches */
+  initialData?: Record<string, CompiledResourceSnapshot>;
+};
+
+/**
+ * StateStore exposing resources, with a dispose() stopping their effects and timers
+ */
+export interface ResourceStateStore extends StateStore {
+  /** Loaded data of each resource, usable as initialData of a replacing store */
+  snapshotResources(): Record<string, CompiledResourceSnapshot>;
+  dispose(): void;
+}
+
+/**
+ * Creates a StateStore that exposes the given resources via getResource()
+ * and refetches them via invalidateResource().
+ *
+ * Resources start loading immediately; a URL evaluating to null, undefined
+ * or an empty string leaves the resource idle (e.g. until a dependency is set).
+ *
+ * @param state - The underlying state store
+ * @param definitions - Compiled resources keyed by name
+ * @param options - Route, imports and styles for URL expressions, and SSR data
+ * @returns A StateStore delegating to `state` with resource support
+ */
+export function createResourceStateStore(
+  state: StateStore,
+  definitions: Record<string, CompiledResource>,
+  options: ResourceEvaluationOptions = {}
+): ResourceStateStore {
+  const { initialData, ...evaluationOptions } = options;
+  const keys = new Map<string, Signal<string | undefined>>();
+  const currentKeys = new Map<string, string | undefined>();
+  const cleanups: (() => void)[] = [];
+
+  const store: ResourceStateStore = extendStateStore(state, {
+    getResource(name: string): unknown {
+      const key = keys.get(name)?.get();
+      if (key === undefined) {
+        return keys.has(name) ? { data: undefined, error: null, loading: false } : undefined;
+      }
+      const entry = getEntry(key);
+      return { data: entry.data.get(), error: entry.error.get(), loading: entry.loading.get() };
+    },
+
+    async invalidateResource(name: string): Promise<void> {
+      const key = currentKeys.get(name);
+      // A new request replaces any in-flight one, which may predate a mutation
+      if (key !== undefined) await revalidate(key, false);
+    },
+
+    snapshotResources(): Record<string, CompiledResourceSnapshot> {
+      const snapshots: Record<string, CompiledResourceSnapshot> = {};
+      for (const [name, key] of currentKeys) {
+        const entry = key === undefined ? undefined : cache.get(key);
+        if (key !== undefined && entry && entry.updatedAt > 0) {
+          snapshots[name] = { key, data: entry.data.get() };
+        }
+      }
+      return snapshots;
+    },
+
+    dispose(): void {
+      for (const cleanup of cleanups) {
+        cleanup();
+      }
+    },
+  });
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const keySignal = createSignal<string | undefined>(undefined);
+    keys.set(name, keySignal);
+    const dedupe = definition.dedupe ?? true;
+    let snapshot = initialData?.[name];
+
+    cleanups.push(
+      createEffect(() => {
+        const url = evaluate(definition.url, { ...evaluationOptions, state: store, locals: {} });
+        const key = url === undefined || url === null || url === '' ? undefined : String(url);
+        if (currentKeys.has(name) && key === currentKeys.get(name)) return;
+        currentKeys.set(name, key);
+
+        // Fetching must not become a dependency of the URL effect
+        disableTracking();
+        try {
+          keySignal.set(key);
+          if (key === undefined) return;
+
+          const entry = getEntry(key);
+          // Initial data for this URL replaces the first fetch (keeping newer cached data)
+          if (snapshot && snapshot.key === key) {
+            if (entry.updatedAt === 0) {
+              entry.updatedAt = Date.now();
+              entry.data.set(snapshot.data);
+            }
+            snapshot = undefined;
+            return;
+          }
+          snapshot = undefined;
+          const staleTime = definition.staleTime ?? 0;
+          if (entry.updatedAt === 0 || Date.now() - entry.updatedAt >= staleTime) {
+            void revalidate(key, dedupe);
+          }
+        } finally {
+          enableTracking();
+        }
+      })
+    );
+
+    if (definition.refreshInterval !== undefined && definition.refreshInterval > 0) {
+      const timerId = setInterval(() => {
+        const key = currentKeys.get(name);
+        if (key !== undefined) void revalidate(key, dedupe);
+      }, definition.refreshInterval);
+      cleanups.push(() => clearInterval(timerId));
+    }
+  }
+
+  return store;
+}
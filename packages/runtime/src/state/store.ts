@@ -6,7 +6,14 @@
  */
 
 import { createSignal, type Signal } from '../reactive/signal.js';
-import { isCookieInitialExpr } from '@constela/core';
+import {
+  isCookieInitialExpr,
+  getPersistKey,
+  serializePersistedValue,
+  parsePersistedValue,
+  type StatePersist,
+  type StateSyncQuery,
+} from '@constela/core';
 
 export interface StateStore {
   get(name: string): unknown;
@@ -21,12 +28,21 @@ export interface StateStore {
   ): () => void;
   serialize(): Record<string, unknown>;
   restore(snapshot: Record<string, unknown>, newDefinitions: StateDefinition[]): void;
+  getComputed?(name: string): unknown;
+  getResource?(name: string): unknown;
+  invalidateResource?(name: string): Promise<void>;
+  getForm?(name: string): unknown;
+  validateForm?(name: string, field?: string): Promise<boolean>;
+  resetForm?(name: string): void;
+  translate?(key: string, params: Record<string, unknown>): string;
 }
 
 export interface StateDefinition {
   name?: string;
   type: string;
   initial: unknown;
+  persist?: StatePersist;
+  syncQuery?: StateSyncQuery;
 }
 
 /**
@@ -138,6 +154,59 @@ function getCookieValue(key: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Get the Web Storage backing a persisted field
+ * Returns null when storage is unavailable (SSR, private browsing, etc.)
+ */
+function getPersistStorage(storage: 'local' | 'session'): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return storage === 'local' ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a persisted state value
+ * @returns The stored value wrapped in an object, or undefined if nothing valid is stored
+ */
+function readPersistedValue(name: string, persist: StatePersist): { value: unknown } | undefined {
+  const key = getPersistKey(name, persist);
+  let raw: string | null | undefined;
+  if (persist.storage === 'cookie') {
+    raw = getCookieValue(key);
+  } else {
+    try {
+      raw = getPersistStorage(persist.storage)?.getItem(key);
+    } catch {
+      raw = undefined;
+    }
+  }
+  if (raw === null || raw === undefined) return undefined;
+  return parsePersistedValue(raw, persist);
+}
+
+/**
+ * Write a state value to its persistent storage
+ */
+function writePersistedValue(name: string, persist: StatePersist, value: unknown): void {
+  const key = getPersistKey(name, persist);
+  const raw = serializePersistedValue(value, persist);
+  try {
+    if (persist.storage === 'cookie') {
+      if (typeof document === 'undefined') return;
+      const oneYear = 365 * 24 * 60 * 60;
+      const secure = typeof location !== 'undefined' && location.protocol === 'https:' ? '; Secure' : '';
+      document.cookie = `${key}=${encodeURIComponent(raw)}; path=/; max-age=${oneYear}; SameSite=Lax${secure}`;
+    } else {
+      getPersistStorage(persist.storage)?.setItem(key, raw);
+    }
+  } catch {
+    // Ignore storage errors (quota exceeded, private browsing, etc.)
+  }
+}
+
 export function createStateStore(
   definitions: Record<string, StateDefinition>
 ): StateStore {
@@ -173,7 +242,22 @@ export function createStateStore(
       }
     }
 
-    signals.set(name, createSignal(initialValue));
+    // Restore persisted value (a version mismatch falls back to the initial value)
+    const persist = def.persist;
+    if (persist) {
+      const stored = readPersistedValue(name, persist);
+      if (stored) {
+        initialValue = stored.value;
+      }
+    }
+
+    const signal = createSignal(initialValue);
+    signals.set(name, signal);
+
+    // Write back on every change
+    if (persist) {
+      signal.subscribe!((value) => writePersistedValue(name, persist, value));
+    }
   }
 
   return {
@@ -303,6 +387,22 @@ export function createStateStore(
   };
 }
 
+/**
+ * Creates a StateStore that adds or overrides methods of another store.
+ * Methods not in the extension delegate to `state`, so wrappers only
+ * declare what they change.
+ *
+ * @param state - The store to extend
+ * @param extension - Methods added to or replacing those of `state`
+ * @returns A StateStore combining `state` and `extension`
+ */
+export function extendStateStore<T extends object>(
+  state: StateStore,
+  extension: T & Partial<StateStore>
+): StateStore & NoInfer<T> {
+  return { ...state, ...extension };
+}
+
 /**
  * Check if two values have the same type for restoration purposes
  * - null is considered compatible with object types (nullable objects)
@@ -0,0 +1,124 @@
+/**
+ * Test module for match node hydration.
+ *
+ * Coverage:
+ * - Hydrates the SSR-rendered case without replacing DOM
+ * - Replaces DOM when the SSR branch differs from the client branch
+ * - Renders a branch when SSR rendered nothing
+ * - Switches branches reactively after hydration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { CompiledProgram } from '@constela/compiler';
+import { hydrateApp } from '../src/hydrate.js';
+
+describe('hydrate match node', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.id = 'app';
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // ==================== Helper ====================
+
+  function createProgram(status: string): CompiledProgram {
+    return {
+      version: '1.0',
+      state: { status: { type: 'string', initial: status } },
+      actions: {
+        fail: {
+          name: 'fail',
+          steps: [{ do: 'set', target: 'status', value: { expr: 'lit', value: 'error' } }],
+        },
+      },
+      view: {
+        kind: 'element',
+        tag: 'div',
+        children: [
+          {
+            kind: 'match',
+            value: { expr: 'state', name: 'status' },
+            cases: {
+              loading: {
+                kind: 'element',
+                tag: 'button',
+                props: {
+                  id: { expr: 'lit', value: 'loading' },
+                  onClick: { event: 'click', action: 'fail' },
+                },
+              },
+              error: {
+                kind: 'element',
+                tag: 'span',
+                props: { id: { expr: 'lit', value: 'error' } },
+              },
+            },
+          },
+          { kind: 'element', tag: 'footer' },
+        ],
+      },
+    };
+  }
+
+  // ==================== Tests ====================
+
+  it('should hydrate the SSR case and attach its event handlers', async () => {
+    // Arrange
+    container.innerHTML = '<div><!--match:case:loading--><button id="loading"></button><footer></footer></div>';
+    const ssrButton = container.querySelector('#loading');
+
+    // Act
+    hydrateApp({ program: createProgram('loading'), container });
+    (container.querySelector('#loading') as HTMLElement).click();
+    await Promise.resolve();
+
+    // Assert
+    expect(container.querySelector('#loading')).toBeNull();
+    expect(ssrButton?.isConnected).toBe(false);
+    expect(container.querySelector('#error')).not.toBeNull();
+    expect(container.querySelector('#error')?.nextElementSibling?.tagName).toBe('FOOTER');
+  });
+
+  it('should replace DOM when SSR and client select different cases', () => {
+    // Arrange
+    container.innerHTML = '<div><!--match:case:loading--><button id="loading"></button><footer></footer></div>';
+
+    // Act
+    hydrateApp({ program: createProgram('error'), container });
+
+    // Assert
+    expect(container.querySelector('#loading')).toBeNull();
+    expect(container.querySelector('#error')).not.toBeNull();
+  });
+
+  it('should render the client case when SSR rendered nothing', () => {
+    // Arrange
+    container.innerHTML = '<div><!--match:none--><footer></footer></div>';
+
+    // Act
+    hydrateApp({ program: createProgram('error'), container });
+
+    // Assert
+    expect(container.querySelector('#error')?.nextElementSibling?.tagName).toBe('FOOTER');
+  });
+
+  it('should remove SSR content when the client selects no case', () => {
+    // Arrange
+    container.innerHTML = '<div><!--match:case:error--><span id="error"></span><footer></footer></div>';
+
+    // Act
+    hydrateApp({ program: createProgram('done'), container });
+
+    // Assert
+    expect(container.querySelector('#error')).toBeNull();
+    expect(container.querySelector('footer')).not.toBeNull();
+  });
+});
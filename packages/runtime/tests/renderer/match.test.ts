@@ -0,0 +1,170 @@
+/**
+ * Test module for Match Node Rendering.
+ *
+ * Coverage:
+ * - match node renders the case selected by its value
+ * - match node falls back to default, or renders nothing
+ * - match node switches branches on state change and cleans up old branches
+ * - match node applies transitions when switching branches
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render } from '../../src/renderer/index.js';
+import type { RenderContext } from '../../src/renderer/index.js';
+import { createStateStore } from '../../src/state/store.js';
+import type { CompiledMatchNode } from '@constela/compiler';
+
+describe('render match node', () => {
+  // ==================== Setup ====================
+
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.useRealTimers();
+  });
+
+  // ==================== Helpers ====================
+
+  function createContext(initial: unknown): RenderContext {
+    return {
+      state: createStateStore({ status: { type: 'string', initial } }),
+      actions: {},
+      locals: {},
+      cleanups: [],
+    };
+  }
+
+  function createStatusNode(overrides: Partial<CompiledMatchNode> = {}): CompiledMatchNode {
+    return {
+      kind: 'match',
+      value: { expr: 'state', name: 'status' },
+      cases: {
+        loading: {
+          kind: 'element',
+          tag: 'p',
+          props: { className: { expr: 'lit', value: 'loading' } },
+          children: [{ kind: 'text', value: { expr: 'lit', value: 'Loading...' } }],
+        },
+        error: {
+          kind: 'element',
+          tag: 'p',
+          props: { className: { expr: 'lit', value: 'error' } },
+          children: [{ kind: 'text', value: { expr: 'lit', value: 'Failed' } }],
+        },
+      },
+      default: {
+        kind: 'element',
+        tag: 'p',
+        props: { className: { expr: 'lit', value: 'default' } },
+      },
+      ...overrides,
+    };
+  }
+
+  // ==================== Case Selection ====================
+
+  describe('case selection', () => {
+    it('should render the case matching the value', () => {
+      // Arrange
+      const ctx = createContext('loading');
+
+      // Act
+      container.appendChild(render(createStatusNode(), ctx));
+
+      // Assert
+      expect(container.querySelector('.loading')?.textContent).toBe('Loading...');
+      expect(container.querySelector('.default')).toBeNull();
+    });
+
+    it('should render default when no case matches', () => {
+      // Arrange
+      const ctx = createContext('done');
+
+      // Act
+      container.appendChild(render(createStatusNode(), ctx));
+
+      // Assert
+      expect(container.querySelector('.default')).not.toBeNull();
+    });
+
+    it('should render nothing when no case matches and there is no default', () => {
+      // Arrange
+      const node = createStatusNode();
+      delete node.default;
+      const ctx = createContext('done');
+
+      // Act
+      container.appendChild(render(node, ctx));
+
+      // Assert
+      expect(container.querySelector('p')).toBeNull();
+    });
+  });
+
+  // ==================== Reactivity ====================
+
+  describe('reactivity', () => {
+    it('should switch branches when the value changes', () => {
+      // Arrange
+      const ctx = createContext('loading');
+      container.appendChild(render(createStatusNode(), ctx));
+
+      // Act
+      ctx.state.set('status', 'error');
+
+      // Assert
+      expect(container.querySelector('.loading')).toBeNull();
+      expect(container.querySelector('.error')?.textContent).toBe('Failed');
+
+      // Act
+      ctx.state.set('status', 'idle');
+
+      // Assert
+      expect(container.querySelector('.error')).toBeNull();
+      expect(container.querySelector('.default')).not.toBeNull();
+    });
+
+    it('should not re-render when the value changes within the same branch', () => {
+      // Arrange
+      const ctx = createContext('idle');
+      container.appendChild(render(createStatusNode(), ctx));
+      const initial = container.querySelector('.default');
+
+      // Act
+      ctx.state.set('status', 'done');
+
+      // Assert
+      expect(container.querySelector('.default')).toBe(initial);
+    });
+
+    it('should apply exit and enter transitions when switching branches', () => {
+      // Arrange
+      vi.useFakeTimers();
+      const ctx = createContext('loading');
+      const node = createStatusNode({
+        transition: {
+          enter: 'fade-enter',
+          enterActive: 'fade-enter-active',
+          exit: 'fade-exit',
+          exitActive: 'fade-exit-active',
+          duration: 100,
+        },
+      });
+      container.appendChild(render(node, ctx));
+      const loading = container.querySelector('.loading') as HTMLElement;
+
+      // Act
+      ctx.state.set('status', 'error');
+
+      // Assert
+      expect(loading.classList.contains('fade-exit')).toBe(true);
+      expect(container.querySelector('.error')?.classList.contains('fade-enter')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Test module for SSR rendering of computed values.
+ *
+ * Coverage:
+ * - renderToString evaluates program computed values
+ * - Computed values depending on other computed values
+ * - Computed values respect state overrides
+ * - Component computed values read local state and program computed values
+ * - renderToStream evaluates program computed values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(view: CompiledProgram['view']): CompiledProgram {
+  return {
+    version: '1.0',
+    state: { count: { type: 'number', initial: 2 } },
+    computed: {
+      doubled: {
+        expr: 'bin',
+        op: '*',
+        left: { expr: 'state', name: 'count' },
+        right: { expr: 'lit', value: 2 },
+      },
+      label: {
+        expr: 'concat',
+        items: [{ expr: 'lit', value: 'Doubled: ' }, { expr: 'computed', name: 'doubled' }],
+      },
+    },
+    actions: {},
+    view,
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR computed values', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should render a computed value', async () => {
+      // Arrange
+      const program = createProgram({ kind: 'text', value: { expr: 'computed', name: 'doubled' } });
+
+      // Act
+      const result = await renderToString(program);
+
+      // Assert
+      expect(result).toBe('4');
+    });
+
+    it('should render a computed value depending on another computed value', async () => {
+      // Arrange
+      const program = createProgram({ kind: 'text', value: { expr: 'computed', name: 'label' } });
+
+      // Act
+      const result = await renderToString(program);
+
+      // Assert
+      expect(result).toBe('Doubled: 4');
+    });
+
+    it('should evaluate computed values against state overrides', async () => {
+      // Arrange
+      const program = createProgram({ kind: 'text', value: { expr: 'computed', name: 'doubled' } });
+
+      // Act
+      const result = await renderToString(program, { stateOverrides: { count: 5 } });
+
+      // Assert
+      expect(result).toBe('10');
+    });
+
+    it('should render component computed values per instance', async () => {
+      // Arrange
+      const createCounter = (start: number): CompiledProgram['view'] => ({
+        kind: 'localState',
+        state: { start: { type: 'number', initial: start } },
+        actions: {},
+        computed: {
+          'Counter:total': {
+            expr: 'bin',
+            op: '+',
+            left: { expr: 'local', name: 'start' },
+            right: { expr: 'computed', name: 'doubled' },
+          },
+        },
+        child: { kind: 'text', value: { expr: 'computed', name: 'Counter:total' } },
+      });
+      const program = createProgram({
+        kind: 'element',
+        tag: 'p',
+        children: [createCounter(1), createCounter(10)],
+      });
+
+      // Act
+      const result = await renderToString(program);
+
+      // Assert
+      expect(result).toBe('<p>514</p>');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should render a computed value', async () => {
+      // Arrange
+      const program = createProgram({ kind: 'text', value: { expr: 'computed', name: 'label' } });
+
+      // Act
+      const result = await streamToString(
+        renderToStream(program, { streaming: true, flushStrategy: 'immediate' })
+      );
+
+      // Assert
+      expect(result).toBe('Doubled: 4');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Test module for SSR rendering of provided context.
+ *
+ * Coverage:
+ * - renderToString exposes element provide values to descendants only
+ * - Nested providers shadow outer values of the same name
+ * - Component provide values are evaluated in the parent's scope
+ * - renderToStream renders context expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledNode, CompiledProgram } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(view: CompiledNode): CompiledProgram {
+  return {
+    version: '1.0',
+    state: { theme: { type: 'string', initial: 'dark' } },
+    actions: {},
+    view,
+  };
+}
+
+/**
+ * Creates a section providing the theme state and size, with a nested provider
+ */
+function createNestedProviders(): CompiledNode {
+  return {
+    kind: 'element',
+    tag: 'section',
+    props: { class: { expr: 'context', name: 'theme' } },
+    provide: {
+      theme: { expr: 'state', name: 'theme' },
+      size: { expr: 'lit', value: { name: 'large' } },
+    },
+    children: [
+      { kind: 'text', value: { expr: 'context', name: 'theme' } },
+      {
+        kind: 'element',
+        tag: 'p',
+        provide: { theme: { expr: 'lit', value: 'light' } },
+        children: [
+          { kind: 'text', value: { expr: 'context', name: 'theme' } },
+          { kind: 'text', value: { expr: 'context', name: 'size', path: 'name' } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR context', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should expose provided values to descendants only', async () => {
+      const html = await renderToString(createProgram(createNestedProviders()));
+
+      expect(html).toBe('<section>dark<p>lightlarge</p></section>');
+    });
+
+    it('should evaluate component provide values in the parent scope', async () => {
+      const html = await renderToString(
+        createProgram({
+          kind: 'each',
+          items: { expr: 'lit', value: ['parent'] },
+          as: 'label',
+          body: {
+            kind: 'localState',
+            state: { label: { type: 'string', initial: 'child' } },
+            actions: {},
+            provide: { label: { expr: 'var', name: 'label' } },
+            child: {
+              kind: 'element',
+              tag: 'span',
+              children: [
+                { kind: 'text', value: { expr: 'context', name: 'label' } },
+                { kind: 'text', value: { expr: 'var', name: 'label' } },
+              ],
+            },
+          },
+        })
+      );
+
+      expect(html).toBe('<span>parentchild</span>');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should expose provided values to descendants only', async () => {
+      const stream = renderToStream(createProgram(createNestedProviders()), {
+        streaming: true,
+        flushStrategy: 'immediate',
+      });
+
+      expect(await streamToString(stream)).toBe('<section>dark<p>lightlarge</p></section>');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Test module for SSR rendering of translated messages.
+ *
+ * Coverage:
+ * - renderToString translates with the default locale and imported catalogs
+ * - The locale is read from the cookie and from the route param
+ * - State overrides take precedence over the route locale
+ * - renderToStream translates messages
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(): CompiledProgram {
+  return {
+    version: '1.0',
+    state: {
+      locale: { type: 'string', initial: { expr: 'cookie', key: 'lang', default: 'en' } },
+      count: { type: 'number', initial: 3 },
+    },
+    i18n: {
+      defaultLocale: 'en',
+      localeParam: 'lang',
+      localeCookie: 'lang',
+      messages: {
+        en: { items: '{count, plural, one {# item} other {# items}}' },
+        ja: { expr: 'import', name: 'ja' },
+      },
+    },
+    importData: { ja: { items: '{count}個' } },
+    actions: {},
+    view: {
+      kind: 'text',
+      value: { expr: 't', key: 'items', params: { count: { expr: 'state', name: 'count' } } },
+    },
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR i18n', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should translate with the default locale', async () => {
+      expect(await renderToString(createProgram())).toBe('3 items');
+    });
+
+    it('should read the locale from the cookie and the route param', async () => {
+      const program = createProgram();
+
+      expect(await renderToString(program, { cookies: { lang: 'ja' } })).toBe('3個');
+      expect(await renderToString(program, { route: { params: { lang: 'ja' } } })).toBe('3個');
+      expect(await renderToString(program, { route: { params: { lang: 'de' } } })).toBe('3 items');
+    });
+
+    it('should keep an overridden locale', async () => {
+      const html = await renderToString(createProgram(), {
+        route: { params: { lang: 'ja' } },
+        stateOverrides: { locale: 'en' },
+      });
+
+      expect(html).toBe('3 items');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should translate with the route locale', async () => {
+      const stream = renderToStream(
+        createProgram(),
+        { streaming: true, flushStrategy: 'immediate' },
+        { route: { params: { lang: 'ja' } } }
+      );
+
+      expect(await streamToString(stream)).toBe('3個');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Test module for SSR rendering of match nodes.
+ *
+ * Coverage:
+ * - renderToString renders the matching case with a branch marker
+ * - renderToString falls back to default or a none marker
+ * - Case keys are encoded in the marker
+ * - renderToStream renders match nodes with the same markers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram, CompiledMatchNode } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(status: unknown, withDefault = true): CompiledProgram {
+  const view: CompiledMatchNode = {
+    kind: 'match',
+    value: { expr: 'state', name: 'status' },
+    cases: {
+      loading: { kind: 'text', value: { expr: 'lit', value: 'Loading' } },
+      'in progress': { kind: 'text', value: { expr: 'lit', value: 'Working' } },
+      '2': { kind: 'text', value: { expr: 'lit', value: 'Two' } },
+    },
+  };
+  if (withDefault) {
+    view.default = { kind: 'text', value: { expr: 'lit', value: 'Idle' } };
+  }
+  return {
+    version: '1.0',
+    state: { status: { type: 'string', initial: status } },
+    actions: {},
+    view,
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR match nodes', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should render the matching case with a marker', async () => {
+      // Arrange & Act
+      const result = await renderToString(createProgram('loading'));
+
+      // Assert
+      expect(result).toBe('<!--match:case:loading-->Loading');
+    });
+
+    it('should match numeric values against literal keys', async () => {
+      // Arrange & Act
+      const result = await renderToString(createProgram(2));
+
+      // Assert
+      expect(result).toBe('<!--match:case:2-->Two');
+    });
+
+    it('should encode case keys in the marker', async () => {
+      // Arrange & Act
+      const result = await renderToString(createProgram('in progress'));
+
+      // Assert
+      expect(result).toBe('<!--match:case:in%20progress-->Working');
+    });
+
+    it('should render default when no case matches', async () => {
+      // Arrange & Act
+      const result = await renderToString(createProgram('done'));
+
+      // Assert
+      expect(result).toBe('<!--match:default-->Idle');
+    });
+
+    it('should render a none marker without default', async () => {
+      // Arrange & Act
+      const result = await renderToString(createProgram('done', false));
+
+      // Assert
+      expect(result).toBe('<!--match:none-->');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should render the matching case with a marker', async () => {
+      // Arrange & Act
+      const result = await streamToString(
+        renderToStream(createProgram('loading'), { streaming: true, flushStrategy: 'immediate' })
+      );
+
+      // Assert
+      expect(result).toBe('<!--match:case:loading-->Loading');
+    });
+
+    it('should render default when no case matches', async () => {
+      // Arrange & Act
+      const result = await streamToString(
+        renderToStream(createProgram('done'), { streaming: true, flushStrategy: 'immediate' })
+      );
+
+      // Assert
+      expect(result).toBe('<!--match:default-->Idle');
+    });
+  });
+});
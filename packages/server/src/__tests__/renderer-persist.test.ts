@@ -0,0 +1,134 @@
+/**
+ * Test module for SSR rendering of persisted state.
+ *
+ * Coverage:
+ * - Cookie-persisted state is restored from request cookies
+ * - Custom persist keys are respected
+ * - Stale versions fall back to the initial value
+ * - stateOverrides take precedence over persisted values
+ * - renderToStream restores cookie-persisted state
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram } from '@constela/compiler';
+import type { StatePersist } from '@constela/core';
+
+// ==================== Helper Functions ====================
+
+function createProgram(persist: StatePersist): CompiledProgram {
+  return {
+    version: '1.0',
+    state: { sidebar: { type: 'string', initial: 'open', persist } },
+    actions: {},
+    view: { kind: 'text', value: { expr: 'state', name: 'sidebar' } },
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR persisted state', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should restore cookie-persisted state from request cookies', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'cookie' });
+
+      // Act
+      const result = await renderToString(program, {
+        cookies: { sidebar: JSON.stringify({ v: 0, value: 'closed' }) },
+      });
+
+      // Assert
+      expect(result).toBe('closed');
+    });
+
+    it('should read the cookie named by persist.key', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'cookie', key: 'ui:sidebar' });
+
+      // Act
+      const result = await renderToString(program, {
+        cookies: { 'ui:sidebar': JSON.stringify({ v: 0, value: 'closed' }) },
+      });
+
+      // Assert
+      expect(result).toBe('closed');
+    });
+
+    it('should fall back to initial when the stored version differs', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'cookie', version: 2 });
+
+      // Act
+      const result = await renderToString(program, {
+        cookies: { sidebar: JSON.stringify({ v: 1, value: 'closed' }) },
+      });
+
+      // Assert
+      expect(result).toBe('open');
+    });
+
+    it('should ignore non-cookie storage during SSR', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'local' });
+
+      // Act
+      const result = await renderToString(program, {
+        cookies: { sidebar: JSON.stringify({ v: 0, value: 'closed' }) },
+      });
+
+      // Assert
+      expect(result).toBe('open');
+    });
+
+    it('should prefer stateOverrides over persisted values', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'cookie' });
+
+      // Act
+      const result = await renderToString(program, {
+        cookies: { sidebar: JSON.stringify({ v: 0, value: 'closed' }) },
+        stateOverrides: { sidebar: 'pinned' },
+      });
+
+      // Assert
+      expect(result).toBe('pinned');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should restore cookie-persisted state from request cookies', async () => {
+      // Arrange
+      const program = createProgram({ storage: 'cookie' });
+
+      // Act
+      const result = await streamToString(
+        renderToStream(
+          program,
+          { streaming: true, flushStrategy: 'immediate' },
+          { cookies: { sidebar: JSON.stringify({ v: 0, value: 'closed' }) } }
+        )
+      );
+
+      // Assert
+      expect(result).toBe('closed');
+    });
+  });
+});
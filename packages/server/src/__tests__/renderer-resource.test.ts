@@ -0,0 +1,176 @@
+/**
+ * Test module for SSR rendering of resources.
+ *
+ * Coverage:
+ * - renderToString fetches resources, resolving URLs against baseUrl
+ * - renderToString uses prefetched resourceData without fetching
+ * - Failed resources render in their loading state
+ * - Requests exceeding resourceTimeout are aborted and left to the client
+ * - prefetchResources returns snapshots keyed by resource name
+ * - renderToStream renders resources
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderToString, prefetchResources } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(): CompiledProgram {
+  return {
+    version: '1.0',
+    state: { userId: { type: 'string', initial: '7' } },
+    resources: {
+      user: {
+        url: {
+          expr: 'concat',
+          items: [{ expr: 'lit', value: '/api/users/' }, { expr: 'state', name: 'userId' }],
+        },
+      },
+    },
+    actions: {},
+    view: {
+      kind: 'if',
+      condition: { expr: 'resource', name: 'user', field: 'loading' },
+      then: { kind: 'text', value: { expr: 'lit', value: 'Loading' } },
+      else: {
+        kind: 'text',
+        value: { expr: 'get', base: { expr: 'resource', name: 'user', field: 'data' }, path: 'name' },
+      },
+    },
+  } as CompiledProgram;
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR resources', () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should fetch resources relative to baseUrl', async () => {
+      // Arrange
+      const mockFetch = vi.fn(async () => new Response(JSON.stringify({ name: 'Ada' })));
+      globalThis.fetch = mockFetch;
+
+      // Act
+      const html = await renderToString(createProgram(), { baseUrl: 'http://localhost:3000/page' });
+
+      // Assert
+      expect(html).toContain('Ada');
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL('http://localhost:3000/api/users/7'),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('should use prefetched resourceData without fetching', async () => {
+      // Arrange
+      const mockFetch = vi.fn();
+      globalThis.fetch = mockFetch;
+      const program = {
+        ...createProgram(),
+        resourceData: { user: { key: '/api/users/7', data: { name: 'Grace' } } },
+      };
+
+      // Act
+      const html = await renderToString(program);
+
+      // Assert
+      expect(html).toContain('Grace');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should render failed resources as loading', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn(async () => new Response('', { status: 500 }));
+
+      // Act
+      const html = await renderToString(createProgram(), { baseUrl: 'http://localhost:3000' });
+
+      // Assert
+      expect(html).toContain('Loading');
+    });
+
+    it('should abort resources exceeding resourceTimeout and render them as loading', async () => {
+      // Arrange
+      let aborted = false;
+      globalThis.fetch = vi.fn(
+        (_url: string | URL | Request, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => {
+              aborted = true;
+              reject(init.signal?.reason);
+            });
+          })
+      );
+
+      // Act
+      const html = await renderToString(createProgram(), {
+        baseUrl: 'http://localhost:3000',
+        resourceTimeout: 10,
+      });
+
+      // Assert
+      expect(aborted).toBe(true);
+      expect(html).toContain('Loading');
+    });
+  });
+
+  // ==================== prefetchResources ====================
+
+  describe('prefetchResources', () => {
+    it('should return snapshots keyed by resource name', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn(async () => new Response(JSON.stringify({ name: 'Ada' })));
+
+      // Act
+      const data = await prefetchResources(createProgram(), {
+        baseUrl: 'http://localhost:3000',
+        stateOverrides: { userId: '9' },
+      });
+
+      // Assert
+      expect(data).toEqual({ user: { key: '/api/users/9', data: { name: 'Ada' } } });
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should render fetched resources', async () => {
+      // Arrange
+      globalThis.fetch = vi.fn(async () => new Response(JSON.stringify({ name: 'Ada' })));
+
+      // Act
+      const html = await streamToString(
+        renderToStream(createProgram(), { streaming: true, flushStrategy: 'immediate' }, { baseUrl: 'http://localhost:3000' })
+      );
+
+      // Assert
+      expect(html).toContain('Ada');
+    });
+  });
+});
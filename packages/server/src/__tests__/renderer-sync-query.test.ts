@@ -0,0 +1,88 @@
+/**
+ * Test module for SSR rendering of query-synced state.
+ *
+ * Coverage:
+ * - syncQuery fields are initialized from the route query
+ * - Invalid params fall back to the initial value
+ * - renderToStream initializes syncQuery fields from the route query
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToString } from '../renderer.js';
+import { renderToStream } from '../streaming.js';
+import type { CompiledProgram } from '@constela/compiler';
+
+// ==================== Helper Functions ====================
+
+function createProgram(): CompiledProgram {
+  return {
+    version: '1.0',
+    state: {
+      page: { type: 'number', initial: 1, syncQuery: { param: 'p', mode: 'push' } },
+    },
+    actions: {},
+    view: {
+      kind: 'text',
+      value: {
+        expr: 'bin',
+        op: '+',
+        left: { expr: 'state', name: 'page' },
+        right: { expr: 'lit', value: 1 },
+      },
+    },
+  };
+}
+
+/**
+ * Collects all chunks from a ReadableStream into a single string
+ */
+async function streamToString(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join('');
+}
+
+describe('SSR query-synced state', () => {
+  // ==================== renderToString ====================
+
+  describe('renderToString', () => {
+    it('should initialize a syncQuery field from the route query', async () => {
+      // Act
+      const result = await renderToString(createProgram(), { route: { query: { p: '4' } } });
+
+      // Assert
+      expect(result).toBe('5');
+    });
+
+    it('should fall back to initial when the param does not fit the field type', async () => {
+      // Act
+      const result = await renderToString(createProgram(), { route: { query: { p: 'last' } } });
+
+      // Assert
+      expect(result).toBe('2');
+    });
+  });
+
+  // ==================== renderToStream ====================
+
+  describe('renderToStream', () => {
+    it('should initialize a syncQuery field from the route query', async () => {
+      // Act
+      const result = await streamToString(
+        renderToStream(
+          createProgram(),
+          { streaming: true, flushStrategy: 'immediate' },
+          { route: { query: { p: '9' } } }
+        )
+      );
+
+      // Assert
+      expect(result).toBe('10');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-export { renderToString, type RenderOptions } from './renderer.js';
+export { renderToString, prefetchResources, type RenderOptions } from './renderer.js';
 export {
   renderToStream,
   createHtmlTransformStream,
@@ -11,6 +11,7 @@ import type {
   CompiledElementNode,
   CompiledTextNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
   CompiledMarkdownNode,
   CompiledCodeNode,
@@ -21,13 +22,14 @@ import type {
   CompiledErrorBoundaryNode,
   CompiledExpression,
   CompiledEventHandler,
+  CompiledResourceSnapshot,
 } from '@constela/compiler';
-import { isCookieInitialExpr, evaluate as coreEvaluate } from '@constela/core';
+import { isCookieInitialExpr, evaluate as coreEvaluate, findMatchCase } from '@constela/core';
 import type { StylePreset } from '@constela/core';
 import { parseMarkdownSSRAsync } from './markdown.js';
 import { renderCodeSSR } from './code.js';
 import { escapeHtml } from './utils/escape.js';
-import { toCoreContext, VOID_ELEMENTS, formatValue } from './shared.js';
+import { toCoreContext, createComputedReader, createLocalsWithContext, createI18nTranslator, createResourceReader, fetchResourceData, readPersistedCookie, readSyncedQuery, VOID_ELEMENTS, formatValue } from './shared.js';
 import type { SSRContext } from './shared.js';
 
 // ==================== Type Guards ====================
@@ -57,6 +59,8 @@ async function renderNode(node: CompiledNode, ctx: SSRContext): Promise<string>
       return renderText(node, ctx);
     case 'if':
       return await renderIf(node, ctx);
+    case 'match':
+      return await renderMatch(node, ctx);
     case 'each':
       return await renderEach(node, ctx);
     case 'markdown':
@@ -130,11 +134,14 @@ async function renderElement(node: CompiledElementNode, ctx: SSRContext): Promis
     return `<${tag}${attrs} />`;
   }
 
-  // Render children
+  // Render children (provided context is visible to the children only)
   let childrenHtml = '';
   if (node.children) {
+    const childCtx = node.provide
+      ? { ...ctx, locals: createLocalsWithContext(ctx.locals, node.provide, ctx) }
+      : ctx;
     for (const child of node.children) {
-      childrenHtml += await renderNode(child, ctx);
+      childrenHtml += await renderNode(child, childCtx);
     }
   }
 
@@ -168,6 +175,27 @@ async function renderIf(node: CompiledIfNode, ctx: SSRContext): Promise<string>
   return '<!--if:none-->';
 }
 
+/**
+ * Renders a match node to HTML string.
+ * The leading marker records the rendered branch for hydration.
+ */
+async function renderMatch(node: CompiledMatchNode, ctx: SSRContext): Promise<string> {
+  const value = coreEvaluate(node.value, toCoreContext(ctx));
+  const caseKey = findMatchCase(value, node.cases);
+
+  if (caseKey !== undefined) {
+    const content = await renderNode(node.cases[caseKey]!, ctx);
+    return `<!--match:case:${encodeURIComponent(caseKey)}-->${content}`;
+  }
+
+  if (node.default) {
+    const content = await renderNode(node.default, ctx);
+    return `<!--match:default-->${content}`;
+  }
+
+  return '<!--match:none-->';
+}
+
 /**
  * Renders an each node to HTML string
  */
@@ -256,6 +284,8 @@ async function renderPortal(node: CompiledPortalNode, ctx: SSRContext): Promise<
  *
  * In SSR context, local state is rendered with initial values.
  * The local state is made available to the child node via the context.
+ * Component event handlers (node.on) are ignored: events are only emitted on the client.
+ * Lifecycle hooks (node.lifecycle) only run when the component mounts on the client.
  */
 async function renderLocalState(node: CompiledLocalStateNode, ctx: SSRContext): Promise<string> {
   // Create a map of local state with initial values (evaluate expressions)
@@ -275,13 +305,14 @@ async function renderLocalState(node: CompiledLocalStateNode, ctx: SSRContext):
 
   // Create a new context with local state merged into locals
   // Local state takes precedence over parent locals for same-named keys
+  const locals = { ...ctx.locals, ...localStateValues };
   const childCtx: SSRContext = {
     ...ctx,
-    locals: {
-      ...ctx.locals,
-      ...localStateValues,
-    },
+    locals: node.provide ? createLocalsWithContext(locals, node.provide, ctx) : locals,
   };
+  if (node.computed) {
+    childCtx.computed = createComputedReader(node.computed, childCtx, ctx.computed);
+  }
 
   // Render the child node with the new context
   return await renderNode(node.child, childCtx);
@@ -353,25 +384,28 @@ export interface RenderOptions {
   styles?: Record<string, StylePreset>;
   stateOverrides?: Record<string, unknown>;
   cookies?: Record<string, string>;
+  /** Base URL for resolving relative resource URLs (e.g. the request URL) */
+  baseUrl?: string;
+  /** Milliseconds a resource request may take before it is left to the client (default 5000) */
+  resourceTimeout?: number;
 }
 
 /**
- * Renders a CompiledProgram to an HTML string.
- *
- * @param program - The compiled program to render
- * @param options - Optional render options including route context
- * @returns Promise that resolves to HTML string representation
+ * Creates the root SSR context with initial state and computed values.
  */
-export async function renderToString(
-  program: CompiledProgram,
-  options?: RenderOptions
-): Promise<string> {
+function createRenderContext(program: CompiledProgram, options?: RenderOptions): SSRContext {
   // Initialize state from program's initial values, with optional overrides
   const state = new Map<string, unknown>();
   for (const [name, field] of Object.entries(program.state)) {
     const overrideValue = options?.stateOverrides?.[name];
+    const fromQuery = readSyncedQuery(field.type, field.syncQuery, options?.route?.query);
+    const persisted = readPersistedCookie(name, field.persist, options?.cookies);
     if (overrideValue !== undefined) {
       state.set(name, overrideValue);
+    } else if (fromQuery) {
+      state.set(name, fromQuery.value);
+    } else if (persisted) {
+      state.set(name, persisted.value);
     } else if (isCookieInitialExpr(field.initial)) {
       const cookieValue = options?.cookies?.[field.initial.key];
       state.set(name, cookieValue !== undefined ? cookieValue : field.initial.default);
@@ -393,6 +427,57 @@ export async function renderToString(
     imports: options?.imports ?? program.importData,
     styles: options?.styles,
   };
+  if (program.i18n) {
+    ctx.i18n = createI18nTranslator(program.i18n, ctx, options?.stateOverrides);
+  }
+  if (program.computed) {
+    ctx.computed = createComputedReader(program.computed, ctx);
+  }
+  return ctx;
+}
+
+/**
+ * Fetches the program's resources as they would be requested for this render.
+ * Assign the result to `program.resourceData` to render with it and to
+ * let the client hydrate without refetching.
+ *
+ * @param program - The compiled program declaring resources
+ * @param options - The render options used for the page
+ * @returns Snapshots keyed by resource name
+ */
+export async function prefetchResources(
+  program: CompiledProgram,
+  options?: RenderOptions
+): Promise<Record<string, CompiledResourceSnapshot>> {
+  if (!program.resources) return {};
+  return fetchResourceData(
+    program.resources,
+    createRenderContext(program, options),
+    options?.baseUrl,
+    options?.resourceTimeout
+  );
+}
+
+/**
+ * Renders a CompiledProgram to an HTML string.
+ *
+ * Resources use `program.resourceData` when present and are fetched otherwise.
+ *
+ * @param program - The compiled program to render
+ * @param options - Optional render options including route context
+ * @returns Promise that resolves to HTML string representation
+ */
+export async function renderToString(
+  program: CompiledProgram,
+  options?: RenderOptions
+): Promise<string> {
+  const ctx = createRenderContext(program, options);
+  if (program.resources) {
+    ctx.resources = createResourceReader(
+      program.resourceData ??
+        (await fetchResourceData(program.resources, ctx, options?.baseUrl, options?.resourceTimeout))
+    );
+  }
 
   return await renderNode(program.view, ctx);
 }
@@ -5,8 +5,9 @@
  * and common helpers shared between renderer.ts and streaming.ts.
  */
 
-import { GLOBAL_FUNCTIONS } from '@constela/core';
-import type { EnvironmentAdapter, CoreEvaluationContext, StylePreset } from '@constela/core';
+import { CONTEXT_LOCAL, GLOBAL_FUNCTIONS, LOCALE_STATE, createContextValues, createTranslator, evaluate as coreEvaluate, getPersistKey, getRouteLocale, parsePersistedValue, parseQueryValue, resolveMessageCatalogs } from '@constela/core';
+import type { EnvironmentAdapter, CoreEvaluationContext, StateReader, StatePersist, StateSyncQuery, StylePreset, Translator } from '@constela/core';
+import type { CompiledExpression, CompiledI18n, CompiledResource, CompiledResourceSnapshot } from '@constela/compiler';
 
 // ==================== SSR Context ====================
 
@@ -20,6 +21,9 @@ export interface SSRContext {
   } | undefined;
   imports?: Record<string, unknown> | undefined;
   styles?: Record<string, StylePreset> | undefined;
+  computed?: StateReader | undefined;
+  resources?: StateReader | undefined;
+  i18n?: Translator | undefined;
 }
 
 // ==================== SSR Environment Adapter ====================
@@ -60,10 +64,173 @@ export function toCoreContext(ctx: SSRContext): CoreEvaluationContext {
     route: ctx.route,
     imports: ctx.imports,
     styles: ctx.styles,
+    computed: ctx.computed,
+    resources: ctx.resources,
+    i18n: ctx.i18n,
     env: ssrAdapter,
   };
 }
 
+/**
+ * Creates a reader for program-level or component instance computed values.
+ *
+ * Each computed is evaluated once against the context declaring it (the root
+ * context, or a component's context with its local state) and memoized, since
+ * state does not change during a single SSR pass. Other names are read from
+ * the enclosing reader.
+ */
+export function createComputedReader(
+  definitions: Record<string, unknown>,
+  ctx: SSRContext,
+  parent?: StateReader
+): StateReader {
+  const cache = new Map<string, unknown>();
+  return {
+    get(name: string): unknown {
+      if (cache.has(name)) return cache.get(name);
+      if (!(name in definitions)) return parent?.get(name);
+      const value = coreEvaluate(definitions[name], toCoreContext(ctx));
+      cache.set(name, value);
+      return value;
+    },
+  };
+}
+
+// ==================== Context ====================
+
+/**
+ * Returns the locals for a provider's descendants with the provided context
+ * values added. Each value is evaluated once in the provider's context,
+ * since state does not change during a single SSR pass.
+ */
+export function createLocalsWithContext(
+  locals: Record<string, unknown>,
+  provide: Record<string, CompiledExpression>,
+  ctx: SSRContext
+): Record<string, unknown> {
+  const getters: Record<string, () => unknown> = {};
+  for (const [name, expr] of Object.entries(provide)) {
+    const value = coreEvaluate(expr, toCoreContext(ctx));
+    getters[name] = () => value;
+  }
+  return { ...locals, [CONTEXT_LOCAL]: createContextValues(locals, getters) };
+}
+
+// ==================== I18n ====================
+
+/**
+ * Creates the translator for t expressions, reading the locale state.
+ * A locale selected by the route param replaces the state's locale unless
+ * the locale state was overridden.
+ */
+export function createI18nTranslator(
+  i18n: CompiledI18n,
+  ctx: SSRContext,
+  stateOverrides: Record<string, unknown> | undefined
+): Translator {
+  const routeLocale = getRouteLocale(i18n, ctx.route?.params);
+  if (routeLocale !== undefined && stateOverrides?.[LOCALE_STATE] === undefined) {
+    ctx.state.set(LOCALE_STATE, routeLocale);
+  }
+  const catalogs = resolveMessageCatalogs(i18n.messages, ctx.imports);
+  return createTranslator(i18n.defaultLocale, catalogs, () => ctx.state.get(LOCALE_STATE));
+}
+
+// ==================== Resources ====================
+
+/** Default time an SSR resource request may take before the client fetches it instead */
+export const DEFAULT_RESOURCE_TIMEOUT = 5000;
+
+/**
+ * Fetches program resources for SSR.
+ *
+ * Each URL is evaluated against the root context. Relative URLs are resolved
+ * against `baseUrl`; resources that cannot be fetched (including requests
+ * aborted after `timeout` ms) are left out so the client fetches them after
+ * hydration.
+ *
+ * @returns Snapshots keyed by resource name, to be embedded for hydration
+ */
+export async function fetchResourceData(
+  definitions: Record<string, CompiledResource>,
+  ctx: SSRContext,
+  baseUrl?: string,
+  timeout: number = DEFAULT_RESOURCE_TIMEOUT
+): Promise<Record<string, CompiledResourceSnapshot>> {
+  const entries = await Promise.all(
+    Object.entries(definitions).map(async ([name, definition]) => {
+      const url = coreEvaluate(definition.url, toCoreContext({ ...ctx, locals: {} }));
+      if (url === undefined || url === null || url === '') return undefined;
+      const key = String(url);
+      try {
+        const response = await fetch(baseUrl ? new URL(key, baseUrl) : key, {
+          signal: AbortSignal.timeout(timeout),
+        });
+        if (!response.ok) return undefined;
+        const snapshot: CompiledResourceSnapshot = { key, data: await response.json() };
+        return [name, snapshot] as const;
+      } catch {
+        return undefined;
+      }
+    })
+  );
+  const result: Record<string, CompiledResourceSnapshot> = {};
+  for (const entry of entries) {
+    if (entry) result[entry[0]] = entry[1];
+  }
+  return result;
+}
+
+/**
+ * Creates a reader exposing prefetched resources as `{ data, error, loading }`.
+ * Resources without a snapshot render in their loading state.
+ */
+export function createResourceReader(snapshots: Record<string, CompiledResourceSnapshot>): StateReader {
+  return {
+    get(name: string): unknown {
+      const snapshot = snapshots[name];
+      return snapshot
+        ? { data: snapshot.data, error: null, loading: false }
+        : { data: undefined, error: null, loading: true };
+    },
+  };
+}
+
+// ==================== State Persistence & Query Sync ====================
+
+/**
+ * Reads a cookie-persisted state value from the request cookies.
+ * Only `persist.storage === 'cookie'` is readable during SSR.
+ *
+ * @returns The stored value wrapped in an object, or undefined if unavailable or stale
+ */
+export function readPersistedCookie(
+  name: string,
+  persist: StatePersist | undefined,
+  cookies: Record<string, string> | undefined
+): { value: unknown } | undefined {
+  if (persist?.storage !== 'cookie') return undefined;
+  const raw = cookies?.[getPersistKey(name, persist)];
+  if (raw === undefined) return undefined;
+  return parsePersistedValue(raw, persist);
+}
+
+/**
+ * Reads a syncQuery state value from the request query.
+ *
+ * @returns The parsed value wrapped in an object, or undefined if the param is absent or invalid
+ */
+export function readSyncedQuery(
+  type: string,
+  syncQuery: StateSyncQuery | undefined,
+  query: Record<string, string> | undefined
+): { value: unknown } | undefined {
+  if (!syncQuery) return undefined;
+  const raw = query?.[syncQuery.param];
+  if (raw === undefined) return undefined;
+  return parseQueryValue(type, raw);
+}
+
 // ==================== Constants ====================
 
 /**
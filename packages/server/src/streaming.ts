@@ -18,6 +18,7 @@ import type {
   CompiledElementNode,
   CompiledTextNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
   CompiledMarkdownNode,
   CompiledCodeNode,
@@ -26,10 +27,10 @@ import type {
   CompiledExpression,
   CompiledEventHandler,
 } from '@constela/compiler';
-import { isCookieInitialExpr, evaluate as coreEvaluate } from '@constela/core';
+import { isCookieInitialExpr, evaluate as coreEvaluate, findMatchCase } from '@constela/core';
 import type { StylePreset, StreamingRenderOptions } from '@constela/core';
 import { escapeHtml } from './utils/escape.js';
-import { toCoreContext, VOID_ELEMENTS, formatValue } from './shared.js';
+import { toCoreContext, createComputedReader, createLocalsWithContext, createI18nTranslator, createResourceReader, fetchResourceData, readPersistedCookie, readSyncedQuery, VOID_ELEMENTS, formatValue } from './shared.js';
 import type { SSRContext } from './shared.js';
 
 // ==================== Constants ====================
@@ -65,6 +66,10 @@ export interface StreamRenderOptions {
   stateOverrides?: Record<string, unknown>;
   cookies?: Record<string, string>;
   signal?: AbortSignal;
+  /** Base URL for resolving relative resource URLs (e.g. the request URL) */
+  baseUrl?: string;
+  /** Milliseconds a resource request may take before it is left to the client (default 5000) */
+  resourceTimeout?: number;
 }
 
 // ==================== HTML Transform Options ====================
@@ -169,6 +174,9 @@ async function renderNodeToStream(node: CompiledNode, ctx: StreamingContext): Pr
     case 'if':
       await renderIfToStream(node, ctx);
       break;
+    case 'match':
+      await renderMatchToStream(node, ctx);
+      break;
     case 'each':
       await renderEachToStream(node, ctx);
       break;
@@ -278,10 +286,13 @@ async function renderElementToStream(node: CompiledElementNode, ctx: StreamingCo
   // Write opening tag
   write(ctx, '<' + tag + attrs + '>');
 
-  // Render children
+  // Render children (provided context is visible to the children only)
   if (node.children) {
+    const childCtx = node.provide
+      ? { ...ctx, locals: createLocalsWithContext(ctx.locals, node.provide, ctx) }
+      : ctx;
     for (const child of node.children) {
-      await renderNodeToStream(child, ctx);
+      await renderNodeToStream(child, childCtx);
     }
   }
 
@@ -316,6 +327,26 @@ async function renderIfToStream(node: CompiledIfNode, ctx: StreamingContext): Pr
   }
 }
 
+/**
+ * Renders a match node to the stream
+ */
+async function renderMatchToStream(node: CompiledMatchNode, ctx: StreamingContext): Promise<void> {
+  if (checkAbort(ctx)) return;
+
+  const value = coreEvaluate(node.value, toCoreContext(ctx));
+  const caseKey = findMatchCase(value, node.cases);
+
+  if (caseKey !== undefined) {
+    write(ctx, `<!--match:case:${encodeURIComponent(caseKey)}-->`);
+    await renderNodeToStream(node.cases[caseKey]!, ctx);
+  } else if (node.default) {
+    write(ctx, '<!--match:default-->');
+    await renderNodeToStream(node.default, ctx);
+  } else {
+    write(ctx, '<!--match:none-->');
+  }
+}
+
 /**
  * Renders an each node to the stream
  */
@@ -397,6 +428,8 @@ async function renderPortalToStream(node: CompiledPortalNode, ctx: StreamingCont
 
 /**
  * Renders a local state node to the stream
+ * Component event handlers (node.on) are ignored: events are only emitted on the client.
+ * Lifecycle hooks (node.lifecycle) only run when the component mounts on the client.
  */
 async function renderLocalStateToStream(node: CompiledLocalStateNode, ctx: StreamingContext): Promise<void> {
   // Create a map of local state with initial values (evaluate expressions)
@@ -415,13 +448,14 @@ async function renderLocalStateToStream(node: CompiledLocalStateNode, ctx: Strea
   }
 
   // Create a new context with local state merged into locals
+  const locals = { ...ctx.locals, ...localStateValues };
   const childCtx: StreamingContext = {
     ...ctx,
-    locals: {
-      ...ctx.locals,
-      ...localStateValues,
-    },
+    locals: node.provide ? createLocalsWithContext(locals, node.provide, ctx) : locals,
   };
+  if (node.computed) {
+    childCtx.computed = createComputedReader(node.computed, childCtx, ctx.computed);
+  }
 
   // Render the child node with the new context
   await renderNodeToStream(node.child, childCtx);
@@ -447,8 +481,14 @@ export function renderToStream(
   for (const [name, field] of Object.entries(program.state)) {
     const stateField = field as { type: string; initial: unknown };
     const overrideValue = options?.stateOverrides?.[name];
+    const fromQuery = readSyncedQuery(field.type, field.syncQuery, options?.route?.query);
+    const persisted = readPersistedCookie(name, field.persist, options?.cookies);
     if (overrideValue !== undefined) {
       state.set(name, overrideValue);
+    } else if (fromQuery) {
+      state.set(name, fromQuery.value);
+    } else if (persisted) {
+      state.set(name, persisted.value);
     } else if (isCookieInitialExpr(stateField.initial)) {
       const cookieInitial = stateField.initial as { key: string; default: string };
       const cookieValue = options?.cookies?.[cookieInitial.key];
@@ -482,6 +522,18 @@ export function renderToStream(
       const ctx: StreamingContext = signal
         ? { ...baseCtx, signal }
         : baseCtx;
+      if (program.i18n) {
+        ctx.i18n = createI18nTranslator(program.i18n, ctx, options?.stateOverrides);
+      }
+      if (program.computed) {
+        ctx.computed = createComputedReader(program.computed, ctx);
+      }
+      if (program.resources) {
+        ctx.resources = createResourceReader(
+          program.resourceData ??
+            (await fetchResourceData(program.resources, ctx, options?.baseUrl, options?.resourceTimeout))
+        );
+      }
 
       // Handle abort signal
       if (signal) {
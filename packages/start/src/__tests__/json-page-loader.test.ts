@@ -921,6 +921,232 @@ describe('convertToCompiledProgram', () => {
       expect(program.actions.increment.name).toBe('increment');
       expect(program.actions.increment.steps).toHaveLength(1);
     });
+
+    it('should lower model bindings into props and generated actions', async () => {
+      // Arrange
+      const pageWithModel: JsonPage = {
+        version: '1.0',
+        state: {
+          name: { type: 'string', initial: '' },
+        },
+        actions: [{ name: 'save', steps: [] }],
+        view: { kind: 'element', tag: 'input', model: { target: 'name' } },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/form.json',
+        page: pageWithModel,
+        resolvedImports: {},
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.view).toEqual({
+        kind: 'element',
+        tag: 'input',
+        props: {
+          value: { expr: 'state', name: 'name' },
+          $model: { event: 'input', action: '$model.name', payload: { expr: 'var', name: 'value' } },
+        },
+      });
+      expect(Object.keys(program.actions)).toEqual(['save', '$model.name']);
+    });
+
+    it('should include forms with default empty rules', async () => {
+      // Arrange
+      const pageWithForm: JsonPage = {
+        version: '1.0',
+        state: {
+          email: { type: 'string', initial: '' },
+        },
+        forms: {
+          contact: {
+            fields: {
+              email: { target: 'email', rules: [{ type: 'required' }] },
+              note: { target: 'email' },
+            },
+          },
+        },
+        view: { kind: 'text', value: { expr: 'lit', value: '' } },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/contact.json',
+        page: pageWithForm,
+        resolvedImports: {},
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.forms).toEqual({
+        contact: {
+          fields: {
+            email: { target: 'email', rules: [{ type: 'required' }] },
+            note: { target: 'email', rules: [] },
+          },
+        },
+      });
+    });
+
+    it('should wrap components declaring emits with their event handlers', async () => {
+      // Arrange
+      const pageWithEvents: JsonPage = {
+        version: '1.0',
+        state: { selected: { type: 'string', initial: '' } },
+        actions: [{ name: 'select', steps: [] }],
+        components: {
+          Option: {
+            params: { value: { type: 'string' } },
+            emits: ['pick'],
+            localActions: [
+              { name: 'choose', steps: [{ do: 'emit', event: 'pick', payload: { expr: 'param', name: 'value' } }] },
+            ],
+            view: { kind: 'element', tag: 'li', props: { onClick: { event: 'click', action: 'choose' } } },
+          },
+        },
+        view: {
+          kind: 'component',
+          name: 'Option',
+          props: { value: { expr: 'lit', value: 'a' } },
+          on: { pick: { event: 'pick', action: 'select' } },
+        },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/options.json',
+        page: pageWithEvents,
+        resolvedImports: {},
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.view).toMatchObject({
+        kind: 'localState',
+        state: {},
+        actions: {
+          choose: { name: 'choose', steps: [{ do: 'emit', event: 'pick', payload: { expr: 'lit', value: 'a' } }] },
+        },
+        on: { pick: { event: 'pick', action: 'select' } },
+        child: { kind: 'element', tag: 'li' },
+      });
+    });
+
+    it('should wrap components given provide values and substitute params', async () => {
+      // Arrange
+      const pageWithContext: JsonPage = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Label: {
+            view: { kind: 'text', value: { expr: 'context', name: 'theme' } },
+          },
+          Panel: {
+            params: { theme: { type: 'string' } },
+            view: {
+              kind: 'element',
+              tag: 'div',
+              provide: { size: { expr: 'param', name: 'theme' } },
+              children: [
+                { kind: 'component', name: 'Label', provide: { theme: { expr: 'param', name: 'theme' } } },
+              ],
+            },
+          },
+        },
+        view: { kind: 'component', name: 'Panel', props: { theme: { expr: 'lit', value: 'dark' } } },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/panel.json',
+        page: pageWithContext,
+        resolvedImports: {},
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.view).toMatchObject({
+        kind: 'element',
+        tag: 'div',
+        provide: { size: { expr: 'lit', value: 'dark' } },
+        children: [
+          {
+            kind: 'localState',
+            provide: { theme: { expr: 'lit', value: 'dark' } },
+            child: { kind: 'text', value: { expr: 'context', name: 'theme' } },
+          },
+        ],
+      });
+    });
+
+    it('should wrap components given lifecycle hooks', async () => {
+      // Arrange
+      const pageWithLifecycle: JsonPage = {
+        version: '1.0',
+        state: {},
+        actions: [],
+        components: {
+          Clock: {
+            lifecycle: { onMount: 'start' },
+            localActions: [
+              { name: 'start', steps: [{ do: 'interval', ms: { expr: 'lit', value: 1000 }, action: 'start' }] },
+            ],
+            view: { kind: 'element', tag: 'time' },
+          },
+        },
+        view: { kind: 'component', name: 'Clock' },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/clock.json',
+        page: pageWithLifecycle,
+        resolvedImports: {},
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.view).toMatchObject({
+        kind: 'localState',
+        lifecycle: { onMount: 'start' },
+        actions: { start: { name: 'start' } },
+        child: { kind: 'element', tag: 'time' },
+      });
+    });
+
+    it('should include i18n and add the locale state', async () => {
+      // Arrange
+      const i18n = {
+        defaultLocale: 'en',
+        localeCookie: 'lang',
+        messages: { en: { title: 'Shop' }, ja: { expr: 'import' as const, name: 'ja' } },
+      };
+      const pageInfo: PageInfo = {
+        filePath: '/project/src/pages/shop.json',
+        page: { version: '1.0', i18n, view: { kind: 'text', value: { expr: 't', key: 'title' } } },
+        resolvedImports: { ja: { title: 'ショップ' } },
+        loadedData: {},
+      };
+
+      // Act
+      const program = await convertToCompiledProgram(pageInfo);
+
+      // Assert
+      expect(program.i18n).toEqual(i18n);
+      expect(program.state['locale']).toEqual({
+        type: 'string',
+        initial: { expr: 'cookie', key: 'lang', default: 'en' },
+      });
+      expect(program.importData).toEqual({ ja: { title: 'ショップ' } });
+    });
   });
 
   describe('with components', () => {
@@ -17,6 +17,7 @@ import type {
   CompiledNode,
   CompiledElementNode,
   CompiledIfNode,
+  CompiledMatchNode,
   CompiledEachNode,
 } from '@constela/compiler';
 import type { IslandStrategy, IslandStrategyOptions } from '@constela/core';
@@ -481,6 +482,17 @@ function collectIslandsFromNode(
       break;
     }
 
+    case 'match': {
+      const matchNode = node as CompiledMatchNode;
+      for (const caseNode of Object.values(matchNode.cases)) {
+        collectIslandsFromNode(caseNode, islands);
+      }
+      if (matchNode.default) {
+        collectIslandsFromNode(matchNode.default, islands);
+      }
+      break;
+    }
+
     case 'each': {
       const eachNode = node as CompiledEachNode;
       collectIslandsFromNode(eachNode.body, islands);
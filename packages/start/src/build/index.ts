@@ -3,7 +3,7 @@ import { mkdir, writeFile, cp, readdir, stat } from 'node:fs/promises';
 import { join, dirname, relative, basename, isAbsolute, resolve } from 'node:path';
 import { resolveImports } from '../utils/import-resolver.js';
 import type { CompiledProgram } from '@constela/compiler';
-import { type ViewNode, isCookieInitialExpr } from '@constela/core';
+import { type ViewNode, type GlobalEventHandler, isCookieInitialExpr } from '@constela/core';
 import type { BuildOptions, ScannedRoute } from '../types.js';
 import { scanRoutes, filePathToPattern } from '../router/file-router.js';
 import {
@@ -62,6 +62,7 @@ interface LayoutDefinition {
     onMount?: string;
     onUnmount?: string;
   };
+  globalEvents?: GlobalEventHandler[];
 }
 
 /**
@@ -639,6 +640,13 @@ async function processLayouts(
     };
   }
 
+  // Collect global events from layouts (outermost first) and the page
+  const mergedGlobalEvents: GlobalEventHandler[] = [];
+  for (let i = layoutChain.length - 1; i >= 0; i--) {
+    mergedGlobalEvents.push(...(layoutChain[i]?.globalEvents ?? []));
+  }
+  mergedGlobalEvents.push(...(pageInfo.page.globalEvents ?? []));
+
   // Extract MDX content slots from loadedData
   // Try to find MDX content in any data source that has content with slug
   let namedSlots: Record<string, unknown> | undefined;
@@ -732,6 +740,7 @@ async function processLayouts(
       state: Object.keys(mergedState).length > 0 ? mergedState : undefined,
       actions: mergedActions.length > 0 ? mergedActions : undefined,
       lifecycle: mergedLifecycle,
+      globalEvents: mergedGlobalEvents.length > 0 ? mergedGlobalEvents : undefined,
     },
   };
 
@@ -445,6 +445,7 @@ export async function createDevServer(
               // Create SSR context
               const ssrContext = {
                 url: pathname,
+                baseUrl: url.href,
                 params: match.params,
                 query: url.searchParams,
                 cookies,
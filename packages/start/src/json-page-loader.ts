@@ -11,8 +11,10 @@
 
 import { existsSync, readFileSync } from 'node:fs';
 import { dirname, join, relative, resolve } from 'node:path';
-import type { CompiledProgram, CompiledNode, CompiledAction, CompiledExpression } from '@constela/compiler';
-import type { DataSource, StaticPathsDefinition, Expression, ViewNode, ActionDefinition, ComponentDef, ComponentNode, ElementNode, IfNode, EachNode, StateField, LocalActionDefinition, ActionStep } from '@constela/core';
+import type { CompiledProgram, CompiledNode, CompiledAction, CompiledExpression, CompiledEventHandler, CompiledLifecycleHooks, CompiledStateField, CompiledForm, CompiledFormField, CompiledFormRule, ModelLoweringInput } from '@constela/compiler';
+import { lowerModelBindings } from '@constela/compiler';
+import { LOCALE_STATE, createLocaleStateField } from '@constela/core';
+import type { DataSource, StaticPathsDefinition, Expression, ViewNode, ActionDefinition, ComponentDef, ComponentNode, ElementNode, IfNode, MatchNode, EachNode, StateField, LocalActionDefinition, ActionStep, WatchDefinition, ResourceDefinition, FormDefinition, I18nConfig, GlobalEventHandler } from '@constela/core';
 import { DataLoader } from './data/loader.js';
 import { resolveImports } from './utils/import-resolver.js';
 
@@ -61,6 +63,10 @@ export interface JsonPage {
   data?: Record<string, DataSource> | undefined;
   getStaticPaths?: StaticPathsDefinition | undefined;
   state?: Record<string, unknown> | undefined;
+  computed?: Record<string, Expression> | undefined;
+  resources?: Record<string, ResourceDefinition> | undefined;
+  forms?: Record<string, FormDefinition> | undefined;
+  i18n?: I18nConfig | undefined;
   actions?: unknown[] | Record<string, unknown> | undefined;
   view: ViewNode;
   components?: Record<string, unknown> | undefined;
@@ -69,6 +75,8 @@ export interface JsonPage {
     onMount?: string;
     onUnmount?: string;
   } | undefined;
+  watch?: WatchDefinition[] | undefined;
+  globalEvents?: GlobalEventHandler[] | undefined;
   /** External module import map for SSG builds (e.g., CDN URLs for monaco-editor) */
   externalImports?: Record<string, CDNUrl> | undefined;
 }
@@ -610,10 +618,32 @@ function substituteParamExpr(
     };
   }
 
+  // Recursively substitute in translate expression params
+  if (expr.expr === 't' && expr.params) {
+    return {
+      ...expr,
+      params: Object.fromEntries(
+        Object.entries(expr.params).map(([key, val]) => [key, substituteParamExpr(val, props)])
+      ),
+    };
+  }
+
   // For lit, state, var, route, import, data, ref - return as-is
   return expr;
 }
 
+/**
+ * Substitute param expressions with prop values in each expression of a record
+ */
+function substituteParamsInRecord(
+  record: Record<string, Expression>,
+  props: Record<string, Expression>
+): Record<string, Expression> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, substituteParamExpr(value, props)])
+  );
+}
+
 /**
  * Substitute param expressions with prop values in a view node
  */
@@ -650,6 +680,7 @@ function substituteParamsInNode(
       return {
         ...elementNode,
         props: newProps,
+        ...(elementNode.provide && { provide: substituteParamsInRecord(elementNode.provide, props) }),
         children: newChildren,
       } as ViewNode;
     }
@@ -667,6 +698,24 @@ function substituteParamsInNode(
       return result;
     }
 
+    case 'match': {
+      const matchNode = node as MatchNode;
+      const result: MatchNode = {
+        ...matchNode,
+        value: substituteParamExpr(matchNode.value, props),
+        cases: Object.fromEntries(
+          Object.entries(matchNode.cases).map(([key, caseNode]) => [
+            key,
+            substituteParamsInNode(caseNode, props, components),
+          ])
+        ),
+      };
+      if (matchNode.default) {
+        result.default = substituteParamsInNode(matchNode.default, props, components);
+      }
+      return result;
+    }
+
     case 'each': {
       const eachNode = node as EachNode;
       const result: EachNode = {
@@ -699,6 +748,7 @@ function substituteParamsInNode(
       return {
         ...componentNode,
         props: substitutedProps,
+        ...(componentNode.provide && { provide: substituteParamsInRecord(componentNode.provide, props) }),
       };
     }
 
@@ -755,12 +805,24 @@ function convertViewNode(
       const expanded = expandComponent(componentNode, components);
       const expandedView = convertViewNode(expanded, components);
 
-      // Wrap with localState if present
-      if (componentDef?.localState && Object.keys(componentDef.localState).length > 0) {
+      // Wrap with localState if present (watch, lifecycle hooks, emitted events and provided context are scoped to the component instance)
+      const hasLocalState = !!componentDef?.localState && Object.keys(componentDef.localState).length > 0;
+      const hasWatch = !!componentDef?.watch && componentDef.watch.length > 0;
+      const hasLifecycle = !!componentDef?.lifecycle?.onMount || !!componentDef?.lifecycle?.onUnmount;
+      const hasEmits = !!componentDef?.emits && componentDef.emits.length > 0;
+      const hasProvide = !!componentNode.provide && Object.keys(componentNode.provide).length > 0;
+      if (componentDef && (hasLocalState || hasWatch || hasLifecycle || hasEmits || hasProvide)) {
+        const componentProps = (componentNode.props ?? {}) as Record<string, Expression>;
         return {
           kind: 'localState',
-          state: convertLocalState(componentDef.localState, (componentNode.props ?? {}) as Record<string, Expression>),
-          actions: convertLocalActions(componentDef.localActions ?? []),
+          state: convertLocalState(componentDef.localState ?? {}, componentProps),
+          actions: convertLocalActions(componentDef.localActions ?? [], componentProps),
+          ...(componentDef.watch && componentDef.watch.length > 0 && { watch: componentDef.watch }),
+          ...(hasLifecycle && { lifecycle: componentDef.lifecycle as CompiledLifecycleHooks }),
+          ...(componentNode.on && Object.keys(componentNode.on).length > 0 && {
+            on: componentNode.on as Record<string, CompiledEventHandler>,
+          }),
+          ...(hasProvide && { provide: componentNode.provide as Record<string, CompiledExpression> }),
           child: expandedView,
         };
       }
@@ -789,6 +851,20 @@ function convertViewNode(
       } as unknown as CompiledNode;
     }
 
+    case 'match': {
+      const matchNode = node as MatchNode;
+      return {
+        ...matchNode,
+        cases: Object.fromEntries(
+          Object.entries(matchNode.cases).map(([key, caseNode]) => [
+            key,
+            convertViewNode(caseNode, components),
+          ])
+        ),
+        default: matchNode.default ? convertViewNode(matchNode.default, components) : undefined,
+      } as unknown as CompiledNode;
+    }
+
     case 'each': {
       const eachNode = node as EachNode;
       return {
@@ -848,22 +924,43 @@ function convertActions(actions: unknown[] | Record<string, unknown> | undefined
 /**
  * Convert state to compiled format
  */
-function convertState(state: Record<string, unknown> | undefined): Record<string, { type: string; initial: unknown }> {
+function convertState(state: Record<string, unknown> | undefined): Record<string, CompiledStateField> {
   if (!state || Object.keys(state).length === 0) {
     return {};
   }
 
-  const result: Record<string, { type: string; initial: unknown }> = {};
+  const result: Record<string, CompiledStateField> = {};
   for (const [name, field] of Object.entries(state)) {
-    const stateField = field as { type: string; initial: unknown };
+    const stateField = field as StateField;
     result[name] = {
       type: stateField.type,
       initial: stateField.initial,
+      ...(stateField.persist && { persist: stateField.persist }),
+      ...(stateField.syncQuery && { syncQuery: stateField.syncQuery }),
     };
   }
   return result;
 }
 
+/**
+ * Convert forms to compiled format (fields always carry a rules list)
+ */
+function convertForms(forms: Record<string, FormDefinition>): Record<string, CompiledForm> {
+  const result: Record<string, CompiledForm> = {};
+  for (const [name, form] of Object.entries(forms)) {
+    const fields: Record<string, CompiledFormField> = {};
+    for (const [fieldName, field] of Object.entries(form.fields)) {
+      fields[fieldName] = {
+        target: field.target,
+        ...(field.path && { path: field.path }),
+        rules: (field.rules ?? []) as CompiledFormRule[],
+      };
+    }
+    result[name] = { fields, ...(form.messages && { messages: form.messages }) };
+  }
+  return result;
+}
+
 /**
  * Convert local state to compiled format
  */
@@ -919,13 +1016,23 @@ function convertActionStep(step: ActionStep): CompiledAction['steps'][number] {
  * Convert local actions to compiled format
  */
 function convertLocalActions(
-  localActions: LocalActionDefinition[]
+  localActions: LocalActionDefinition[],
+  props?: Record<string, Expression>
 ): Record<string, { name: string; steps: CompiledAction['steps'] }> {
   const result: Record<string, { name: string; steps: CompiledAction['steps'] }> = {};
   for (const action of localActions) {
     result[action.name] = {
       name: action.name,
-      steps: action.steps.map(convertActionStep),
+      steps: action.steps.map((step): CompiledAction['steps'][number] => {
+        if (step.do !== 'emit') return convertActionStep(step);
+        // Emit payloads may reference the component's params
+        const payload = step.payload && props ? substituteParamExpr(step.payload, props) : step.payload;
+        return {
+          do: 'emit',
+          event: step.event,
+          ...(payload && { payload: payload as CompiledExpression }),
+        };
+      }),
     };
   }
   return result;
@@ -937,14 +1044,19 @@ function convertLocalActions(
 export async function convertToCompiledProgram(pageInfo: PageInfo): Promise<CompiledProgram> {
   const { page, resolvedImports, loadedData } = pageInfo;
 
-  // Parse components from page definition
-  const components = (page.components || {}) as Record<string, ComponentDef>;
+  // Lower model bindings, collecting the generated actions separately from the page actions
+  const lowered = lowerModelBindings<ModelLoweringInput>({
+    view: page.view,
+    components: (page.components || {}) as Record<string, ComponentDef>,
+    ...(page.state && { state: page.state as Record<string, StateField> }),
+  });
+  const components = lowered.components ?? {};
 
   const program: CompiledProgram = {
     version: '1.0',
     state: convertState(page.state),
-    actions: convertActions(page.actions),
-    view: convertViewNode(page.view, components),
+    actions: { ...convertActions(page.actions), ...convertActions(lowered.actions) },
+    view: convertViewNode(lowered.view, components),
   };
 
   // Add route if present
@@ -990,11 +1102,44 @@ export async function convertToCompiledProgram(pageInfo: PageInfo): Promise<Comp
     };
   }
 
+  // Add computed if present
+  if (page.computed && Object.keys(page.computed).length > 0) {
+    program.computed = page.computed as NonNullable<CompiledProgram['computed']>;
+  }
+
+  // Add resources if present
+  if (page.resources && Object.keys(page.resources).length > 0) {
+    program.resources = page.resources as NonNullable<CompiledProgram['resources']>;
+  }
+
+  // Add forms if present
+  if (page.forms && Object.keys(page.forms).length > 0) {
+    program.forms = convertForms(page.forms);
+  }
+
+  // Add i18n if present, with the locale state unless the page declares it
+  if (page.i18n) {
+    program.i18n = page.i18n;
+    if (!(LOCALE_STATE in program.state)) {
+      program.state[LOCALE_STATE] = createLocaleStateField(page.i18n);
+    }
+  }
+
   // Add lifecycle if present
   if (page.lifecycle) {
     program.lifecycle = page.lifecycle;
   }
 
+  // Add watch if present
+  if (page.watch && page.watch.length > 0) {
+    program.watch = page.watch;
+  }
+
+  // Add global events if present
+  if (page.globalEvents && page.globalEvents.length > 0) {
+    program.globalEvents = page.globalEvents;
+  }
+
   return program;
 }
 
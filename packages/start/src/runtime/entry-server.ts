@@ -5,13 +5,15 @@
 
 import type { CompiledProgram, CompiledExpression, CompiledRouteDefinition } from '@constela/compiler';
 import type { ThemeConfig, ColorScheme } from '@constela/core';
-import { renderToString, type RenderOptions } from '@constela/server';
+import { renderToString, prefetchResources, type RenderOptions } from '@constela/server';
 import { generateThemeCss, generateThemeScript, getHtmlThemeClass } from './theme.js';
 
 // ==================== Types ====================
 
 export interface SSRContext {
   url: string;
+  /** Absolute request URL for resolving relative resource URLs (defaults to url) */
+  baseUrl?: string;
   params: Record<string, string>;
   query: URLSearchParams;
   cookies?: Record<string, string>;
@@ -92,6 +94,12 @@ export async function renderPage(
     options.imports = program.importData;
   }
 
+  // Prefetch resources per request; the hydration script embeds them via the program
+  if (program.resources) {
+    options.baseUrl = ctx.baseUrl ?? ctx.url;
+    program.resourceData = await prefetchResources(program, options);
+  }
+
   return await renderToString(program, options);
 }
 
@@ -0,0 +1,55 @@
+/**
+ * Test module for entry-server.ts query-synced state.
+ *
+ * Coverage:
+ * - renderPage initializes syncQuery fields from SSRContext.query
+ * - renderPage keeps the initial value when the param is absent
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CompiledProgram } from '@constela/compiler';
+import { renderPage } from '../../src/runtime/entry-server.js';
+
+// ==================== Test Fixtures ====================
+
+/**
+ * Creates a program whose `sort` field is synced to the `sort` query param
+ */
+function createProgram(): CompiledProgram {
+  return {
+    version: '1.0',
+    state: {
+      sort: { type: 'string', initial: 'name', syncQuery: { param: 'sort', mode: 'replace' } },
+    },
+    actions: {},
+    view: { kind: 'text', value: { expr: 'state', name: 'sort' } },
+  };
+}
+
+// ==================== Tests ====================
+
+describe('renderPage with syncQuery state', () => {
+  it('should initialize syncQuery fields from SSRContext.query', async () => {
+    // Arrange
+    const ctx = { url: '/products', params: {}, query: new URLSearchParams('sort=price') };
+
+    // Act
+    const html = await renderPage(createProgram(), ctx);
+
+    // Assert
+    expect(html).toBe('price');
+  });
+
+  it('should keep the initial value when the param is absent', async () => {
+    // Arrange
+    const ctx = { url: '/products', params: {}, query: new URLSearchParams() };
+
+    // Act
+    const html = await renderPage(createProgram(), ctx);
+
+    // Assert
+    expect(html).toBe('name');
+  });
+});
@@ -8,6 +8,7 @@
  * - wrapHtml theme anti-flash script support (themeStorageKey option)
  * - generateHydrationScript backward compatibility (no widgets)
  * - generateHydrationScript widget mounting support
+ * - renderPage resource prefetching
  *
  * @vitest-environment node
  */
@@ -864,4 +865,42 @@ describe('renderPage', () => {
       expect(html).toContain('Static content');
     });
   });
+
+  describe('resource prefetching', () => {
+    it('should prefetch resources against baseUrl and attach them for hydration', async () => {
+      // Arrange
+      const { renderPage } = await import('../../src/runtime/entry-server.js');
+      const { vi } = await import('vitest');
+      const originalFetch = globalThis.fetch;
+      const mockFetch = vi.fn(async () => new Response(JSON.stringify({ title: 'Fetched' })));
+      globalThis.fetch = mockFetch;
+
+      const program = {
+        version: '1.0',
+        state: {},
+        actions: {},
+        resources: { post: { url: { expr: 'lit', value: '/api/post' } } },
+        view: {
+          kind: 'text',
+          value: { expr: 'get', base: { expr: 'resource', name: 'post', field: 'data' }, path: 'title' },
+        },
+      } as unknown as CompiledProgram;
+
+      const ssrContext = {
+        url: '/posts',
+        baseUrl: 'http://localhost:3000/posts',
+        params: {},
+        query: new URLSearchParams(),
+      };
+
+      // Act
+      const html = await renderPage(program, ssrContext);
+      globalThis.fetch = originalFetch;
+
+      // Assert
+      expect(html).toContain('Fetched');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(program.resourceData).toEqual({ post: { key: '/api/post', data: { title: 'Fetched' } } });
+    });
+  });
 });